@@ -7,13 +7,40 @@ import ModelSelector from '@/components/ModelSelector';
 import ResultsTable from '@/components/ResultsTable';
 import VisualizationTab from '@/components/VisualizationTab';
 import EvaluationTab from '@/components/EvaluationTab';
+import TimelineTable from '@/components/TimelineTable';
+import InverseQueryPanel from '@/components/InverseQueryPanel';
+import ScenarioPanel from '@/components/ScenarioPanel';
 import AboutTab from '@/components/AboutTab';
-import { fetchQuakeData, calculateInitialMagnitudeRanges } from '@/lib/api';
-import { calculateDurationForecast, validateModelParameters } from '@/lib/calculations';
-import type { ModelType, ModelParameters, CalculationResults } from '@/types';
-import { MODEL_PRESETS, MODEL_INFO } from '@/types';
+import SequenceUpdatePanel from '@/components/SequenceUpdatePanel';
+import { fetchQuakeData, fetchObservedCatalog, calculateInitialMagnitudeThresholds } from '@/lib/api';
+import {
+  calculateWindowForecast,
+  calculateLargestAftershock,
+  validateModelParameters,
+  validateMagnitudeThresholds,
+  validateForecastWindows,
+  validateSourceEvents,
+  validateMagnitudeCandidates,
+  validateMaxMagnitude,
+  normalMagnitudeCandidates,
+  normaliseMagnitudeCandidates,
+  magnitudeSpreadBounds,
+  magnitudeBinLabels,
+  forecastWindowLabel,
+  formatPercentage,
+} from '@/lib/calculations';
+import { calculateEtasWindowForecast, calculateEtasLargestAftershock, etasFirstGenerationParams, validateEtasParameters } from '@/lib/etas';
+import { calculateEnsembleWindowForecast, calculateEnsembleLargestAftershock, ensembleComponents, formatEnsembleWeights, validateEnsembleWeights } from '@/lib/ensemble';
+import { KERNEL_DEFAULTS, formatTemporalKernel, validateTemporalKernel } from '@/lib/kernels';
+import { validateIncompleteness, withRecordedNumbers } from '@/lib/incompleteness';
+import { evaluationRadiusKm, isInRegion, regionBbox, type EvalRegion } from '@/lib/evaluation';
+import { suggestModelType } from '@/lib/regime';
+import { aftershockTimesDays, updateSequenceParameters } from '@/lib/bayesian';
+import { fitOmoriUtsu, omoriFitToModelParams, type OmoriFit } from '@/lib/fitting';
+import type { ModelType, ModelParameters, EtasParameters, CalculationResults, SequenceUpdate, ParameterUncertainty, ForecastWindow, TimeUnit, SourceEvent, SourceEventInput, MagnitudeCandidate, MagnitudeUncertaintyInput, MaxMagnitude, TemporalKernel, ShortTermIncompleteness, PresetModelType, EnsembleMember, EnsembleComponent, SavedPreset } from '@/types';
+import { MODEL_PRESETS, MODEL_INFO, ETAS_DEFAULTS, ENSEMBLE_DEFAULT_WEIGHTS, TIME_UNIT_DAYS, MAX_FORECAST_DAYS } from '@/types';
 
-type ResultsViewTab = 'table' | 'visualization' | 'evaluation' | 'about';
+type ResultsViewTab = 'table' | 'timeline' | 'visualization' | 'evaluation' | 'about';
 
 interface ParameterWarning {
   message: string;
@@ -24,6 +51,12 @@ interface ValidationError {
   message: string;
 }
 
+const NO_MAGNITUDE_UNCERTAINTY: MagnitudeUncertaintyInput = {
+  mode: 'none',
+  sd: '0.2',
+  candidates: [{ magnitude: '', weight: '1' }, { magnitude: '', weight: '1' }],
+};
+
 // Demo earthquake data - 2016 M7.8 Kaikoura earthquake
 // This is a well-known NZ earthquake that makes a good example
 const DEMO_EARTHQUAKE = {
@@ -33,10 +66,64 @@ const DEMO_EARTHQUAKE = {
   quakeTime: '2016-11-13T11:02:56.000Z',
   latitude: -42.69,
   longitude: 173.02,
+  depth: 15,
   location: 'Kaikōura, New Zealand',
   description: 'The 2016 Kaikōura earthquake was an M7.8 event in New Zealand\'s South Island. Its long, well-recorded aftershock sequence makes it a good test case for the forecast model.',
 };
 
+/** Entered source events as magnitudes and days after the mainshock (NaN where incomplete) */
+function parseSourceEvents(sources: SourceEventInput[], quakeMs: number): SourceEvent[] {
+  return sources.map(s => ({
+    magnitude: parseFloat(s.magnitude),
+    timeDays: (new Date(s.time).getTime() - quakeMs) / (1000 * 60 * 60 * 24),
+  }));
+}
+
+/**
+ * Candidate mainshock magnitudes from the entered uncertainty (NaN where
+ * incomplete), or undefined when the magnitude is taken as exact
+ */
+function parseMagnitudeUncertainty(input: MagnitudeUncertaintyInput, magnitude: number): MagnitudeCandidate[] | undefined {
+  if (input.mode === 'sd') return normalMagnitudeCandidates(magnitude, parseFloat(input.sd));
+  if (input.mode === 'candidates') {
+    return input.candidates.map(c => ({ magnitude: parseFloat(c.magnitude), weight: parseFloat(c.weight) }));
+  }
+  return undefined;
+}
+
+const SAVED_PRESETS_KEY = 'aftershock-saved-presets';
+
+/** Presets saved from regional calibration on earlier visits (client-side only) */
+function readSavedPresets(): SavedPreset[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(SAVED_PRESETS_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isSavedPreset) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Whether a stored entry is a preset that can be loaded; anything else is dropped */
+function isSavedPreset(entry: unknown): entry is SavedPreset {
+  if (typeof entry !== 'object' || entry === null) return false;
+  const { name, params, description, savedAt } = entry as Record<string, unknown>;
+  if (typeof name !== 'string' || typeof description !== 'string' || typeof savedAt !== 'string') return false;
+  if (typeof params !== 'object' || params === null) return false;
+  const { a, b, c, p } = params as Record<string, unknown>;
+  return [a, b, c, p].every(x => typeof x === 'number' && Number.isFinite(x));
+}
+
+function persistSavedPresets(presets: SavedPreset[]) {
+  try {
+    localStorage.setItem(SAVED_PRESETS_KEY, JSON.stringify(presets));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
 export default function Home() {
   // State for quake data
   const [quakeId, setQuakeId] = useState('2022p138188');
@@ -46,6 +133,7 @@ export default function Home() {
   const [isLoading, setIsLoading] = useState(false);
   const [loadedQuakeInfo, setLoadedQuakeInfo] = useState<{ magnitude: number; time: string } | null>(null);
   const [epicenter, setEpicenter] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [quakeDepth, setQuakeDepth] = useState<number | null>(null);
 
   // State for demo mode
   const [isDemoMode, setIsDemoMode] = useState(false);
@@ -53,14 +141,43 @@ export default function Home() {
   // State for model parameters
   const [modelType, setModelType] = useState<ModelType>('nz');
   const [customParams, setCustomParams] = useState<ModelParameters>(MODEL_PRESETS.nz);
+  const [etasParams, setEtasParams] = useState<EtasParameters>(ETAS_DEFAULTS);
+  const [ensembleWeights, setEnsembleWeights] = useState<Record<PresetModelType, number>>(ENSEMBLE_DEFAULT_WEIGHTS);
+  // Named parameter sets from regional calibration, persisted across visits
+  const [savedPresets, setSavedPresets] = useState<SavedPreset[]>([]);
+
+  // Sequence-specific posterior; cleared whenever the inputs it was fitted to change
+  const [sequenceUpdate, setSequenceUpdate] = useState<SequenceUpdate | null>(null);
+  const [omoriFit, setOmoriFit] = useState<OmoriFit | null>(null);
+
+  // Spread of a and p carried into forecast ranges (null: Poisson ranges only)
+  const [parameterUncertainty, setParameterUncertainty] = useState<ParameterUncertainty | null>(null);
+
+  // Maximum or corner magnitude for every Reasenberg–Jones model (null: unbounded GR)
+  const [maxMagnitude, setMaxMagnitude] = useState<MaxMagnitude | null>(null);
+  // Temporal decay kernel for every Reasenberg–Jones model
+  const [kernel, setKernel] = useState<TemporalKernel>(KERNEL_DEFAULTS.omori);
+  // Time-dependent completeness behind the recorded counts (null: true counts only)
+  const [incompleteness, setIncompleteness] = useState<ShortTermIncompleteness | null>(null);
 
   // State for forecast configuration
-  const [durations, setDurations] = useState<number[]>([1, 7, 30]);
-  const [magnitudeRanges, setMagnitudeRanges] = useState({ m1: 5, m2: 4, m3: 3 });
+  // Windows in days after the forecast start time
+  const [windows, setWindows] = useState<ForecastWindow[]>([
+    { start: 0, end: 1, unit: 'days' },
+    { start: 0, end: 7, unit: 'days' },
+    { start: 0, end: 30, unit: 'days' },
+  ]);
+  const [magnitudeThresholds, setMagnitudeThresholds] = useState<number[]>([3, 4, 5]);
+  // Doublet partners, large aftershocks or foreshocks; empty for a single mainshock
+  const [sources, setSources] = useState<SourceEventInput[]>([]);
+  const [magnitudeUncertainty, setMagnitudeUncertainty] = useState<MagnitudeUncertaintyInput>(NO_MAGNITUDE_UNCERTAINTY);
 
   // State for results and errors
   const [results, setResults] = useState<CalculationResults | null>(null);
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  // A what-if scenario, kept only while the forecast it was run on is shown
+  const [scenarioRun, setScenarioRun] = useState<{ base: CalculationResults; scenario: CalculationResults } | null>(null);
+  const scenario = results && scenarioRun?.base === results ? scenarioRun.scenario : null;
 
   // Track when the forecast was last generated (for print footer)
   const [forecastGeneratedAt, setForecastGeneratedAt] = useState<string>('');
@@ -77,23 +194,60 @@ export default function Home() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Only run on mount
 
+  // Hydrate the saved presets after mount
+  useEffect(() => {
+    setSavedPresets(readSavedPresets());
+  }, []);
+
+  // A preset saved under an existing name replaces it
+  const handleSavePreset = useCallback((preset: SavedPreset) => {
+    setSavedPresets(prev => {
+      const next = [...prev.filter(s => s.name !== preset.name), preset];
+      persistSavedPresets(next);
+      return next;
+    });
+  }, []);
+
+  const handleDeleteSavedPreset = useCallback((name: string) => {
+    setSavedPresets(prev => {
+      const next = prev.filter(s => s.name !== name);
+      persistSavedPresets(next);
+      return next;
+    });
+  }, []);
+
   // Derived state: can we calculate?
   const canCalculate = useMemo(() => {
     return magnitude !== '' && quakeTime !== '' && startTime !== '';
   }, [magnitude, quakeTime, startTime]);
 
-  // Parameter warnings (non-blocking, just informational)
-  const parameterWarnings = useMemo((): ParameterWarning[] => {
-    const params = modelType === 'custom' ? customParams : MODEL_PRESETS[modelType];
-    return validateModelParameters(params).map(msg => ({ message: msg }));
+  // Reasenberg–Jones parameters of the selected model (null for ETAS and ensembles)
+  const rjParams = useMemo((): ModelParameters | null => {
+    if (modelType === 'etas' || modelType === 'ensemble') return null;
+    return modelType === 'custom' ? customParams : MODEL_PRESETS[modelType];
   }, [modelType, customParams]);
 
+  const ensembleMembers = useMemo((): EnsembleMember[] =>
+    (Object.keys(ensembleWeights) as PresetModelType[]).map(model => ({ model, weight: ensembleWeights[model] })),
+  [ensembleWeights]);
+
+  // Parameter warnings (non-blocking, just informational); ensemble members
+  // are published presets, so have none
+  const parameterWarnings = useMemo((): ParameterWarning[] => {
+    if (modelType === 'ensemble') return [];
+    const messages = rjParams ? validateModelParameters(rjParams) : validateEtasParameters(etasParams);
+    return messages.map(msg => ({ message: msg }));
+  }, [modelType, rjParams, etasParams]);
+
   const handleLoadQuake = useCallback(async () => {
     setIsLoading(true);
     setResults(null);
+    setSequenceUpdate(null);
+    setOmoriFit(null);
     setValidationErrors([]);
     setLoadedQuakeInfo(null);
     setEpicenter(null);
+    setQuakeDepth(null);
     setIsDemoMode(false);
 
     try {
@@ -102,12 +256,12 @@ export default function Home() {
       setQuakeTime(data.quakeTime);
       setStartTime(new Date().toISOString());
 
-      const ranges = calculateInitialMagnitudeRanges(data.magnitude);
-      setMagnitudeRanges(ranges);
+      setMagnitudeThresholds(calculateInitialMagnitudeThresholds(data.magnitude));
       setLoadedQuakeInfo({ magnitude: data.magnitude, time: data.quakeTime });
       if (data.latitude !== undefined && data.longitude !== undefined) {
         setEpicenter({ latitude: data.latitude, longitude: data.longitude });
       }
+      setQuakeDepth(data.depth ?? null);
     } finally {
       setIsLoading(false);
     }
@@ -116,6 +270,8 @@ export default function Home() {
   // Demo mode: Pre-populate with the Kaikoura earthquake and auto-calculate
   const handleTryDemo = useCallback(() => {
     setResults(null);
+    setSequenceUpdate(null);
+    setOmoriFit(null);
     setValidationErrors([]);
     setIsDemoMode(true);
 
@@ -123,15 +279,16 @@ export default function Home() {
     setQuakeId(DEMO_EARTHQUAKE.quakeId);
     setMagnitude(DEMO_EARTHQUAKE.magnitude.toString());
     setQuakeTime(DEMO_EARTHQUAKE.quakeTime);
+    setSources([]);
+    setMagnitudeUncertainty(NO_MAGNITUDE_UNCERTAINTY);
 
     // Set start time to 1 hour after the earthquake (realistic scenario)
     const quakeDate = new Date(DEMO_EARTHQUAKE.quakeTime);
     const forecastStart = new Date(quakeDate.getTime() + 60 * 60 * 1000); // 1 hour later
     setStartTime(forecastStart.toISOString());
 
-    // Set appropriate magnitude ranges for a M7.8 earthquake
-    const ranges = calculateInitialMagnitudeRanges(DEMO_EARTHQUAKE.magnitude);
-    setMagnitudeRanges(ranges);
+    // Set appropriate magnitude thresholds for a M7.8 earthquake
+    setMagnitudeThresholds(calculateInitialMagnitudeThresholds(DEMO_EARTHQUAKE.magnitude));
 
     // Set loaded quake info to show the info banner
     setLoadedQuakeInfo({
@@ -139,52 +296,191 @@ export default function Home() {
       time: DEMO_EARTHQUAKE.quakeTime,
     });
     setEpicenter({ latitude: DEMO_EARTHQUAKE.latitude, longitude: DEMO_EARTHQUAKE.longitude });
+    setQuakeDepth(DEMO_EARTHQUAKE.depth);
   }, []);
 
   const handleModelChange = useCallback((type: ModelType) => {
     setModelType(type);
-    if (type !== 'custom') {
+    if (type !== 'custom' && type !== 'etas' && type !== 'ensemble') {
       setCustomParams(MODEL_PRESETS[type]);
     }
+    setSequenceUpdate(null);
+    setResults(null);
+  }, []);
+
+  // Preset matching the tectonic setting of the loaded quake, from bundled regions
+  const regimeSuggestion = useMemo(
+    () => (epicenter ? suggestModelType(epicenter.latitude, epicenter.longitude, quakeDepth ?? undefined) : null),
+    [epicenter, quakeDepth]
+  );
+
+  // Why the sequence update cannot run yet, or null when it can
+  const sequenceUpdateBlocker = useMemo((): string | null => {
+    if (!canCalculate) return 'Load quake data (or enter it manually) to fit or update the parameters from its aftershocks.';
+    if (!epicenter) return 'The epicentre is needed to select the aftershocks; load the quake from GeoNet.';
+    return null;
+  }, [canCalculate, epicenter]);
+
+  // Aftershocks in the catalogue between the mainshock and the forecast start
+  // (or now), within one rupture length of the epicentre
+  const fetchSequenceCatalog = useCallback(async (mc: number) => {
+    const mag = parseFloat(magnitude);
+    const quakeMs = new Date(quakeTime).getTime();
+    const startMs = new Date(startTime).getTime();
+    if (!epicenter || !Number.isFinite(mag) || isNaN(quakeMs) || isNaN(startMs)) {
+      throw new Error('Please enter a valid magnitude, quake time, forecast start time and epicentre first.');
+    }
+    // Only aftershocks before the forecast start (and before now) inform the forecast
+    const dataEndMs = Math.min(startMs, Date.now());
+    if (dataEndMs <= quakeMs) {
+      throw new Error('The forecast starts at the mainshock, so there are no aftershocks to learn from yet.');
+    }
+
+    const region: EvalRegion = {
+      type: 'circle',
+      latitude: epicenter.latitude,
+      longitude: epicenter.longitude,
+      radiusKm: evaluationRadiusKm(mag, 1),
+    };
+    const events = await fetchObservedCatalog(regionBbox(region), new Date(quakeMs), new Date(dataEndMs), mc);
+    return {
+      events: events.filter(e => isInRegion(region, e.latitude, e.longitude)),
+      mag,
+      quakeMs,
+      tEnd: (dataEndMs - quakeMs) / (1000 * 60 * 60 * 24),
+    };
+  }, [magnitude, quakeTime, startTime, epicenter]);
+
+  const handleSequenceUpdate = useCallback(async (mc: number, tStart: number, updateC: boolean) => {
+    if (!rjParams) return;
+    const { events, mag, quakeMs, tEnd } = await fetchSequenceCatalog(mc);
+    if (tStart >= tEnd) {
+      throw new Error(`The data must start before the forecast start (${tEnd.toFixed(2)} days after the mainshock).`);
+    }
+    const times = aftershockTimesDays(events, quakeMs, mc, tStart, tEnd, quakeId);
+    setSequenceUpdate(updateSequenceParameters(rjParams, mag, mc, times, tStart, tEnd, { updateC }));
+    setResults(null);
+  }, [rjParams, fetchSequenceCatalog, quakeId]);
+
+  const handleOmoriFit = useCallback(async (mc: number, tStart: number) => {
+    setOmoriFit(null);
+    const { events, quakeMs, tEnd } = await fetchSequenceCatalog(mc);
+    if (tStart >= tEnd) {
+      throw new Error(`The data must start before the forecast start (${tEnd.toFixed(2)} days after the mainshock).`);
+    }
+    setOmoriFit(fitOmoriUtsu(events, quakeMs, mc, tStart, tEnd, quakeId));
+  }, [fetchSequenceCatalog, quakeId]);
+
+  // Load the fitted K, c, p into the Custom model, keeping its b-value
+  const handleLoadFit = useCallback((fit: OmoriFit) => {
+    setCustomParams(prev => omoriFitToModelParams(fit, parseFloat(magnitude), prev.b));
+    setModelType('custom');
+    setSequenceUpdate(null);
+    setResults(null);
+  }, [magnitude]);
+
+  // Use a catalogue b-value (Evaluation tab) in the Custom model
+  const handleUseBValue = useCallback((b: number) => {
+    setCustomParams(prev => ({ ...(rjParams ?? prev), b }));
+    setModelType('custom');
+    setSequenceUpdate(null);
+    setResults(null);
+  }, [rjParams]);
+
+  // Window bounds are entered in the window's own unit and stored in days
+  const handleWindowChange = useCallback((index: number, field: 'start' | 'end', value: number) => {
+    setWindows(prev => {
+      const next = [...prev];
+      const days = value * TIME_UNIT_DAYS[next[index].unit ?? 'days'];
+      next[index] = { ...next[index], [field]: Math.max(0, Math.min(MAX_FORECAST_DAYS, days)) };
+      return next;
+    });
+    setResults(null);
+  }, []);
+
+  // Changing the unit keeps the numbers as entered: 6 days becomes 6 hours
+  const handleWindowUnitChange = useCallback((index: number, unit: TimeUnit) => {
+    setWindows(prev => {
+      const next = [...prev];
+      const w = next[index];
+      const scale = TIME_UNIT_DAYS[unit] / TIME_UNIT_DAYS[w.unit ?? 'days'];
+      next[index] = {
+        start: Math.min(MAX_FORECAST_DAYS, w.start * scale),
+        end: Math.min(MAX_FORECAST_DAYS, w.end * scale),
+        unit,
+      };
+      return next;
+    });
+    setResults(null);
+  }, []);
+
+  const handleAddWindow = useCallback(() => {
+    setWindows(prev => {
+      // Suggest a window of the same length and unit following on from the last one
+      const last = prev[prev.length - 1] ?? { start: 0, end: 0, unit: 'days' as const };
+      const length = Math.max(last.end - last.start, TIME_UNIT_DAYS[last.unit ?? 'days']);
+      const start = Math.min(last.end, MAX_FORECAST_DAYS - length);
+      return [...prev, { start, end: start + length, unit: last.unit }];
+    });
+    setResults(null);
+  }, []);
+
+  const handleRemoveWindow = useCallback((index: number) => {
+    setWindows(prev => {
+      if (prev.length <= 1) return prev; // keep at least one
+      return prev.filter((_, i) => i !== index);
+    });
     setResults(null);
   }, []);
 
-  const handleDurationChange = useCallback((index: number, value: number) => {
-    setDurations(prev => {
+  const handleMagnitudeThresholdChange = useCallback((index: number, value: number) => {
+    setMagnitudeThresholds(prev => {
       const next = [...prev];
-      next[index] = Math.max(1, Math.min(730, value));
+      next[index] = value;
       return next;
     });
     setResults(null);
   }, []);
 
-  const handleAddDuration = useCallback(() => {
-    setDurations(prev => {
-      // Suggest a value larger than the current maximum
-      const max = prev.length > 0 ? Math.max(...prev) : 30;
-      const next = max < 365 ? 365 : max + 365;
-      return [...prev, Math.min(next, 730)];
+  const handleAddMagnitudeThreshold = useCallback(() => {
+    setMagnitudeThresholds(prev => {
+      // Extend upwards, or downwards once M9 is reached
+      const max = Math.max(...prev);
+      return max < 9 ? [...prev, max + 1] : [Math.max(1, Math.min(...prev) - 1), ...prev];
     });
     setResults(null);
   }, []);
 
-  const handleRemoveDuration = useCallback((index: number) => {
-    setDurations(prev => {
+  const handleRemoveMagnitudeThreshold = useCallback((index: number) => {
+    setMagnitudeThresholds(prev => {
       if (prev.length <= 1) return prev; // keep at least one
       return prev.filter((_, i) => i !== index);
     });
     setResults(null);
   }, []);
 
-  const handleMagnitudeRangesChange = useCallback((key: 'm1' | 'm2' | 'm3', value: number) => {
-    setMagnitudeRanges(prev => ({ ...prev, [key]: value }));
+  const handleSourceChange = useCallback((index: number, field: keyof SourceEventInput, value: string) => {
+    setSources(prev => {
+      const next = [...prev];
+      next[index] = { ...next[index], [field]: value };
+      return next;
+    });
+    setResults(null);
+  }, []);
+
+  const handleAddSource = useCallback(() => {
+    setSources(prev => [...prev, { magnitude: '', time: '' }]);
+    setResults(null);
+  }, []);
+
+  const handleRemoveSource = useCallback((index: number) => {
+    setSources(prev => prev.filter((_, i) => i !== index));
     setResults(null);
   }, []);
 
   const validateInputs = useCallback((): ValidationError[] => {
     const errors: ValidationError[] = [];
     const mag = parseFloat(magnitude);
-    const { m1, m2, m3 } = magnitudeRanges;
 
     // Magnitude validation
     if (isNaN(mag) || mag <= 0) {
@@ -193,18 +489,9 @@ export default function Home() {
       errors.push({ field: 'magnitude', message: 'Magnitude must be less than 10' });
     }
 
-    // Magnitude ranges validation
-    if (m1 > 9) {
-      errors.push({ field: 'magnitudeRanges', message: 'M1 must be 9 or less' });
-    }
-    if (m2 >= m1) {
-      errors.push({ field: 'magnitudeRanges', message: 'M2 must be less than M1' });
-    }
-    if (m3 >= m2) {
-      errors.push({ field: 'magnitudeRanges', message: 'M3 must be less than M2' });
-    }
-    if (m3 < 1) {
-      errors.push({ field: 'magnitudeRanges', message: 'M3 must be at least 1' });
+    // Magnitude thresholds validation
+    for (const message of validateMagnitudeThresholds(magnitudeThresholds)) {
+      errors.push({ field: 'magnitudeThresholds', message });
     }
 
     // Time validation
@@ -221,19 +508,82 @@ export default function Home() {
       errors.push({ field: 'startTime', message: 'Forecast start time must be after quake time' });
     }
 
-    // Duration validation
-    for (let i = 0; i < durations.length; i++) {
-      if (durations[i] <= 0) {
-        errors.push({ field: 'duration', message: `Forecast duration ${i + 1} must be positive` });
+    for (const message of validateForecastWindows(windows)) {
+      errors.push({ field: 'windows', message });
+    }
+
+    if (sources.length > 0 && !isNaN(quakeDate.getTime()) && !isNaN(startDate.getTime())) {
+      const rangeStartDays = (startDate.getTime() - quakeDate.getTime()) / (1000 * 60 * 60 * 24);
+      for (const message of validateSourceEvents(parseSourceEvents(sources, quakeDate.getTime()), rangeStartDays)) {
+        errors.push({ field: 'sources', message });
+      }
+    }
+
+    if (magnitudeUncertainty.mode === 'sd') {
+      const sd = parseFloat(magnitudeUncertainty.sd);
+      if (!Number.isFinite(sd) || sd <= 0 || sd > 1) {
+        errors.push({ field: 'magnitudeUncertainty', message: 'Magnitude uncertainty must be between 0 and 1 magnitude units' });
       }
+    } else if (magnitudeUncertainty.mode === 'candidates') {
+      for (const message of validateMagnitudeCandidates(parseMagnitudeUncertainty(magnitudeUncertainty, mag) ?? [])) {
+        errors.push({ field: 'magnitudeUncertainty', message });
+      }
+    }
+    if (magnitudeUncertainty.mode !== 'none' && modelType === 'etas') {
+      errors.push({ field: 'magnitudeUncertainty', message: 'Magnitude uncertainty applies to the Reasenberg–Jones models and ensembles, not ETAS' });
     }
-    if (new Set(durations).size !== durations.length) {
-      errors.push({ field: 'duration', message: 'Forecast durations must be unique' });
+
+    if (incompleteness) {
+      for (const message of validateIncompleteness(incompleteness)) {
+        errors.push({ field: 'incompleteness', message });
+      }
+    }
+
+    if (maxMagnitude && modelType !== 'etas') {
+      for (const message of validateMaxMagnitude(maxMagnitude, mag)) {
+        errors.push({ field: 'params', message });
+      }
+    }
+    if (modelType !== 'etas') {
+      // Ensemble members are checked against the smallest preset c-value
+      const c = rjParams ? rjParams.c : Math.min(...ensembleMembers.map(m => MODEL_PRESETS[m.model].c));
+      for (const message of validateTemporalKernel(kernel, c)) {
+        errors.push({ field: 'params', message });
+      }
+    }
+
+    if (modelType === 'ensemble') {
+      for (const message of validateEnsembleWeights(ensembleMembers)) {
+        errors.push({ field: 'params', message });
+      }
+      return errors;
     }
 
     // Hard model-parameter validation: values that make the maths undefined
     // (soft literature-bound checks are shown separately as warnings)
-    const params = modelType === 'custom' ? customParams : MODEL_PRESETS[modelType];
+    if (!rjParams) {
+      const { K, alpha, c, p, b, mRef } = etasParams;
+      if (!Number.isFinite(K) || K <= 0) {
+        errors.push({ field: 'params', message: "ETAS parameter 'K' must be greater than 0" });
+      }
+      if (!Number.isFinite(c) || c <= 0) {
+        errors.push({ field: 'params', message: "ETAS parameter 'c' must be greater than 0" });
+      }
+      if (!Number.isFinite(p) || p <= 0) {
+        errors.push({ field: 'params', message: "ETAS parameter 'p' must be greater than 0" });
+      }
+      if (!Number.isFinite(b) || b <= 0) {
+        errors.push({ field: 'params', message: "ETAS parameter 'b' must be greater than 0" });
+      }
+      if (!Number.isFinite(alpha) || alpha < 0 || alpha >= b) {
+        errors.push({ field: 'params', message: "ETAS parameter 'alpha' must be at least 0 and less than 'b'" });
+      }
+      if (!Number.isFinite(mRef)) {
+        errors.push({ field: 'params', message: "ETAS reference magnitude must be a finite number" });
+      }
+      return errors;
+    }
+    const params = rjParams;
     if (!Number.isFinite(params.a)) {
       errors.push({ field: 'params', message: "Parameter 'a' must be a finite number" });
     }
@@ -248,7 +598,7 @@ export default function Home() {
     }
 
     return errors;
-  }, [magnitude, magnitudeRanges, quakeTime, startTime, durations, modelType, customParams]);
+  }, [magnitude, magnitudeThresholds, quakeTime, startTime, windows, sources, magnitudeUncertainty, incompleteness, maxMagnitude, kernel, modelType, ensembleMembers, rjParams, etasParams]);
 
   const handleCalculate = useCallback(() => {
     const errors = validateInputs();
@@ -259,17 +609,51 @@ export default function Home() {
     }
 
     const mag = parseFloat(magnitude);
-    const { m1, m2, m3 } = magnitudeRanges;
-    const params = modelType === 'custom' ? customParams : MODEL_PRESETS[modelType];
 
     const quakeDate = new Date(quakeTime);
     const startDate = new Date(startTime);
     const rangeStartFromQuakeTime = (startDate.valueOf() - quakeDate.valueOf()) / (1000 * 60 * 60 * 24);
+    const additionalSources = parseSourceEvents(sources, quakeDate.valueOf());
+
+    // A sequence-specific posterior, when present, replaces the generic parameters,
+    // and the maximum magnitude and decay kernel apply on top of whichever are used
+    const withOptions = (params: ModelParameters): ModelParameters => ({
+      ...params,
+      ...(maxMagnitude ? { maxMagnitude } : {}),
+      ...(kernel.type !== 'omori' ? { kernel } : {}),
+    });
+    const baseParams = rjParams && sequenceUpdate ? sequenceUpdate.posterior : rjParams;
+    const forecastParams = baseParams && withOptions(baseParams);
+    // ...and its posterior spread replaces the generic parameter uncertainty
+    const parameterSpread = (rjParams || modelType === 'ensemble') && parameterUncertainty
+      ? (rjParams && sequenceUpdate ? { aSd: sequenceUpdate.posteriorSd.a, pSd: sequenceUpdate.posteriorSd.p } : parameterUncertainty)
+      : undefined;
+    // Candidate mainshock magnitudes join the same predictive distribution
+    const magnitudes = parseMagnitudeUncertainty(magnitudeUncertainty, mag);
+    const uncertainty: ParameterUncertainty | undefined = magnitudes
+      ? { ...(parameterSpread ?? { aSd: 0, pSd: 0 }), magnitudes: normaliseMagnitudeCandidates(magnitudes) }
+      : parameterSpread;
 
     let forecasts;
+    let largestAftershock;
+    let ensemble: EnsembleComponent[] | undefined;
     try {
-      forecasts = durations.map(duration =>
-        calculateDurationForecast(duration, mag, m1, m2, m3, rangeStartFromQuakeTime, params)
+      ensemble = modelType === 'ensemble'
+        ? ensembleComponents(ensembleMembers).map(c => ({ ...c, params: withOptions(c.params) }))
+        : undefined;
+      forecasts = windows.map(window =>
+        ensemble
+          ? calculateEnsembleWindowForecast(window, mag, magnitudeThresholds, rangeStartFromQuakeTime, ensemble, uncertainty, additionalSources)
+          : forecastParams
+            ? calculateWindowForecast(window, mag, magnitudeThresholds, rangeStartFromQuakeTime, forecastParams, uncertainty, additionalSources)
+            : calculateEtasWindowForecast(window, mag, magnitudeThresholds, rangeStartFromQuakeTime, etasParams, additionalSources)
+      );
+      largestAftershock = windows.map(window =>
+        ensemble
+          ? calculateEnsembleLargestAftershock(window, mag, rangeStartFromQuakeTime, ensemble, uncertainty, additionalSources)
+          : forecastParams
+            ? calculateLargestAftershock(window, mag, rangeStartFromQuakeTime, forecastParams, uncertainty, additionalSources)
+            : calculateEtasLargestAftershock(window, mag, rangeStartFromQuakeTime, etasParams, additionalSources)
       );
     } catch (err) {
       setValidationErrors([{
@@ -279,47 +663,99 @@ export default function Home() {
       return;
     }
 
-    setResults({
+    const snapshot: CalculationResults = {
       quakeId,
-      rangeLabels: {
-        range1: `M${m1}+`,
-        range2: `M${m2}-M${m1}`,
-        range3: `M${m3}-M${m2}`,
-      },
+      magnitudeThresholds,
+      rangeLabels: magnitudeBinLabels(magnitudeThresholds),
       forecasts,
+      largestAftershock,
       mainshockMagnitude: mag,
-      modelParams: params,
+      additionalSources: additionalSources.length > 0 ? additionalSources : undefined,
+      modelParams: ensemble ? ensemble[0].params : forecastParams ?? etasFirstGenerationParams(etasParams, mag),
+      etasParams: modelType === 'etas' ? etasParams : undefined,
+      ensemble,
+      sequenceUpdate: rjParams && sequenceUpdate ? sequenceUpdate : undefined,
+      parameterUncertainty: uncertainty,
+      incompleteness: incompleteness ?? undefined,
       rangeStartDays: rangeStartFromQuakeTime,
       quakeTimeISO: quakeDate.toISOString(),
       epicenter: epicenter ?? undefined,
-    });
+    };
+    setResults({ ...snapshot, forecasts: withRecordedNumbers(snapshot) });
     setForecastGeneratedAt(new Date().toISOString());
-  }, [magnitude, magnitudeRanges, quakeTime, startTime, modelType, customParams, durations, quakeId, epicenter, validateInputs]);
+  }, [magnitude, magnitudeThresholds, quakeTime, startTime, sources, magnitudeUncertainty, incompleteness, maxMagnitude, kernel, modelType, ensembleMembers, rjParams, etasParams, sequenceUpdate, parameterUncertainty, windows, quakeId, epicenter, validateInputs]);
+
+  // Model name for reports; flags forecasts made with a sequence-specific
+  // posterior, and lists an ensemble's weights
+  const modelName = results?.ensemble
+    ? `${MODEL_INFO.ensemble.name} (${formatEnsembleWeights(results.ensemble)})`
+    : `${MODEL_INFO[modelType].name}${results?.sequenceUpdate ? ' (sequence-specific)' : ''}`;
 
   const handleExportCSV = useCallback(() => {
     if (!results) return;
 
+    const magnitudes = results.parameterUncertainty?.magnitudes;
     const headers = [
-      'Duration',
-      `${results.rangeLabels.range3} Avg`, `${results.rangeLabels.range3} Range`, `${results.rangeLabels.range3} Prob`,
-      `${results.rangeLabels.range2} Avg`, `${results.rangeLabels.range2} Range`, `${results.rangeLabels.range2} Prob`,
-      `${results.rangeLabels.range1} Avg`, `${results.rangeLabels.range1} Range`, `${results.rangeLabels.range1} Prob`,
+      'Window',
+      ...results.rangeLabels.flatMap(label => [
+        `${label} Avg`, `${label} Range`, `${label} Prob`,
+        ...(magnitudes ? [`${label} Avg magnitude spread`, `${label} Prob magnitude spread`] : []),
+        ...(results.incompleteness ? [`${label} Recorded avg`] : []),
+      ]),
     ];
 
     const rows = results.forecasts.map(f => [
-      `${f.duration} ${f.duration === 1 ? 'day' : 'days'}`,
-      f.m3.averageNumber, f.m3.range, f.m3.probability,
-      f.m2.averageNumber, f.m2.range, f.m2.probability,
-      f.m1.averageNumber, f.m1.range, f.m1.probability,
+      forecastWindowLabel(f.window),
+      ...f.bins.flatMap(bin => [
+        bin.averageNumber, bin.range, bin.probability,
+        ...(bin.magnitudeSpread ? [bin.magnitudeSpread.averageNumber, bin.magnitudeSpread.probability] : []),
+        ...(bin.recordedNumber ? [bin.recordedNumber] : []),
+      ]),
     ]);
 
     const csvContent = [
       `# Aftershock forecast for ${results.quakeId}`,
       `# Generated: ${new Date().toISOString()}`,
       `# Model: ${modelType.toUpperCase()}`,
+      ...(results.ensemble ?? []).map(c =>
+        `# Ensemble member: ${MODEL_INFO[c.model].name}, weight ${Number(c.weight.toFixed(4))} (a=${c.params.a}, b=${c.params.b}, c=${c.params.c}, p=${c.params.p})`
+      ),
+      ...(results.sequenceUpdate ? [
+        `# Sequence-specific parameters: a=${results.modelParams.a}, b=${results.modelParams.b}, c=${results.modelParams.c}, p=${results.modelParams.p}` +
+          ` (updated from the generic a=${results.sequenceUpdate.prior.a}, c=${results.sequenceUpdate.prior.c}, p=${results.sequenceUpdate.prior.p}` +
+          ` using ${results.sequenceUpdate.eventCount} aftershocks M${results.sequenceUpdate.mc}+ between ${results.sequenceUpdate.tStart} and ${results.sequenceUpdate.tEnd.toFixed(2)} days)`,
+      ] : []),
+      ...(results.modelParams.kernel && !results.etasParams ? [
+        `# Temporal decay: ${formatTemporalKernel(results.modelParams.kernel)}`,
+      ] : []),
+      ...(results.modelParams.maxMagnitude && !results.etasParams ? [
+        `# Gutenberg-Richter ${results.modelParams.maxMagnitude.kind === 'truncated' ? 'truncated at maximum' : 'tapered with corner'} magnitude M${results.modelParams.maxMagnitude.magnitude}`,
+      ] : []),
+      ...(results.incompleteness ? [
+        `# Recorded averages assume completeness above Mc(t) = M - ${results.incompleteness.G} - ${results.incompleteness.H}*log10(t days) after each source event`,
+      ] : []),
+      ...(results.additionalSources ?? []).map(s =>
+        `# Additional source: M${s.magnitude} at ${s.timeDays.toFixed(3)} days after the mainshock`
+      ),
+      ...(results.parameterUncertainty ? [
+        `# Ranges and probabilities include parameter uncertainty (sigma_a=${results.parameterUncertainty.aSd}, sigma_p=${results.parameterUncertainty.pSd}); expected numbers are point estimates`,
+      ] : []),
+      ...(magnitudes ? [
+        `# Mainshock magnitude uncertainty: ${magnitudes.map(c => `M${c.magnitude.toFixed(2)} (weight ${c.weight.toFixed(3)})`).join(', ')}` +
+          `; spreads are the values for M${magnitudeSpreadBounds(magnitudes)[0].toFixed(1)} and M${magnitudeSpreadBounds(magnitudes)[1].toFixed(1)}`,
+      ] : []),
       '',
       headers.join(','),
       ...rows.map(row => row.join(',')),
+      '',
+      `Window,P(>=M${results.mainshockMagnitude}),Largest aftershock median,Largest 2.5%,Largest 97.5%`,
+      ...results.largestAftershock.map(l => [
+        forecastWindowLabel(l.window),
+        formatPercentage(100 * l.probabilityAtLeastMainshock),
+        l.median.toFixed(1),
+        l.lower.toFixed(1),
+        l.upper.toFixed(1),
+      ].join(',')),
     ].join('\n');
 
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
@@ -334,6 +770,8 @@ export default function Home() {
     return (v: string) => {
       setter(v);
       setResults(null);
+      setSequenceUpdate(null);
+      setOmoriFit(null);
       setValidationErrors([]);
     };
   }, []);
@@ -410,22 +848,58 @@ export default function Home() {
           magnitude={magnitude}
           quakeTime={quakeTime}
           startTime={startTime}
-          durations={durations}
-          magnitudeRanges={magnitudeRanges}
+          windows={windows}
+          magnitudeThresholds={magnitudeThresholds}
           onMagnitudeChange={handleParameterChange(setMagnitude)}
           onQuakeTimeChange={handleParameterChange(setQuakeTime)}
           onStartTimeChange={handleParameterChange(setStartTime)}
-          onDurationsChange={handleDurationChange}
-          onAddDuration={handleAddDuration}
-          onRemoveDuration={handleRemoveDuration}
-          onMagnitudeRangesChange={handleMagnitudeRangesChange}
+          onWindowChange={handleWindowChange}
+          onWindowUnitChange={handleWindowUnitChange}
+          onAddWindow={handleAddWindow}
+          onRemoveWindow={handleRemoveWindow}
+          onMagnitudeThresholdChange={handleMagnitudeThresholdChange}
+          onAddMagnitudeThreshold={handleAddMagnitudeThreshold}
+          onRemoveMagnitudeThreshold={handleRemoveMagnitudeThreshold}
+          sources={sources}
+          magnitudeUncertainty={magnitudeUncertainty}
+          onMagnitudeUncertaintyChange={(u) => { setMagnitudeUncertainty(u); setResults(null); }}
+          onSourceChange={handleSourceChange}
+          onAddSource={handleAddSource}
+          onRemoveSource={handleRemoveSource}
+          incompleteness={incompleteness}
+          onIncompletenessChange={(value) => { setIncompleteness(value); setResults(null); }}
         />
 
         <ModelSelector
           modelType={modelType}
           customParams={customParams}
+          etasParams={etasParams}
+          ensembleWeights={ensembleWeights}
+          onEnsembleWeightsChange={(w) => { setEnsembleWeights(w); setResults(null); }}
           onModelChange={handleModelChange}
-          onCustomParamsChange={(p) => { setCustomParams(p); setResults(null); }}
+          onCustomParamsChange={(p) => { setCustomParams(p); setSequenceUpdate(null); setResults(null); }}
+          onEtasParamsChange={(p) => { setEtasParams(p); setResults(null); }}
+          parameterUncertainty={parameterUncertainty}
+          onParameterUncertaintyChange={(u) => { setParameterUncertainty(u); setResults(null); }}
+          posteriorSd={sequenceUpdate?.posteriorSd}
+          maxMagnitude={maxMagnitude}
+          onMaxMagnitudeChange={(m) => { setMaxMagnitude(m); setResults(null); }}
+          kernel={kernel}
+          onKernelChange={(k) => { setKernel(k); setResults(null); }}
+          suggestion={regimeSuggestion}
+          savedPresets={savedPresets}
+          onDeleteSavedPreset={handleDeleteSavedPreset}
+        />
+
+        <SequenceUpdatePanel
+          prior={rjParams}
+          update={sequenceUpdate}
+          fit={omoriFit}
+          onRunUpdate={handleSequenceUpdate}
+          onClearUpdate={() => { setSequenceUpdate(null); setResults(null); }}
+          onRunFit={handleOmoriFit}
+          onLoadFit={handleLoadFit}
+          disabledReason={sequenceUpdateBlocker}
         />
 
         {/* Parameter warnings (non-blocking, informational) */}
@@ -498,6 +972,17 @@ export default function Home() {
                 >
                   📊 Table View
                 </button>
+                <button
+                  onClick={() => setActiveResultsTab('timeline')}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm transition-colors ${
+                    activeResultsTab === 'timeline'
+                      ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+                  }`}
+                  aria-current={activeResultsTab === 'timeline' ? 'page' : undefined}
+                >
+                  📅 Daily Timeline
+                </button>
                 <button
                   onClick={() => setActiveResultsTab('visualization')}
                   className={`py-2 px-1 border-b-2 font-medium text-sm transition-colors ${
@@ -539,29 +1024,47 @@ export default function Home() {
               <AboutTab />
             ) : activeResultsTab === 'table' ? (
               results ? (
-                <ResultsTable
-                  results={results}
-                  onExportCSV={handleExportCSV}
-                  modelName={MODEL_INFO[modelType].name}
-                  startTime={startTime}
-                  forecastGeneratedAt={forecastGeneratedAt}
-                  modelParams={modelType === 'custom' ? customParams : MODEL_PRESETS[modelType]}
-                />
+                <>
+                  <ResultsTable
+                    results={results}
+                    onExportCSV={handleExportCSV}
+                    modelName={modelName}
+                    startTime={startTime}
+                    forecastGeneratedAt={forecastGeneratedAt}
+                    modelParams={results.modelParams}
+                  />
+                  <ScenarioPanel
+                    results={results}
+                    scenario={scenario}
+                    onScenarioChange={(next) => setScenarioRun(next ? { base: results, scenario: next } : null)}
+                    modelName={modelName}
+                  />
+                  <InverseQueryPanel key={results.quakeId} results={results} />
+                </>
               ) : (
                 <div className="mt-6 p-8 text-center text-gray-500 dark:text-gray-400 print:hidden">
                   <p>Calculate a forecast to see the results table</p>
                 </div>
               )
+            ) : activeResultsTab === 'timeline' ? (
+              <TimelineTable
+                results={results}
+                modelName={modelName}
+              />
             ) : activeResultsTab === 'visualization' ? (
               <VisualizationTab
                 results={results}
-                modelName={MODEL_INFO[modelType].name}
+                scenario={scenario}
+                modelName={modelName}
               />
             ) : (
               <EvaluationTab
                 key={results?.quakeId ?? 'no-results'}
                 results={results}
-                modelName={MODEL_INFO[modelType].name}
+                modelName={modelName}
+                onUseBValue={handleUseBValue}
+                customParams={customParams}
+                onSavePreset={handleSavePreset}
               />
             )}
           </div>
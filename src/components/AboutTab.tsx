@@ -3,10 +3,10 @@
 import React, { useMemo } from 'react';
 import katex from 'katex';
 import 'katex/dist/katex.min.css';
-import { MODEL_PRESETS, MODEL_INFO, type ModelType } from '@/types';
+import { MODEL_PRESETS, MODEL_INFO, ETAS_DEFAULTS, type RJModelType } from '@/types';
 import { PARAMETER_BOUNDS } from '@/lib/calculations';
 
-const MODEL_ORDER: ModelType[] = ['nz', 'sz', 'california', 'scr', 'custom'];
+const MODEL_ORDER: RJModelType[] = ['nz', 'sz', 'california', 'scr', 'custom'];
 
 /** Render a LaTeX expression with KaTeX (display block by default, or inline) */
 function Equation({ tex, inline = false }: { tex: string; inline?: boolean }) {
@@ -59,7 +59,8 @@ export default function AboutTab() {
           <Equation inline tex="\geq M" /> at time <Equation inline tex="t" /> (days) after a mainshock of
           magnitude <Equation inline tex="M_m" />. The expected number of events in a forecast window{' '}
           <Equation inline tex="[T_1, T_2]" /> is the integral of the rate over the window, evaluated in closed
-          form:
+          form. Both ends of each window are set independently, in days after the forecast start, so a window such
+          as &ldquo;tomorrow&rdquo; (days 1&ndash;2) need not begin at the forecast start:
         </p>
         <div className="bg-gray-50 dark:bg-gray-900 rounded-md px-4 py-3">
           <Equation tex="N = \int_{T_1}^{T_2} \lambda(t, M)\, dt \;=\; 10^{\,a + b\,(M_m - M)} \cdot \frac{(T_2 + c)^{1-p} - (T_1 + c)^{1-p}}{1 - p}" />
@@ -75,10 +76,84 @@ export default function AboutTab() {
           and the 95% ranges in the results are the 2.5th and 97.5th percentiles of the Poisson distribution with
           mean <Equation inline tex="N" />.
         </p>
+        <p>
+          Optionally, the ranges and probabilities can include parameter uncertainty: <Equation inline tex="a" /> (and{' '}
+          <Equation inline tex="p" />) are treated as normally distributed, and the count follows the posterior
+          predictive distribution, a Poisson distribution averaged over the parameter spread. Expected numbers are
+          unchanged; ranges are wider, and closer to the real variability between sequences. An uncertain
+          mainshock magnitude (a standard deviation, or weighted candidate magnitudes) enters the same average, each
+          candidate <Equation inline tex="M'" /> scaling the mainshock&rsquo;s aftershocks by{' '}
+          <Equation inline tex="10^{\,b(M' - M_m)}" />; the table also shows each value at the low and high ends of
+          the magnitude distribution.
+        </p>
         <p>
           A magnitude-bin edge correction of 0.05 units is applied (thresholds count events that would round to the
           threshold magnitude or above), matching operational practice for catalogues reported to one decimal place.
         </p>
+        <p>
+          The same machinery gives the distribution of the <strong>largest aftershock</strong> in each window: it
+          falls below <Equation inline tex="M" /> exactly when no event reaches <Equation inline tex="M" />, so
+        </p>
+        <div className="bg-gray-50 dark:bg-gray-900 rounded-md px-4 py-3">
+          <Equation tex="P(M_{\max} < M) = e^{-N(\geq M)}, \qquad N(\geq M) = N(\geq M_m)\, 10^{-b\,(M - M_m)}." />
+        </div>
+        <p>
+          Its median and 95% range have closed forms, and{' '}
+          <Equation inline tex="1 - e^{-N(\geq M_m)}" /> is the chance of an aftershock at least as large as the
+          mainshock.
+        </p>
+        <p>
+          A sequence with several large events, such as a doublet or a foreshock followed by the mainshock, can be
+          entered as additional source events. Each starts its own sequence at its origin time{' '}
+          <Equation inline tex="\tau_s" />, with productivity set by its magnitude, and the expected counts add:
+        </p>
+        <div className="bg-gray-50 dark:bg-gray-900 rounded-md px-4 py-3">
+          <Equation tex="N(\geq M) = \sum_s 10^{\,a + b\,(M_s - M)} \int_{T_1}^{T_2} (t - \tau_s + c)^{-p}\, dt." />
+        </div>
+        <p>
+          The Gutenberg&ndash;Richter relation is unbounded, so it always leaves some chance of an event of any
+          size. An optional maximum magnitude multiplies <Equation inline tex="N(\geq M)" /> by{' '}
+          <Equation inline tex="1 - 10^{-b(M_{\max} - M)}" /> (truncation: no event reaches{' '}
+          <Equation inline tex="M_{\max}" />) or by <Equation inline tex="\exp(-10^{1.5(M - M_c)})" /> (a taper in
+          seismic moment about the corner magnitude <Equation inline tex="M_c" />; Kagan 2002). Counts well below
+          the cap are unchanged; the probabilities for the largest thresholds and the largest aftershock level off.
+          It does not apply to ETAS.
+        </p>
+        <p>
+          The Omori&ndash;Utsu decay can be replaced by a stretched exponential,{' '}
+          <Equation inline tex="c^{-p}\,e^{-(t/\tau)^\beta}" /> (Mignan 2015), which starts at the same rate but
+          decays faster late in a sequence, or by rate-and-state decay (Dieterich 1994), which follows{' '}
+          <Equation inline tex="(t + c)^{-1}" /> until the aftershock duration <Equation inline tex="t_a" /> and
+          then returns to the background rate. Both keep <Equation inline tex="c" /> and{' '}
+          <Equation inline tex="p" /> for the early decay, so the preset productivity still applies.
+        </p>
+      </Section>
+
+      <Section title="The ETAS Alternative">
+        <p>
+          The Reasenberg&ndash;Jones rate describes the mainshock&rsquo;s direct aftershocks. In the
+          Epidemic-Type Aftershock Sequence (ETAS) model of Ogata (1988), every aftershock also triggers its own
+          aftershocks, with productivity growing with its magnitude:
+        </p>
+        <div className="bg-gray-50 dark:bg-gray-900 rounded-md px-4 py-3">
+          <Equation tex="\lambda(t) = \sum_{t_i < t} K \, 10^{\,\alpha (M_i - M_{\mathrm{ref}})} \, (t - t_i + c)^{-p}" />
+        </div>
+        <p>
+          The forecast uses the expected rate of all generations, found by solving the corresponding renewal
+          equation numerically; counts above a threshold then follow Gutenberg&ndash;Richter with slope{' '}
+          <Equation inline tex="b" />. Secondary triggering matters most in long windows after large events. The
+          parameters must satisfy <Equation inline tex="\alpha < b" />, and the branching ratio (the mean number of
+          direct aftershocks per aftershock) should stay below 1. Defaults: <em>K</em>&nbsp;=&nbsp;{ETAS_DEFAULTS.K},{' '}
+          <em>&alpha;</em>&nbsp;=&nbsp;{ETAS_DEFAULTS.alpha}, <em>c</em>&nbsp;=&nbsp;{ETAS_DEFAULTS.c}&nbsp;days,{' '}
+          <em>p</em>&nbsp;=&nbsp;{ETAS_DEFAULTS.p}, <em>b</em>&nbsp;=&nbsp;{ETAS_DEFAULTS.b},{' '}
+          <Equation inline tex="M_{\mathrm{ref}}" />&nbsp;=&nbsp;{ETAS_DEFAULTS.mRef}; all are editable.
+        </p>
+        <p>
+          Either model can also be run as a Monte Carlo simulation. The Charts view draws synthetic catalogues
+          (event times and magnitudes) from the forecast&rsquo;s model, reproducibly from a seed: averaged over many
+          catalogues they match the expected counts, while each one shows the clustering a single sequence can have.
+          Under ETAS every simulated event triggers its own aftershocks.
+        </p>
       </Section>
 
       <Section title="The Four Model Parameters">
@@ -142,6 +217,42 @@ export default function AboutTab() {
           substantially. Operational agencies re-fit parameters to each sequence as data accumulate; forecasts from
           generic presets are indicative, and official forecasts (GeoNet, USGS) take precedence.
         </p>
+        <p>
+          Loading a quake suggests the preset for its tectonic setting, from coarse regions bundled with the app
+          (subduction margins, active crust, stable continents) and its depth: within a subduction margin or over the
+          footprint of its slab (such as the Hikurangi slab under the lower North Island), events 40&nbsp;km or deeper
+          are taken to be within the subducting slab; other events in a margin are on the interface unless shallower
+          than 15&nbsp;km. Elsewhere depth does not change the suggestion. The suggestion never changes
+          the selected model by itself.
+        </p>
+        <p>
+          When more than one setting is plausible, the <strong>Ensemble</strong> model weights the presets. With
+          probability <Equation inline tex="w_k" /> the sequence behaves as preset <Equation inline tex="k" />, so the
+          forecast is a mixture of the presets&rsquo; count distributions rather than a forecast from averaged
+          parameters:
+        </p>
+        <div className="bg-gray-50 dark:bg-gray-900 rounded-md px-4 py-3">
+          <Equation tex="\Pr(n) = \sum_k w_k\, \frac{N_k^{\,n} e^{-N_k}}{n!}, \qquad P(\geq 1) = 1 - \sum_k w_k\, e^{-N_k}." />
+        </div>
+        <p>
+          The expected number is the weighted mean <Equation inline tex="\sum_k w_k N_k" />, and each preset keeps its
+          own <Equation inline tex="b" />, so the mixture differs between magnitude bins.
+        </p>
+        <p>
+          The <strong>Update Parameters from the Observed Sequence</strong> panel does this re-fit for the
+          Reasenberg&ndash;Jones models. Aftershocks above a completeness magnitude{' '}
+          <Equation inline tex="M_c" />, recorded between the mainshock and the forecast start, update{' '}
+          <Equation inline tex="a" /> and <Equation inline tex="p" /> (optionally <Equation inline tex="c" />) through
+          the Omori&ndash;Utsu likelihood, with the selected preset as a normal prior (Page et al. 2016). The forecast
+          then uses the posterior means, and the table notes the prior and posterior values side by side.
+        </p>
+        <p>
+          The generic values themselves can be re-derived on the Evaluation tab. <strong>Regional calibration</strong>{' '}
+          pools the aftershocks of several past sequences and fits one set of <Equation inline tex="a" />,{' '}
+          <Equation inline tex="b" />, <Equation inline tex="c" /> and <Equation inline tex="p" /> to them all by
+          maximum likelihood, as Reasenberg &amp; Jones (1989) did for California, with standard errors. The result
+          can be compared with the presets and saved as a named preset for the Custom model.
+        </p>
       </Section>
 
       <Section title="How Forecasts Are Evaluated">
@@ -166,6 +277,25 @@ export default function AboutTab() {
             observed count plausible given the forecast expectation? Verdicts: consistent, over-prediction, or
             under-prediction.
           </li>
+          <li>
+            <strong>L-, CL- and M-tests</strong> (Zechar, Gerstenberger &amp; Rhoades 2010), on request: one-sided
+            likelihood tests of each window against catalogues simulated from the forecast. The L-test asks whether
+            the counts in all the magnitude bins together are as likely as the forecast&rsquo;s own; the conditional
+            L-test and M-test fix the number of events at the observed number and ask whether they are spread over
+            the magnitude bins as forecast. A quantile below 0.025 fails. The S-test needs a spatial forecast within
+            the region, which these forecasts do not have.
+          </li>
+          <li>
+            <strong>Model comparison</strong> (Rhoades et al. 2011): every preset and the Custom model scored on the
+            same catalogue and region, ranked by log-likelihood and compared pair by pair with the T-test (the mean
+            information gain per earthquake, with its 95% interval) and the W-test (Wilcoxon signed-rank test of the
+            median gain).
+          </li>
+          <li>
+            <strong>Batch evaluation</strong>: the forecast issued 1, 7 and 30 days after each of many past mainshocks,
+            from the mainshock alone, and scored against what followed. The pooled N-test pass rate should be near
+            95%, and forecasts of a given chance should verify about that often.
+          </li>
           <li>
             <strong>95% interval coverage</strong>: whether the observed count falls in the forecast&rsquo;s Poisson
             95% range.
@@ -181,6 +311,15 @@ export default function AboutTab() {
             probability is always the best strategy, so it rewards both calibration (probabilities that match
             observed frequencies) and sharpness (probabilities close to 0 or 1).
           </li>
+          <li>
+            <strong>Reliability diagram</strong> (Murphy 1973): the forecasts of ended windows, or of a whole batch,
+            grouped by their probability <Equation inline tex="p" /> and plotted against how often an event
+            occurred in each group; calibrated forecasts lie on the diagonal. The mean Brier score splits into{' '}
+            <Equation inline tex="\mathrm{REL} - \mathrm{RES} + \mathrm{UNC}" />: reliability (the squared gap
+            between forecast and observed frequency, lower is better), resolution (how far the groups&rsquo;
+            frequencies differ from the base rate, higher is better) and uncertainty (the score of always
+            forecasting the base rate).
+          </li>
           <li>
             <strong>Log score.</strong> The negative log-likelihood of the outcome:{' '}
             <Equation inline tex="\mathrm{LS} = -\left[\, o \ln p + (1 - o)\ln(1 - p) \,\right]" />.
@@ -206,10 +345,24 @@ export default function AboutTab() {
             <strong>Windows still in progress</strong> are scored over the elapsed time only, with the expected count
             integrated over the same elapsed period.
           </li>
+          <li>
+            <strong>Completeness and b-value.</strong> From a catalogue reaching below the thresholds, the magnitude
+            of completeness <Equation inline tex="M_c" /> is estimated by maximum curvature, goodness of fit (Wiemer
+            &amp; Wyss 2000) and b-value stability (Cao &amp; Gao 2002). Above it, the Aki&ndash;Utsu estimate{' '}
+            <Equation inline tex="b = \log_{10} e \,/\, (\bar{M} - (M_c - \Delta M/2))" /> carries the Shi &amp; Bolt
+            (1982) uncertainty, and can be copied into the Custom model.
+          </li>
+          <li>
+            <strong>Short-term incompleteness.</strong> After a source of magnitude{' '}
+            <Equation inline tex="M_s" /> the catalogue is taken to be complete only above{' '}
+            <Equation inline tex="M_c(t) = M_s - G - H\log_{10} t" /> (Helmstetter, Kagan &amp; Jackson 2006). When
+            the forecast models it, the table adds the expected <em>recorded</em> number to each bin, and every
+            score compares the observed count with that recorded expectation rather than the true one.
+          </li>
         </ul>
         <p>
-          Caveats: counts are assumed Poisson and parameter uncertainty is not propagated (intervals are narrower than
-          reality); GeoNet magnitudes mix magnitude types; catalogues are incomplete for small events in the hours
+          Caveats: counts are assumed Poisson and, unless the forecast includes it, parameter uncertainty is not
+          propagated (intervals are narrower than reality); GeoNet magnitudes mix magnitude types; catalogues are incomplete for small events in the hours
           after a large mainshock. A single evaluation is weak evidence; consistency across many forecasts is what
           validates a model.
         </p>
@@ -218,10 +371,23 @@ export default function AboutTab() {
       <Section title="References">
         <ul className="list-disc list-inside space-y-1">
           <li>Reasenberg, P.A. &amp; Jones, L.M. (1989, 1994). Earthquake hazard after a mainshock in California. <em>Science</em> 243, 1173–1176.</li>
+          <li>Aki, K. (1965). Maximum likelihood estimate of b in the formula log N = a − bM and its confidence limits. <em>Bull. Earthq. Res. Inst.</em> 43, 237–239.</li>
+          <li>Cao, A. &amp; Gao, S.S. (2002). Temporal variation of seismic b-values beneath northeastern Japan island arc. <em>GRL</em> 29(9).</li>
+          <li>Dieterich, J. (1994). A constitutive law for rate of earthquake production and its application to earthquake clustering. <em>JGR</em> 99(B2), 2601–2618.</li>
+          <li>Helmstetter, A., Kagan, Y.Y. &amp; Jackson, D.D. (2006). Comparison of short-term and time-independent earthquake forecast models for southern California. <em>BSSA</em> 96(1), 90–106.</li>
+          <li>Kagan, Y.Y. (2002). Seismic moment distribution revisited: I. Statistical results. <em>Geophysical Journal International</em> 148(3), 520–541.</li>
+          <li>Mignan, A. (2015). Modeling aftershocks as a stretched exponential relaxation. <em>GRL</em> 42(22), 9726–9732.</li>
+          <li>Murphy, A.H. (1973). A new vector partition of the probability score. <em>Journal of Applied Meteorology</em> 12(4), 595&ndash;600.</li>
+          <li>Ogata, Y. (1988). Statistical models for earthquake occurrences and residual analysis for point processes. <em>JASA</em> 83(401), 9–27.</li>
           <li>Hardebeck, J.L. et al. (2019). Updated California aftershock parameters. <em>Seismological Research Letters</em> 90(1).</li>
           <li>Page, M.T., van der Elst, N., Hardebeck, J., Felzer, K. &amp; Michael, A.J. (2016). Three ingredients for improved global aftershock forecasts. <em>BSSA</em> 106(5).</li>
+          <li>Rhoades, D.A., Schorlemmer, D., Gerstenberger, M.C., Christophersen, A., Zechar, J.D. &amp; Imoto, M. (2011). Efficient testing of earthquake forecasting models. <em>Acta Geophysica</em> 59(4), 728&ndash;747.</li>
+          <li>Shi, Y. &amp; Bolt, B.A. (1982). The standard error of the magnitude-frequency b value. <em>BSSA</em> 72(5), 1677–1687.</li>
           <li>Wells, D.L. &amp; Coppersmith, K.J. (1994). New empirical relationships among magnitude, rupture length, rupture width, rupture area, and surface displacement. <em>BSSA</em> 84(4), 974–1002.</li>
+          <li>Wiemer, S. &amp; Wyss, M. (2000). Minimum magnitude of completeness in earthquake catalogs. <em>BSSA</em> 90(4), 859–869.</li>
+          <li>Woessner, J. &amp; Wiemer, S. (2005). Assessing the quality of earthquake catalogues. <em>BSSA</em> 95(2), 684–698.</li>
           <li>Zechar, J.D. (2010). Evaluating earthquake predictions and earthquake forecasts: a guide for students and new researchers. <em>CORSSA</em>.</li>
+          <li>Zechar, J.D., Gerstenberger, M.C. &amp; Rhoades, D.A. (2010). Likelihood-based tests for evaluating space&ndash;rate&ndash;magnitude earthquake forecasts. <em>BSSA</em> 100(3), 1184&ndash;1195.</li>
           <li>GeoNet (Earth Sciences New Zealand): quake API and QuakeSearch catalogue (api.geonet.org.nz, quakesearch.geonet.org.nz).</li>
         </ul>
       </Section>
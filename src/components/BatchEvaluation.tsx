@@ -0,0 +1,339 @@
+'use client';
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import type { ModelParameters, RJModelType, SequenceSelectionInput } from '@/types';
+import { MODEL_INFO, MODEL_PRESETS } from '@/types';
+import { formatValue, validateMagnitudeThresholds } from '@/lib/calculations';
+import { formatNZDateTime } from '@/lib/datetime';
+import { regionBbox } from '@/lib/evaluation';
+import { fetchObservedCatalog, ApiError } from '@/lib/api';
+import {
+  BATCH_DURATION_DAYS,
+  BATCH_LEAD_DAYS,
+  DEFAULT_SEQUENCE_SELECTION,
+  batchCatalogWindow,
+  batchRegion,
+  batchSpanDays,
+  findSequences,
+  runSequences,
+  scoreSequence,
+  summariseBatch,
+  validateSequenceSelection,
+  type BatchForecast,
+  type BatchScores,
+  type BatchSettings,
+  type SequenceOutcome,
+  type SequenceProgress,
+} from '@/lib/batch';
+import SequenceSelector from './SequenceSelector';
+import ReliabilityDiagram from './ReliabilityDiagram';
+
+interface BatchEvaluationProps {
+  /** Parameters of the Custom model; the preset's defaults when absent */
+  customParams?: ModelParameters;
+  /** Quake ID to start the list with */
+  initialQuakeId?: string;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+const LABEL_CLASS = 'block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1';
+
+const formatShare = (x: number) => `${(x * 100).toFixed(0)}%`;
+
+/** A row of the pooled-scores table */
+function scoresRow(label: string, s: BatchScores): React.ReactNode {
+  return (
+    <tr key={label} className="text-gray-700 dark:text-gray-300">
+      <th scope="row" className="px-3 py-2 text-left font-medium whitespace-nowrap">{label}</th>
+      <td className="px-3 py-2 text-center font-mono">{s.forecasts}</td>
+      <td className="px-3 py-2 text-center font-mono">{formatShare(s.passRate)}</td>
+      <td className="px-3 py-2 text-center font-mono">{formatShare(s.coverage)}</td>
+      <td className="px-3 py-2 text-center font-mono">{s.observed} / {formatValue(s.expected)}</td>
+      <td className="px-3 py-2 text-center font-mono">{s.meanBrier.toFixed(3)}</td>
+      <td className="px-3 py-2 text-center font-mono">{s.meanLogScore.toFixed(3)}</td>
+      <td className="px-3 py-2 text-center font-mono">{s.meanPoissonLL.toFixed(2)}</td>
+    </tr>
+  );
+}
+
+export default function BatchEvaluation({ customParams = MODEL_PRESETS.custom, initialQuakeId = '' }: BatchEvaluationProps) {
+  const [selection, setSelection] = useState<SequenceSelectionInput>({ ...DEFAULT_SEQUENCE_SELECTION, ids: initialQuakeId });
+  const [modelId, setModelId] = useState<RJModelType>('nz');
+  const [thresholdsInput, setThresholdsInput] = useState('3, 4, 5');
+  const [multiplier, setMultiplier] = useState(1);
+
+  const [errors, setErrors] = useState<string[]>([]);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<SequenceProgress | null>(null);
+  const [outcomes, setOutcomes] = useState<SequenceOutcome<BatchForecast[]>[]>([]);
+  // The settings the outcomes were scored with, for the export
+  const [ranWith, setRanWith] = useState<BatchSettings | null>(null);
+  const cancelled = useRef(false);
+
+  const runBatch = useCallback(async () => {
+    const thresholds = thresholdsInput.split(/[\s,;]+/).filter(t => t.length > 0).map(Number);
+    const list = [...validateMagnitudeThresholds(thresholds), ...validateSequenceSelection(selection)];
+    setErrors(list);
+    if (list.length > 0) return;
+
+    const { a, b, c, p } = modelId === 'custom' ? customParams : MODEL_PRESETS[modelId];
+    const settings: BatchSettings = {
+      params: { a, b, c, p },
+      thresholds,
+      multiplier,
+      leadDays: BATCH_LEAD_DAYS,
+      durationDays: BATCH_DURATION_DAYS,
+    };
+    cancelled.current = false;
+    setRunning(true);
+    setOutcomes([]);
+    setRanWith(settings);
+    const nowMs = Date.now();
+    try {
+      // The listed quakes, loaded one by one below, or the independent
+      // mainshocks of a catalogue query
+      if (selection.mode === 'query') {
+        setProgress({ done: 0, total: 0, current: 'Searching for mainshocks' });
+      }
+      const jobs = await findSequences(selection, multiplier, batchSpanDays(settings).end);
+
+      await runSequences<BatchForecast[]>(jobs, async mainshock => {
+        const span = batchCatalogWindow(mainshock, settings, nowMs);
+        if (!span) return { note: 'No forecast window has ended yet' };
+        const catalog = await fetchObservedCatalog(
+          regionBbox(batchRegion(mainshock, multiplier)), span.start, span.end, thresholds[0]
+        );
+        return { result: scoreSequence(mainshock, settings, catalog, nowMs) };
+      }, {
+        onProgress: setProgress,
+        onOutcome: outcome => setOutcomes(prev => [...prev, outcome]),
+        isCancelled: () => cancelled.current,
+      }, 'Failed to evaluate this sequence');
+    } catch (err) {
+      setErrors([err instanceof ApiError ? err.message : 'Failed to search the catalogue for mainshocks']);
+    } finally {
+      setRunning(false);
+      setProgress(null);
+    }
+  }, [selection, modelId, customParams, thresholdsInput, multiplier]);
+
+  const forecasts = useMemo(() => outcomes.flatMap(o => o.result ?? []), [outcomes]);
+  const summary = useMemo(() => (forecasts.length > 0 ? summariseBatch(forecasts) : null), [forecasts]);
+  const evaluations = useMemo(() => forecasts.map(f => f.evaluation), [forecasts]);
+
+  const handleExportCsv = () => {
+    if (!summary || !ranWith) return;
+    const { a, b, c, p } = ranWith.params;
+    const scoreLine = (label: string, s: BatchScores) => [
+      label, s.forecasts, s.passRate.toFixed(3), s.coverage.toFixed(3), s.observed, s.expected.toPrecision(4),
+      s.meanBrier.toFixed(4), s.meanLogScore.toFixed(4), s.meanPoissonLL.toFixed(4),
+    ].join(',');
+    const lines = [
+      `# Pseudo-prospective batch evaluation: ${outcomes.length} sequences, ${summary.overall.forecasts} scored forecasts`,
+      `# Model: ${MODEL_INFO[modelId].name} (a=${a}, b=${b}, c=${c}, p=${p})`,
+      `# Forecasts issued ${ranWith.leadDays.join(', ')} days after each mainshock, each for ${ranWith.durationDays} days`,
+      `# Region: circle of radius ${ranWith.multiplier} x Wells & Coppersmith rupture length about each epicentre (min 10 km)`,
+      '# Observed data: GeoNet QuakeSearch; mainshocks excluded',
+      `# Generated: ${new Date().toISOString()}`,
+      '',
+      'Group,Forecasts,N-test pass rate,95% coverage,Observed,Expected,Mean Brier,Mean log score,Mean Poisson LL',
+      scoreLine('All', summary.overall),
+      ...summary.byLead.map(l => scoreLine(`Lead ${l.leadDays} d`, l.scores)),
+      '',
+      'Probability from,Probability to,Forecasts,Mean forecast probability,Observed frequency',
+      ...summary.calibration.map(bin => [
+        bin.lower, bin.upper, bin.count, bin.meanProbability?.toFixed(4) ?? '', bin.observedFrequency?.toFixed(4) ?? '',
+      ].join(',')),
+      '',
+      'Brier reliability,Brier resolution,Brier uncertainty,Base rate',
+      [
+        summary.decomposition.reliability.toFixed(4), summary.decomposition.resolution.toFixed(4),
+        summary.decomposition.uncertainty.toFixed(4), summary.decomposition.baseRate.toFixed(4),
+      ].join(','),
+      '',
+      'Quake ID,Mainshock magnitude,Mainshock time (UTC),Lead (days),Bin,Expected,Observed,P(>=1),N-test,Within 95%,Brier,Log score,Poisson LL,Note',
+      ...outcomes.flatMap(o => {
+        const head = [o.quakeId, o.mainshock?.magnitude ?? '', o.mainshock ? new Date(o.mainshock.timeMs).toISOString() : ''];
+        if (!o.result || o.result.length === 0) return [[...head, '', '', '', '', '', '', '', '', '', '', `"${o.note ?? ''}"`].join(',')];
+        return o.result.map(f => {
+          const e = f.evaluation;
+          return [
+            ...head, f.leadDays, f.binLabel, e.expected.toPrecision(4), e.observed, e.probability.toFixed(4), e.verdict,
+            e.withinCi ? 'yes' : 'no', e.brier.toFixed(4), e.logScoreBinary.toFixed(4), e.poissonLL.toFixed(4), '',
+          ].join(',');
+        });
+      }),
+    ];
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `batch-evaluation-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-5 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm print:hidden">
+      <h3 className="text-sm font-bold text-gray-700 dark:text-gray-300 uppercase tracking-wider mb-1">
+        Batch Evaluation Across Sequences
+      </h3>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        Pseudo-prospective test over many past sequences: for each mainshock the forecast is issued{' '}
+        {BATCH_LEAD_DAYS.join(', ')} days after it, for {BATCH_DURATION_DAYS} days, from the mainshock alone, then
+        scored against the GeoNet catalogue. A single sequence says little; the pooled pass rate, scores and
+        calibration say much more.
+      </p>
+
+      <SequenceSelector value={selection} onChange={setSelection} />
+
+      <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+        <div>
+          <label htmlFor="batch-model" className={LABEL_CLASS}>Model</label>
+          <select id="batch-model" value={modelId} onChange={(e) => setModelId(e.target.value as RJModelType)} className={INPUT_CLASS}>
+            {(Object.keys(MODEL_PRESETS) as RJModelType[]).map(id => (
+              <option key={id} value={id}>{MODEL_INFO[id].name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="batch-thresholds" className={LABEL_CLASS}>Magnitude thresholds</label>
+          <input id="batch-thresholds" type="text" value={thresholdsInput} onChange={(e) => setThresholdsInput(e.target.value)} className={INPUT_CLASS} />
+        </div>
+        <div>
+          <label htmlFor="batch-multiplier" className={LABEL_CLASS}>
+            Radius = <em>k</em> × rupture length
+          </label>
+          <select id="batch-multiplier" value={multiplier} onChange={(e) => setMultiplier(parseFloat(e.target.value))} className={INPUT_CLASS}>
+            <option value={0.5}>k = 0.5</option>
+            <option value={1}>k = 1 (default)</option>
+            <option value={2}>k = 2</option>
+            <option value={3}>k = 3</option>
+          </select>
+        </div>
+        <div className="flex gap-2">
+          {running ? (
+            <button
+              onClick={() => { cancelled.current = true; }}
+              className="px-4 py-2 bg-gray-600 text-white text-sm font-semibold rounded-md hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={runBatch}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+            >
+              Run Batch
+            </button>
+          )}
+          <button
+            onClick={handleExportCsv}
+            disabled={!summary || running}
+            className="px-4 py-2 bg-green-600 text-white text-sm rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-green-400"
+            aria-label="Download the batch summary as CSV"
+          >
+            📥 CSV
+          </button>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-3 text-sm text-red-600 dark:text-red-400 list-disc list-inside" role="alert">
+          {errors.map((e, i) => <li key={i}>{e}</li>)}
+        </ul>
+      )}
+
+      {progress && (
+        <div className="mt-3" role="status" aria-live="polite">
+          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+            <span>{progress.total > 0 ? `Sequence ${progress.done + 1} of ${progress.total}: ${progress.current}` : progress.current}…</span>
+            {progress.total > 0 && <span>{Math.round((progress.done / progress.total) * 100)}%</span>}
+          </div>
+          <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-all"
+              style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {summary && (
+        <div className="mt-4 space-y-6">
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm border-collapse">
+              <thead>
+                <tr className="bg-gray-50 dark:bg-gray-900 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                  <th scope="col" className="px-3 py-2 text-left">Forecasts</th>
+                  <th scope="col" className="px-3 py-2 text-center">Scored</th>
+                  <th scope="col" className="px-3 py-2 text-center">N-test pass</th>
+                  <th scope="col" className="px-3 py-2 text-center">In 95% range</th>
+                  <th scope="col" className="px-3 py-2 text-center">Obs / Exp</th>
+                  <th scope="col" className="px-3 py-2 text-center">Brier</th>
+                  <th scope="col" className="px-3 py-2 text-center">Log score</th>
+                  <th scope="col" className="px-3 py-2 text-center">Poisson LL</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {scoresRow('All', summary.overall)}
+                {summary.byLead.map(l => scoresRow(`Issued at ${l.leadDays} d`, l.scores))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Each forecast is one magnitude bin of one window of one sequence. A calibrated model passes the
+              N-test about 95% of the time; scores are means over the forecasts.
+            </p>
+          </div>
+          <ReliabilityDiagram evaluations={evaluations} description="scored forecasts from every sequence" />
+        </div>
+      )}
+
+      {outcomes.length > 0 && (
+        <details className="mt-4">
+          <summary className="text-sm font-semibold text-gray-700 dark:text-gray-300 cursor-pointer">
+            Sequences ({outcomes.length})
+          </summary>
+          <div className="overflow-x-auto mt-2">
+            <table className="min-w-full text-sm border-collapse">
+              <thead>
+                <tr className="bg-gray-50 dark:bg-gray-900 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                  <th scope="col" className="px-3 py-2 text-left">Quake</th>
+                  <th scope="col" className="px-3 py-2 text-center">M</th>
+                  <th scope="col" className="px-3 py-2 text-left">Time (NZ)</th>
+                  <th scope="col" className="px-3 py-2 text-center">Forecasts</th>
+                  <th scope="col" className="px-3 py-2 text-center">N-test pass</th>
+                  <th scope="col" className="px-3 py-2 text-center">Obs / Exp</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {outcomes.map(o => (
+                  <tr key={o.quakeId} className="text-gray-700 dark:text-gray-300">
+                    <th scope="row" className="px-3 py-2 text-left font-mono font-medium">{o.quakeId}</th>
+                    <td className="px-3 py-2 text-center font-mono">{o.mainshock?.magnitude.toFixed(1) ?? '–'}</td>
+                    <td className="px-3 py-2 text-left whitespace-nowrap">
+                      {o.mainshock ? formatNZDateTime(new Date(o.mainshock.timeMs).toISOString()) : '–'}
+                    </td>
+                    {o.result && o.result.length > 0 ? (
+                      <>
+                        <td className="px-3 py-2 text-center font-mono">{o.result.length}</td>
+                        <td className="px-3 py-2 text-center font-mono">
+                          {o.result.filter(f => f.evaluation.verdict === 'consistent').length}
+                        </td>
+                        <td className="px-3 py-2 text-center font-mono">
+                          {o.result.reduce((s, f) => s + f.evaluation.observed, 0)} /{' '}
+                          {formatValue(o.result.reduce((s, f) => s + f.evaluation.expected, 0))}
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={3} className="px-3 py-2 text-left text-amber-700 dark:text-amber-400">{o.note}</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
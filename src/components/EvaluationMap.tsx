@@ -23,30 +23,32 @@ import {
   type EvalRegion,
   type ObservedEvent,
 } from '@/lib/evaluation';
+import { rampColor } from '@/lib/colors';
 
 // Ordinal severity ramp shared with the visualization charts:
 // light -> dark red = low -> high magnitude bin
-const BIN_COLORS = { m3: '#f87171', m2: '#dc2626', m1: '#7f1d1d' } as const;
+const BIN_RAMP = ['#f87171', '#dc2626', '#7f1d1d'] as const;
 const OUTSIDE_COLOR = '#9ca3af'; // events inside the bounding box but outside the region
 
 interface EvaluationMapProps {
   region: EvalRegion;
   events: ObservedEvent[];
   mainshock: { latitude: number; longitude: number; magnitude: number; quakeId: string };
-  /** Bin thresholds: m1 highest, m3 lowest */
-  thresholds: { m1: number; m2: number; m3: number };
+  /** Ascending bin thresholds; the top bin is open-ended */
+  thresholds: number[];
 }
 
-function binFor(mag: number, t: EvaluationMapProps['thresholds']): keyof typeof BIN_COLORS | null {
-  if (mag >= t.m1) return 'm1';
-  if (mag >= t.m2) return 'm2';
-  if (mag >= t.m3) return 'm3';
+/** Index of the bin containing mag (0 = lowest), or null below the lowest threshold */
+function binFor(mag: number, t: number[]): number | null {
+  for (let i = t.length - 1; i >= 0; i--) {
+    if (mag >= t[i]) return i;
+  }
   return null;
 }
 
 /** Marker radius in px, scaled gently with magnitude */
-function markerRadius(mag: number, t: EvaluationMapProps['thresholds']): number {
-  return Math.max(3, 3 + (mag - t.m3) * 2);
+function markerRadius(mag: number, t: number[]): number {
+  return Math.max(3, 3 + (mag - t[0]) * 2);
 }
 
 function formatUtc(timeMs: number): string {
@@ -129,7 +131,7 @@ export default function EvaluationMap({ region, events, mainshock, thresholds }:
       if (e.publicId === mainshock.quakeId) continue;
       const inside = isInRegion(region, e.latitude, e.longitude);
       const bin = binFor(e.magnitude, thresholds);
-      if (!bin) continue;
+      if (bin === null) continue;
       const distanceKm = haversineKm(mainshock.latitude, mainshock.longitude, e.latitude, e.longitude);
       const detailHtml =
         `<b>M${e.magnitude.toFixed(1)}</b>${inside ? '' : ' <i>(outside region, excluded)</i>'}<br/>` +
@@ -139,9 +141,9 @@ export default function EvaluationMap({ region, events, mainshock, thresholds }:
         `ID: ${e.publicId}`;
       new CircleMarker([e.latitude, displayLon(e.longitude)], {
         radius: markerRadius(e.magnitude, thresholds),
-        color: inside ? BIN_COLORS[bin] : OUTSIDE_COLOR,
+        color: inside ? rampColor(BIN_RAMP, bin, thresholds.length) : OUTSIDE_COLOR,
         weight: 1,
-        fillColor: inside ? BIN_COLORS[bin] : OUTSIDE_COLOR,
+        fillColor: inside ? rampColor(BIN_RAMP, bin, thresholds.length) : OUTSIDE_COLOR,
         fillOpacity: inside ? 0.7 : 0.35,
       })
         .bindTooltip(detailHtml, { direction: 'top', opacity: 0.95 })
@@ -185,15 +187,15 @@ export default function EvaluationMap({ region, events, mainshock, thresholds }:
         <span className="flex items-center gap-1.5">
           <span className="text-base leading-none">★</span> Mainshock
         </span>
-        <span className="flex items-center gap-1.5">
-          <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: BIN_COLORS.m1 }} /> M{thresholds.m1}+
-        </span>
-        <span className="flex items-center gap-1.5">
-          <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: BIN_COLORS.m2 }} /> M{thresholds.m2}–{thresholds.m1}
-        </span>
-        <span className="flex items-center gap-1.5">
-          <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: BIN_COLORS.m3 }} /> M{thresholds.m3}–{thresholds.m2}
-        </span>
+        {[...thresholds.keys()].reverse().map(i => (
+          <span key={thresholds[i]} className="flex items-center gap-1.5">
+            <span
+              className="inline-block w-3 h-3 rounded-full"
+              style={{ backgroundColor: rampColor(BIN_RAMP, i, thresholds.length) }}
+            />{' '}
+            {i === thresholds.length - 1 ? `M${thresholds[i]}+` : `M${thresholds[i]}–${thresholds[i + 1]}`}
+          </span>
+        ))}
         <span className="flex items-center gap-1.5">
           <span className="inline-block w-3 h-3 rounded-full opacity-50" style={{ backgroundColor: OUTSIDE_COLOR }} /> Outside region (excluded)
         </span>
@@ -4,24 +4,43 @@ import React, { useMemo, useState, useCallback } from 'react';
 import dynamic from 'next/dynamic';
 import ReactEChartsCore from 'echarts-for-react/lib/core';
 import * as echarts from 'echarts/core';
-import { BarChart, LineChart } from 'echarts/charts';
+import { BarChart, LineChart, ScatterChart } from 'echarts/charts';
 import {
   GridComponent,
   LegendComponent,
+  MarkLineComponent,
   TitleComponent,
   TooltipComponent,
 } from 'echarts/components';
 import { CanvasRenderer } from 'echarts/renderers';
 import type { EChartsCoreOption } from 'echarts/core';
-import type { CalculationResults } from '@/types';
-import { qpois, formatValue } from '@/lib/calculations';
+import type { CalculationResults, ForecastWindow, ModelParameters, SavedPreset } from '@/types';
+import { MODEL_INFO, TIME_UNIT_DAYS } from '@/types';
+import { qpois, formatValue, parameterMixture, mixtureQuantile, forecastWindowLabel, daysToUnit, formatTimeSpan, calculateAftershockRate } from '@/lib/calculations';
+import { solveEtas } from '@/lib/etas';
+import { ensembleCount } from '@/lib/ensemble';
+import { formatTemporalKernel } from '@/lib/kernels';
+import { missedCount, recordedFractionForBin } from '@/lib/incompleteness';
+import { simulateCatalogues } from '@/lib/simulation';
+import { CSEP_CRITICAL_QUANTILE, consistencyTests, simulatedBinCounts, type ConsistencyTests, type QuantileScore } from '@/lib/consistency';
 import { fetchObservedCatalog, ApiError, CATALOG_TRUNCATION_WARNING_COUNT } from '@/lib/api';
+import {
+  estimateCompleteness,
+  MAGNITUDE_BIN,
+  MIN_B_VALUE_EVENTS,
+  type McMethod,
+} from '@/lib/completeness';
 import InfoTooltip from './InfoTooltip';
+import ModelComparison from './ModelComparison';
+import BatchEvaluation from './BatchEvaluation';
+import RegionalCalibration from './RegionalCalibration';
+import ReliabilityDiagram from './ReliabilityDiagram';
 import {
   evaluationRadiusKm,
   wellsCoppersmithLengthKm,
   regionAreaKm2,
   regionBbox,
+  isInRegion,
   countMatches,
   expectedCountForBin,
   evaluateBin,
@@ -32,7 +51,7 @@ import {
   type BinEvaluation,
 } from '@/lib/evaluation';
 
-echarts.use([BarChart, LineChart, GridComponent, LegendComponent, TitleComponent, TooltipComponent, CanvasRenderer]);
+echarts.use([BarChart, LineChart, ScatterChart, GridComponent, LegendComponent, MarkLineComponent, TitleComponent, TooltipComponent, CanvasRenderer]);
 
 // Leaflet accesses `window` at import time, so the map must be client-only
 const EvaluationMap = dynamic(() => import('./EvaluationMap'), {
@@ -51,7 +70,15 @@ const OBSERVED_COLOR = '#2563eb'; // observed (data) series: blue
 
 const MS_PER_DAY = 86_400_000;
 
-type BinKey = 'm1' | 'm2' | 'm3';
+// Simulated catalogues for the CSEP likelihood tests (0 = not run), and their seed
+const CSEP_COUNTS = [0, 100, 1000];
+const CSEP_SEED = 1;
+
+const MC_METHOD_LABELS: Record<McMethod, string> = {
+  maxCurvature: 'Maximum curvature',
+  goodnessOfFit: 'Goodness of fit',
+  bStability: 'b-value stability',
+};
 
 // Tooltips for the score columns in the summary table
 const SCORE_TOOLTIPS = {
@@ -84,33 +111,110 @@ const SCORE_TOOLTIPS = {
       </p>
     </>
   ),
+  lTest: (
+    <>
+      <strong>L-test</strong>
+      <p className="mt-1">
+        Whether the observed counts in all the bins of a window, taken together, are as likely as those of
+        catalogues simulated from the forecast. The value is the share of simulated catalogues that fit no
+        better; below 0.025 the forecast fails.
+      </p>
+    </>
+  ),
+  clTest: (
+    <>
+      <strong>Conditional L-test</strong>
+      <p className="mt-1">
+        The L-test with the number of events fixed at the observed number, so it judges how the events are
+        spread over the bins rather than how many there were.
+      </p>
+    </>
+  ),
+  mTest: (
+    <>
+      <strong>M-test</strong>
+      <p className="mt-1">
+        Whether the observed magnitudes follow the forecast&rsquo;s magnitude distribution, given the observed
+        number of events.
+      </p>
+    </>
+  ),
 };
 
 interface EvalRow {
-  duration: number;
-  binKey: BinKey;
+  /** Days after the forecast start time */
+  window: ForecastWindow;
+  /** Index into CalculationResults.rangeLabels (0 = lowest bin) */
+  binIndex: number;
   binLabel: string;
   status: 'complete' | 'partial' | 'future';
-  /** Days of the window actually evaluated (equals duration when complete) */
+  /** Days of the window actually evaluated (its full length when complete) */
   evaluatedDays: number;
   scores: BinEvaluation | null;
 }
 
-function getMagValue(label: string): number {
-  const match = label.match(/M([0-9.]+)/);
-  return match ? parseFloat(match[1]) : 0;
+
+/**
+ * Real-time span covering every forecast window: from the earliest window
+ * start to the latest window end, so one catalogue query serves them all
+ */
+function forecastEnvelope(results: CalculationResults): { windowStartMs: number; windowEndMs: number } {
+  const forecastStartMs = new Date(results.quakeTimeISO).getTime() + results.rangeStartDays * MS_PER_DAY;
+  const windows = results.forecasts.map(f => f.window);
+  return {
+    windowStartMs: forecastStartMs + Math.min(...windows.map(w => w.start)) * MS_PER_DAY,
+    windowEndMs: forecastStartMs + Math.max(...windows.map(w => w.end)) * MS_PER_DAY,
+  };
+}
+
+/** Elapsed part of a row's window in the window's own unit, e.g. "3.2 hours" */
+function evaluatedSpan(row: EvalRow): string {
+  const unit = row.window.unit ?? 'days';
+  return `${(row.evaluatedDays / TIME_UNIT_DAYS[unit]).toFixed(1)} ${unit}`;
 }
 
 function formatScore(v: number): string {
   return Number.isFinite(v) ? v.toFixed(3) : '–';
 }
 
+/** A CSEP quantile, red when the forecast fails the test */
+function quantileBadge(score: QuantileScore): React.ReactNode {
+  return score.verdict === 'consistent' ? (
+    <span className="inline-block px-2 py-0.5 rounded text-xs font-bold bg-green-50 text-green-700 dark:bg-green-950/20 dark:text-green-400">
+      {score.quantile.toFixed(2)}
+    </span>
+  ) : (
+    <span
+      className="inline-block px-2 py-0.5 rounded text-xs font-bold bg-red-50 text-red-700 dark:bg-red-950/20 dark:text-red-400"
+      title={`Inconsistent: below ${CSEP_CRITICAL_QUANTILE}`}
+    >
+      {score.quantile.toFixed(2)}
+    </span>
+  );
+}
+
+/** The L-, CL- and M-test cells of a forecast window, spanning its bin rows */
+function consistencyCells(tests: ConsistencyTests | null, rowSpan: number): React.ReactNode {
+  if (!tests) {
+    return <td colSpan={3} rowSpan={rowSpan} className="px-3 py-2 text-center text-gray-400">–</td>;
+  }
+  return [tests.l, tests.cl, tests.m].map((score, k) => (
+    <td key={k} rowSpan={rowSpan} className="px-3 py-2 text-center">{quantileBadge(score)}</td>
+  ));
+}
+
 interface EvaluationTabProps {
   results: CalculationResults | null;
   modelName?: string;
+  /** Use an estimated b-value in the Custom model */
+  onUseBValue?: (b: number) => void;
+  /** Parameters of the Custom model, for the model comparison */
+  customParams?: ModelParameters;
+  /** Save parameters fitted by regional calibration as a named preset */
+  onSavePreset?: (preset: SavedPreset) => void;
 }
 
-export default function EvaluationTab({ results, modelName = 'NZ Generic' }: EvaluationTabProps) {
+export default function EvaluationTab({ results, modelName = 'NZ Generic', onUseBValue, customParams, onSavePreset }: EvaluationTabProps) {
   // Region configuration (assumptions are user-visible and adjustable)
   const [regionType, setRegionType] = useState<RegionType>('circle');
   const [multiplier, setMultiplier] = useState<number>(1);
@@ -126,7 +230,14 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
   // forecast (new thresholds, windows, or model) invalidates the catalogue,
   // since the query envelope and magnitude floor may no longer match
   const [catalogFor, setCatalogFor] = useState<CalculationResults | null>(null);
-  const [selectedBin, setSelectedBin] = useState<BinKey>('m3');
+  const [selectedBin, setSelectedBin] = useState(0);
+  const [csepCount, setCsepCount] = useState(0);
+  // Completeness / b-value catalogue: same region and window, lower magnitude floor
+  const [mcFloorInput, setMcFloorInput] = useState<string>('');
+  const [magCatalog, setMagCatalog] = useState<ObservedEvent[] | null>(null);
+  const [magCatalogFor, setMagCatalogFor] = useState<CalculationResults | null>(null);
+  const [isEstimatingMc, setIsEstimatingMc] = useState(false);
+  const [mcError, setMcError] = useState<string | null>(null);
   // While true, the diagnostic charts render at print dimensions so they fit
   // side by side on a landscape page (CSS cannot resize a canvas chart)
   const [printMode, setPrintMode] = useState(false);
@@ -141,23 +252,22 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
     }, 350);
   }, []);
 
-  const magVals = useMemo(() => {
+  // Magnitude bins of the forecast, lowest first (the top bin is open-ended)
+  const bins = useMemo((): { target: BinTarget; label: string }[] | null => {
     if (!results) return null;
-    return {
-      m1: getMagValue(results.rangeLabels.range1),
-      m2: getMagValue(results.rangeLabels.range2),
-      m3: getMagValue(results.rangeLabels.range3),
-    };
+    const thresholds = results.magnitudeThresholds;
+    return thresholds.map((minMag, i) => ({
+      target: { minMag, maxMag: i < thresholds.length - 1 ? thresholds[i + 1] : null },
+      label: results.rangeLabels[i],
+    }));
   }, [results]);
 
-  const bins = useMemo((): Record<BinKey, { target: BinTarget; label: string }> | null => {
-    if (!results || !magVals) return null;
-    return {
-      m3: { target: { minMag: magVals.m3, maxMag: magVals.m2 }, label: results.rangeLabels.range3 },
-      m2: { target: { minMag: magVals.m2, maxMag: magVals.m1 }, label: results.rangeLabels.range2 },
-      m1: { target: { minMag: magVals.m1, maxMag: null }, label: results.rangeLabels.range1 },
-    };
-  }, [results, magVals]);
+  // Lowest magnitude threshold: the catalogue floor and the bin most exposed to incompleteness
+  const lowestThreshold = results ? results.magnitudeThresholds[0] : null;
+
+  // The bin selected for the diagnostic charts, falling back to the lowest
+  // when a recalculated forecast has fewer bins
+  const binIndex = bins && selectedBin < bins.length ? selectedBin : 0;
 
   const radiusKm = useMemo(
     () => (results ? evaluationRadiusKm(results.mainshockMagnitude, multiplier) : 0),
@@ -165,7 +275,7 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
   );
 
   const runEvaluation = useCallback(async () => {
-    if (!results || !magVals) return;
+    if (!results || lowestThreshold === null) return;
     setEvalError(null);
     setCatalog(null);
     setEvaluatedRegion(null);
@@ -179,10 +289,7 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
     }
 
     const region: EvalRegion = { type: regionType, latitude, longitude, radiusKm };
-    const quakeTimeMs = new Date(results.quakeTimeISO).getTime();
-    const maxDur = Math.max(...results.forecasts.map(f => f.duration));
-    const windowStartMs = quakeTimeMs + results.rangeStartDays * MS_PER_DAY;
-    const windowEndMs = windowStartMs + maxDur * MS_PER_DAY;
+    const { windowStartMs, windowEndMs } = forecastEnvelope(results);
     const nowMs = Date.now();
 
     if (windowStartMs >= nowMs) {
@@ -196,7 +303,7 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
         regionBbox(region),
         new Date(windowStartMs),
         new Date(Math.min(windowEndMs, nowMs)),
-        magVals.m3
+        lowestThreshold
       );
       setCatalog(events);
       setEvaluatedRegion(region);
@@ -206,7 +313,46 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
     } finally {
       setIsEvaluating(false);
     }
-  }, [results, magVals, latInput, lonInput, regionType, radiusKm]);
+  }, [results, lowestThreshold, latInput, lonInput, regionType, radiusKm]);
+
+  // Fetch the catalogue below the forecast thresholds, so the frequency-magnitude
+  // distribution shows where detection rolls off
+  const runCompleteness = useCallback(async () => {
+    if (!results || lowestThreshold === null || !evaluatedRegion) return;
+    const floor = mcFloorInput === '' ? Math.max(0, lowestThreshold - 1) : parseFloat(mcFloorInput);
+    if (!Number.isFinite(floor) || floor < 0 || floor > lowestThreshold) {
+      setMcError(`Please enter a magnitude floor between 0 and the lowest threshold (M${lowestThreshold}).`);
+      return;
+    }
+    setMcError(null);
+    const envelope = forecastEnvelope(results);
+    const windowStartMs = envelope.windowStartMs;
+    const windowEndMs = Math.min(envelope.windowEndMs, Date.now());
+
+    setIsEstimatingMc(true);
+    try {
+      const events = await fetchObservedCatalog(regionBbox(evaluatedRegion), new Date(windowStartMs), new Date(windowEndMs), floor);
+      setMagCatalog(events.filter(e =>
+        e.publicId !== results.quakeId && isInRegion(evaluatedRegion, e.latitude, e.longitude)
+      ));
+      setMagCatalogFor(results);
+    } catch (err) {
+      setMcError(err instanceof ApiError ? err.message : 'Failed to fetch the catalogue for completeness estimation.');
+    } finally {
+      setIsEstimatingMc(false);
+    }
+  }, [results, lowestThreshold, evaluatedRegion, mcFloorInput]);
+
+  const completeness = useMemo(() => {
+    if (!magCatalog || magCatalogFor !== results) return null;
+    return estimateCompleteness(magCatalog.map(e => e.magnitude));
+  }, [magCatalog, magCatalogFor, results]);
+
+  // Highest Mc across the methods: the conservative completeness level
+  const highestMc = useMemo(() => {
+    const values = completeness?.map(e => e.mc).filter((mc): mc is number => mc !== null) ?? [];
+    return values.length > 0 ? Math.max(...values) : null;
+  }, [completeness]);
 
   // Score every forecast window x magnitude bin against the catalogue
   const evaluation = useMemo(() => {
@@ -216,73 +362,138 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
     if (!results || !bins || !catalog || !evaluatedRegion || catalogFor !== results) return null;
 
     const quakeTimeMs = new Date(results.quakeTimeISO).getTime();
-    const t0 = results.rangeStartDays;
-    const windowStartMs = quakeTimeMs + t0 * MS_PER_DAY;
+    const forecastStartMs = quakeTimeMs + results.rangeStartDays * MS_PER_DAY;
     const nowMs = Date.now();
 
     const rows: EvalRow[] = [];
     for (const forecast of results.forecasts) {
-      const endMs = windowStartMs + forecast.duration * MS_PER_DAY;
+      const { window } = forecast;
+      // Model time (days since the mainshock) and real time of this window
+      const t0 = results.rangeStartDays + window.start;
+      const windowStartMs = forecastStartMs + window.start * MS_PER_DAY;
+      const endMs = forecastStartMs + window.end * MS_PER_DAY;
       const clampedEndMs = Math.min(endMs, nowMs);
       const status: EvalRow['status'] =
         windowStartMs >= nowMs ? 'future' : endMs <= nowMs ? 'complete' : 'partial';
       const evaluatedDays = Math.max(0, (clampedEndMs - windowStartMs) / MS_PER_DAY);
 
-      for (const binKey of ['m3', 'm2', 'm1'] as const) {
-        const bin = bins[binKey];
+      for (const [binIndex, bin] of bins.entries()) {
         if (status === 'future' || evaluatedDays <= 0) {
-          rows.push({ duration: forecast.duration, binKey, binLabel: bin.label, status: 'future', evaluatedDays: 0, scores: null });
+          rows.push({ window, binIndex, binLabel: bin.label, status: 'future', evaluatedDays: 0, scores: null });
           continue;
         }
         // Expected count over the evaluated (possibly partial) window,
-        // recomputed exactly from the model
-        const expected = expectedCountForBin(
-          results.modelParams, results.mainshockMagnitude, bin.target, t0, t0 + evaluatedDays
-        );
+        // recomputed exactly from the model, with its predictive distribution
+        // when the forecast was an ensemble or carried parameter uncertainty
+        const { expected: total, mixture } = results.ensemble
+          ? ensembleCount(
+              results.ensemble, results.mainshockMagnitude, bin.target, t0, t0 + evaluatedDays,
+              results.parameterUncertainty, results.additionalSources
+            )
+          : {
+              expected: expectedCountForBin(
+                results.modelParams, results.mainshockMagnitude, bin.target, t0, t0 + evaluatedDays,
+                results.etasParams, results.additionalSources
+              ),
+              mixture: results.parameterUncertainty && !results.etasParams
+                ? parameterMixture(
+                    results.modelParams, results.parameterUncertainty, t0, t0 + evaluatedDays,
+                    results.mainshockMagnitude, results.additionalSources
+                  )
+                : undefined,
+            };
+        // With short-term incompleteness, the number the network records
+        const expected = total * recordedFractionForBin(results, bin.target, t0, t0 + evaluatedDays);
         const observed = countMatches(
           catalog, windowStartMs, clampedEndMs, bin.target, evaluatedRegion, results.quakeId
         ).length;
-        const ciLow = Math.round(qpois(0.025, expected));
-        const ciHigh = Math.round(qpois(0.975, expected));
+        const ciLow = mixture ? mixtureQuantile(0.025, expected, mixture) : Math.round(qpois(0.025, expected));
+        const ciHigh = mixture ? mixtureQuantile(0.975, expected, mixture) : Math.round(qpois(0.975, expected));
         rows.push({
-          duration: forecast.duration,
-          binKey,
+          window,
+          binIndex,
           binLabel: bin.label,
           status,
           evaluatedDays,
-          scores: evaluateBin(observed, expected, ciLow, ciHigh),
+          scores: evaluateBin(observed, expected, ciLow, ciHigh, mixture),
         });
       }
     }
-    return { rows, windowStartMs, nowMs };
+    return { rows, nowMs };
   }, [results, bins, catalog, evaluatedRegion, catalogFor]);
 
+  // Windows with observations so far, for the model comparison
+  const comparisonWindows = useMemo(
+    () => evaluation?.rows
+      .filter(r => r.binIndex === 0 && r.scores)
+      .map(r => ({ window: r.window, evaluatedDays: r.evaluatedDays })) ?? [],
+    [evaluation]
+  );
+
+  // CSEP likelihood tests of each forecast window against the model's
+  // simulated catalogues (none until asked for: productive sequences take a
+  // while to simulate)
+  const consistency = useMemo(() => {
+    if (!results || !bins || !evaluation || csepCount === 0) return null;
+    // The rows of each forecast window, its bins in order
+    const windows = results.forecasts.map((_, w) => evaluation.rows.slice(w * bins.length, (w + 1) * bins.length));
+    const observable = windows.filter(rows => rows[0].scores);
+    if (observable.length === 0) return null;
+    try {
+      // One set of catalogues spans every evaluated window
+      const catalogues = simulateCatalogues(results, {
+        count: csepCount,
+        seed: CSEP_SEED,
+        window: {
+          start: Math.min(...observable.map(rows => rows[0].window.start)),
+          end: Math.max(...observable.map(rows => rows[0].window.start + rows[0].evaluatedDays)),
+        },
+      });
+      const tests = windows.map(rows => {
+        const scores = rows.map(r => r.scores).filter((s): s is BinEvaluation => s !== null);
+        if (scores.length === 0) return null;
+        const t0 = results.rangeStartDays + rows[0].window.start;
+        const simulated = simulatedBinCounts(results, catalogues, bins.map(b => b.target), t0, t0 + rows[0].evaluatedDays);
+        return consistencyTests([scores.map(s => s.observed)], scores.map(s => s.expected), simulated, CSEP_SEED);
+      });
+      return { tests, error: null };
+    } catch (err) {
+      return { tests: [], error: err instanceof Error ? err.message : 'Simulation failed' };
+    }
+  }, [results, bins, evaluation, csepCount]);
+
   const warnings = useMemo(() => {
-    if (!results || !magVals) return [];
+    if (!results || lowestThreshold === null) return [];
     const list: string[] = [];
     if (catalog && catalog.length >= CATALOG_TRUNCATION_WARNING_COUNT) {
       list.push(`The catalogue returned ${catalog.length} events, which may indicate the query hit a server limit, so counts could be incomplete. Consider a higher magnitude threshold or shorter windows.`);
     }
-    if (magVals.m3 < 3) {
-      list.push(`The lowest threshold (M${magVals.m3}) is near or below the typical GeoNet completeness magnitude; observed counts may under-report small events, especially in the hours after a large mainshock (short-term incompleteness).`);
+    if (highestMc !== null) {
+      if (highestMc > lowestThreshold) {
+        list.push(`The estimated completeness magnitude (up to M${highestMc.toFixed(1)}) is above the lowest threshold (M${lowestThreshold}); observed counts in the lowest bin likely under-report events.`);
+      }
+    } else if (lowestThreshold < 3 && !results.incompleteness) {
+      list.push(`The lowest threshold (M${lowestThreshold}) is near or below the typical GeoNet completeness magnitude; observed counts may under-report small events, especially in the hours after a large mainshock (short-term incompleteness).`);
     }
     if (evaluation?.rows.some(r => r.status === 'partial')) {
       list.push('Some windows are still in progress; they are evaluated over the elapsed portion only, with the expected count scaled accordingly.');
     }
     list.push('GeoNet magnitudes are a mix of magnitude types (mostly local magnitude), whereas the forecast assumes a consistent scale; small systematic differences are possible.');
     return list;
-  }, [results, magVals, catalog, evaluation]);
+  }, [results, lowestThreshold, catalog, evaluation, highestMc]);
 
   // ---- Chart 1: observed vs expected per window, selected bin ----
   const obsVsExpOptions = useMemo((): EChartsCoreOption | null => {
     if (!evaluation || !bins) return null;
-    const rows = evaluation.rows.filter(r => r.binKey === selectedBin && r.scores);
+    const rows = evaluation.rows.filter(r => r.binIndex === binIndex && r.scores);
     if (rows.length === 0) return null;
     return {
       backgroundColor: 'transparent',
       title: {
-        text: `Observed vs Expected: ${bins[selectedBin].label}`,
-        subtext: 'Tooltip shows the 95% Poisson range for each window',
+        text: `Observed vs Expected: ${bins[binIndex].label}`,
+        subtext: results?.parameterUncertainty
+          ? 'Tooltip shows the 95% predictive range (including parameter uncertainty) for each window'
+          : 'Tooltip shows the 95% Poisson range for each window',
         textStyle: { fontSize: 15, fontWeight: 'bold', color: AXIS_LABEL_COLOR },
         subtextStyle: { color: AXIS_LABEL_COLOR },
         left: 'center',
@@ -291,7 +502,7 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
       legend: { bottom: 0, textStyle: { color: AXIS_LABEL_COLOR } },
       xAxis: {
         type: 'category',
-        data: rows.map(r => `${r.duration} ${r.duration === 1 ? 'day' : 'days'}${r.status === 'partial' ? '*' : ''}`),
+        data: rows.map(r => `${forecastWindowLabel(r.window)}${r.status === 'partial' ? '*' : ''}`),
         axisLabel: { color: AXIS_LABEL_COLOR },
       },
       yAxis: {
@@ -313,7 +524,7 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
           return `${params[0].name}<br/>` +
             params.map(p => `${p.marker ?? ''}${p.seriesName}: <b>${formatValue(Number(p.value))}</b>`).join('<br/>') +
             `<br/>95% range: <b>${s.ciLow}–${s.ciHigh}</b>` +
-            (row.status === 'partial' ? `<br/><i>window in progress (${row.evaluatedDays.toFixed(1)} of ${row.duration} days)</i>` : '');
+            (row.status === 'partial' ? `<br/><i>window in progress (${evaluatedSpan(row)} of ${formatTimeSpan(daysToUnit(row.window.end - row.window.start, row.window.unit ?? 'days'), row.window.unit ?? 'days')})</i>` : '');
         },
       },
       series: [
@@ -321,40 +532,82 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
         { name: 'Observed (GeoNet)', type: 'bar', data: rows.map(r => r.scores!.observed), itemStyle: { color: OBSERVED_COLOR, borderRadius: [4, 4, 0, 0] } },
       ],
     };
-  }, [evaluation, bins, selectedBin]);
+  }, [evaluation, bins, binIndex, results]);
+
+  // Scored forecasts of the windows that have ended, for the reliability diagram
+  const completedScores = useMemo(
+    () => evaluation?.rows.flatMap(r => (r.status === 'complete' && r.scores ? [r.scores] : [])) ?? [],
+    [evaluation]
+  );
 
   // ---- Chart 2: cumulative observed vs model expectation over time ----
   const cumulativeOptions = useMemo((): EChartsCoreOption | null => {
     if (!results || !bins || !catalog || !evaluatedRegion || !evaluation) return null;
-    const bin = bins[selectedBin];
-    const t0 = results.rangeStartDays;
-    const { windowStartMs, nowMs } = evaluation;
-    const maxDur = Math.max(...results.forecasts.map(f => f.duration));
-    const elapsedDays = Math.min(maxDur, (nowMs - windowStartMs) / MS_PER_DAY);
+    const bin = bins[binIndex];
+    // The curve spans the catalogue envelope: from the earliest window start
+    // to the end of the latest window (or now), in days from the forecast start
+    const { windowStartMs, windowEndMs } = forecastEnvelope(results);
+    const { nowMs } = evaluation;
+    const firstDay = Math.min(...results.forecasts.map(f => f.window.start));
+    const t0 = results.rangeStartDays + firstDay;
+    const elapsedDays = (Math.min(windowEndMs, nowMs) - windowStartMs) / MS_PER_DAY;
     if (elapsedDays <= 0) return null;
+    // Plotted in the unit of the latest window (hours for a 12-hour forecast)
+    const latest = results.forecasts.reduce((a, f) => (f.window.end > a.end ? f.window : a), results.forecasts[0].window);
+    const axisUnit = latest.unit ?? 'days';
+    const toAxis = (days: number) => days / TIME_UNIT_DAYS[axisUnit];
 
-    // Model expectation N(t)
+    // Model expectation N(t); ETAS is solved once and queried along the curve
     const STEPS = 80;
+    const etas = results.etasParams
+      ? solveEtas(results.etasParams, results.mainshockMagnitude, t0 + elapsedDays, [t0], results.additionalSources)
+      : null;
+    // With short-term incompleteness the curve is the expected recorded number:
+    // events of M >= m the network misses over the first t days
+    const { incompleteness, mainshockMagnitude: mainMag, additionalSources: sources = [] } = results;
+    const missed = (m: number, t: number): number => {
+      if (!incompleteness) return 0;
+      if (etas) {
+        return missedCount(tau => etas.rate(m, tau), m, t0, t0 + t, { incompleteness, mainMag, sources, b: results.etasParams!.b });
+      }
+      return (results.ensemble ?? [{ weight: 1, params: results.modelParams }]).reduce((sum, { weight, params }) =>
+        sum + weight * missedCount(
+          tau => calculateAftershockRate(params, mainMag, m, tau, sources), m, t0, t0 + t,
+          { incompleteness, mainMag, sources, b: params.b, maxMagnitude: params.maxMagnitude }
+        ), 0);
+    };
     const modelData: Array<[number, number]> = Array.from({ length: STEPS }, (_, i) => {
       const t = (elapsedDays * (i + 1)) / STEPS;
-      return [t, expectedCountForBin(results.modelParams, results.mainshockMagnitude, bin.target, t0, t0 + t)];
+      const expected = etas
+        ? etas.expectedCount(bin.target.minMag, t0, t0 + t) -
+          (bin.target.maxMag === null ? 0 : etas.expectedCount(bin.target.maxMag, t0, t0 + t))
+        : results.ensemble
+          ? ensembleCount(
+              results.ensemble, results.mainshockMagnitude, bin.target, t0, t0 + t, undefined, results.additionalSources
+            ).expected
+          : expectedCountForBin(
+              results.modelParams, results.mainshockMagnitude, bin.target, t0, t0 + t, undefined, results.additionalSources
+            );
+      return [toAxis(firstDay + t), expected - missed(bin.target.minMag, t) + (bin.target.maxMag === null ? 0 : missed(bin.target.maxMag, t))];
     });
 
     // Observed cumulative step function
     const matches = countMatches(
       catalog, windowStartMs, windowStartMs + elapsedDays * MS_PER_DAY, bin.target, evaluatedRegion, results.quakeId
     );
-    const observedData: Array<[number, number]> = [[0, 0]];
+    const observedData: Array<[number, number]> = [[toAxis(firstDay), 0]];
     matches.forEach((e, i) => {
-      observedData.push([(e.timeMs - windowStartMs) / MS_PER_DAY, i + 1]);
+      observedData.push([toAxis(firstDay + (e.timeMs - windowStartMs) / MS_PER_DAY), i + 1]);
     });
-    observedData.push([elapsedDays, matches.length]);
+    observedData.push([toAxis(firstDay + elapsedDays), matches.length]);
 
     return {
       backgroundColor: 'transparent',
       title: {
         text: `Cumulative Events Over Time: ${bin.label}`,
-        subtext: 'Observed events (step) against the model expectation N(t)',
+        subtext: results.incompleteness
+          ? 'Observed events (step) against the expected recorded number, allowing for short-term incompleteness'
+          : 'Observed events (step) against the model expectation N(t)',
         textStyle: { fontSize: 15, fontWeight: 'bold', color: AXIS_LABEL_COLOR },
         subtextStyle: { color: AXIS_LABEL_COLOR },
         left: 'center',
@@ -363,9 +616,9 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
       legend: { bottom: 0, textStyle: { color: AXIS_LABEL_COLOR } },
       xAxis: {
         type: 'value',
-        min: 0,
-        max: Number(elapsedDays.toFixed(2)),
-        name: 'Days from forecast start',
+        min: Number(toAxis(firstDay).toFixed(2)),
+        max: Number(toAxis(firstDay + elapsedDays).toFixed(2)),
+        name: `${axisUnit[0].toUpperCase()}${axisUnit.slice(1)} from forecast start`,
         nameLocation: 'middle',
         nameGap: 30,
         nameTextStyle: { color: AXIS_LABEL_COLOR },
@@ -385,7 +638,7 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
       tooltip: {
         trigger: 'axis',
         formatter: (params: Array<{ seriesName?: string; marker?: string; value: [number, number] }>) =>
-          `Day ${Number(params[0].value[0]).toFixed(1)}<br/>` +
+          `${axisUnit[0].toUpperCase()}${axisUnit.slice(1, -1)} ${Number(params[0].value[0]).toFixed(1)}<br/>` +
           params.map(p => `${p.marker ?? ''}${p.seriesName}: <b>${formatValue(Number(p.value[1]))}</b>`).join('<br/>'),
       },
       series: [
@@ -393,29 +646,138 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
         { name: 'Observed (GeoNet)', type: 'line', step: 'end', data: observedData, showSymbol: false, lineStyle: { width: 2, color: OBSERVED_COLOR }, itemStyle: { color: OBSERVED_COLOR } },
       ],
     };
-  }, [results, bins, catalog, evaluatedRegion, evaluation, selectedBin]);
+  }, [results, bins, catalog, evaluatedRegion, evaluation, binIndex]);
+
+  // ---- Chart 3: frequency-magnitude distribution with the completeness estimate ----
+  const fmdOptions = useMemo((): EChartsCoreOption | null => {
+    if (!magCatalog || !completeness || magCatalog.length === 0) return null;
+    const counts = new Map<number, number>();
+    for (const e of magCatalog) {
+      const k = Math.round(e.magnitude / MAGNITUDE_BIN);
+      counts.set(k, (counts.get(k) ?? 0) + 1);
+    }
+    const indices = [...counts.keys()].sort((x, y) => x - y);
+    const magOf = (k: number) => Number((k * MAGNITUDE_BIN).toFixed(1));
+    const incremental: Array<[number, number]> = indices.map(k => [magOf(k), counts.get(k)!]);
+    let remaining = magCatalog.length;
+    const cumulative: Array<[number, number]> = indices.map(k => {
+      const point: [number, number] = [magOf(k), remaining];
+      remaining -= counts.get(k)!;
+      return point;
+    });
+    // Gutenberg–Richter fit above the highest Mc, anchored at the observed count there
+    const fit = completeness.find(e => e.mc === highestMc)?.bValue ?? null;
+    const grLine: Array<[number, number]> = fit
+      ? [fit.mc, magOf(indices[indices.length - 1])].map(m => [m, fit.n * Math.pow(10, -fit.b * (m - fit.mc))])
+      : [];
+
+    return {
+      backgroundColor: 'transparent',
+      title: {
+        text: 'Frequency–Magnitude Distribution',
+        subtext: highestMc !== null ? `Highest completeness estimate: M${highestMc.toFixed(1)}` : 'No completeness estimate',
+        textStyle: { fontSize: 15, fontWeight: 'bold', color: AXIS_LABEL_COLOR },
+        subtextStyle: { color: AXIS_LABEL_COLOR },
+        left: 'center',
+      },
+      grid: { top: 80, bottom: 70, left: 65, right: 25 },
+      legend: { bottom: 0, textStyle: { color: AXIS_LABEL_COLOR } },
+      xAxis: {
+        type: 'value',
+        min: magOf(indices[0]),
+        max: magOf(indices[indices.length - 1]),
+        name: 'Magnitude',
+        nameLocation: 'middle',
+        nameGap: 30,
+        nameTextStyle: { color: AXIS_LABEL_COLOR },
+        axisLabel: { color: AXIS_LABEL_COLOR },
+        splitLine: { lineStyle: { color: GRID_LINE_COLOR } },
+      },
+      yAxis: {
+        type: 'log',
+        min: 1,
+        name: 'Number of events',
+        nameLocation: 'middle',
+        nameGap: 45,
+        nameTextStyle: { color: AXIS_LABEL_COLOR },
+        axisLabel: { color: AXIS_LABEL_COLOR },
+        splitLine: { lineStyle: { color: GRID_LINE_COLOR } },
+      },
+      tooltip: {
+        trigger: 'axis',
+        formatter: (params: Array<{ seriesName?: string; marker?: string; value: [number, number] }>) =>
+          `M${Number(params[0].value[0]).toFixed(1)}<br/>` +
+          params.map(p => `${p.marker ?? ''}${p.seriesName}: <b>${formatValue(Number(p.value[1]))}</b>`).join('<br/>'),
+      },
+      series: [
+        { name: 'Per bin', type: 'scatter', data: incremental, symbolSize: 6, itemStyle: { color: MODEL_COLOR } },
+        {
+          name: 'Cumulative (≥ M)', type: 'scatter', data: cumulative, symbolSize: 6, itemStyle: { color: OBSERVED_COLOR },
+          markLine: highestMc !== null ? {
+            symbol: 'none',
+            label: { formatter: `Mc ${highestMc.toFixed(1)}`, color: AXIS_LABEL_COLOR },
+            lineStyle: { color: '#dc2626', type: 'dashed' },
+            data: [{ xAxis: highestMc }],
+          } : undefined,
+        },
+        ...(fit ? [{
+          name: `Gutenberg–Richter (b = ${fit.b.toFixed(2)})`, type: 'line', data: grLine, showSymbol: false,
+          lineStyle: { width: 2, color: OBSERVED_COLOR, type: 'dashed' }, itemStyle: { color: OBSERVED_COLOR },
+        }] : []),
+      ],
+    };
+  }, [magCatalog, completeness, highestMc]);
 
   // Export the complete evaluation as CSV
   const handleExportCsv = useCallback(() => {
-    if (!results || !evaluation || !evaluatedRegion || !catalog) return;
+    if (!results || !bins || !evaluation || !evaluatedRegion || !catalog) return;
     const mp = results.modelParams;
+    const ep = results.etasParams;
+    const paramText = ep
+      ? `K=${ep.K}, alpha=${ep.alpha}, c=${ep.c}, p=${ep.p}, b=${ep.b}, Mref=${ep.mRef}`
+      : results.ensemble
+        ? results.ensemble
+            .map(m => `${MODEL_INFO[m.model].name} weight ${m.weight.toFixed(3)}: a=${m.params.a}, b=${m.params.b}, c=${m.params.c}, p=${m.params.p}`)
+            .join('; ')
+        : `a=${mp.a}, b=${mp.b}, c=${mp.c}, p=${mp.p}`;
+    const optionsText = (!ep && mp.kernel ? `; ${formatTemporalKernel(mp.kernel)} decay` : '') + (!ep && mp.maxMagnitude
+      ? `; GR ${mp.maxMagnitude.kind === 'truncated' ? 'Mmax' : 'corner magnitude'} M${mp.maxMagnitude.magnitude}`
+      : '');
     const lines = [
       `# Aftershock Forecast Evaluation for ${results.quakeId}`,
       `# Generated: ${new Date().toISOString()}`,
-      `# Model: ${modelName} (a=${mp.a}, b=${mp.b}, c=${mp.c}, p=${mp.p}); mainshock M${results.mainshockMagnitude}`,
+      `# Model: ${modelName} (${paramText}${optionsText}); mainshock M${results.mainshockMagnitude}`,
+      ...(results.additionalSources ?? []).map(source =>
+        `# Additional source: M${source.magnitude} at ${source.timeDays.toFixed(3)} days after the mainshock`
+      ),
+      ...(results.incompleteness ? [
+        `# Expected counts are recorded numbers, complete above Mc(t) = M - ${results.incompleteness.G} - ${results.incompleteness.H}*log10(t days) after each source event`,
+      ] : []),
       `# Region: ${evaluatedRegion.type}, radius ${evaluatedRegion.radiusKm.toFixed(1)} km, area ${Math.round(regionAreaKm2(evaluatedRegion))} km2, centre ${evaluatedRegion.latitude.toFixed(3)}, ${evaluatedRegion.longitude.toFixed(3)} (Wells & Coppersmith 1994, k=${multiplier})`,
       `# Catalogue: ${catalog.length} events from GeoNet QuakeSearch; mainshock excluded`,
+      ...(completeness ? completeness.map(e =>
+        `# Completeness (${MC_METHOD_LABELS[e.method]}): ` +
+        (e.mc === null ? 'no estimate' : `Mc=${e.mc}`) +
+        (e.bValue ? `, b=${e.bValue.b.toFixed(3)} +/- ${e.bValue.sigma.toFixed(3)} (Aki-Utsu, Shi-Bolt; n=${e.bValue.n})` : '')
+      ) : []),
+      ...(consistency?.tests.length ? [
+        `# CSEP L-, CL- and M-tests (Zechar et al. 2010): one-sided quantiles of each window against ${csepCount} simulated catalogues (seed ${CSEP_SEED}), repeated on each of its bin rows; below ${CSEP_CRITICAL_QUANTILE} fails`,
+        '# S-test not run: the forecast has no spatial distribution within the region',
+      ] : []),
       '',
-      'Window (days),Status,Evaluated days,Bin,Observed,Expected,CI low,CI high,Within CI,P(>=1),Occurred,Brier,Log score,Poisson logL,N-test verdict,P(X<=n),P(X>=n)',
-      ...evaluation.rows.map(r => {
+      'Window,Status,Evaluated days,Bin,Observed,Expected,CI low,CI high,Within CI,P(>=1),Occurred,Brier,Log score,Poisson logL,N-test verdict,P(X<=n),P(X>=n),L-test quantile,CL-test quantile,M-test quantile,S-test quantile',
+      ...evaluation.rows.map((r, i) => {
         const s = r.scores;
-        if (!s) return `${r.duration},future,0,${r.binLabel},,,,,,,,,,,,,`;
+        const window = forecastWindowLabel(r.window);
+        if (!s) return `${window},future,0,${r.binLabel},,,,,,,,,,,,,,,,,`;
+        const tests = consistency?.tests[Math.floor(i / bins.length)];
         return [
-          r.duration, r.status, r.evaluatedDays.toFixed(2), r.binLabel,
+          window, r.status, r.evaluatedDays.toFixed(2), r.binLabel,
           s.observed, s.expected.toPrecision(4), s.ciLow, s.ciHigh, s.withinCi,
           s.probability.toPrecision(4), s.occurred, s.brier.toPrecision(4),
           s.logScoreBinary.toPrecision(4), s.poissonLL.toPrecision(4),
           s.verdict, s.nTestPAtMost.toPrecision(4), s.nTestPAtLeast.toPrecision(4),
+          tests?.l.quantile ?? '', tests?.cl.quantile ?? '', tests?.m.quantile ?? '', tests?.s?.quantile ?? '',
         ].join(',');
       }),
     ];
@@ -425,16 +787,23 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
     link.download = `evaluation-${results.quakeId}-${new Date().toISOString().slice(0, 10)}.csv`;
     link.click();
     URL.revokeObjectURL(link.href);
-  }, [results, evaluation, evaluatedRegion, catalog, modelName, multiplier]);
+  }, [results, bins, evaluation, evaluatedRegion, catalog, modelName, multiplier, completeness, consistency, csepCount]);
 
-  if (!results || !bins || !magVals) {
+  if (!results || !bins || lowestThreshold === null) {
     return (
-      <div className="mt-6 p-8 text-center text-gray-500 dark:text-gray-400">
-        <p>Calculate a forecast to evaluate it against observed seismicity</p>
+      <div className="mt-6 space-y-6">
+        <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+          <p>Calculate a forecast to evaluate it against observed seismicity</p>
+        </div>
+        <BatchEvaluation customParams={customParams} />
+        <RegionalCalibration onSavePreset={onSavePreset} />
       </div>
     );
   }
 
+  // Tests per forecast window, once run
+  const csepTests = consistency?.tests.length ? consistency.tests : null;
+
   return (
     <div className="mt-6 space-y-6" role="region" aria-label="Forecast evaluation">
       <div className="print:hidden">
@@ -541,7 +910,13 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
               <h1>Aftershock Forecast Evaluation Report</h1>
               <div className="metadata">
                 <span><strong>Event ID:</strong> {results.quakeId} (M{results.mainshockMagnitude.toFixed(1)})</span>
-                <span><strong>Model:</strong> {modelName}: <em>a</em>={results.modelParams.a}, <em>b</em>={results.modelParams.b}, <em>c</em>={results.modelParams.c}, <em>p</em>={results.modelParams.p}</span>
+                {results.ensemble ? (
+                  <span><strong>Model:</strong> {modelName}</span>
+                ) : results.etasParams ? (
+                  <span><strong>Model:</strong> {modelName}: <em>K</em>={results.etasParams.K}, <em>&alpha;</em>={results.etasParams.alpha}, <em>c</em>={results.etasParams.c}, <em>p</em>={results.etasParams.p}, <em>b</em>={results.etasParams.b}, <em>M</em><sub>ref</sub>={results.etasParams.mRef}</span>
+                ) : (
+                  <span><strong>Model:</strong> {modelName}: <em>a</em>={results.modelParams.a}, <em>b</em>={results.modelParams.b}, <em>c</em>={results.modelParams.c}, <em>p</em>={results.modelParams.p}</span>
+                )}
                 <span>
                   <strong>Region:</strong> {evaluatedRegion.type === 'circle' ? 'circle' : 'equal-area square'},
                   radius {evaluatedRegion.radiusKm.toFixed(1)} km,
@@ -590,15 +965,23 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
                         <span className="normal-case print:hidden"><InfoTooltip content={SCORE_TOOLTIPS.nTest} /></span>
                       </span>
                     </th>
+                    {csepTests && ([['L-test', SCORE_TOOLTIPS.lTest], ['CL-test', SCORE_TOOLTIPS.clTest], ['M-test', SCORE_TOOLTIPS.mTest]] as const).map(([name, tooltip]) => (
+                      <th key={name} scope="col" className="px-3 py-2 text-center">
+                        <span className="flex items-center justify-center gap-1">
+                          {name}
+                          <span className="normal-case print:hidden"><InfoTooltip content={tooltip} /></span>
+                        </span>
+                      </th>
+                    ))}
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
                   {evaluation.rows.map((row, i) => (
                     <tr key={i} className="text-gray-700 dark:text-gray-300">
                       <td className="px-3 py-2 whitespace-nowrap">
-                        {row.duration} {row.duration === 1 ? 'day' : 'days'}
+                        {forecastWindowLabel(row.window)}
                         {row.status === 'partial' && (
-                          <span className="ml-1 text-xs text-amber-600 dark:text-amber-400" title={`Evaluated over the elapsed ${row.evaluatedDays.toFixed(1)} days`}>
+                          <span className="ml-1 text-xs text-amber-600 dark:text-amber-400" title={`Evaluated over the elapsed ${evaluatedSpan(row)}`}>
                             (in progress)
                           </span>
                         )}
@@ -637,16 +1020,57 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
                       ) : (
                         <td colSpan={7} className="px-3 py-2 text-center text-gray-400">not yet observable</td>
                       )}
+                      {csepTests && row.binIndex === 0 && consistencyCells(csepTests[Math.floor(i / bins.length)], bins.length)}
                     </tr>
                   ))}
                 </tbody>
               </table>
             </div>
             <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
-              N-test: two-sided Poisson consistency at 5% (Zechar 2010). Brier and log scores refer to the binary
+              N-test: two-sided {results.parameterUncertainty ? 'predictive (Poisson mixed over parameter uncertainty)' : 'Poisson'}{' '}
+              consistency at 5% (Zechar 2010). Brier and log scores refer to the binary
               &ldquo;one or more events&rdquo; forecast; lower is better. Windows in progress are scored over the elapsed
               time only, with the expected count computed for the same elapsed period.
+              {results.incompleteness && (
+                <>
+                  {' '}Expected counts are the numbers the network records, complete only above{' '}
+                  <em>M</em><sub>c</sub>(<em>t</em>)&nbsp;=&nbsp;<em>M</em>&nbsp;&minus;&nbsp;{results.incompleteness.G}&nbsp;&minus;&nbsp;{results.incompleteness.H}&nbsp;log<sub>10</sub><em>t</em>{' '}
+                  after each source event, so early windows are compared like with like.
+                </>
+              )}
             </p>
+            {csepTests && (
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                L-, CL- and M-tests (Zechar et al. 2010), per window: the share of {csepCount} catalogues simulated
+                from the forecast (seed {CSEP_SEED}) that fit it no better than the observed counts; below{' '}
+                {CSEP_CRITICAL_QUANTILE} (red) the forecast fails. The CL- and M-tests fix the number of events at the
+                observed number; with no spatial cells inside the region they share their statistic, and there is no
+                S-test.
+              </p>
+            )}
+            <div className="mt-4 flex flex-wrap items-end gap-3 print:hidden">
+              <div>
+                <label htmlFor="eval-csep-count" className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">
+                  CSEP likelihood tests
+                </label>
+                <select
+                  id="eval-csep-count"
+                  value={csepCount}
+                  onChange={(e) => setCsepCount(parseInt(e.target.value))}
+                  className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {CSEP_COUNTS.map(n => (
+                    <option key={n} value={n}>{n === 0 ? 'Not run' : `${n} simulated catalogues`}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 pb-2">
+                Simulating a large, productive sequence can take a minute.
+              </p>
+            </div>
+            {consistency?.error && (
+              <p className="mt-2 text-xs text-red-600 dark:text-red-400" role="alert">{consistency.error}</p>
+            )}
             {/* Export actions */}
             <div className="mt-4 flex gap-2 flex-wrap print:hidden">
               <button
@@ -667,6 +1091,18 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
             </div>
           </div>
 
+          {/* Every preset and Custom ranked on the same observations */}
+          {evaluatedRegion && comparisonWindows.length > 0 && (
+            <ModelComparison
+              results={results}
+              catalog={catalog}
+              region={evaluatedRegion}
+              windows={comparisonWindows}
+              customParams={customParams}
+              printMode={printMode}
+            />
+          )}
+
           {/* Map of the evaluation region and observed events */}
           {evaluatedRegion && (
             <div className="bg-white dark:bg-gray-800 p-5 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm eval-print-card">
@@ -688,11 +1124,109 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
                   magnitude: results.mainshockMagnitude,
                   quakeId: results.quakeId,
                 }}
-                thresholds={magVals}
+                thresholds={results.magnitudeThresholds}
               />
             </div>
           )}
 
+          {/* Completeness and b-value from a catalogue reaching below the thresholds */}
+          <div className="bg-white dark:bg-gray-800 p-5 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm eval-print-card">
+            <h3 className="text-sm font-bold text-gray-700 dark:text-gray-300 uppercase tracking-wider mb-1">
+              Catalogue Completeness &amp; b-value
+            </h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Estimates the magnitude above which GeoNet recorded every event in this region and window, and the
+              Gutenberg&ndash;Richter b-value above it (Aki&ndash;Utsu maximum likelihood, Shi&ndash;Bolt uncertainty;
+              at least {MIN_B_VALUE_EVENTS} events needed).
+            </p>
+            <div className="flex flex-wrap items-end gap-3 print:hidden">
+              <div>
+                <label htmlFor="eval-mc-floor" className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">
+                  Fetch events down to M
+                </label>
+                <input
+                  id="eval-mc-floor"
+                  type="number"
+                  step="0.1"
+                  value={mcFloorInput}
+                  onChange={(e) => setMcFloorInput(e.target.value)}
+                  placeholder={String(Math.max(0, lowestThreshold - 1))}
+                  className="w-28 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <button
+                onClick={runCompleteness}
+                disabled={isEstimatingMc}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-md
+                           hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors
+                           focus:outline-none focus:ring-2 focus:ring-blue-400"
+                aria-busy={isEstimatingMc}
+              >
+                {isEstimatingMc ? 'Fetching catalogue…' : 'Estimate Mc & b-value'}
+              </button>
+            </div>
+            {mcError && (
+              <div role="alert" className="mt-3 p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-md">
+                <p className="text-red-600 dark:text-red-400 text-sm">⚠️ {mcError}</p>
+              </div>
+            )}
+            {completeness && magCatalog && (
+              <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm border-collapse">
+                    <thead>
+                      <tr className="bg-gray-50 dark:bg-gray-900 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        <th scope="col" className="px-3 py-2 text-left">Method</th>
+                        <th scope="col" className="px-3 py-2 text-center">Mc</th>
+                        <th scope="col" className="px-3 py-2 text-center normal-case"><em>b</em> &plusmn; &sigma;</th>
+                        <th scope="col" className="px-3 py-2 text-center">Events &ge; Mc</th>
+                        {onUseBValue && <th scope="col" className="px-3 py-2 print:hidden"><span className="sr-only">Action</span></th>}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                      {completeness.map(e => (
+                        <tr key={e.method} className="text-gray-700 dark:text-gray-300">
+                          <td className="px-3 py-2">
+                            {MC_METHOD_LABELS[e.method]}
+                            {e.fitLevel !== undefined && <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">({e.fitLevel}%)</span>}
+                          </td>
+                          <td className="px-3 py-2 text-center font-mono">{e.mc === null ? '–' : e.mc.toFixed(1)}</td>
+                          <td className="px-3 py-2 text-center font-mono">
+                            {e.bValue ? `${e.bValue.b.toFixed(2)} ± ${e.bValue.sigma.toFixed(2)}` : '–'}
+                          </td>
+                          <td className="px-3 py-2 text-center font-mono">{e.bValue ? e.bValue.n : '–'}</td>
+                          {onUseBValue && (
+                            <td className="px-3 py-2 text-right print:hidden">
+                              {e.bValue && (
+                                <button
+                                  onClick={() => onUseBValue(Number(e.bValue!.b.toFixed(2)))}
+                                  className="px-2 py-1 text-xs text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600
+                                             rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors
+                                             focus:outline-none focus:ring-2 focus:ring-blue-400"
+                                  title="Copies this b-value into the Custom model; recalculate to apply it"
+                                >
+                                  Use in Custom model
+                                </button>
+                              )}
+                            </td>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    {magCatalog.length} events in the region and window (mainshock excluded). Maximum curvature tends to
+                    underestimate Mc; the highest estimate is the safest floor for evaluation. Using a b-value switches to
+                    the Custom model and clears the current forecast.
+                  </p>
+                </div>
+                {fmdOptions && (
+                  <ReactEChartsCore echarts={echarts} option={fmdOptions} notMerge style={printMode ? { height: 280, width: 430 } : { height: 340, width: '100%' }} />
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Charts with bin selector */}
           <div className="bg-white dark:bg-gray-800 p-5 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm eval-print-card">
             <div className="flex items-center justify-between mb-2">
@@ -703,13 +1237,13 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
                 </label>
                 <select
                   id="eval-bin"
-                  value={selectedBin}
-                  onChange={(e) => setSelectedBin(e.target.value as BinKey)}
+                  value={binIndex}
+                  onChange={(e) => setSelectedBin(parseInt(e.target.value))}
                   className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
-                  <option value="m3">{bins.m3.label}</option>
-                  <option value="m2">{bins.m2.label}</option>
-                  <option value="m1">{bins.m1.label}</option>
+                  {bins.map((bin, i) => (
+                    <option key={bin.label} value={i}>{bin.label}</option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -722,17 +1256,49 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
               )}
             </div>
           </div>
+
+          {/* Forecast probability against observed frequency over every window and bin */}
+          {completedScores.length > 0 && (
+            <div className="bg-white dark:bg-gray-800 p-5 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm eval-print-card">
+              <h3 className="text-sm font-bold text-gray-700 dark:text-gray-300 uppercase tracking-wider mb-2">Reliability</h3>
+              <ReliabilityDiagram
+                evaluations={completedScores}
+                description="window and magnitude-bin forecasts of ended windows"
+                printMode={printMode}
+              />
+            </div>
+          )}
         </>
       )}
 
+      <BatchEvaluation customParams={customParams} initialQuakeId={results.quakeId} />
+      <RegionalCalibration onSavePreset={onSavePreset} />
+
       {/* Assumptions & caveats */}
       <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800 eval-print-card">
         <h3 className="font-semibold text-blue-800 dark:text-blue-300 mb-2">Assumptions &amp; Caveats</h3>
         <ul className="text-sm text-blue-700 dark:text-blue-400 space-y-1 list-disc list-inside">
           <li>Spatial scaling: Wells &amp; Coppersmith (1994) subsurface rupture length, log₁₀L = −2.44 + 0.59M (all slip types), radius = k × L, floored at 10 km.</li>
           <li>Observed data: GeoNet QuakeSearch, earthquakes only; the mainshock is excluded from all counts.</li>
-          <li>Counts are assumed Poisson; confidence ranges and N-test quantiles ignore model-parameter uncertainty.</li>
+          {results.parameterUncertainty ? (
+            <li>
+              Counts follow the posterior predictive distribution: Poisson mixed over normally distributed a
+              (σ {results.parameterUncertainty.aSd}) and p (σ {results.parameterUncertainty.pSd})
+              {results.parameterUncertainty.magnitudes && (
+                <>, and over {results.parameterUncertainty.magnitudes.length} candidate mainshock magnitudes</>
+              )}; confidence ranges, probabilities, N-test quantiles and likelihoods all use it.
+            </li>
+          ) : (
+            <li>Counts are assumed Poisson; confidence ranges and N-test quantiles ignore model-parameter uncertainty.</li>
+          )}
           <li>The square region is the equal-area square of the circular region, centred on the epicentre.</li>
+          {csepTests && (
+            <li>
+              CSEP likelihood tests use the forecast&rsquo;s own magnitude bins over the whole region. The statistic is the
+              Poisson likelihood of the expected counts; the L-test&rsquo;s simulated catalogues carry the model&rsquo;s
+              clustering and any parameter uncertainty{results.incompleteness ? ', and drop the events the network would miss' : ''}.
+            </li>
+          )}
           {warnings.map((w, i) => (
             <li key={i} className="text-amber-700 dark:text-amber-400">{w}</li>
           ))}
@@ -744,7 +1310,7 @@ export default function EvaluationTab({ results, modelName = 'NZ Generic' }: Eva
         <div className="hidden print:block print-footer">
           <p>
             Generated by the Aftershock Calculator • Earth Sciences New Zealand (ESNZ) •
-            Forecast model: Reasenberg&ndash;Jones • Observed data: GeoNet QuakeSearch •
+            Forecast model: {results.etasParams ? 'ETAS' : results.ensemble ? <>Reasenberg&ndash;Jones ensemble</> : <>Reasenberg&ndash;Jones</>} • Observed data: GeoNet QuakeSearch •
             Basemap: &copy; OpenStreetMap contributors, &copy; CARTO
           </p>
         </div>
@@ -0,0 +1,212 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { CalculationResults, TimeUnit } from '@/types';
+import { MAX_FORECAST_DAYS, TIME_UNIT_DAYS } from '@/types';
+import { forecastWindowLabel } from '@/lib/calculations';
+import { formatNZDateTime } from '@/lib/datetime';
+import { magnitudeAtProbability, timeToRate } from '@/lib/inverse';
+
+interface InverseQueryPanelProps {
+  results: CalculationResults;
+}
+
+/** Units a target rate can be entered per */
+const RATE_UNITS: TimeUnit[] = ['days', 'weeks', 'months', 'years'];
+
+const MS_PER_DAY = 86400000;
+
+const INPUT_CLASS =
+  'w-24 bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg px-3 py-1.5 text-sm text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500';
+const LABEL_CLASS = 'block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1';
+
+/** A span of days in the largest unit that keeps it at least 1, to two significant figures */
+function formatDuration(days: number): string {
+  const unit = (['years', 'months', 'weeks', 'days', 'hours'] as TimeUnit[])
+    .find(u => days >= TIME_UNIT_DAYS[u]) ?? 'minutes';
+  const value = Number((days / TIME_UNIT_DAYS[unit]).toPrecision(2));
+  return `${value} ${value === 1 ? unit.slice(0, -1) : unit}`;
+}
+
+/** Outcome of a query: its value, or the message of the error it threw */
+function runQuery<T>(query: () => T): { value: T; error: null } | { value: null; error: string } {
+  try {
+    return { value: query(), error: null };
+  } catch (err) {
+    return { value: null, error: err instanceof Error ? err.message : 'Query failed' };
+  }
+}
+
+export default function InverseQueryPanel({ results }: InverseQueryPanelProps) {
+  const [windowIndex, setWindowIndex] = useState(0);
+  const [probability, setProbability] = useState('10');
+  const [rateMagnitude, setRateMagnitude] = useState(String(results.magnitudeThresholds[0]));
+  const [rate, setRate] = useState('1');
+  const [rateUnit, setRateUnit] = useState<TimeUnit>('months');
+  const [backgroundRate, setBackgroundRate] = useState('');
+
+  const forecast = results.forecasts[Math.min(windowIndex, results.forecasts.length - 1)];
+
+  const magnitude = useMemo(
+    () => runQuery(() => magnitudeAtProbability(results, forecast.window, parseFloat(probability) / 100)),
+    [results, forecast, probability]
+  );
+
+  // Times to quiet, in days after the mainshock
+  const quiet = useMemo(() => {
+    const minMag = parseFloat(rateMagnitude);
+    return {
+      rate: runQuery(() => timeToRate(results, minMag, parseFloat(rate) / TIME_UNIT_DAYS[rateUnit])),
+      background: backgroundRate.trim() === ''
+        ? null
+        : runQuery(() => timeToRate(results, minMag, parseFloat(backgroundRate) / TIME_UNIT_DAYS.years)),
+    };
+  }, [results, rateMagnitude, rate, rateUnit, backgroundRate]);
+
+  const quakeTimeMs = Date.parse(results.quakeTimeISO);
+  const describeTime = (t: number | null) => {
+    if (t === null) {
+      return `not within ${formatDuration(MAX_FORECAST_DAYS)} of the mainshock`;
+    }
+    if (t <= results.rangeStartDays) {
+      return 'already, at the forecast start';
+    }
+    const date = formatNZDateTime(new Date(quakeTimeMs + t * MS_PER_DAY).toISOString());
+    return `${date}, ${formatDuration(t)} after the mainshock (${formatDuration(t - results.rangeStartDays)} after the forecast start)`;
+  };
+
+  return (
+    <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-lg print:hidden" role="region" aria-label="Inverse forecast queries">
+      <h3 className="text-base font-semibold text-gray-800 dark:text-gray-100 mb-3">Ask the other way round</h3>
+
+      <div className="space-y-5">
+        <div>
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label htmlFor="query-probability" className={LABEL_CLASS}>Chance (%)</label>
+              <input
+                id="query-probability"
+                type="number"
+                min="0"
+                max="100"
+                step="1"
+                value={probability}
+                onChange={(e) => setProbability(e.target.value)}
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label htmlFor="query-window" className={LABEL_CLASS}>Window</label>
+              <select
+                id="query-window"
+                value={windowIndex}
+                onChange={(e) => setWindowIndex(parseInt(e.target.value))}
+                className="bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg px-3 py-1.5 text-sm text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {results.forecasts.map((f, i) => (
+                  <option key={i} value={i}>{f.window.start === 0 ? 'within ' : ''}{forecastWindowLabel(f.window)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <p className="mt-2 text-sm text-gray-700 dark:text-gray-300" aria-live="polite">
+            {magnitude.error !== null ? (
+              <span className="text-red-600 dark:text-red-400">{magnitude.error}</span>
+            ) : (
+              <>
+                Magnitude with a {probability}% chance of being reached or exceeded{' '}
+                {forecast.window.start === 0 ? 'within ' : 'in '}{forecastWindowLabel(forecast.window)}:{' '}
+                <strong>M{magnitude.value.toFixed(1)}</strong>
+              </>
+            )}
+          </p>
+        </div>
+
+        <div>
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label htmlFor="query-rate-magnitude" className={LABEL_CLASS}>Magnitude ≥</label>
+              <input
+                id="query-rate-magnitude"
+                type="number"
+                step="0.1"
+                value={rateMagnitude}
+                onChange={(e) => setRateMagnitude(e.target.value)}
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label htmlFor="query-rate" className={LABEL_CLASS}>Rate below</label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="query-rate"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={rate}
+                  onChange={(e) => setRate(e.target.value)}
+                  className={INPUT_CLASS}
+                />
+                <span className="text-sm text-gray-600 dark:text-gray-400">per</span>
+                <select
+                  aria-label="Rate unit"
+                  value={rateUnit}
+                  onChange={(e) => setRateUnit(e.target.value as TimeUnit)}
+                  className="bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg px-3 py-1.5 text-sm text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {RATE_UNITS.map(unit => (
+                    <option key={unit} value={unit}>{unit.slice(0, -1)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="query-background" className={LABEL_CLASS}>Background (per year)</label>
+              <input
+                id="query-background"
+                type="number"
+                min="0"
+                step="any"
+                placeholder="optional"
+                value={backgroundRate}
+                onChange={(e) => setBackgroundRate(e.target.value)}
+                className={INPUT_CLASS}
+              />
+            </div>
+          </div>
+          <div className="mt-2 space-y-1 text-sm text-gray-700 dark:text-gray-300" aria-live="polite">
+            <p>
+              {quiet.rate.error !== null ? (
+                <span className="text-red-600 dark:text-red-400">{quiet.rate.error}</span>
+              ) : (
+                <>
+                  Rate of M{rateMagnitude}+ stays below {rate} per {rateUnit.slice(0, -1)}:{' '}
+                  <strong>{describeTime(quiet.rate.value)}</strong>
+                </>
+              )}
+            </p>
+            {quiet.background && (
+              <p>
+                {quiet.background.error !== null ? (
+                  <span className="text-red-600 dark:text-red-400">{quiet.background.error}</span>
+                ) : (
+                  <>
+                    Back to the background rate of {backgroundRate} M{rateMagnitude}+ per year:{' '}
+                    <strong>{describeTime(quiet.background.value)}</strong>
+                  </>
+                )}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+        Magnitudes come from the same largest-aftershock distribution as the table. Times are when the expected
+        aftershock rate of the point forecast falls below the target for good, searched from the forecast start;
+        the background rate is the region&rsquo;s usual rate of such events, so after that time aftershocks no longer
+        dominate.
+      </p>
+    </div>
+  );
+}
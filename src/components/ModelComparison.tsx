@@ -0,0 +1,255 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import ReactEChartsCore from 'echarts-for-react/lib/core';
+import * as echarts from 'echarts/core';
+import { ScatterChart } from 'echarts/charts';
+import { GridComponent, MarkLineComponent, TitleComponent, TooltipComponent } from 'echarts/components';
+import { CanvasRenderer } from 'echarts/renderers';
+import type { EChartsCoreOption } from 'echarts/core';
+import type { CalculationResults, ForecastWindow, ModelParameters } from '@/types';
+import { MODEL_PRESETS } from '@/types';
+import { forecastWindowLabel, formatValue } from '@/lib/calculations';
+import { countMatches, type EvalRegion, type ObservedEvent } from '@/lib/evaluation';
+import { COMPARISON_ALPHA, compareModels, comparisonModels, type PairedTest } from '@/lib/comparison';
+
+echarts.use([ScatterChart, GridComponent, MarkLineComponent, TitleComponent, TooltipComponent, CanvasRenderer]);
+
+const AXIS_LABEL_COLOR = '#6b7280';
+const GRID_LINE_COLOR = '#9ca3af40';
+const GAIN_COLOR = '#2563eb';
+
+const MS_PER_DAY = 86_400_000;
+
+interface ModelComparisonProps {
+  results: CalculationResults;
+  catalog: ObservedEvent[];
+  region: EvalRegion;
+  /** Windows with observations so far, and how many days of each have elapsed */
+  windows: { window: ForecastWindow; evaluatedDays: number }[];
+  /** Parameters of the Custom model; the preset's defaults when absent */
+  customParams?: ModelParameters;
+  /** Print dimensions for the chart */
+  printMode?: boolean;
+}
+
+/** Whether the first model of a pair beats the second on both tests */
+function significantlyBetter(test: PairedTest): boolean {
+  return test.tVerdict === 'better' && test.wPValue < COMPARISON_ALPHA;
+}
+
+export default function ModelComparison({ results, catalog, region, windows, customParams = MODEL_PRESETS.custom, printMode = false }: ModelComparisonProps) {
+  // The longest evaluated window holds the most earthquakes
+  const [windowIndex, setWindowIndex] = useState(() =>
+    windows.reduce((best, w, i) => (w.evaluatedDays > windows[best].evaluatedDays ? i : best), 0)
+  );
+  const selected = windows[Math.min(windowIndex, windows.length - 1)];
+  const minMag = results.magnitudeThresholds[0];
+
+  const comparison = useMemo(() => {
+    const quakeTimeMs = Date.parse(results.quakeTimeISO);
+    const startMs = quakeTimeMs + (results.rangeStartDays + selected.window.start) * MS_PER_DAY;
+    const earthquakes = countMatches(
+      catalog, startMs, startMs + selected.evaluatedDays * MS_PER_DAY, { minMag, maxMag: null }, region, results.quakeId
+    ).map(e => ({ timeDays: (e.timeMs - quakeTimeMs) / MS_PER_DAY, magnitude: e.magnitude }));
+    const tStart = results.rangeStartDays + selected.window.start;
+    try {
+      return {
+        value: compareModels(results, comparisonModels(results, customParams), earthquakes, minMag, tStart, tStart + selected.evaluatedDays),
+        error: null,
+      };
+    } catch (err) {
+      return { value: null, error: err instanceof Error ? err.message : 'Model comparison failed' };
+    }
+  }, [results, catalog, region, selected, customParams, minMag]);
+
+  // T-test plot: the top-ranked model's gain over each of the others
+  const chartOptions = useMemo((): EChartsCoreOption | null => {
+    const value = comparison.value;
+    if (!value) return null;
+    const best = value.fits[0].model.name;
+    const others = value.fits.slice(1).map((fit, k) => ({ name: fit.model.name, test: value.pairs[0][k + 1]! }));
+    return {
+      backgroundColor: 'transparent',
+      title: {
+        text: `Information gain of ${best}`,
+        subtext: 'Per earthquake over each other model, with its 95% interval (T-test)',
+        textStyle: { fontSize: 15, fontWeight: 'bold', color: AXIS_LABEL_COLOR },
+        subtextStyle: { color: AXIS_LABEL_COLOR },
+        left: 'center',
+      },
+      grid: { top: 80, bottom: 45, left: 65, right: 25 },
+      xAxis: {
+        type: 'category',
+        data: others.map(o => o.name),
+        axisLabel: { color: AXIS_LABEL_COLOR },
+      },
+      yAxis: {
+        type: 'value',
+        name: 'Gain per earthquake (nats)',
+        nameLocation: 'middle',
+        nameGap: 45,
+        nameTextStyle: { color: AXIS_LABEL_COLOR },
+        axisLabel: { color: AXIS_LABEL_COLOR },
+        splitLine: { lineStyle: { color: GRID_LINE_COLOR } },
+      },
+      tooltip: {
+        trigger: 'item',
+        formatter: (params: { dataIndex: number }) => {
+          const { name, test } = others[params.dataIndex];
+          return `${best} over ${name}<br/>Gain per earthquake: <b>${test.informationGain.toFixed(3)}</b>` +
+            `<br/>95% interval: ${test.lower.toFixed(3)} to ${test.upper.toFixed(3)}` +
+            `<br/>W-test p = ${test.wPValue.toPrecision(2)}`;
+        },
+      },
+      series: [{
+        name: 'Information gain',
+        type: 'scatter',
+        data: others.map(o => o.test.informationGain),
+        symbolSize: 10,
+        itemStyle: { color: GAIN_COLOR },
+        markLine: {
+          symbol: 'none',
+          silent: true,
+          lineStyle: { color: GAIN_COLOR, type: 'solid', width: 2 },
+          label: { show: false },
+          data: [
+            ...others.map((o, i) => [{ coord: [i, o.test.lower] }, { coord: [i, o.test.upper] }]),
+            { yAxis: 0, lineStyle: { color: AXIS_LABEL_COLOR, type: 'dashed', width: 1 } },
+          ],
+        },
+      }],
+    };
+  }, [comparison]);
+
+  const handleExportCsv = () => {
+    const value = comparison.value;
+    if (!value) return;
+    const lines = [
+      `# Model comparison for ${results.quakeId}: ${forecastWindowLabel(selected.window)}, ${value.earthquakes} observed M${minMag}+ earthquakes`,
+      '# T-test: information gain per earthquake of model A over model B with its 95% interval; W-test: Wilcoxon signed-rank p-value (Rhoades et al. 2011)',
+      `# Generated: ${new Date().toISOString()}`,
+      '',
+      'Rank,Model,a,b,c,p,Expected,Log-likelihood',
+      ...value.fits.map((fit, i) => {
+        const { a, b, c, p } = fit.model.params;
+        return [i + 1, fit.model.name, a, b, c, p, fit.expected.toPrecision(4), fit.logLikelihood.toPrecision(6)].join(',');
+      }),
+      ...value.ruledOut.map(r => {
+        const { a, b, c, p } = r.model.params;
+        return ['Ruled out', r.model.name, a, b, c, p, '', `"Zero rate at ${r.earthquakes} observed earthquakes"`].join(',');
+      }),
+      '',
+      'Model A,Model B,Gain per earthquake,CI low,CI high,T-test,W-test p',
+      ...value.pairs.flatMap((row, i) => row.flatMap((test, j) => test ? [[
+        value.fits[i].model.name, value.fits[j].model.name, test.informationGain.toPrecision(4),
+        test.lower.toPrecision(4), test.upper.toPrecision(4), test.tVerdict, test.wPValue.toPrecision(4),
+      ].join(',')] : [])),
+    ];
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `model-comparison-${results.quakeId}-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-5 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm eval-print-card">
+      <h3 className="text-sm font-bold text-gray-700 dark:text-gray-300 uppercase tracking-wider mb-1">
+        Model Comparison
+      </h3>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        Every preset and the Custom model, scored on the same catalogue and region with this forecast&rsquo;s
+        settings, and compared pair by pair with the T-test (information gain per earthquake) and W-test
+        (Wilcoxon signed-rank) of Rhoades et al. (2011).
+      </p>
+      <div className="flex flex-wrap items-end gap-3 print:hidden">
+        <div>
+          <label htmlFor="comparison-window" className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">
+            Window
+          </label>
+          <select
+            id="comparison-window"
+            value={Math.min(windowIndex, windows.length - 1)}
+            onChange={(e) => setWindowIndex(parseInt(e.target.value))}
+            className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {windows.map((w, i) => (
+              <option key={i} value={i}>{forecastWindowLabel(w.window)}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={handleExportCsv}
+          disabled={!comparison.value}
+          className="px-4 py-2 bg-green-600 text-white text-sm rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-green-400"
+          aria-label="Export the model comparison as CSV"
+        >
+          📥 Export CSV
+        </button>
+      </div>
+
+      {comparison.error !== null ? (
+        <p className="mt-3 text-sm text-amber-700 dark:text-amber-400" role="alert">{comparison.error}</p>
+      ) : (
+        <div className="mt-4 grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm border-collapse print-eval-table">
+              <thead>
+                <tr className="bg-gray-50 dark:bg-gray-900 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                  <th scope="col" className="px-3 py-2 text-center">Rank</th>
+                  <th scope="col" className="px-3 py-2 text-left">Model</th>
+                  <th scope="col" className="px-3 py-2 text-center">Expected</th>
+                  <th scope="col" className="px-3 py-2 text-center">Log-likelihood</th>
+                  {comparison.value.fits.map(fit => (
+                    <th key={fit.model.id} scope="col" className="px-3 py-2 text-center normal-case">vs {fit.model.name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {comparison.value.fits.map((fit, i) => (
+                  <tr key={fit.model.id} className="text-gray-700 dark:text-gray-300">
+                    <td className="px-3 py-2 text-center font-mono">{i + 1}</td>
+                    <th scope="row" className="px-3 py-2 text-left font-medium whitespace-nowrap">{fit.model.name}</th>
+                    <td className="px-3 py-2 text-center font-mono">{formatValue(fit.expected)}</td>
+                    <td className="px-3 py-2 text-center font-mono">{fit.logLikelihood.toFixed(1)}</td>
+                    {comparison.value.pairs[i].map((test, j) => (
+                      <td key={j} className="px-3 py-2 text-center font-mono whitespace-nowrap">
+                        {test ? (
+                          <span
+                            className={significantlyBetter(test)
+                              ? 'text-green-700 dark:text-green-400 font-semibold'
+                              : test.tVerdict === 'worse' && test.wPValue < COMPARISON_ALPHA ? 'text-red-600 dark:text-red-400' : ''}
+                            title={`95% interval ${test.lower.toFixed(3)} to ${test.upper.toFixed(3)}; W-test p = ${test.wPValue.toPrecision(2)}`}
+                          >
+                            {test.informationGain >= 0 ? '+' : ''}{test.informationGain.toFixed(2)}
+                          </span>
+                        ) : '–'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Ranked by log-likelihood on {comparison.value.earthquakes} M{minMag}+ earthquakes. Each cell is the
+              information gain per earthquake (nats) of the row&rsquo;s model over the column&rsquo;s; green where
+              the row&rsquo;s model is better on both tests (95% interval above zero, W-test p &lt; {COMPARISON_ALPHA}),
+              red where it is worse on both. Hover a cell for the interval and p-value.
+            </p>
+            {comparison.value.ruledOut.length > 0 && (
+              <p className="mt-2 text-xs text-amber-700 dark:text-amber-400">
+                Ruled out, for giving zero rate to observed earthquakes (at or above the maximum magnitude):{' '}
+                {comparison.value.ruledOut.map(r => `${r.model.name} (${r.earthquakes})`).join(', ')}.
+              </p>
+            )}
+          </div>
+          {chartOptions && (
+            <ReactEChartsCore echarts={echarts} option={chartOptions} notMerge style={printMode ? { height: 280, width: 430 } : { height: 340, width: '100%' }} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,48 @@
 'use client';
 
 import { useId, useState, useCallback, useEffect } from 'react';
-import type { ModelType, ModelParameters } from '@/types';
-import { MODEL_PRESETS, MODEL_INFO } from '@/types';
+import type {
+  ModelType,
+  ModelParameters,
+  EtasParameters,
+  MaxMagnitude,
+  ParameterUncertainty,
+  PresetModelType,
+  SavedPreset,
+  TemporalKernel,
+  TemporalKernelType,
+} from '@/types';
+import { MODEL_PRESETS, MODEL_INFO, ETAS_DEFAULTS, DEFAULT_PARAMETER_UNCERTAINTY, DEFAULT_MAX_MAGNITUDE } from '@/types';
+import type { RegimeSuggestion } from '@/lib/regime';
+import { KERNEL_DEFAULTS, KERNEL_INFO } from '@/lib/kernels';
 import InfoTooltip from './InfoTooltip';
 
 interface ModelSelectorProps {
   modelType: ModelType;
   customParams: ModelParameters;
+  etasParams: EtasParameters;
   onModelChange: (type: ModelType) => void;
   onCustomParamsChange: (params: ModelParameters) => void;
+  onEtasParamsChange: (params: EtasParameters) => void;
+  /** Relative weight of each preset in the ensemble model */
+  ensembleWeights: Record<PresetModelType, number>;
+  onEnsembleWeightsChange: (weights: Record<PresetModelType, number>) => void;
+  /** Spread of a and p carried into the ranges, or null for Poisson ranges only */
+  parameterUncertainty: ParameterUncertainty | null;
+  onParameterUncertaintyChange: (uncertainty: ParameterUncertainty | null) => void;
+  /** Set when a sequence-specific posterior supplies the spread instead */
+  posteriorSd?: { a: number; p: number };
+  /** Maximum or corner magnitude applied to every Reasenberg–Jones model, or null for unbounded */
+  maxMagnitude: MaxMagnitude | null;
+  onMaxMagnitudeChange: (maxMagnitude: MaxMagnitude | null) => void;
+  /** Temporal decay kernel applied to every Reasenberg–Jones model */
+  kernel: TemporalKernel;
+  onKernelChange: (kernel: TemporalKernel) => void;
+  /** Preset suggested by the loaded quake's tectonic setting, if any */
+  suggestion?: RegimeSuggestion | null;
+  /** Named parameter sets from regional calibration, loadable into Custom */
+  savedPresets?: SavedPreset[];
+  onDeleteSavedPreset?: (name: string) => void;
 }
 
 // Build model options from the MODEL_INFO constant
@@ -21,7 +54,65 @@ const MODEL_OPTIONS: { type: ModelType; label: string; description: string }[] =
   description: info.description,
 }));
 
-const PARAM_INFO: Record<keyof ModelParameters, { label: string; description: string; tooltip: React.ReactNode }> = {
+const UNCERTAINTY_TOOLTIP = (
+  <>
+    <strong>Parameter uncertainty</strong>
+    <p className="mt-1">
+      Generic parameters are averages over many sequences, and any one sequence
+      can be several times more or less productive. With this option the
+      a-value (and optionally p) is treated as normally distributed, so ranges
+      and probabilities come from the predictive distribution of counts
+      rather than a Poisson distribution with fixed parameters. Expected
+      numbers are unchanged.
+    </p>
+    <p className="mt-1">
+      After a sequence-specific update, the posterior standard deviations are
+      used instead.
+    </p>
+  </>
+);
+
+const MAX_MAGNITUDE_TOOLTIP = (
+  <>
+    <strong>Maximum magnitude</strong>
+    <p className="mt-1">
+      The Gutenberg&ndash;Richter relation is unbounded, so probabilities for
+      very large thresholds never reach zero. A truncated distribution allows
+      no events above the maximum magnitude; a tapered one rolls off smoothly
+      in seismic moment around a corner magnitude. Counts well below the cap
+      are essentially unchanged.
+    </p>
+    <p className="mt-1">
+      The cap applies to every Reasenberg&ndash;Jones model, including ensemble
+      members and sequence-specific updates.
+    </p>
+  </>
+);
+
+const KERNEL_TOOLTIP = (
+  <>
+    <strong>Temporal decay</strong>
+    <p className="mt-1">
+      How the aftershock rate decays with time. Omori&ndash;Utsu, (t&nbsp;+&nbsp;c)<sup>&minus;p</sup>, is
+      the standard. The stretched exponential starts at the same rate but decays faster late in the
+      sequence; rate-and-state (Dieterich) decay behaves as 1/t until the aftershock duration
+      t<sub>a</sub>, when the rate returns to the background. Both keep the model&rsquo;s c and p as
+      their early behaviour.
+    </p>
+  </>
+);
+
+/** Each alternative kernel's own parameters, with labels and input steps */
+const KERNEL_PARAM_INFO: { kernel: TemporalKernelType; key: 'tau' | 'beta' | 'ta'; label: string; step: string }[] = [
+  { kernel: 'stretched-exponential', key: 'tau', label: 'τ (days)', step: '0.01' },
+  { kernel: 'stretched-exponential', key: 'beta', label: 'β', step: '0.05' },
+  { kernel: 'rate-state', key: 'ta', label: 'ta (days)', step: '100' },
+];
+
+/** The editable numeric parameters (the maximum magnitude and kernel have their own controls) */
+type NumericParameter = Exclude<keyof ModelParameters, 'maxMagnitude' | 'kernel'>;
+
+const PARAM_INFO: Record<NumericParameter, { label: string; description: string; tooltip: React.ReactNode }> = {
   a: {
     label: 'a',
     description: 'Productivity parameter',
@@ -83,6 +174,55 @@ const PARAM_INFO: Record<keyof ModelParameters, { label: string; description: st
   },
 };
 
+const ETAS_PARAM_INFO: Record<keyof EtasParameters, { label: string; description: string; tooltip: React.ReactNode }> = {
+  K: {
+    label: 'K',
+    description: 'Productivity (events/day)',
+    tooltip: (
+      <>
+        <strong>ETAS Productivity (K)</strong>
+        <p className="mt-1">
+          The direct aftershock rate, per day, triggered by an event at the
+          reference magnitude. Every event in the sequence, not just the
+          mainshock, triggers aftershocks at this rate scaled by its magnitude.
+        </p>
+      </>
+    ),
+  },
+  alpha: {
+    label: 'α',
+    description: 'Productivity scaling',
+    tooltip: (
+      <>
+        <strong>Productivity Scaling (&alpha;)</strong>
+        <p className="mt-1">
+          How strongly aftershock productivity grows with the triggering
+          event&rsquo;s magnitude: each unit of magnitude multiplies it by
+          10<sup>&alpha;</sup>. It must be less than b, otherwise the expected
+          number of aftershocks per event is unbounded.
+        </p>
+      </>
+    ),
+  },
+  c: PARAM_INFO.c,
+  p: PARAM_INFO.p,
+  b: PARAM_INFO.b,
+  mRef: {
+    label: 'Mref',
+    description: 'Reference magnitude',
+    tooltip: (
+      <>
+        <strong>Reference Magnitude</strong>
+        <p className="mt-1">
+          The smallest magnitude that triggers aftershocks in the model, and the
+          magnitude at which K is defined. Usually the catalogue completeness
+          magnitude of the data the parameters were fitted to.
+        </p>
+      </>
+    ),
+  },
+};
+
 const MODEL_TOOLTIP = (
   <>
     <strong>Forecast Model Selection</strong>
@@ -97,10 +237,32 @@ const MODEL_TOOLTIP = (
       <li><strong>California (ACR):</strong> Reasenberg &amp; Jones (1989) generic parameters</li>
       <li><strong>Stable Continental:</strong> low-seismicity intraplate regions</li>
       <li><strong>Custom:</strong> enter your own parameter values</li>
+      <li><strong>ETAS:</strong> lets every aftershock trigger its own aftershocks; compare against the others for the same inputs</li>
+      <li><strong>Ensemble:</strong> weights several presets when more than one setting is plausible</li>
     </ul>
   </>
 );
 
+const ENSEMBLE_TOOLTIP = (
+  <>
+    <strong>Ensemble weights</strong>
+    <p className="mt-1">
+      How much each preset is trusted for this event, e.g. equal weights on NZ
+      Generic and Subduction Zone for an event near the plate interface.
+      Weights are relative and are normalised to sum to 1; a weight of 0
+      leaves a preset out.
+    </p>
+    <p className="mt-1">
+      The forecast is the weighted mixture of the presets&rsquo; forecasts:
+      the expected number is the weighted mean, while probabilities and
+      ranges reflect the spread between the presets. Parameters are never
+      averaged.
+    </p>
+  </>
+);
+
+const ENSEMBLE_ORDER: PresetModelType[] = ['nz', 'sz', 'california', 'scr'];
+
 const STORAGE_KEY = 'aftershock-params-expanded';
 
 /**
@@ -144,12 +306,35 @@ function ChevronIcon({ expanded }: { expanded: boolean }) {
 export default function ModelSelector({
   modelType,
   customParams,
+  etasParams,
   onModelChange,
   onCustomParamsChange,
+  onEtasParamsChange,
+  ensembleWeights,
+  onEnsembleWeightsChange,
+  parameterUncertainty,
+  onParameterUncertaintyChange,
+  posteriorSd,
+  maxMagnitude,
+  onMaxMagnitudeChange,
+  kernel,
+  onKernelChange,
+  suggestion,
+  savedPresets = [],
+  onDeleteSavedPreset,
 }: ModelSelectorProps) {
   const baseId = useId();
   const isCustom = modelType === 'custom';
-  const activeParams = isCustom ? customParams : MODEL_PRESETS[modelType];
+  const isEtas = modelType === 'etas';
+  const isEnsemble = modelType === 'ensemble';
+  const activeParams = modelType === 'custom' || modelType === 'etas' || modelType === 'ensemble'
+    ? customParams
+    : MODEL_PRESETS[modelType];
+  const totalWeight = ENSEMBLE_ORDER.reduce((sum, m) => sum + (ensembleWeights[m] > 0 ? ensembleWeights[m] : 0), 0);
+
+  // Saved preset picked for loading into Custom
+  const [savedPresetName, setSavedPresetName] = useState('');
+  const selectedSavedPreset = savedPresets.find(s => s.name === savedPresetName) ?? savedPresets[0];
 
   // Parameter-details disclosure, persisted across visits
   const [isExpanded, setIsExpanded] = useState(false);
@@ -170,14 +355,14 @@ export default function ModelSelector({
 
   const handleModelSelect = (type: ModelType) => {
     onModelChange(type);
-    // Editing parameters is the point of Custom, so open them automatically
-    if (type === 'custom' && !isExpanded) {
+    // Editing parameters (or weights) is the point of Custom, ETAS and Ensemble, so open them automatically
+    if ((type === 'custom' || type === 'etas' || type === 'ensemble') && !isExpanded) {
       setIsExpanded(true);
       persistExpandedState(true);
     }
   };
 
-  const handleParamChange = (key: keyof ModelParameters, value: string) => {
+  const handleParamChange = (key: NumericParameter, value: string) => {
     const numValue = parseFloat(value);
     onCustomParamsChange({
       ...customParams,
@@ -185,6 +370,31 @@ export default function ModelSelector({
     });
   };
 
+  const handleUncertaintyChange = (key: keyof ParameterUncertainty, value: string) => {
+    if (!parameterUncertainty) return;
+    const numValue = parseFloat(value);
+    onParameterUncertaintyChange({
+      ...parameterUncertainty,
+      [key]: isNaN(numValue) ? 0 : numValue
+    });
+  };
+
+  const handleWeightChange = (model: PresetModelType, value: string) => {
+    const numValue = parseFloat(value);
+    onEnsembleWeightsChange({
+      ...ensembleWeights,
+      [model]: isNaN(numValue) ? 0 : numValue
+    });
+  };
+
+  const handleEtasParamChange = (key: keyof EtasParameters, value: string) => {
+    const numValue = parseFloat(value);
+    onEtasParamsChange({
+      ...etasParams,
+      [key]: isNaN(numValue) ? 0 : numValue
+    });
+  };
+
   return (
     <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 print:hidden">
       <div className="flex items-center gap-2 mb-3">
@@ -194,11 +404,36 @@ export default function ModelSelector({
         <InfoTooltip content={MODEL_TOOLTIP} />
       </div>
 
+      {/* Regime suggestion for the loaded quake; never changes the model by itself */}
+      {suggestion && (
+        <div
+          role="status"
+          className={`mb-3 flex flex-wrap items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm
+                      ${suggestion.model === modelType
+                        ? 'border-green-200 bg-green-50 text-green-800 dark:border-green-800 dark:bg-green-900/20 dark:text-green-300'
+                        : 'border-amber-200 bg-amber-50 text-amber-800 dark:border-amber-800 dark:bg-amber-900/20 dark:text-amber-300'}`}
+        >
+          <span>
+            Suggested for this quake: <strong>{MODEL_INFO[suggestion.model].name}</strong>. {suggestion.reason}
+          </span>
+          {suggestion.model !== modelType && (
+            <button
+              type="button"
+              onClick={() => handleModelSelect(suggestion.model)}
+              className="px-3 py-1 rounded-md bg-amber-600 text-white hover:bg-amber-700 transition-colors
+                         focus:outline-none focus:ring-2 focus:ring-amber-400"
+            >
+              Use {MODEL_INFO[suggestion.model].name}
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Model choices, always visible */}
       <div
         role="radiogroup"
         aria-labelledby={`${baseId}-heading`}
-        className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-2"
+        className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2"
       >
         {MODEL_OPTIONS.map(({ type, label, description }) => {
           const selected = modelType === type;
@@ -241,18 +476,113 @@ export default function ModelSelector({
                      focus:outline-none focus:ring-2 focus:ring-blue-500"
         >
           <span className="font-medium text-left">
-            Model parameters{' '}
-            <span className="font-mono font-normal text-gray-500 dark:text-gray-400">
-              a = {activeParams.a} · b = {activeParams.b} · c = {activeParams.c} · p = {activeParams.p}
-            </span>
-            {!isCustom && <span className="font-normal text-gray-500 dark:text-gray-400"> (read-only)</span>}
+            {isEnsemble ? 'Ensemble weights' : 'Model parameters'}{' '}
+            {isEnsemble ? (
+              <span className="font-mono font-normal text-gray-500 dark:text-gray-400">
+                {ENSEMBLE_ORDER.filter(m => ensembleWeights[m] > 0).map(m =>
+                  `${MODEL_INFO[m].name} ${Math.round((100 * ensembleWeights[m]) / totalWeight)}%`
+                ).join(' · ') || 'none'}
+              </span>
+            ) : isEtas ? (
+              <span className="font-mono font-normal text-gray-500 dark:text-gray-400">
+                K = {etasParams.K} · α = {etasParams.alpha} · c = {etasParams.c} · p = {etasParams.p} · b = {etasParams.b} · Mref = {etasParams.mRef}
+              </span>
+            ) : (
+              <span className="font-mono font-normal text-gray-500 dark:text-gray-400">
+                a = {activeParams.a} · b = {activeParams.b} · c = {activeParams.c} · p = {activeParams.p}
+              </span>
+            )}
+            {!isCustom && !isEtas && !isEnsemble && <span className="font-normal text-gray-500 dark:text-gray-400"> (read-only)</span>}
           </span>
           <ChevronIcon expanded={isExpanded} />
         </button>
 
-        {isExpanded && (
+        {isExpanded && isEtas && (
+          <div id={`${baseId}-params`} className="mt-3">
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+              {(Object.keys(ETAS_PARAM_INFO) as (keyof EtasParameters)[]).map((param) => (
+                <div key={param}>
+                  <label
+                    htmlFor={`${baseId}-etas-${param}`}
+                    className="flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                  >
+                    {ETAS_PARAM_INFO[param].label}
+                    <InfoTooltip content={ETAS_PARAM_INFO[param].tooltip} />
+                  </label>
+                  <input
+                    id={`${baseId}-etas-${param}`}
+                    type="number"
+                    step={param === 'K' ? '0.0001' : '0.001'}
+                    value={etasParams[param]}
+                    onChange={(e) => handleEtasParamChange(param, e.target.value)}
+                    aria-describedby={`${baseId}-etas-${param}-desc`}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                               focus:outline-none focus:ring-2 focus:ring-blue-500
+                               dark:bg-gray-800 dark:text-gray-100"
+                  />
+                  <p
+                    id={`${baseId}-etas-${param}-desc`}
+                    className="mt-1 text-xs text-gray-500 dark:text-gray-400"
+                  >
+                    {ETAS_PARAM_INFO[param].description}
+                  </p>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => onEtasParamsChange(ETAS_DEFAULTS)}
+              className="mt-3 px-3 py-1.5 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300
+                         hover:bg-gray-300 dark:hover:bg-gray-600 rounded-md transition-colors
+                         focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Reset to defaults
+            </button>
+          </div>
+        )}
+
+        {isExpanded && isEnsemble && (
+          <div id={`${baseId}-params`} className="mt-3">
+            <p className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400 mb-2">
+              Relative weight of each preset (normalised to sum to 1)
+              <InfoTooltip content={ENSEMBLE_TOOLTIP} />
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {ENSEMBLE_ORDER.map((model) => (
+                <div key={model}>
+                  <label
+                    htmlFor={`${baseId}-weight-${model}`}
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                  >
+                    {MODEL_INFO[model].name}
+                  </label>
+                  <input
+                    id={`${baseId}-weight-${model}`}
+                    type="number"
+                    step="0.05"
+                    min="0"
+                    value={ensembleWeights[model]}
+                    onChange={(e) => handleWeightChange(model, e.target.value)}
+                    aria-describedby={`${baseId}-weight-${model}-desc`}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                               focus:outline-none focus:ring-2 focus:ring-blue-500
+                               dark:bg-gray-800 dark:text-gray-100"
+                  />
+                  <p
+                    id={`${baseId}-weight-${model}-desc`}
+                    className="mt-1 text-xs font-mono text-gray-500 dark:text-gray-400"
+                  >
+                    a = {MODEL_PRESETS[model].a} · b = {MODEL_PRESETS[model].b} · c = {MODEL_PRESETS[model].c} · p = {MODEL_PRESETS[model].p}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {isExpanded && !isEtas && !isEnsemble && (
           <div id={`${baseId}-params`} className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-3">
-            {(Object.keys(PARAM_INFO) as (keyof ModelParameters)[]).map((param) => (
+            {(Object.keys(PARAM_INFO) as NumericParameter[]).map((param) => (
               <div key={param}>
                 <label
                   htmlFor={`${baseId}-${param}`}
@@ -285,7 +615,195 @@ export default function ModelSelector({
             ))}
           </div>
         )}
+
+        {isExpanded && isCustom && selectedSavedPreset && (
+          <div className="mt-3 flex flex-wrap items-end gap-2">
+            <div>
+              <label htmlFor={`${baseId}-saved`} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Saved presets
+              </label>
+              <select
+                id={`${baseId}-saved`}
+                value={selectedSavedPreset.name}
+                onChange={(e) => setSavedPresetName(e.target.value)}
+                aria-describedby={`${baseId}-saved-desc`}
+                className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md
+                           focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-gray-100"
+              >
+                {savedPresets.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}
+              </select>
+            </div>
+            <button
+              type="button"
+              onClick={() => {
+                const { a, b, c, p } = selectedSavedPreset.params;
+                onCustomParamsChange({ ...customParams, a, b, c, p });
+              }}
+              className="px-3 py-2 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700 transition-colors
+                         focus:outline-none focus:ring-2 focus:ring-blue-400"
+            >
+              Load
+            </button>
+            {onDeleteSavedPreset && (
+              <button
+                type="button"
+                onClick={() => onDeleteSavedPreset(selectedSavedPreset.name)}
+                className="px-3 py-2 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300
+                           hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+              >
+                Delete
+              </button>
+            )}
+            <p id={`${baseId}-saved-desc`} className="basis-full text-xs text-gray-500 dark:text-gray-400">
+              {selectedSavedPreset.description}
+            </p>
+          </div>
+        )}
       </div>
+
+      {/* Parameter uncertainty in the forecast ranges (Reasenberg–Jones only) */}
+      {!isEtas && (
+        <div className="mt-3 border-t border-gray-200 dark:border-gray-600 pt-3 flex flex-wrap items-end gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 pb-2">
+            <input
+              type="checkbox"
+              checked={parameterUncertainty !== null}
+              onChange={(e) => onParameterUncertaintyChange(e.target.checked ? DEFAULT_PARAMETER_UNCERTAINTY : null)}
+              className="rounded border-gray-300 dark:border-gray-600"
+            />
+            Include parameter uncertainty in ranges
+            <InfoTooltip content={UNCERTAINTY_TOOLTIP} />
+          </label>
+          {parameterUncertainty && !posteriorSd && (['aSd', 'pSd'] as const).map((key) => (
+            <div key={key} className="flex flex-col">
+              <label htmlFor={`${baseId}-${key}`} className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                σ of {key === 'aSd' ? 'a' : 'p'}
+              </label>
+              <input
+                id={`${baseId}-${key}`}
+                type="number"
+                step="0.05"
+                min="0"
+                value={parameterUncertainty[key]}
+                onChange={(e) => handleUncertaintyChange(key, e.target.value)}
+                className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                           focus:outline-none focus:ring-2 focus:ring-blue-500
+                           dark:bg-gray-800 dark:text-gray-100"
+              />
+            </div>
+          ))}
+          {parameterUncertainty && posteriorSd && (
+            <p className="text-sm text-gray-600 dark:text-gray-400 pb-2">
+              Using the sequence-specific posterior: σ of a = {posteriorSd.a.toFixed(2)}, σ of p = {posteriorSd.p.toFixed(2)}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Temporal decay kernel (Reasenberg–Jones only) */}
+      {!isEtas && (
+        <div className="mt-3 border-t border-gray-200 dark:border-gray-600 pt-3 flex flex-wrap items-end gap-4">
+          <div className="flex flex-col">
+            <label
+              htmlFor={`${baseId}-kernel`}
+              className="flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Temporal decay
+              <InfoTooltip content={KERNEL_TOOLTIP} />
+            </label>
+            <select
+              id={`${baseId}-kernel`}
+              value={kernel.type}
+              onChange={(e) => onKernelChange(KERNEL_DEFAULTS[e.target.value as TemporalKernelType])}
+              aria-describedby={`${baseId}-kernel-desc`}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                         focus:outline-none focus:ring-2 focus:ring-blue-500
+                         dark:bg-gray-800 dark:text-gray-100"
+            >
+              {(Object.keys(KERNEL_INFO) as TemporalKernelType[]).map(type => (
+                <option key={type} value={type}>{KERNEL_INFO[type].name}</option>
+              ))}
+            </select>
+          </div>
+          {KERNEL_PARAM_INFO.filter(info => info.kernel === kernel.type).map(({ key, label, step }) => (
+            <div key={key} className="flex flex-col">
+              <label htmlFor={`${baseId}-kernel-${key}`} className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {label}
+              </label>
+              <input
+                id={`${baseId}-kernel-${key}`}
+                type="number"
+                step={step}
+                min="0"
+                value={(kernel as Partial<Record<typeof key, number>>)[key]}
+                onChange={(e) => {
+                  const numValue = parseFloat(e.target.value);
+                  onKernelChange({ ...kernel, [key]: isNaN(numValue) ? 0 : numValue } as TemporalKernel);
+                }}
+                className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                           focus:outline-none focus:ring-2 focus:ring-blue-500
+                           dark:bg-gray-800 dark:text-gray-100"
+              />
+            </div>
+          ))}
+          <p id={`${baseId}-kernel-desc`} className="text-xs text-gray-500 dark:text-gray-400 pb-2">
+            {KERNEL_INFO[kernel.type].description}
+          </p>
+        </div>
+      )}
+
+      {/* Maximum magnitude of the Gutenberg–Richter distribution (Reasenberg–Jones only) */}
+      {!isEtas && (
+        <div className="mt-3 border-t border-gray-200 dark:border-gray-600 pt-3 flex flex-wrap items-end gap-4">
+          <div className="flex flex-col">
+            <label
+              htmlFor={`${baseId}-max-mag-kind`}
+              className="flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Maximum magnitude
+              <InfoTooltip content={MAX_MAGNITUDE_TOOLTIP} />
+            </label>
+            <select
+              id={`${baseId}-max-mag-kind`}
+              value={maxMagnitude?.kind ?? 'none'}
+              onChange={(e) => onMaxMagnitudeChange(
+                e.target.value === 'none'
+                  ? null
+                  : { ...(maxMagnitude ?? DEFAULT_MAX_MAGNITUDE), kind: e.target.value as MaxMagnitude['kind'] }
+              )}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                         focus:outline-none focus:ring-2 focus:ring-blue-500
+                         dark:bg-gray-800 dark:text-gray-100"
+            >
+              <option value="none">None (unbounded)</option>
+              <option value="truncated">Truncated at Mmax</option>
+              <option value="tapered">Tapered, corner magnitude</option>
+            </select>
+          </div>
+          {maxMagnitude && (
+            <div className="flex flex-col">
+              <label htmlFor={`${baseId}-max-mag`} className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {maxMagnitude.kind === 'truncated' ? 'Mmax' : 'Corner magnitude'}
+              </label>
+              <input
+                id={`${baseId}-max-mag`}
+                type="number"
+                step="0.1"
+                min="0"
+                max="10"
+                value={maxMagnitude.magnitude}
+                onChange={(e) => {
+                  const numValue = parseFloat(e.target.value);
+                  onMaxMagnitudeChange({ ...maxMagnitude, magnitude: isNaN(numValue) ? 0 : numValue });
+                }}
+                className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                           focus:outline-none focus:ring-2 focus:ring-blue-500
+                           dark:bg-gray-800 dark:text-gray-100"
+              />
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
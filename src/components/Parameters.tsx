@@ -1,8 +1,11 @@
 'use client';
 
-import { useId, useState, useRef, useCallback } from 'react';
+import { Fragment, useId, useState, useRef, useCallback } from 'react';
 import InfoTooltip from './InfoTooltip';
 import { formatNZDateTime, parseNZDateTime } from '@/lib/datetime';
+import { daysToUnit, forecastWindowLabel } from '@/lib/calculations';
+import { DEFAULT_INCOMPLETENESS, MAX_FORECAST_DAYS, MAX_FORECAST_WINDOWS, MAX_MAGNITUDE_CANDIDATES, MAX_MAGNITUDE_THRESHOLDS, MAX_SOURCE_EVENTS, TIME_UNIT_DAYS } from '@/types';
+import type { ForecastWindow, MagnitudeUncertaintyInput, MagnitudeUncertaintyMode, ShortTermIncompleteness, SourceEventInput, TimeUnit } from '@/types';
 
 // Tooltip content for each parameter
 const TOOLTIPS = {
@@ -43,33 +46,102 @@ const TOOLTIPS = {
       </p>
     </>
   ),
-  durations: (
+  windows: (
     <>
-      <strong>Forecast Durations</strong>
+      <strong>Forecast Windows</strong>
       <p className="mt-1">
-        The length of each forecast window, in days, measured from the forecast
-        start time. Standard reporting intervals:
+        Each window runs from a start day to an end day, both measured from the
+        forecast start time. Windows starting at day 0 give the standard
+        reporting intervals:
       </p>
       <ul className="mt-1 ml-3 text-xs list-disc">
-        <li><strong>1 day:</strong> immediate response and emergency operations</li>
-        <li><strong>7 days:</strong> short-term operational planning</li>
-        <li><strong>30 days:</strong> extended situational outlook</li>
+        <li><strong>0&ndash;1:</strong> immediate response and emergency operations</li>
+        <li><strong>0&ndash;7:</strong> short-term operational planning</li>
+        <li><strong>0&ndash;30:</strong> extended situational outlook</li>
       </ul>
+      <p className="mt-1 text-xs">
+        Later, disjoint windows suit public messaging, e.g. 1&ndash;2 for
+        &ldquo;tomorrow&rdquo; or 2&ndash;9 for &ldquo;the following week&rdquo;.
+      </p>
+      <p className="mt-1 text-xs">
+        Each window has its own unit, from minutes to years: 0&ndash;1, 0&ndash;6
+        and 0&ndash;12 hours cover the first hours after a large event, and
+        windows of several years suit long-term planning. Fractional values such
+        as 1.5 hours are allowed.
+      </p>
     </>
   ),
-  magnitudeRanges: (
+  magnitudeThresholds: (
     <>
       <strong>Magnitude Thresholds</strong>
       <p className="mt-1">
-        Thresholds defining the reported magnitude bins. For each bin, the
-        forecast provides the expected number of events and the probability of
-        one or more occurrences:
+        Thresholds defining the reported magnitude bins. Each bin runs from one
+        threshold up to the next, and the highest bin is open-ended. For each
+        bin, the forecast provides the expected number of events and the
+        probability of one or more occurrences. For example, thresholds 3, 4
+        and 5 give:
       </p>
       <ul className="mt-1 ml-3 text-xs list-disc">
-        <li><strong>M1:</strong> highest threshold (e.g., M5+, potentially damaging events)</li>
-        <li><strong>M2:</strong> intermediate threshold (e.g., M4+, widely felt events)</li>
-        <li><strong>M3:</strong> lowest threshold (e.g., M3+, locally felt events)</li>
+        <li><strong>M5+:</strong> potentially damaging events</li>
+        <li><strong>M4&ndash;M5:</strong> widely felt events</li>
+        <li><strong>M3&ndash;M4:</strong> locally felt events</li>
       </ul>
+      <p className="mt-1 text-xs">
+        Large events may warrant more bins, e.g. 3, 4, 5, 6 and 7 for a great
+        subduction earthquake.
+      </p>
+    </>
+  ),
+  sources: (
+    <>
+      <strong>Additional Source Events</strong>
+      <p className="mt-1">
+        Other large events whose own aftershocks add to the mainshock&rsquo;s:
+        the second event of a doublet, a large aftershock, or a foreshock. Each
+        source starts its own Omori&ndash;Utsu sequence at its origin time, with
+        productivity set by its magnitude, and the forecast is the sum of all
+        the sequences.
+      </p>
+      <p className="mt-1 text-xs">
+        For example, a forecast after the 2011 Christchurch earthquake can
+        include the continuing sequence of the 2010 Darfield earthquake. Sources
+        must occur before the forecast start time.
+      </p>
+    </>
+  ),
+  magnitudeUncertainty: (
+    <>
+      <strong>Mainshock Magnitude Uncertainty</strong>
+      <p className="mt-1">
+        Early magnitudes are often revised by 0.2&ndash;0.4 units, and because
+        productivity scales as 10<sup>b&middot;M</sup> that can change expected
+        counts by a factor of two or more. Enter a standard deviation about the
+        magnitude above, or candidate magnitudes with relative weights (for
+        example two agencies&rsquo; estimates).
+      </p>
+      <p className="mt-1 text-xs">
+        Ranges and probabilities then average over the magnitudes, and the
+        table shows each value at the low and high ends of the distribution.
+        Reasenberg&ndash;Jones models and ensembles only.
+      </p>
+    </>
+  ),
+  incompleteness: (
+    <>
+      <strong>Short-Term Incompleteness</strong>
+      <p className="mt-1">
+        Just after a large event the network misses many small aftershocks,
+        so a forecast of all aftershocks over-predicts what the catalogue will
+        show. With this option the table also gives the expected number
+        recorded, taking the catalogue as complete above
+        M<sub>c</sub>(t)&nbsp;=&nbsp;M&nbsp;&minus;&nbsp;G&nbsp;&minus;&nbsp;H&nbsp;log<sub>10</sub>t,
+        t in days after the event (Helmstetter et al. 2006).
+      </p>
+      <p className="mt-1 text-xs">
+        G&nbsp;=&nbsp;4.5 and H&nbsp;=&nbsp;0.75 were fitted to Californian
+        sequences. The evaluation then scores the recorded numbers, so early
+        windows are compared like with like.
+      </p>
     </>
   ),
 };
@@ -78,15 +150,32 @@ interface ParametersProps {
   magnitude: string;
   quakeTime: string;
   startTime: string;
-  durations: number[];
-  magnitudeRanges: { m1: number; m2: number; m3: number };
+  /** Forecast windows in days after the forecast start time */
+  windows: ForecastWindow[];
+  /** Ascending magnitude thresholds */
+  magnitudeThresholds: number[];
   onMagnitudeChange: (value: string) => void;
   onQuakeTimeChange: (value: string) => void;
   onStartTimeChange: (value: string) => void;
-  onDurationsChange: (index: number, value: number) => void;
-  onAddDuration: () => void;
-  onRemoveDuration: (index: number) => void;
-  onMagnitudeRangesChange: (key: 'm1' | 'm2' | 'm3', value: number) => void;
+  /** Change a window bound, given in the window's own unit */
+  onWindowChange: (index: number, field: 'start' | 'end', value: number) => void;
+  onWindowUnitChange: (index: number, unit: TimeUnit) => void;
+  onAddWindow: () => void;
+  onRemoveWindow: (index: number) => void;
+  onMagnitudeThresholdChange: (index: number, value: number) => void;
+  onAddMagnitudeThreshold: () => void;
+  onRemoveMagnitudeThreshold: (index: number) => void;
+  /** Uncertainty in the mainshock magnitude, as entered */
+  magnitudeUncertainty: MagnitudeUncertaintyInput;
+  onMagnitudeUncertaintyChange: (value: MagnitudeUncertaintyInput) => void;
+  /** Source events besides the mainshock (may be empty) */
+  sources: SourceEventInput[];
+  onSourceChange: (index: number, field: keyof SourceEventInput, value: string) => void;
+  onAddSource: () => void;
+  onRemoveSource: (index: number) => void;
+  /** Time-dependent completeness for recorded counts; null when not modelled */
+  incompleteness: ShortTermIncompleteness | null;
+  onIncompletenessChange: (value: ShortTermIncompleteness | null) => void;
   disabled?: boolean;
 }
 
@@ -206,21 +295,30 @@ function DateTimeField({
 
 
 
-const MAG_RANGE_LABELS = { m1: 'M1 (highest)', m2: 'M2 (middle)', m3: 'M3 (lowest)' } as const;
-
 export default function Parameters({
   magnitude,
   quakeTime,
   startTime,
-  durations,
-  magnitudeRanges,
+  windows,
+  magnitudeThresholds,
   onMagnitudeChange,
   onQuakeTimeChange,
   onStartTimeChange,
-  onDurationsChange,
-  onAddDuration,
-  onRemoveDuration,
-  onMagnitudeRangesChange,
+  onWindowChange,
+  onWindowUnitChange,
+  onAddWindow,
+  onRemoveWindow,
+  onMagnitudeThresholdChange,
+  onAddMagnitudeThreshold,
+  onRemoveMagnitudeThreshold,
+  magnitudeUncertainty,
+  onMagnitudeUncertaintyChange,
+  sources,
+  onSourceChange,
+  onAddSource,
+  onRemoveSource,
+  incompleteness,
+  onIncompletenessChange,
   disabled = false,
 }: ParametersProps) {
   const baseId = useId();
@@ -238,6 +336,11 @@ export default function Parameters({
     onStartTimeChange(new Date().toISOString());
   }, [onStartTimeChange]);
 
+  const setCandidate = (index: number, field: 'magnitude' | 'weight', value: string) => {
+    const candidates = magnitudeUncertainty.candidates.map((c, i) => (i === index ? { ...c, [field]: value } : c));
+    onMagnitudeUncertaintyChange({ ...magnitudeUncertainty, candidates });
+  };
+
   return (
     <fieldset
       className="mb-6 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 print:hidden"
@@ -340,67 +443,99 @@ export default function Parameters({
         <div>
           <fieldset>
             <legend className="flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Forecast lengths (days)
-              <InfoTooltip content={TOOLTIPS.durations} />
+              Forecast windows
+              <InfoTooltip content={TOOLTIPS.windows} />
             </legend>
             <div className="flex flex-wrap gap-2 items-center">
-              {durations.map((d, i) => (
-                <div key={i} className="flex items-center gap-1">
-                  <div className="flex flex-col">
-                    <label
-                      htmlFor={`${baseId}-duration-${i}`}
-                      className="sr-only"
-                    >
-                      Forecast duration {i + 1}
+              {windows.map((w, i) => {
+                const unit = w.unit ?? 'days';
+                const maxValue = daysToUnit(MAX_FORECAST_DAYS, unit);
+                return (
+                  <div key={i} className="flex items-center gap-1">
+                    <label htmlFor={`${baseId}-window-start-${i}`} className="sr-only">
+                      Forecast window {i + 1} start
                     </label>
                     <input
-                      id={`${baseId}-duration-${i}`}
+                      id={`${baseId}-window-start-${i}`}
                       type="number"
-                      min="1"
-                      max="730"
-                      value={d}
-                      onChange={(e) => onDurationsChange(i, parseInt(e.target.value) || 1)}
-                      className="w-20 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                      min="0"
+                      max={maxValue}
+                      step="any"
+                      value={daysToUnit(w.start, unit)}
+                      onChange={(e) => onWindowChange(i, 'start', parseFloat(e.target.value) || 0)}
+                      className="w-16 px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-md
                                  focus:outline-none focus:ring-2 focus:ring-blue-500
                                  dark:bg-gray-800 dark:text-gray-100"
-                      aria-label={`Forecast duration ${i + 1} in days`}
+                      aria-label={`Forecast window ${i + 1} start, ${unit} after the forecast start`}
                     />
-                  </div>
-                  {durations.length > 1 && (
-                    <button
-                      type="button"
-                      onClick={() => onRemoveDuration(i)}
-                      className="mt-0.5 w-6 h-6 flex items-center justify-center rounded-full
-                                 text-gray-400 hover:text-red-500 hover:bg-red-50
-                                 dark:hover:text-red-400 dark:hover:bg-red-900/20
-                                 transition-colors focus:outline-none focus:ring-2 focus:ring-red-400"
-                      aria-label={`Remove duration ${d} days`}
-                      title="Remove this duration"
+                    <span className="text-gray-500 dark:text-gray-400" aria-hidden="true">&ndash;</span>
+                    <label htmlFor={`${baseId}-window-end-${i}`} className="sr-only">
+                      Forecast window {i + 1} end
+                    </label>
+                    <input
+                      id={`${baseId}-window-end-${i}`}
+                      type="number"
+                      min="0"
+                      max={maxValue}
+                      step="any"
+                      value={daysToUnit(w.end, unit)}
+                      onChange={(e) => onWindowChange(i, 'end', parseFloat(e.target.value) || 0)}
+                      className="w-16 px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                                 focus:outline-none focus:ring-2 focus:ring-blue-500
+                                 dark:bg-gray-800 dark:text-gray-100"
+                      aria-label={`Forecast window ${i + 1} end, ${unit} after the forecast start`}
+                    />
+                    <label htmlFor={`${baseId}-window-unit-${i}`} className="sr-only">
+                      Forecast window {i + 1} unit
+                    </label>
+                    <select
+                      id={`${baseId}-window-unit-${i}`}
+                      value={unit}
+                      onChange={(e) => onWindowUnitChange(i, e.target.value as TimeUnit)}
+                      className="px-1 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm
+                                 focus:outline-none focus:ring-2 focus:ring-blue-500
+                                 dark:bg-gray-800 dark:text-gray-100"
                     >
-                      ×
-                    </button>
-                  )}
-                </div>
-              ))}
-              {durations.length < 8 && (
+                      {(Object.keys(TIME_UNIT_DAYS) as TimeUnit[]).map(u => (
+                        <option key={u} value={u}>{u}</option>
+                      ))}
+                    </select>
+                    {windows.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => onRemoveWindow(i)}
+                        className="mt-0.5 w-6 h-6 flex items-center justify-center rounded-full
+                                   text-gray-400 hover:text-red-500 hover:bg-red-50
+                                   dark:hover:text-red-400 dark:hover:bg-red-900/20
+                                   transition-colors focus:outline-none focus:ring-2 focus:ring-red-400"
+                        aria-label={`Remove window ${forecastWindowLabel(w)}`}
+                        title="Remove this window"
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+              {windows.length < MAX_FORECAST_WINDOWS && (
                 <button
                   type="button"
-                  onClick={onAddDuration}
+                  onClick={onAddWindow}
                   className="w-8 h-8 flex items-center justify-center rounded-full border-2 border-dashed
                              border-gray-300 dark:border-gray-600
                              text-gray-400 dark:text-gray-500
                              hover:border-blue-400 hover:text-blue-500
                              dark:hover:border-blue-500 dark:hover:text-blue-400
                              transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  aria-label="Add forecast duration"
-                  title="Add another forecast duration"
+                  aria-label="Add forecast window"
+                  title="Add another forecast window"
                 >
                   +
                 </button>
               )}
             </div>
             <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-              1–730 days each · up to 8 periods
+              Start–end after the forecast start, minutes to 10 years · up to {MAX_FORECAST_WINDOWS} windows
             </p>
           </fieldset>
         </div>
@@ -409,36 +544,300 @@ export default function Parameters({
       <fieldset>
         <legend className="flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
           Magnitude Thresholds
-          <InfoTooltip content={TOOLTIPS.magnitudeRanges} />
+          <InfoTooltip content={TOOLTIPS.magnitudeThresholds} />
         </legend>
         <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
-          M1 is the highest threshold and M3 the lowest (e.g. M1=5, M2=4, M3=3)
+          Lowest first; each bin runs up to the next threshold and the last is open-ended (e.g. 3, 4, 5 gives M3&ndash;M4, M4&ndash;M5, M5+)
         </p>
-        <div className="flex gap-2 flex-wrap">
-          {(['m1', 'm2', 'm3'] as const).map((key) => (
-            <div key={key} className="flex flex-col">
-              <label
-                htmlFor={`${baseId}-${key}`}
-                className="text-xs text-gray-600 dark:text-gray-400 mb-1"
-              >
-                {key.toUpperCase()}
+        <div className="flex flex-wrap gap-2 items-center">
+          {magnitudeThresholds.map((m, i) => (
+            <div key={i} className="flex items-center gap-1">
+              <label htmlFor={`${baseId}-threshold-${i}`} className="sr-only">
+                Magnitude threshold {i + 1}
               </label>
               <input
-                id={`${baseId}-${key}`}
+                id={`${baseId}-threshold-${i}`}
                 type="number"
                 min="1"
                 max="9"
                 step="1"
-                value={magnitudeRanges[key]}
-                onChange={(e) => onMagnitudeRangesChange(key, parseInt(e.target.value) || 1)}
+                value={m}
+                onChange={(e) => onMagnitudeThresholdChange(i, parseInt(e.target.value) || 1)}
+                className="w-20 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                           focus:outline-none focus:ring-2 focus:ring-blue-500
+                           dark:bg-gray-800 dark:text-gray-100"
+                aria-label={`Magnitude threshold ${i + 1}`}
+              />
+              {magnitudeThresholds.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => onRemoveMagnitudeThreshold(i)}
+                  className="mt-0.5 w-6 h-6 flex items-center justify-center rounded-full
+                             text-gray-400 hover:text-red-500 hover:bg-red-50
+                             dark:hover:text-red-400 dark:hover:bg-red-900/20
+                             transition-colors focus:outline-none focus:ring-2 focus:ring-red-400"
+                  aria-label={`Remove magnitude threshold M${m}`}
+                  title="Remove this threshold"
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+          {magnitudeThresholds.length < MAX_MAGNITUDE_THRESHOLDS && (
+            <button
+              type="button"
+              onClick={onAddMagnitudeThreshold}
+              className="w-8 h-8 flex items-center justify-center rounded-full border-2 border-dashed
+                         border-gray-300 dark:border-gray-600
+                         text-gray-400 dark:text-gray-500
+                         hover:border-blue-400 hover:text-blue-500
+                         dark:hover:border-blue-500 dark:hover:text-blue-400
+                         transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Add magnitude threshold"
+              title="Add another magnitude threshold"
+            >
+              +
+            </button>
+          )}
+        </div>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          M1–M9, increasing · up to {MAX_MAGNITUDE_THRESHOLDS} thresholds
+        </p>
+      </fieldset>
+
+      <fieldset className="mt-4">
+        <legend className="flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Magnitude uncertainty
+          <InfoTooltip content={TOOLTIPS.magnitudeUncertainty} />
+        </legend>
+        <div className="flex flex-wrap items-center gap-2">
+          <label htmlFor={`${baseId}-mag-uncertainty`} className="sr-only">
+            Magnitude uncertainty
+          </label>
+          <select
+            id={`${baseId}-mag-uncertainty`}
+            value={magnitudeUncertainty.mode}
+            onChange={(e) => onMagnitudeUncertaintyChange({ ...magnitudeUncertainty, mode: e.target.value as MagnitudeUncertaintyMode })}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                       focus:outline-none focus:ring-2 focus:ring-blue-500
+                       dark:bg-gray-800 dark:text-gray-100"
+          >
+            <option value="none">None (magnitude is exact)</option>
+            <option value="sd">&plusmn; standard deviation</option>
+            <option value="candidates">Candidate magnitudes</option>
+          </select>
+          {magnitudeUncertainty.mode === 'sd' && (
+            <>
+              <label htmlFor={`${baseId}-mag-sd`} className="text-sm text-gray-700 dark:text-gray-300">
+                &sigma;
+              </label>
+              <input
+                id={`${baseId}-mag-sd`}
+                type="number"
+                step="0.05"
+                min="0"
+                max="1"
+                value={magnitudeUncertainty.sd}
+                onChange={(e) => onMagnitudeUncertaintyChange({ ...magnitudeUncertainty, sd: e.target.value })}
+                className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                           focus:outline-none focus:ring-2 focus:ring-blue-500
+                           dark:bg-gray-800 dark:text-gray-100"
+              />
+            </>
+          )}
+        </div>
+        {magnitudeUncertainty.mode === 'candidates' && (
+          <div className="mt-2 space-y-2">
+            {magnitudeUncertainty.candidates.map((c, i) => (
+              <div key={i} className="flex flex-wrap items-center gap-2">
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="10"
+                  placeholder="M"
+                  value={c.magnitude}
+                  onChange={(e) => setCandidate(i, 'magnitude', e.target.value)}
+                  className="w-20 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                             focus:outline-none focus:ring-2 focus:ring-blue-500
+                             dark:bg-gray-800 dark:text-gray-100"
+                  aria-label={`Candidate magnitude ${i + 1}`}
+                />
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  placeholder="weight"
+                  value={c.weight}
+                  onChange={(e) => setCandidate(i, 'weight', e.target.value)}
+                  className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                             focus:outline-none focus:ring-2 focus:ring-blue-500
+                             dark:bg-gray-800 dark:text-gray-100"
+                  aria-label={`Candidate magnitude ${i + 1} weight`}
+                />
+                {magnitudeUncertainty.candidates.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => onMagnitudeUncertaintyChange({
+                      ...magnitudeUncertainty,
+                      candidates: magnitudeUncertainty.candidates.filter((_, j) => j !== i),
+                    })}
+                    className="mt-0.5 w-6 h-6 flex items-center justify-center rounded-full
+                               text-gray-400 hover:text-red-500 hover:bg-red-50
+                               dark:hover:text-red-400 dark:hover:bg-red-900/20
+                               transition-colors focus:outline-none focus:ring-2 focus:ring-red-400"
+                    aria-label={`Remove candidate magnitude ${i + 1}`}
+                    title="Remove this candidate"
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+            ))}
+            {magnitudeUncertainty.candidates.length < MAX_MAGNITUDE_CANDIDATES && (
+              <button
+                type="button"
+                onClick={() => onMagnitudeUncertaintyChange({
+                  ...magnitudeUncertainty,
+                  candidates: [...magnitudeUncertainty.candidates, { magnitude: '', weight: '1' }],
+                })}
+                className="px-3 py-1.5 text-sm rounded-md border-2 border-dashed
+                           border-gray-300 dark:border-gray-600
+                           text-gray-500 dark:text-gray-400
+                           hover:border-blue-400 hover:text-blue-500
+                           dark:hover:border-blue-500 dark:hover:text-blue-400
+                           transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                + Add candidate
+              </button>
+            )}
+          </div>
+        )}
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          {magnitudeUncertainty.mode === 'candidates'
+            ? `Magnitudes with relative weights · up to ${MAX_MAGNITUDE_CANDIDATES} candidates`
+            : 'Optional: spreads ranges and probabilities over likely revisions of the magnitude'}
+        </p>
+      </fieldset>
+
+      <fieldset className="mt-4">
+        <legend className="flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Short-term incompleteness
+          <InfoTooltip content={TOOLTIPS.incompleteness} />
+        </legend>
+        <div className="flex flex-wrap items-center gap-2">
+          <label htmlFor={`${baseId}-incompleteness`} className="sr-only">
+            Short-term incompleteness
+          </label>
+          <select
+            id={`${baseId}-incompleteness`}
+            value={incompleteness ? 'helmstetter' : 'none'}
+            onChange={(e) => onIncompletenessChange(e.target.value === 'none' ? null : incompleteness ?? DEFAULT_INCOMPLETENESS)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                       focus:outline-none focus:ring-2 focus:ring-blue-500
+                       dark:bg-gray-800 dark:text-gray-100"
+          >
+            <option value="none">None (true counts only)</option>
+            <option value="helmstetter">Mc(t) = M &minus; G &minus; H log10(t)</option>
+          </select>
+          {incompleteness && (['G', 'H'] as const).map(key => (
+            <Fragment key={key}>
+              <label htmlFor={`${baseId}-incompleteness-${key}`} className="text-sm text-gray-700 dark:text-gray-300">
+                {key}
+              </label>
+              <input
+                id={`${baseId}-incompleteness-${key}`}
+                type="number"
+                step="0.05"
+                value={incompleteness[key]}
+                onChange={(e) => {
+                  const numValue = parseFloat(e.target.value);
+                  onIncompletenessChange({ ...incompleteness, [key]: isNaN(numValue) ? 0 : numValue });
+                }}
+                className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                           focus:outline-none focus:ring-2 focus:ring-blue-500
+                           dark:bg-gray-800 dark:text-gray-100"
+              />
+            </Fragment>
+          ))}
+        </div>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Optional: adds the expected numbers the network records while small aftershocks are being missed
+        </p>
+      </fieldset>
+
+      <fieldset className="mt-4">
+        <legend className="flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Additional source events
+          <InfoTooltip content={TOOLTIPS.sources} />
+        </legend>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+          Optional: doublets, large aftershocks or foreshocks whose aftershocks add to the mainshock&rsquo;s
+        </p>
+        <div className="space-y-2">
+          {sources.map((s, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-2">
+              <label htmlFor={`${baseId}-source-mag-${i}`} className="sr-only">
+                Source event {i + 1} magnitude
+              </label>
+              <input
+                id={`${baseId}-source-mag-${i}`}
+                type="number"
+                step="0.1"
+                min="0"
+                max="10"
+                placeholder="M"
+                value={s.magnitude}
+                onChange={(e) => onSourceChange(i, 'magnitude', e.target.value)}
                 className="w-20 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
                            focus:outline-none focus:ring-2 focus:ring-blue-500
                            dark:bg-gray-800 dark:text-gray-100"
-                aria-label={MAG_RANGE_LABELS[key]}
+                aria-label={`Source event ${i + 1} magnitude`}
               />
+              <div className="w-56">
+                <label htmlFor={`${baseId}-source-time-${i}`} className="sr-only">
+                  Source event {i + 1} origin time
+                </label>
+                <DateTimeField
+                  id={`${baseId}-source-time-${i}`}
+                  isoValue={s.time}
+                  onChangeISO={(iso) => onSourceChange(i, 'time', iso)}
+                  className={inputClass}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => onRemoveSource(i)}
+                className="mt-0.5 w-6 h-6 flex items-center justify-center rounded-full
+                           text-gray-400 hover:text-red-500 hover:bg-red-50
+                           dark:hover:text-red-400 dark:hover:bg-red-900/20
+                           transition-colors focus:outline-none focus:ring-2 focus:ring-red-400"
+                aria-label={`Remove source event ${i + 1}`}
+                title="Remove this source event"
+              >
+                ×
+              </button>
             </div>
           ))}
+          {sources.length < MAX_SOURCE_EVENTS && (
+            <button
+              type="button"
+              onClick={onAddSource}
+              className="px-3 py-1.5 text-sm rounded-md border-2 border-dashed
+                         border-gray-300 dark:border-gray-600
+                         text-gray-500 dark:text-gray-400
+                         hover:border-blue-400 hover:text-blue-500
+                         dark:hover:border-blue-500 dark:hover:text-blue-400
+                         transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              + Add source event
+            </button>
+          )}
         </div>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Magnitude and origin time (local time, dd/mm/yyyy hh:mm), before the forecast start · up to {MAX_SOURCE_EVENTS} events
+        </p>
       </fieldset>
     </fieldset>
   );
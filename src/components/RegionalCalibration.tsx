@@ -0,0 +1,326 @@
+'use client';
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+import type { ModelParameters, PresetModelType, SavedPreset, SequenceSelectionInput } from '@/types';
+import { MODEL_INFO, MODEL_PRESETS } from '@/types';
+import { formatNZDateTime } from '@/lib/datetime';
+import { regionBbox } from '@/lib/evaluation';
+import { fetchObservedCatalog, ApiError } from '@/lib/api';
+import {
+  DEFAULT_SEQUENCE_SELECTION,
+  batchRegion,
+  findSequences,
+  runSequences,
+  validateSequenceSelection,
+  type SequenceOutcome,
+  type SequenceProgress,
+} from '@/lib/batch';
+import { fitGenericParameters, pooledSequence, roundedGenericParams, type PooledSequence } from '@/lib/regional';
+import SequenceSelector from './SequenceSelector';
+
+interface RegionalCalibrationProps {
+  /** Save the fitted parameters under a name */
+  onSavePreset?: (preset: SavedPreset) => void;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+const LABEL_CLASS = 'block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1';
+
+const MS_PER_DAY = 86_400_000;
+
+/** The presets the fit is set beside, for the audit */
+const AUDIT_PRESETS: PresetModelType[] = ['nz', 'sz'];
+const PARAMETERS = ['a', 'b', 'c', 'p'] as const;
+
+/** Value ± standard error, or the value alone when the error is undefined */
+const withSe = (value: number, se: number, digits: number) =>
+  Number.isFinite(se) ? `${value.toFixed(digits)} ± ${se.toFixed(digits)}` : value.toFixed(digits);
+
+export default function RegionalCalibration({ onSavePreset }: RegionalCalibrationProps) {
+  const [selection, setSelection] = useState<SequenceSelectionInput>({ ...DEFAULT_SEQUENCE_SELECTION, mode: 'query' });
+  const [mcInput, setMcInput] = useState('3');
+  const [tStartInput, setTStartInput] = useState('0.5');
+  const [tEndInput, setTEndInput] = useState('100');
+  const [multiplier, setMultiplier] = useState(1);
+  const [presetName, setPresetName] = useState('');
+  const [savedAs, setSavedAs] = useState<string | null>(null);
+
+  const [errors, setErrors] = useState<string[]>([]);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<SequenceProgress | null>(null);
+  const [outcomes, setOutcomes] = useState<SequenceOutcome<PooledSequence>[]>([]);
+  // The completeness magnitude and window the outcomes were collected with
+  const [ranWith, setRanWith] = useState<{ mc: number; tStart: number; tEnd: number } | null>(null);
+  const cancelled = useRef(false);
+
+  const runCalibration = useCallback(async () => {
+    const mc = parseFloat(mcInput);
+    const tStart = parseFloat(tStartInput);
+    const tEnd = parseFloat(tEndInput);
+    const list = validateSequenceSelection(selection);
+    if (!Number.isFinite(mc) || mc < 0 || mc >= 10) {
+      list.push('Please enter a completeness magnitude between 0 and 10');
+    }
+    if (!Number.isFinite(tStart) || !Number.isFinite(tEnd) || tStart < 0 || tEnd <= tStart) {
+      list.push('Please enter a fitting window that starts at or after the mainshock and has positive length');
+    }
+    setErrors(list);
+    if (list.length > 0) return;
+
+    cancelled.current = false;
+    setRunning(true);
+    setOutcomes([]);
+    setSavedAs(null);
+    setRanWith({ mc, tStart, tEnd });
+    const nowMs = Date.now();
+    try {
+      if (selection.mode === 'query') {
+        setProgress({ done: 0, total: 0, current: 'Searching for mainshocks' });
+      }
+      const jobs = await findSequences(selection, multiplier, tEnd);
+
+      await runSequences<PooledSequence>(jobs, async mainshock => {
+        // A sequence still running ends its window now
+        const end = Math.min(tEnd, (nowMs - mainshock.timeMs) / MS_PER_DAY);
+        if (end <= tStart) return { note: 'The fitting window has not started yet' };
+        const catalog = await fetchObservedCatalog(
+          regionBbox(batchRegion(mainshock, multiplier)),
+          new Date(mainshock.timeMs + tStart * MS_PER_DAY),
+          new Date(mainshock.timeMs + end * MS_PER_DAY),
+          mc
+        );
+        return { result: pooledSequence(mainshock, catalog, mc, tStart, end, multiplier) };
+      }, {
+        onProgress: setProgress,
+        onOutcome: outcome => setOutcomes(prev => [...prev, outcome]),
+        isCancelled: () => cancelled.current,
+      }, 'Failed to load this sequence');
+    } catch (err) {
+      setErrors([err instanceof ApiError ? err.message : 'Failed to search the catalogue for mainshocks']);
+    } finally {
+      setRunning(false);
+      setProgress(null);
+    }
+  }, [selection, mcInput, tStartInput, tEndInput, multiplier]);
+
+  // The pooled fit, once every sequence has loaded
+  const fit = useMemo(() => {
+    const sequences = outcomes.map(o => o.result).filter((s): s is PooledSequence => s !== null);
+    if (running || !ranWith || sequences.length === 0) return null;
+    try {
+      return { value: fitGenericParameters(sequences, ranWith.mc, ranWith.tStart), error: null };
+    } catch (err) {
+      return { value: null, error: err instanceof Error ? err.message : 'The fit failed' };
+    }
+  }, [outcomes, running, ranWith]);
+
+  const handleSave = () => {
+    if (!fit?.value || !ranWith || !onSavePreset) return;
+    const name = presetName.trim();
+    if (name === '') {
+      setErrors(['Please enter a name for the preset']);
+      return;
+    }
+    const { value } = fit;
+    const params: ModelParameters = roundedGenericParams(value);
+    const se = PARAMETERS.map(k => `${k} ± ${Number.isFinite(value.se[k]) ? value.se[k].toPrecision(2) : '–'}`).join(', ');
+    onSavePreset({
+      name,
+      params,
+      description: `Pooled from ${value.sequenceCount} sequences, ${value.eventCount} M≥${value.mc} events, ` +
+        `${ranWith.tStart}–${ranWith.tEnd} days (${se})`,
+      savedAt: new Date().toISOString(),
+    });
+    setErrors([]);
+    setSavedAs(name);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-5 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm print:hidden">
+      <h3 className="text-sm font-bold text-gray-700 dark:text-gray-300 uppercase tracking-wider mb-1">
+        Regional Calibration
+      </h3>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        Re-derives generic Reasenberg&ndash;Jones parameters from several past sequences: a, b, c and p are
+        estimated jointly by maximum likelihood from every aftershock above the completeness magnitude, and can
+        be saved as a named preset for the Custom model.
+      </p>
+
+      <SequenceSelector value={selection} onChange={setSelection} />
+
+      <div className="mt-3 grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+        <div>
+          <label htmlFor="calibration-mc" className={LABEL_CLASS}>Completeness magnitude</label>
+          <input id="calibration-mc" type="number" step="0.1" value={mcInput} onChange={(e) => setMcInput(e.target.value)} className={INPUT_CLASS} />
+        </div>
+        <div>
+          <label htmlFor="calibration-start" className={LABEL_CLASS}>From (days after)</label>
+          <input id="calibration-start" type="number" step="0.1" min="0" value={tStartInput} onChange={(e) => setTStartInput(e.target.value)} className={INPUT_CLASS} />
+        </div>
+        <div>
+          <label htmlFor="calibration-end" className={LABEL_CLASS}>To (days after)</label>
+          <input id="calibration-end" type="number" step="1" min="0" value={tEndInput} onChange={(e) => setTEndInput(e.target.value)} className={INPUT_CLASS} />
+        </div>
+        <div>
+          <label htmlFor="calibration-multiplier" className={LABEL_CLASS}>
+            Radius = <em>k</em> × rupture length
+          </label>
+          <select id="calibration-multiplier" value={multiplier} onChange={(e) => setMultiplier(parseFloat(e.target.value))} className={INPUT_CLASS}>
+            <option value={0.5}>k = 0.5</option>
+            <option value={1}>k = 1 (default)</option>
+            <option value={2}>k = 2</option>
+            <option value={3}>k = 3</option>
+          </select>
+        </div>
+        <div>
+          {running ? (
+            <button
+              onClick={() => { cancelled.current = true; }}
+              className="px-4 py-2 bg-gray-600 text-white text-sm font-semibold rounded-md hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={runCalibration}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+            >
+              Fit Parameters
+            </button>
+          )}
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-3 text-sm text-red-600 dark:text-red-400 list-disc list-inside" role="alert">
+          {errors.map((e, i) => <li key={i}>{e}</li>)}
+        </ul>
+      )}
+
+      {progress && (
+        <div className="mt-3" role="status" aria-live="polite">
+          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+            <span>{progress.total > 0 ? `Sequence ${progress.done + 1} of ${progress.total}: ${progress.current}` : progress.current}…</span>
+            {progress.total > 0 && <span>{Math.round((progress.done / progress.total) * 100)}%</span>}
+          </div>
+          <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-all"
+              style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {fit?.error && (
+        <p className="mt-3 text-sm text-amber-700 dark:text-amber-400" role="alert">{fit.error}</p>
+      )}
+
+      {fit?.value && (
+        <div className="mt-4 grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm border-collapse">
+              <thead>
+                <tr className="bg-gray-50 dark:bg-gray-900 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                  <th scope="col" className="px-3 py-2 text-left">Parameter</th>
+                  <th scope="col" className="px-3 py-2 text-center">Fitted ± SE</th>
+                  {AUDIT_PRESETS.map(id => (
+                    <th key={id} scope="col" className="px-3 py-2 text-center normal-case">{MODEL_INFO[id].name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {PARAMETERS.map(k => (
+                  <tr key={k} className="text-gray-700 dark:text-gray-300">
+                    <th scope="row" className="px-3 py-2 text-left font-medium">{k}</th>
+                    <td className="px-3 py-2 text-center font-mono">
+                      {k === 'c'
+                        ? (Number.isFinite(fit.value.se.c)
+                          ? `${fit.value.params.c.toPrecision(3)} ± ${fit.value.se.c.toPrecision(2)}`
+                          : fit.value.params.c.toPrecision(3))
+                        : withSe(fit.value.params[k], fit.value.se[k], 3)}
+                    </td>
+                    {AUDIT_PRESETS.map(id => (
+                      <td key={id} className="px-3 py-2 text-center font-mono">{MODEL_PRESETS[id][k]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              {fit.value.eventCount} events with M ≥ {fit.value.mc} from {fit.value.sequenceCount} sequences,{' '}
+              {fit.value.tStart}–{ranWith?.tEnd} days after each mainshock; log-likelihood {fit.value.logLikelihood.toFixed(1)}.
+              Standard errors are from the observed information; &ldquo;–&rdquo; where not defined.
+            </p>
+          </div>
+          {onSavePreset && (
+            <div>
+              <label htmlFor="calibration-name" className={LABEL_CLASS}>Save as a named preset</label>
+              <div className="flex gap-2">
+                <input
+                  id="calibration-name"
+                  type="text"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  placeholder="e.g. NZ 2010–2023 M5.5+"
+                  className={INPUT_CLASS}
+                />
+                <button
+                  onClick={handleSave}
+                  className="px-4 py-2 bg-green-600 text-white text-sm rounded-md hover:bg-green-700 transition-colors focus:outline-none focus:ring-2 focus:ring-green-400 whitespace-nowrap"
+                >
+                  Save Preset
+                </button>
+              </div>
+              {savedAs && (
+                <p className="mt-2 text-xs text-green-700 dark:text-green-400" role="status">
+                  Saved &ldquo;{savedAs}&rdquo;. Load it into the Custom model from the model parameters.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {outcomes.length > 0 && (
+        <details className="mt-4">
+          <summary className="text-sm font-semibold text-gray-700 dark:text-gray-300 cursor-pointer">
+            Sequences ({outcomes.length})
+          </summary>
+          <div className="overflow-x-auto mt-2">
+            <table className="min-w-full text-sm border-collapse">
+              <thead>
+                <tr className="bg-gray-50 dark:bg-gray-900 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                  <th scope="col" className="px-3 py-2 text-left">Quake</th>
+                  <th scope="col" className="px-3 py-2 text-center">M</th>
+                  <th scope="col" className="px-3 py-2 text-left">Time (NZ)</th>
+                  <th scope="col" className="px-3 py-2 text-center">Events</th>
+                  <th scope="col" className="px-3 py-2 text-center">Window end (days)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {outcomes.map(o => (
+                  <tr key={o.quakeId} className="text-gray-700 dark:text-gray-300">
+                    <th scope="row" className="px-3 py-2 text-left font-mono font-medium">{o.quakeId}</th>
+                    <td className="px-3 py-2 text-center font-mono">{o.mainshock?.magnitude.toFixed(1) ?? '–'}</td>
+                    <td className="px-3 py-2 text-left whitespace-nowrap">
+                      {o.mainshock ? formatNZDateTime(new Date(o.mainshock.timeMs).toISOString()) : '–'}
+                    </td>
+                    {o.result ? (
+                      <>
+                        <td className="px-3 py-2 text-center font-mono">{o.result.times.length}</td>
+                        <td className="px-3 py-2 text-center font-mono">{Number(o.result.tEnd.toFixed(1))}</td>
+                      </>
+                    ) : (
+                      <td colSpan={2} className="px-3 py-2 text-left text-amber-700 dark:text-amber-400">{o.note}</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import React, { useId, useMemo, useState } from 'react';
+import ReactEChartsCore from 'echarts-for-react/lib/core';
+import * as echarts from 'echarts/core';
+import { BarChart, LineChart } from 'echarts/charts';
+import { GridComponent, LegendComponent, TitleComponent, TooltipComponent } from 'echarts/components';
+import { CanvasRenderer } from 'echarts/renderers';
+import type { EChartsCoreOption } from 'echarts/core';
+import { brierDecomposition, calibrationBins, type BinEvaluation } from '@/lib/evaluation';
+
+echarts.use([BarChart, LineChart, GridComponent, LegendComponent, TitleComponent, TooltipComponent, CanvasRenderer]);
+
+const AXIS_LABEL_COLOR = '#6b7280';
+const GRID_LINE_COLOR = '#9ca3af40';
+const MODEL_COLOR = '#6b7280';
+const OBSERVED_COLOR = '#2563eb';
+const COUNT_COLOR = '#9ca3af80';
+
+/** Number of equal-width forecast-probability bins on offer */
+const BIN_COUNTS = [5, 10] as const;
+
+interface ReliabilityDiagramProps {
+  /** Scored forecasts of one sequence or many */
+  evaluations: BinEvaluation[];
+  /** What the forecasts are, for the heading */
+  description: string;
+  /** Print dimensions for the chart */
+  printMode?: boolean;
+}
+
+const formatShare = (x: number) => `${(x * 100).toFixed(0)}%`;
+
+/** Edges 0, 1/n, …, 1 */
+const uniformEdges = (n: number) => Array.from({ length: n + 1 }, (_, i) => i / n);
+
+/**
+ * Reliability diagram of the forecast chance of one or more events against
+ * how often an event occurred, with the forecasts per bin and the Brier
+ * score decomposition
+ */
+export default function ReliabilityDiagram({ evaluations, description, printMode = false }: ReliabilityDiagramProps) {
+  const baseId = useId();
+  const [binCount, setBinCount] = useState<number>(BIN_COUNTS[0]);
+  const edges = useMemo(() => uniformEdges(binCount), [binCount]);
+  const bins = useMemo(() => calibrationBins(evaluations, edges), [evaluations, edges]);
+  const decomposition = useMemo(
+    () => (evaluations.length > 0 ? brierDecomposition(evaluations, edges) : null),
+    [evaluations, edges]
+  );
+
+  const chartOptions = useMemo((): EChartsCoreOption | null => {
+    if (!decomposition) return null;
+    const filled = bins.filter(b => b.count > 0);
+    return {
+      backgroundColor: 'transparent',
+      title: {
+        text: 'Reliability Diagram',
+        subtext: 'Marker size grows with the number of forecasts in the bin',
+        textStyle: { fontSize: 15, fontWeight: 'bold', color: AXIS_LABEL_COLOR },
+        subtextStyle: { color: AXIS_LABEL_COLOR },
+        left: 'center',
+      },
+      grid: { top: 80, bottom: 70, left: 65, right: 60 },
+      legend: { bottom: 0, textStyle: { color: AXIS_LABEL_COLOR } },
+      xAxis: {
+        type: 'value',
+        min: 0,
+        max: 1,
+        name: 'Forecast P(≥1 event)',
+        nameLocation: 'middle',
+        nameGap: 30,
+        nameTextStyle: { color: AXIS_LABEL_COLOR },
+        axisLabel: { color: AXIS_LABEL_COLOR, formatter: (v: number) => formatShare(v) },
+        splitLine: { lineStyle: { color: GRID_LINE_COLOR } },
+      },
+      yAxis: [
+        {
+          type: 'value',
+          min: 0,
+          max: 1,
+          name: 'Observed frequency',
+          nameLocation: 'middle',
+          nameGap: 45,
+          nameTextStyle: { color: AXIS_LABEL_COLOR },
+          axisLabel: { color: AXIS_LABEL_COLOR, formatter: (v: number) => formatShare(v) },
+          splitLine: { lineStyle: { color: GRID_LINE_COLOR } },
+        },
+        {
+          type: 'value',
+          min: 0,
+          name: 'Forecasts',
+          nameLocation: 'middle',
+          nameGap: 40,
+          nameTextStyle: { color: AXIS_LABEL_COLOR },
+          axisLabel: { color: AXIS_LABEL_COLOR },
+          splitLine: { show: false },
+        },
+      ],
+      tooltip: {
+        trigger: 'item',
+        formatter: (p: { seriesName: string; dataIndex: number }) => {
+          if (p.seriesName === 'Observed frequency') {
+            const bin = filled[p.dataIndex];
+            return `Forecast ${formatShare(bin.lower)}–${formatShare(bin.upper)}<br/>` +
+              `Mean forecast: <b>${formatShare(bin.meanProbability!)}</b><br/>` +
+              `Observed frequency: <b>${formatShare(bin.observedFrequency!)}</b><br/>` +
+              `Forecasts: <b>${bin.count}</b>`;
+          }
+          if (p.seriesName === 'Forecasts') {
+            const bin = bins[p.dataIndex];
+            return `Forecast ${formatShare(bin.lower)}–${formatShare(bin.upper)}: <b>${bin.count}</b> forecasts`;
+          }
+          return p.seriesName;
+        },
+      },
+      series: [
+        {
+          name: 'Forecasts',
+          type: 'bar',
+          yAxisIndex: 1,
+          data: bins.map(b => [(b.lower + b.upper) / 2, b.count]),
+          barWidth: `${Math.floor(80 / binCount)}%`,
+          itemStyle: { color: COUNT_COLOR },
+          z: 1,
+        },
+        {
+          name: 'Perfect reliability',
+          type: 'line',
+          data: [[0, 0], [1, 1]],
+          symbol: 'none',
+          lineStyle: { color: MODEL_COLOR, type: 'dashed' },
+          itemStyle: { color: MODEL_COLOR },
+        },
+        {
+          name: 'Base rate',
+          type: 'line',
+          data: [[0, decomposition.baseRate], [1, decomposition.baseRate]],
+          symbol: 'none',
+          lineStyle: { color: MODEL_COLOR, type: 'dotted' },
+          itemStyle: { color: MODEL_COLOR },
+        },
+        {
+          name: 'Observed frequency',
+          type: 'line',
+          data: filled.map(b => [b.meanProbability, b.observedFrequency]),
+          symbolSize: (_: unknown, p: { dataIndex: number }) => 6 + 10 * Math.sqrt(filled[p.dataIndex].count / decomposition.count),
+          lineStyle: { color: OBSERVED_COLOR },
+          itemStyle: { color: OBSERVED_COLOR },
+          z: 3,
+        },
+      ],
+    };
+  }, [bins, decomposition, binCount]);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {evaluations.length} {description}, grouped by their forecast chance of one or more events.
+        </p>
+        <div className="print:hidden">
+          <label htmlFor={`${baseId}-bins`} className="mr-2 text-xs font-semibold text-gray-500 dark:text-gray-400">
+            Probability bins
+          </label>
+          <select
+            id={`${baseId}-bins`}
+            value={binCount}
+            onChange={(e) => setBinCount(parseInt(e.target.value))}
+            className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {BIN_COUNTS.map(n => <option key={n} value={n}>{n} × {formatShare(1 / n)}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {decomposition === null ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No scored forecasts yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          {chartOptions && (
+            <ReactEChartsCore echarts={echarts} option={chartOptions} notMerge style={printMode ? { height: 280, width: 430 } : { height: 340, width: '100%' }} />
+          )}
+          <div className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm border-collapse print-eval-table">
+                <thead>
+                  <tr className="bg-gray-50 dark:bg-gray-900 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                    <th scope="col" className="px-3 py-2 text-left">Forecast P(≥1)</th>
+                    <th scope="col" className="px-3 py-2 text-center">Forecasts</th>
+                    <th scope="col" className="px-3 py-2 text-center">Mean forecast</th>
+                    <th scope="col" className="px-3 py-2 text-center">Observed frequency</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {bins.map(bin => (
+                    <tr key={bin.lower} className="text-gray-700 dark:text-gray-300">
+                      <th scope="row" className="px-3 py-2 text-left font-medium whitespace-nowrap">
+                        {formatShare(bin.lower)}–{formatShare(bin.upper)}
+                      </th>
+                      <td className="px-3 py-2 text-center font-mono">{bin.count}</td>
+                      <td className="px-3 py-2 text-center font-mono">{bin.meanProbability === null ? '–' : formatShare(bin.meanProbability)}</td>
+                      <td className="px-3 py-2 text-center font-mono">{bin.observedFrequency === null ? '–' : formatShare(bin.observedFrequency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm border-collapse print-eval-table">
+                <thead>
+                  <tr className="bg-gray-50 dark:bg-gray-900 text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                    <th scope="col" className="px-3 py-2 text-center">Reliability</th>
+                    <th scope="col" className="px-3 py-2 text-center">Resolution</th>
+                    <th scope="col" className="px-3 py-2 text-center">Uncertainty</th>
+                    <th scope="col" className="px-3 py-2 text-center">Rel − Res + Unc</th>
+                    <th scope="col" className="px-3 py-2 text-center">Mean Brier</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="text-gray-700 dark:text-gray-300">
+                    <td className="px-3 py-2 text-center font-mono">{decomposition.reliability.toFixed(4)}</td>
+                    <td className="px-3 py-2 text-center font-mono">{decomposition.resolution.toFixed(4)}</td>
+                    <td className="px-3 py-2 text-center font-mono">{decomposition.uncertainty.toFixed(4)}</td>
+                    <td className="px-3 py-2 text-center font-mono">
+                      {(decomposition.reliability - decomposition.resolution + decomposition.uncertainty).toFixed(4)}
+                    </td>
+                    <td className="px-3 py-2 text-center font-mono">{decomposition.brier.toFixed(4)}</td>
+                  </tr>
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Brier score decomposition (Murphy 1973). Reliability is the mean squared gap between the forecast
+                and the observed frequency, lower is better; resolution is how far the bins&rsquo; frequencies
+                spread from the base rate of {formatShare(decomposition.baseRate)}, higher is better; uncertainty
+                is the score of always forecasting the base rate. The sum differs from the mean Brier score by the
+                spread of the forecasts within each bin.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
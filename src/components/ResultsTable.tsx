@@ -2,6 +2,11 @@
 
 import React from 'react';
 import type { CalculationResults, ModelParameters } from '@/types';
+import { MODEL_INFO } from '@/types';
+import { etasBranchingRatio } from '@/lib/etas';
+import { formatEnsembleWeights } from '@/lib/ensemble';
+import { formatTemporalKernel } from '@/lib/kernels';
+import { forecastWindowLabel, formatPercentage, magnitudeSpreadBounds } from '@/lib/calculations';
 import InfoTooltip from './InfoTooltip';
 
 interface ResultsTableProps {
@@ -40,8 +45,9 @@ const RESULTS_TOOLTIPS = {
         example, an expected value of 5 may correspond to a range of 2&ndash;10.
       </p>
       <p className="mt-1 text-xs">
-        This interval reflects counting statistics only; it does not include
-        uncertainty in the model parameters.
+        By default this interval reflects counting statistics only. With
+        &ldquo;Include parameter uncertainty&rdquo; selected it also reflects
+        the spread of the a-value (and p), and is correspondingly wider.
       </p>
     </>
   ),
@@ -55,6 +61,21 @@ const RESULTS_TOOLTIPS = {
       </p>
     </>
   ),
+  largestAftershock: (
+    <>
+      <strong>Largest Aftershock</strong>
+      <p className="mt-1">
+        The magnitude of the largest aftershock in each window is uncertain. It
+        falls below magnitude M exactly when no event reaches M, so its
+        distribution is e<sup>&minus;N(&ge;M)</sup>, with N(&ge;M) following the
+        Gutenberg&ndash;Richter law.
+      </p>
+      <p className="mt-1 text-xs">
+        The chance of an event at least as large as the mainshock is the chance
+        that the mainshock turns out to have been a foreshock.
+      </p>
+    </>
+  ),
 };
 
 function formatDateTime(iso: string): string {
@@ -82,6 +103,8 @@ export default function ResultsTable({
   if (!results) {
     return null;
   }
+  const magnitudes = results.parameterUncertainty?.magnitudes;
+  const magnitudeSpread = magnitudes ? magnitudeSpreadBounds(magnitudes) : null;
 
   return (
     <div className="mt-6" role="region" aria-label="Aftershock forecast results">
@@ -105,38 +128,27 @@ export default function ResultsTable({
                 className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-semibold text-left dark:text-gray-100"
               >
                 <span className="print:hidden">{results.quakeId}</span>
-                <span className="hidden print:inline">Duration</span>
-              </th>
-              <th
-                scope="colgroup"
-                colSpan={3}
-                className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center font-semibold dark:text-gray-100"
-              >
-                {results.rangeLabels.range3}
-              </th>
-              <th
-                scope="colgroup"
-                colSpan={3}
-                className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center font-semibold dark:text-gray-100"
-              >
-                {results.rangeLabels.range2}
-              </th>
-              <th
-                scope="colgroup"
-                colSpan={3}
-                className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center font-semibold dark:text-gray-100"
-              >
-                {results.rangeLabels.range1}
+                <span className="hidden print:inline">Window</span>
               </th>
+              {results.rangeLabels.map((label) => (
+                <th
+                  key={label}
+                  scope="colgroup"
+                  colSpan={3}
+                  className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center font-semibold dark:text-gray-100"
+                >
+                  {label}
+                </th>
+              ))}
             </tr>
             <tr className="bg-gray-50 dark:bg-gray-800">
               <th scope="col" className="border border-gray-300 dark:border-gray-600 px-4 py-2 dark:text-gray-100 print:hidden">
-                Duration
+                Window
               </th>
               <th scope="col" className="hidden print:table-cell border border-gray-300 px-4 py-2">
                 {/* Empty cell for print layout alignment */}
               </th>
-              {[0, 1, 2].map((groupIndex) => (
+              {results.rangeLabels.map((_, groupIndex) => (
                 <React.Fragment key={`header-group-${groupIndex}`}>
                   {COLUMN_HEADERS.map((header, headerIndex) => (
                     <th
@@ -169,52 +181,161 @@ export default function ResultsTable({
           </thead>
           <tbody>
             {results.forecasts.map((forecast) => (
-              <tr key={forecast.duration} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+              <tr key={`${forecast.window.start}-${forecast.window.end}`} className="hover:bg-gray-50 dark:hover:bg-gray-700">
                 <th
                   scope="row"
                   className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-normal text-left dark:text-gray-100 duration-cell"
                 >
-                  within {forecast.duration} {forecast.duration === 1 ? 'day' : 'days'}
+                  {forecast.window.start === 0 ? 'within ' : ''}{forecastWindowLabel(forecast.window)}
+                </th>
+                {/* One group of cells per magnitude bin, lowest first */}
+                {forecast.bins.map((bin, binIndex) => (
+                  <React.Fragment key={binIndex}>
+                    <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center dark:text-gray-200">
+                      {bin.averageNumber}
+                      {bin.magnitudeSpread && (
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">{bin.magnitudeSpread.averageNumber}</span>
+                      )}
+                      {bin.recordedNumber && (
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">{bin.recordedNumber} recorded</span>
+                      )}
+                    </td>
+                    <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center dark:text-gray-200">
+                      {bin.range}
+                    </td>
+                    <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center dark:text-gray-200">
+                      {bin.probability}
+                      {bin.magnitudeSpread && (
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">{bin.magnitudeSpread.probability}</span>
+                      )}
+                    </td>
+                  </React.Fragment>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Footnote */}
+      <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+        {results.parameterUncertainty ? (
+          <>
+            * Range is a 95% interval of the predictive distribution, including{' '}
+            {results.parameterUncertainty.aSd > 0 || results.parameterUncertainty.pSd > 0 ? (
+              <>
+                parameter uncertainty (&sigma;<sub>a</sub>&nbsp;=&nbsp;{results.parameterUncertainty.aSd},
+                &sigma;<sub>p</sub>&nbsp;=&nbsp;{results.parameterUncertainty.pSd}){magnitudeSpread ? ' and ' : ''}
+              </>
+            ) : null}
+            {magnitudeSpread && 'the mainshock magnitude uncertainty'}; probabilities use the same
+            distribution, and expected numbers are the point estimates
+          </>
+        ) : (
+          <>* Range is a 95% confidence interval based on the Poisson distribution</>
+        )}
+      </p>
+      {magnitudeSpread && (
+        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+          Magnitude uncertainty: the small figures under each expected number and probability are their values
+          for a mainshock of M{magnitudeSpread[0].toFixed(1)} and M{magnitudeSpread[1].toFixed(1)}, the ends of the
+          central 95% of the magnitude distribution (entered M{results.mainshockMagnitude}).
+        </p>
+      )}
+      {results.incompleteness && (
+        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+          Short-term incompleteness: the &ldquo;recorded&rdquo; figures are the expected numbers the network
+          detects when it is complete only above <em>M</em><sub>c</sub>(<em>t</em>)&nbsp;=&nbsp;<em>M</em>&nbsp;&minus;&nbsp;{results.incompleteness.G}&nbsp;&minus;&nbsp;{results.incompleteness.H}&nbsp;log<sub>10</sub><em>t</em>{' '}
+          (<em>t</em> in days after each source event); ranges and probabilities are for the true numbers.
+        </p>
+      )}
+      {results.etasParams && (
+        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+          ETAS forecast: expected numbers include aftershocks of aftershocks (branching ratio{' '}
+          {etasBranchingRatio(results.etasParams, results.rangeStartDays + Math.max(...results.forecasts.map(f => f.window.end))).toFixed(2)}{' '}
+          over the longest window). Switch to another model and recalculate to compare against first-generation
+          Reasenberg&ndash;Jones numbers.
+        </p>
+      )}
+
+      {results.ensemble && (
+        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+          Ensemble forecast: probabilities and ranges come from the weighted mixture of{' '}
+          {formatEnsembleWeights(results.ensemble)}, not from averaged parameters.
+        </p>
+      )}
+
+      {results.additionalSources && results.additionalSources.length > 0 && (
+        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+          Combined forecast: expected numbers add the aftershocks of{' '}
+          {results.additionalSources.map((source, i) => (
+            <React.Fragment key={i}>
+              {i > 0 && (i === results.additionalSources!.length - 1 ? ' and ' : ', ')}
+              M{source.magnitude} ({Math.abs(source.timeDays).toFixed(2)} days {source.timeDays < 0 ? 'before' : 'after'} the mainshock)
+            </React.Fragment>
+          ))}{' '}
+          to those of the mainshock.
+        </p>
+      )}
+
+      {results.sequenceUpdate && (
+        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+          Sequence-specific parameters, updated from {results.sequenceUpdate.eventCount} observed
+          M{results.sequenceUpdate.mc}+ aftershocks between {results.sequenceUpdate.tStart} and{' '}
+          {results.sequenceUpdate.tEnd.toFixed(2)} days after the mainshock:{' '}
+          <em>a</em>&nbsp;{results.sequenceUpdate.prior.a}&nbsp;&rarr;&nbsp;{results.sequenceUpdate.posterior.a},&ensp;
+          <em>p</em>&nbsp;{results.sequenceUpdate.prior.p}&nbsp;&rarr;&nbsp;{results.sequenceUpdate.posterior.p},&ensp;
+          <em>c</em>&nbsp;{results.sequenceUpdate.prior.c}&nbsp;&rarr;&nbsp;{results.sequenceUpdate.posterior.c}&nbsp;days
+          (generic prior &rarr; posterior).
+        </p>
+      )}
+
+      {/* Largest aftershock per window */}
+      <h3 className="mt-6 mb-2 flex items-center gap-1 text-base font-semibold text-gray-800 dark:text-gray-100">
+        Largest aftershock
+        <span className="print:hidden"><InfoTooltip content={RESULTS_TOOLTIPS.largestAftershock} /></span>
+      </h3>
+      <div className="overflow-x-auto print:overflow-visible">
+        <table className="min-w-full border-collapse border border-gray-300 dark:border-gray-600 print-results-table">
+          <thead>
+            <tr className="bg-gray-100 dark:bg-gray-700">
+              {['Window', `Chance of M${results.mainshockMagnitude}+ (mainshock size or larger)`, 'Median largest magnitude', '95% range'].map(header => (
+                <th
+                  key={header}
+                  scope="col"
+                  className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-semibold text-center first:text-left dark:text-gray-100"
+                >
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {results.largestAftershock.map((largest) => (
+              <tr key={`${largest.window.start}-${largest.window.end}`} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                <th
+                  scope="row"
+                  className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-normal text-left dark:text-gray-100 duration-cell"
+                >
+                  {largest.window.start === 0 ? 'within ' : ''}{forecastWindowLabel(largest.window)}
                 </th>
-                {/* M3 results (lowest magnitude range) */}
-                <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center dark:text-gray-200">
-                  {forecast.m3.averageNumber}
-                </td>
-                <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center dark:text-gray-200">
-                  {forecast.m3.range}
-                </td>
-                <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center dark:text-gray-200">
-                  {forecast.m3.probability}
-                </td>
-                {/* M2 results (middle magnitude range) */}
-                <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center dark:text-gray-200">
-                  {forecast.m2.averageNumber}
-                </td>
-                <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center dark:text-gray-200">
-                  {forecast.m2.range}
-                </td>
-                <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center dark:text-gray-200">
-                  {forecast.m2.probability}
-                </td>
-                {/* M1 results (highest magnitude range) */}
                 <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center dark:text-gray-200">
-                  {forecast.m1.averageNumber}
+                  {formatPercentage(100 * largest.probabilityAtLeastMainshock)}
                 </td>
                 <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center dark:text-gray-200">
-                  {forecast.m1.range}
+                  M{largest.median.toFixed(1)}
                 </td>
                 <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center dark:text-gray-200">
-                  {forecast.m1.probability}
+                  M{largest.lower.toFixed(1)}&ndash;M{largest.upper.toFixed(1)}
                 </td>
               </tr>
             ))}
           </tbody>
         </table>
       </div>
-
-      {/* Footnote */}
-      <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
-        * Range is a 95% confidence interval based on the Poisson distribution
+      <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+        The largest aftershock is equally likely to fall below or above the median, and falls within the range
+        with 95% probability{results.parameterUncertainty ? ', including parameter uncertainty' : ''}.
       </p>
 
       {/* Print Footer - Only visible when printing */}
@@ -224,10 +345,34 @@ export default function ResultsTable({
         </p>
         <p>
           Generated by the Aftershock Calculator • Earth Sciences New Zealand (ESNZ) •
-          Reasenberg&ndash;Jones model (Omori&ndash;Utsu decay with Poisson statistics) •
-          Data source: GeoNet API
+          {results.etasParams
+            ? <> ETAS model (all aftershock generations, Poisson statistics) •</>
+            : results.ensemble
+              ? <> Weighted ensemble of Reasenberg&ndash;Jones models (mixture of Poisson forecasts) •</>
+              : <> Reasenberg&ndash;Jones model (Omori&ndash;Utsu decay with Poisson statistics) •</>}
+          {' '}Data source: GeoNet API
         </p>
-        {modelParams && (
+        {results.ensemble ? (
+          results.ensemble.map(member => (
+            <p key={member.model}>
+              {MODEL_INFO[member.model].name}, weight {Math.round(100 * member.weight)}%:{' '}
+              <em>a</em>&nbsp;=&nbsp;{member.params.a},&ensp;
+              <em>b</em>&nbsp;=&nbsp;{member.params.b},&ensp;
+              <em>c</em>&nbsp;=&nbsp;{member.params.c}&nbsp;days,&ensp;
+              <em>p</em>&nbsp;=&nbsp;{member.params.p}
+            </p>
+          ))
+        ) : results.etasParams ? (
+          <p>
+            Model parameters ({modelName}):{' '}
+            <em>K</em>&nbsp;=&nbsp;{results.etasParams.K},&ensp;
+            <em>&alpha;</em>&nbsp;=&nbsp;{results.etasParams.alpha},&ensp;
+            <em>c</em>&nbsp;=&nbsp;{results.etasParams.c}&nbsp;days,&ensp;
+            <em>p</em>&nbsp;=&nbsp;{results.etasParams.p},&ensp;
+            <em>b</em>&nbsp;=&nbsp;{results.etasParams.b},&ensp;
+            <em>M</em><sub>ref</sub>&nbsp;=&nbsp;{results.etasParams.mRef}
+          </p>
+        ) : modelParams && (
           <p>
             Model parameters ({modelName}):{' '}
             <em>a</em>&nbsp;=&nbsp;{modelParams.a},&ensp;
@@ -236,6 +381,17 @@ export default function ResultsTable({
             <em>p</em>&nbsp;=&nbsp;{modelParams.p}
           </p>
         )}
+        {results.modelParams.kernel && !results.etasParams && (
+          <p>Temporal decay: {formatTemporalKernel(results.modelParams.kernel)}</p>
+        )}
+        {results.modelParams.maxMagnitude && !results.etasParams && (
+          <p>
+            Gutenberg&ndash;Richter distribution{' '}
+            {results.modelParams.maxMagnitude.kind === 'truncated'
+              ? <>truncated at <em>M</em><sub>max</sub>&nbsp;=&nbsp;{results.modelParams.maxMagnitude.magnitude}</>
+              : <>tapered with corner magnitude <em>M</em><sub>c</sub>&nbsp;=&nbsp;{results.modelParams.maxMagnitude.magnitude}</>}
+          </p>
+        )}
       </div>
 
       {/* Action Buttons - Hidden when printing */}
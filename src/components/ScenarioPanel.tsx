@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { CalculationResults } from '@/types';
+import { forecastWindowLabel } from '@/lib/calculations';
+import { formatNZDateTime } from '@/lib/datetime';
+import { calculateScenario, scenarioLabel, validateScenarioEvent } from '@/lib/scenario';
+
+interface ScenarioPanelProps {
+  results: CalculationResults;
+  /** The scenario currently shown for these results, if any */
+  scenario: CalculationResults | null;
+  onScenarioChange: (scenario: CalculationResults | null) => void;
+  modelName?: string;
+}
+
+const MS_PER_DAY = 86400000;
+
+const INPUT_CLASS =
+  'w-24 bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg px-3 py-1.5 text-sm text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500';
+const LABEL_CLASS = 'block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1';
+const CELL_CLASS = 'border border-gray-300 dark:border-gray-600 px-3 py-2 text-center dark:text-gray-200';
+const HYPOTHETICAL_CELL_CLASS = `${CELL_CLASS} bg-amber-50 dark:bg-amber-900/20`;
+
+export default function ScenarioPanel({ results, scenario, onScenarioChange, modelName = 'NZ Generic' }: ScenarioPanelProps) {
+  const [magnitude, setMagnitude] = useState('6.5');
+  const [daysAfterStart, setDaysAfterStart] = useState('1');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const quakeTimeMs = Date.parse(results.quakeTimeISO);
+  const eventTime = (timeDays: number) => formatNZDateTime(new Date(quakeTimeMs + timeDays * MS_PER_DAY).toISOString());
+
+  const handleRun = () => {
+    const event = {
+      magnitude: parseFloat(magnitude),
+      timeDays: results.rangeStartDays + parseFloat(daysAfterStart),
+    };
+    const problems = validateScenarioEvent(event, results);
+    if (problems.length === 0) {
+      try {
+        onScenarioChange(calculateScenario(results, event));
+      } catch (err) {
+        problems.push(err instanceof Error ? err.message : 'Scenario calculation failed');
+      }
+    }
+    setErrors(problems);
+  };
+
+  const handleClear = () => {
+    setErrors([]);
+    onScenarioChange(null);
+  };
+
+  const handleExportCSV = () => {
+    if (!scenario?.scenario) return;
+    const headers = [
+      'Window',
+      ...results.rangeLabels.flatMap(label => [
+        `${label} Avg`, `${label} Hypothetical avg`, `${label} Prob`, `${label} Hypothetical prob`,
+      ]),
+    ];
+    const rows = results.forecasts.map((f, w) => [
+      forecastWindowLabel(f.window),
+      ...f.bins.flatMap((bin, i) => {
+        const hypothetical = scenario.forecasts[w].bins[i];
+        return [bin.averageNumber, hypothetical.averageNumber, bin.probability, hypothetical.probability];
+      }),
+    ]);
+    const lines = [
+      `# HYPOTHETICAL SCENARIO for ${results.quakeId}: not a forecast of any real event`,
+      `# ${scenarioLabel(scenario)} (${eventTime(scenario.scenario.timeDays)}); "Hypothetical" columns add its aftershocks to the forecast`,
+      `# Model: ${modelName}`,
+      `# Generated: ${new Date().toISOString()}`,
+      '',
+      headers.join(','),
+      ...rows.map(row => row.join(',')),
+    ];
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `aftershock-scenario-${results.quakeId}-hypothetical-M${scenario.scenario.magnitude}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-lg print:hidden" role="region" aria-label="What-if scenario">
+      <h3 className="text-base font-semibold text-gray-800 dark:text-gray-100 mb-1">What if a large aftershock happens?</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+        Posit a hypothetical event to see the forecast with its own aftershocks added, beside the forecast as it
+        stands.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label htmlFor="scenario-magnitude" className={LABEL_CLASS}>Magnitude</label>
+          <input
+            id="scenario-magnitude"
+            type="number"
+            step="0.1"
+            value={magnitude}
+            onChange={(e) => setMagnitude(e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label htmlFor="scenario-days" className={LABEL_CLASS}>Days after forecast start</label>
+          <input
+            id="scenario-days"
+            type="number"
+            min="0"
+            step="any"
+            value={daysAfterStart}
+            onChange={(e) => setDaysAfterStart(e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </div>
+        <button
+          onClick={handleRun}
+          className="px-3 py-1.5 bg-amber-600 text-white text-sm rounded-md hover:bg-amber-700 transition-colors focus:outline-none focus:ring-2 focus:ring-amber-400"
+        >
+          Run scenario
+        </button>
+        {scenario && (
+          <>
+            <button
+              onClick={handleClear}
+              className="px-3 py-1.5 bg-gray-500 text-white text-sm rounded-md hover:bg-gray-600 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+            >
+              Clear
+            </button>
+            <button
+              onClick={handleExportCSV}
+              className="px-3 py-1.5 bg-gray-500 text-white text-sm rounded-md hover:bg-gray-600 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+              aria-label="Download the hypothetical scenario as CSV"
+            >
+              Download CSV
+            </button>
+          </>
+        )}
+      </div>
+      {errors.map(message => (
+        <p key={message} className="mt-2 text-xs text-red-600 dark:text-red-400" role="alert">{message}</p>
+      ))}
+
+      {scenario?.scenario && (
+        <>
+          <p className="mt-4 p-2 text-sm font-medium text-amber-800 dark:text-amber-200 bg-amber-100 dark:bg-amber-900/30 border border-amber-300 dark:border-amber-700 rounded">
+            Hypothetical scenario, not a forecast of any real event: {scenarioLabel(scenario)}{' '}
+            ({eventTime(scenario.scenario.timeDays)}). The Visualization tab shows it as dashed lines.
+          </p>
+          <div className="mt-3 overflow-x-auto">
+            <table className="min-w-full border-collapse border border-gray-300 dark:border-gray-600 text-sm">
+              <thead>
+                <tr className="bg-gray-100 dark:bg-gray-700">
+                  <th scope="col" rowSpan={2} className="border border-gray-300 dark:border-gray-600 px-3 py-2 text-left font-semibold dark:text-gray-100">
+                    Window
+                  </th>
+                  {results.rangeLabels.map(label => (
+                    <th key={label} scope="colgroup" colSpan={4} className="border border-gray-300 dark:border-gray-600 px-3 py-2 text-center font-semibold dark:text-gray-100">
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+                <tr className="bg-gray-50 dark:bg-gray-800">
+                  {results.rangeLabels.map(label => (
+                    <React.Fragment key={label}>
+                      <th scope="col" className={CELL_CLASS}>Expected</th>
+                      <th scope="col" className={HYPOTHETICAL_CELL_CLASS}>Hypothetical expected</th>
+                      <th scope="col" className={CELL_CLASS}>Probability</th>
+                      <th scope="col" className={HYPOTHETICAL_CELL_CLASS}>Hypothetical probability</th>
+                    </React.Fragment>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {results.forecasts.map((forecast, w) => (
+                  <tr key={`${forecast.window.start}-${forecast.window.end}`}>
+                    <th scope="row" className="border border-gray-300 dark:border-gray-600 px-3 py-2 font-normal text-left dark:text-gray-100">
+                      {forecast.window.start === 0 ? 'within ' : ''}{forecastWindowLabel(forecast.window)}
+                    </th>
+                    {forecast.bins.map((bin, i) => (
+                      <React.Fragment key={i}>
+                        <td className={CELL_CLASS}>{bin.averageNumber}</td>
+                        <td className={HYPOTHETICAL_CELL_CLASS}>{scenario.forecasts[w].bins[i].averageNumber}</td>
+                        <td className={CELL_CLASS}>{bin.probability}</td>
+                        <td className={HYPOTHETICAL_CELL_CLASS}>{scenario.forecasts[w].bins[i].probability}</td>
+                      </React.Fragment>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            The hypothetical event adds its own aftershocks from its time on, with the same model and settings as
+            the forecast; the event itself is not counted. Windows that end before it are unchanged.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
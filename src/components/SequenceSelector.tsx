@@ -0,0 +1,91 @@
+'use client';
+
+import { useId } from 'react';
+import type { SequenceSelectionInput } from '@/types';
+import { MAX_BATCH_SEQUENCES } from '@/lib/batch';
+
+interface SequenceSelectorProps {
+  value: SequenceSelectionInput;
+  onChange: (value: SequenceSelectionInput) => void;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+const LABEL_CLASS = 'block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1';
+
+const BOX_FIELDS = [
+  ['minLat', 'Min latitude'],
+  ['maxLat', 'Max latitude'],
+  ['minLon', 'Min longitude (0–360)'],
+  ['maxLon', 'Max longitude (0–360)'],
+] as const;
+
+/** Past sequences chosen by a list of quake IDs or a catalogue query for mainshocks */
+export default function SequenceSelector({ value, onChange }: SequenceSelectorProps) {
+  const baseId = useId();
+  const set = (field: keyof SequenceSelectionInput, text: string) => onChange({ ...value, [field]: text });
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-3" role="group" aria-label="How to choose the sequences">
+        {(['ids', 'query'] as const).map(mode => (
+          <button
+            key={mode}
+            onClick={() => onChange({ ...value, mode })}
+            aria-pressed={value.mode === mode}
+            className={`px-3 py-1.5 text-sm rounded-md border transition-colors ${
+              value.mode === mode
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            {mode === 'ids' ? 'Quake IDs' : 'Catalogue query'}
+          </button>
+        ))}
+      </div>
+
+      {value.mode === 'ids' ? (
+        <div>
+          <label htmlFor={`${baseId}-ids`} className={LABEL_CLASS}>
+            GeoNet quake IDs (separated by spaces, commas or new lines; up to {MAX_BATCH_SEQUENCES})
+          </label>
+          <textarea
+            id={`${baseId}-ids`}
+            rows={3}
+            value={value.ids}
+            onChange={(e) => set('ids', e.target.value)}
+            placeholder="2016p858000, 2011p108147"
+            className={`${INPUT_CLASS} font-mono`}
+          />
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+          <div>
+            <label htmlFor={`${baseId}-min-mag`} className={LABEL_CLASS}>Minimum magnitude</label>
+            <input id={`${baseId}-min-mag`} type="number" step="0.1" value={value.minMagnitude} onChange={(e) => set('minMagnitude', e.target.value)} className={INPUT_CLASS} />
+          </div>
+          <div>
+            <label htmlFor={`${baseId}-start`} className={LABEL_CLASS}>From (UTC)</label>
+            <input id={`${baseId}-start`} type="date" value={value.start} onChange={(e) => set('start', e.target.value)} className={INPUT_CLASS} />
+          </div>
+          <div>
+            <label htmlFor={`${baseId}-end`} className={LABEL_CLASS}>To (UTC)</label>
+            <input id={`${baseId}-end`} type="date" value={value.end} onChange={(e) => set('end', e.target.value)} className={INPUT_CLASS} />
+          </div>
+          {BOX_FIELDS.map(([field, label]) => (
+            <div key={field}>
+              <label htmlFor={`${baseId}-${field}`} className={LABEL_CLASS}>{label}</label>
+              <input
+                id={`${baseId}-${field}`}
+                type="number"
+                step="0.1"
+                value={value[field]}
+                onChange={(e) => set(field, e.target.value)}
+                className={INPUT_CLASS}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
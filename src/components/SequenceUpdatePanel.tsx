@@ -0,0 +1,278 @@
+'use client';
+
+import { useId, useState } from 'react';
+import type { ModelParameters, SequenceUpdate } from '@/types';
+import type { OmoriFit } from '@/lib/fitting';
+import InfoTooltip from './InfoTooltip';
+
+interface SequenceUpdatePanelProps {
+  /** Generic parameters of the selected model (the prior); null for ETAS and ensembles, which are not updated */
+  prior: ModelParameters | null;
+  update: SequenceUpdate | null;
+  fit: OmoriFit | null;
+  /** Fetch the observed aftershocks and compute the posterior; rejects with a user-facing message */
+  onRunUpdate: (mc: number, tStart: number, updateC: boolean) => Promise<void>;
+  onClearUpdate: () => void;
+  /** Fetch the observed aftershocks and fit K, c, p; rejects with a user-facing message */
+  onRunFit: (mc: number, tStart: number) => Promise<void>;
+  /** Copy the fitted parameters into the Custom model */
+  onLoadFit: (fit: OmoriFit) => void;
+  /** Why the update cannot run yet (e.g. no epicentre), or null when it can */
+  disabledReason: string | null;
+}
+
+const UPDATE_TOOLTIP = (
+  <>
+    <strong>Sequence-specific parameters</strong>
+    <p className="mt-1">
+      Days into a sequence, the aftershocks already recorded say how productive
+      it is and how fast it decays. This updates the generic a and p (and
+      optionally c) to fit them, weighting the generic values as a prior
+      (Page et al. 2016), using only events before the forecast start.
+    </p>
+    <p className="mt-1">
+      Alternatively, fit K, c and p by maximum likelihood with no prior and
+      load them into the Custom model.
+    </p>
+    <p className="mt-1">
+      The completeness magnitude should be one above which the GeoNet
+      catalogue records every aftershock; in the first hours after a large
+      mainshock it may need to be higher, or the first hours skipped.
+    </p>
+  </>
+);
+
+const formatC = (c: number) => Number(c.toPrecision(3)).toString();
+
+/** Value ± standard error, or the value alone when the error is undefined */
+const withSe = (value: string, se: number, format: (x: number) => string) =>
+  Number.isFinite(se) ? `${value} ± ${format(se)}` : value;
+
+export default function SequenceUpdatePanel({
+  prior,
+  update,
+  fit,
+  onRunUpdate,
+  onClearUpdate,
+  onRunFit,
+  onLoadFit,
+  disabledReason,
+}: SequenceUpdatePanelProps) {
+  const [mcInput, setMcInput] = useState('3');
+  const [tStartInput, setTStartInput] = useState('0');
+  const [updateC, setUpdateC] = useState(false);
+  const [busy, setBusy] = useState<'update' | 'fit' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const baseId = useId();
+
+  const run = async (action: 'update' | 'fit') => {
+    const mc = parseFloat(mcInput);
+    const tStart = parseFloat(tStartInput);
+    if (!Number.isFinite(mc) || mc < 0 || mc >= 10) {
+      setError('Please enter a completeness magnitude between 0 and 10.');
+      return;
+    }
+    if (!Number.isFinite(tStart) || tStart < 0) {
+      setError('Please enter a data start of 0 days or more after the mainshock.');
+      return;
+    }
+    setError(null);
+    setBusy(action);
+    try {
+      if (action === 'update') await onRunUpdate(mc, tStart, updateC);
+      else await onRunFit(mc, tStart);
+    } catch (err) {
+      const fallback = action === 'update' ? 'Failed to update the parameters.' : 'Failed to fit the catalogue.';
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const rows: { label: string; prior: string; posterior: string }[] = update ? [
+    {
+      label: 'a',
+      prior: `${update.prior.a.toFixed(2)} ± ${update.priorSd.a.toFixed(2)}`,
+      posterior: `${update.posterior.a.toFixed(2)} ± ${update.posteriorSd.a.toFixed(2)}`,
+    },
+    {
+      label: 'p',
+      prior: `${update.prior.p.toFixed(2)} ± ${update.priorSd.p.toFixed(2)}`,
+      posterior: `${update.posterior.p.toFixed(2)} ± ${update.posteriorSd.p.toFixed(2)}`,
+    },
+    {
+      label: 'c (days)',
+      prior: update.priorSd.log10c !== undefined
+        ? `${formatC(update.prior.c)} (± ${update.priorSd.log10c.toFixed(2)} in log₁₀)`
+        : `${formatC(update.prior.c)} (fixed)`,
+      posterior: update.posteriorSd.log10c !== undefined
+        ? `${formatC(update.posterior.c)} (± ${update.posteriorSd.log10c.toFixed(2)} in log₁₀)`
+        : `${formatC(update.posterior.c)} (fixed)`,
+    },
+  ] : [];
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 print:hidden">
+      <div className="flex items-center gap-2 mb-3">
+        <span className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+          Parameters from the Observed Sequence
+        </span>
+        <InfoTooltip content={UPDATE_TOOLTIP} />
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex flex-col">
+          <label htmlFor={`${baseId}-mc`} className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Completeness magnitude (Mc)
+          </label>
+          <input
+            id={`${baseId}-mc`}
+            type="number"
+            step="0.1"
+            value={mcInput}
+            onChange={(e) => setMcInput(e.target.value)}
+            className="w-28 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                       focus:outline-none focus:ring-2 focus:ring-blue-500
+                       dark:bg-gray-800 dark:text-gray-100"
+          />
+        </div>
+        <div className="flex flex-col">
+          <label htmlFor={`${baseId}-tstart`} className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Data from (days after mainshock)
+          </label>
+          <input
+            id={`${baseId}-tstart`}
+            type="number"
+            step="0.1"
+            min="0"
+            value={tStartInput}
+            onChange={(e) => setTStartInput(e.target.value)}
+            className="w-28 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                       focus:outline-none focus:ring-2 focus:ring-blue-500
+                       dark:bg-gray-800 dark:text-gray-100"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 pb-2">
+          <input
+            type="checkbox"
+            checked={updateC}
+            onChange={(e) => setUpdateC(e.target.checked)}
+            disabled={!prior}
+            className="rounded border-gray-300 dark:border-gray-600"
+          />
+          Also update c
+        </label>
+        <button
+          onClick={() => run('update')}
+          disabled={busy !== null || disabledReason !== null || !prior}
+          className="px-4 py-2 bg-blue-500 text-white rounded-md
+                     hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed
+                     transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+          aria-busy={busy === 'update'}
+        >
+          {busy === 'update' ? 'Fetching aftershocks…' : 'Fetch aftershocks & update'}
+        </button>
+        <button
+          onClick={() => run('fit')}
+          disabled={busy !== null || disabledReason !== null}
+          className="px-4 py-2 bg-blue-500 text-white rounded-md
+                     hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed
+                     transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+          aria-busy={busy === 'fit'}
+        >
+          {busy === 'fit' ? 'Fitting…' : 'Fit Omori–Utsu (MLE)'}
+        </button>
+        {update && (
+          <button
+            onClick={onClearUpdate}
+            className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600
+                       rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors
+                       focus:outline-none focus:ring-2 focus:ring-blue-400"
+          >
+            Revert to generic parameters
+          </button>
+        )}
+      </div>
+
+      {disabledReason && (
+        <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">{disabledReason}</p>
+      )}
+      {!prior && !disabledReason && (
+        <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+          Bayesian updating applies to a single Reasenberg&ndash;Jones model, not ETAS or an ensemble; the maximum-likelihood fit is still available.
+        </p>
+      )}
+
+      {error && (
+        <div role="alert" className="mt-3 p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-md">
+          <p className="text-red-600 dark:text-red-400 text-sm">⚠️ {error}</p>
+        </div>
+      )}
+
+      {update && (
+        <div role="status" className="mt-3">
+          <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+            Posterior from {update.eventCount} aftershock{update.eventCount === 1 ? '' : 's'} with
+            M&nbsp;&ge;&nbsp;{update.mc} between {update.tStart} and {update.tEnd.toFixed(2)} days after the mainshock. The forecast uses the posterior
+            parameters until you revert or change the earthquake, forecast start or model.
+          </p>
+          <table className="text-sm border-collapse">
+            <thead>
+              <tr className="text-left text-gray-600 dark:text-gray-400">
+                <th scope="col" className="pr-6 py-1 font-medium">Parameter</th>
+                <th scope="col" className="pr-6 py-1 font-medium">Prior (generic)</th>
+                <th scope="col" className="py-1 font-medium">Posterior (this sequence)</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono text-gray-900 dark:text-gray-100">
+              {rows.map(row => (
+                <tr key={row.label}>
+                  <th scope="row" className="pr-6 py-1 text-left font-normal">{row.label}</th>
+                  <td className="pr-6 py-1">{row.prior}</td>
+                  <td className="py-1">{row.posterior}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {fit && (
+        <div role="status" className="mt-3 border-t border-gray-200 dark:border-gray-600 pt-3">
+          <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+            Maximum-likelihood fit of K&middot;(t&nbsp;+&nbsp;c)<sup>&minus;p</sup> to {fit.eventCount} aftershocks with
+            M&nbsp;&ge;&nbsp;{fit.mc} between {fit.tStart} and {fit.tEnd.toFixed(2)} days after the mainshock
+            (log-likelihood {fit.logLikelihood.toFixed(1)}).
+          </p>
+          <p className="font-mono text-sm text-gray-900 dark:text-gray-100">
+            K = {withSe(fit.K.toPrecision(3), fit.se.K, x => x.toPrecision(2))} /day ·
+            c = {withSe(formatC(fit.c), fit.se.c, x => x.toPrecision(2))} days ·
+            p = {withSe(fit.p.toFixed(3), fit.se.p, x => x.toFixed(3))}
+          </p>
+          {!(Number.isFinite(fit.se.c) && Number.isFinite(fit.se.p)) && (
+            <p className="mt-1 text-xs text-amber-700 dark:text-amber-400">
+              Standard errors are undefined: the maximum lies on a search bound, so the data do not constrain every parameter.
+            </p>
+          )}
+          <button
+            onClick={() => onLoadFit(fit)}
+            className="mt-2 px-4 py-2 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600
+                       rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors
+                       focus:outline-none focus:ring-2 focus:ring-blue-400"
+          >
+            Load into Custom model
+          </button>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            K is converted to the Reasenberg&ndash;Jones <em>a</em> using the Custom model&rsquo;s b-value.
+          </p>
+        </div>
+      )}
+
+      {prior && !update && !disabledReason && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Currently forecasting with the generic parameters a = {prior.a}, p = {prior.p}, c = {prior.c}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { CalculationResults } from '@/types';
+import { calculateDailyTimeline, NZ_TIME_ZONE } from '@/lib/timeline';
+
+interface TimelineTableProps {
+  results: CalculationResults | null;
+  modelName?: string;
+}
+
+/** Lengths of timeline offered, in days */
+const TIMELINE_DAYS = [7, 14, 30] as const;
+
+const MS_PER_DAY = 86400000;
+
+/** Forecast start as hh:mm NZ time */
+function formatStartTime(results: CalculationResults): string {
+  return new Date(Date.parse(results.quakeTimeISO) + results.rangeStartDays * MS_PER_DAY).toLocaleTimeString('en-NZ', {
+    timeZone: NZ_TIME_ZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  });
+}
+
+export default function TimelineTable({ results, modelName = 'NZ Generic' }: TimelineTableProps) {
+  const [days, setDays] = useState<number>(TIMELINE_DAYS[0]);
+
+  const timeline = useMemo(() => {
+    if (!results) return null;
+    try {
+      return { days: calculateDailyTimeline(results, days), error: null };
+    } catch (err) {
+      return { days: [], error: err instanceof Error ? err.message : 'Timeline calculation failed' };
+    }
+  }, [results, days]);
+
+  if (!results || !timeline) {
+    return (
+      <div className="mt-6 p-8 text-center text-gray-500 dark:text-gray-400">
+        <p>Calculate a forecast to see the day-by-day timeline</p>
+      </div>
+    );
+  }
+
+  const recorded = Boolean(results.incompleteness);
+  const startTime = formatStartTime(results);
+
+  const handleExportCSV = () => {
+    const headers = [
+      'Date',
+      'Day',
+      'Days after forecast start',
+      ...results.rangeLabels.flatMap(label => [
+        `${label} Avg`, `${label} Prob`,
+        ...(recorded ? [`${label} Recorded avg`] : []),
+      ]),
+    ];
+    const rows = timeline.days.map(day => [
+      day.date,
+      day.label.split(' ')[0] + (day.partial ? ` (from ${startTime})` : ''),
+      `${day.forecast.window.start.toFixed(4)}-${day.forecast.window.end.toFixed(4)}`,
+      ...day.forecast.bins.flatMap(bin => [
+        bin.averageNumber, bin.probability,
+        ...(bin.recordedNumber ? [bin.recordedNumber] : []),
+      ]),
+    ]);
+    const lines = [
+      `# Day-by-day aftershock forecast for ${results.quakeId}: ${modelName}`,
+      `# Generated: ${new Date().toISOString()}`,
+      `# Calendar days in New Zealand local time (${NZ_TIME_ZONE}); the first day starts at the forecast start`,
+      '',
+      headers.join(','),
+      ...rows.map(row => row.join(',')),
+    ];
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `aftershock-timeline-${results.quakeId}-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <div className="mt-6" role="region" aria-label="Day-by-day forecast timeline">
+      <div className="mb-4 flex flex-wrap items-end gap-4">
+        <div>
+          <label htmlFor="timeline-days" className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">
+            Days
+          </label>
+          <select
+            id="timeline-days"
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value))}
+            className="bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg px-3 py-1.5 text-sm text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {TIMELINE_DAYS.map(n => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={handleExportCSV}
+          disabled={timeline.days.length === 0}
+          className="px-3 py-1.5 bg-gray-500 text-white text-sm rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+          aria-label="Download the day-by-day timeline as CSV"
+        >
+          Download CSV
+        </button>
+      </div>
+
+      {timeline.error ? (
+        <p className="text-sm text-red-600 dark:text-red-400" role="alert">{timeline.error}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full border-collapse border border-gray-300 dark:border-gray-600">
+            <thead>
+              <tr className="bg-gray-100 dark:bg-gray-700">
+                <th scope="col" rowSpan={2} className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-semibold text-left dark:text-gray-100">
+                  Day (NZ time)
+                </th>
+                {results.rangeLabels.map(label => (
+                  <th
+                    key={label}
+                    scope="colgroup"
+                    colSpan={2}
+                    className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center font-semibold dark:text-gray-100"
+                  >
+                    {label}
+                  </th>
+                ))}
+              </tr>
+              <tr className="bg-gray-50 dark:bg-gray-800">
+                {results.rangeLabels.map(label => (
+                  <React.Fragment key={label}>
+                    <th scope="col" className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center text-sm dark:text-gray-200">
+                      Expected number
+                    </th>
+                    <th scope="col" className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center text-sm dark:text-gray-200">
+                      Probability of 1 or more
+                    </th>
+                  </React.Fragment>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {timeline.days.map(day => (
+                <tr key={day.date} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                  <th scope="row" className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-normal text-left dark:text-gray-100 whitespace-nowrap">
+                    {day.label}
+                    {day.partial && (
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">from {startTime}</span>
+                    )}
+                  </th>
+                  {day.forecast.bins.map((bin, binIndex) => (
+                    <React.Fragment key={binIndex}>
+                      <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center dark:text-gray-200">
+                        {bin.averageNumber}
+                        {bin.magnitudeSpread && (
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">{bin.magnitudeSpread.averageNumber}</span>
+                        )}
+                        {bin.recordedNumber && (
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">{bin.recordedNumber} recorded</span>
+                        )}
+                      </td>
+                      <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-center dark:text-gray-200">
+                        {bin.probability}
+                        {bin.magnitudeSpread && (
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">{bin.magnitudeSpread.probability}</span>
+                        )}
+                      </td>
+                    </React.Fragment>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+        Each row is a calendar day in New Zealand local time, midnight to midnight (23 or 25 hours when daylight
+        saving starts or ends), forecast with the same model and settings as the table. The first day starts at
+        the forecast start time. Probabilities are per day: the chance of one or more over several days is higher
+        than on any one of them, but lower than their sum.
+      </p>
+    </div>
+  );
+}
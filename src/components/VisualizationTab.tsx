@@ -8,14 +8,36 @@ import {
   GridComponent,
   LegendComponent,
   MarkAreaComponent,
+  MarkLineComponent,
   TitleComponent,
   ToolboxComponent,
   TooltipComponent,
 } from 'echarts/components';
 import { CanvasRenderer } from 'echarts/renderers';
 import type { EChartsCoreOption } from 'echarts/core';
-import type { CalculationResults } from '@/types';
-import { qpois, calculateOmoriIntegral, calculateExpectedAftershocks } from '@/lib/calculations';
+import type { CalculationResults, ForecastResult, ForecastWindow, ModelParameters, TimeUnit } from '@/types';
+import { TIME_UNIT_DAYS } from '@/types';
+import {
+  qpois,
+  combinedOmoriIntegral,
+  calculateAftershockRate,
+  calculateExpectedAftershocks,
+  parameterMixture,
+  mixtureCdf,
+  mixtureQuantile,
+  mixtureProbabilityAtLeastOne,
+  forecastWindowLabel,
+  daysToUnit,
+  formatTimeSpan,
+  type CountForecast,
+  type CountMixture,
+} from '@/lib/calculations';
+import { ensembleCount, ensembleLargestMagnitudeCdf } from '@/lib/ensemble';
+import { rampColor } from '@/lib/colors';
+import { solveEtas } from '@/lib/etas';
+import { KERNEL_INFO } from '@/lib/kernels';
+import { scenarioLabel } from '@/lib/scenario';
+import { cumulativeCounts, simulateCatalogues } from '@/lib/simulation';
 import InfoTooltip from './InfoTooltip';
 
 // Explains the Poisson outcome chart; shown as a tooltip on its title
@@ -30,6 +52,10 @@ const LIKELY_NUMBER_TOOLTIP = (
       five or more. The zero-event outcome is not drawn, so the bars sum to
       the headline probability of one or more aftershocks.
     </p>
+    <p className="mt-1">
+      When the forecast includes parameter uncertainty, the Poisson
+      distribution is averaged over the spread of the a-value (and p).
+    </p>
   </>
 );
 
@@ -40,6 +66,7 @@ echarts.use([
   GridComponent,
   LegendComponent,
   MarkAreaComponent,
+  MarkLineComponent,
   TitleComponent,
   ToolboxComponent,
   TooltipComponent,
@@ -50,12 +77,20 @@ echarts.use([
 // ordinal single-hue ramp (light -> dark = low -> high magnitude) rather than
 // unrelated hues. Both ramps are validated for colour-vision-deficiency
 // separation and surface contrast in their respective modes.
-const LIGHT_RAMP = { m1: '#7f1d1d', m2: '#dc2626', m3: '#f87171' } as const;
-const DARK_RAMP = { m1: '#991b1b', m2: '#ef4444', m3: '#fca5a5' } as const;
+// Stops run low to high; rampColor spreads any number of bins along them.
+const LIGHT_RAMP = ['#f87171', '#dc2626', '#7f1d1d'] as const;
+const DARK_RAMP = ['#fca5a5', '#ef4444', '#991b1b'] as const;
+
+// Forecast windows, earliest to latest ending, in the largest-aftershock chart
+const WINDOW_RAMP = ['#93c5fd', '#3b82f6', '#1e40af'] as const;
 
 const AXIS_LABEL_COLOR = '#6b7280'; // mid-gray, readable in light and dark mode
 const GRID_LINE_COLOR = '#9ca3af40';
 
+/** Choices for the number of synthetic catalogues drawn on the cumulative chart */
+const SIMULATION_COUNTS = [0, 5, 10, 20] as const;
+const SIMULATED_SERIES = 'Simulated catalogues';
+
 const SAVE_AS_IMAGE_TOOLBOX = {
   feature: {
     saveAsImage: { title: 'Save as image' },
@@ -118,8 +153,8 @@ function categoryAxis(categories: string[], name?: string) {
   };
 }
 
-/** Shared numeric time axis (days) */
-function dayAxis(name: string, max?: number) {
+/** Shared numeric time axis, in whatever unit the caller plots */
+function timeAxis(name: string, max?: number) {
   return {
     type: 'value' as const,
     min: 0,
@@ -167,9 +202,14 @@ function pairX(p: TooltipParam): number {
 
 interface VisualizationTabProps {
   results: CalculationResults | null;
+  /** A what-if scenario run on these results, drawn beside them as hypothetical */
+  scenario?: CalculationResults | null;
   modelName?: string;
 }
 
+/** Prefix of every series that shows a what-if scenario */
+const HYPOTHETICAL = 'Hypothetical';
+
 // Helper to parse percentage string to number
 function parsePercentage(str: string): number {
   const match = str.match(/([0-9.]+)/);
@@ -182,12 +222,6 @@ function parseAverage(str: string): number {
   return isNaN(num) ? 0 : num;
 }
 
-// Helper to extract magnitude value from label string (e.g. "M5+" -> 5, "M4-M5" -> 4)
-function getMagValue(label: string): number {
-  const match = label.match(/M([0-9.]+)/);
-  return match ? parseFloat(match[1]) : 0;
-}
-
 // Helper to compute factorial
 function factorial(n: number): number {
   if (n === 0 || n === 1) return 1;
@@ -198,8 +232,8 @@ function factorial(n: number): number {
   return result;
 }
 
-// Helper to compute Poisson probability distribution
-function calculatePoissonDistribution(lambda: number): Array<{ name: string; y: number }> {
+// Helper to compute Poisson (or Poisson-mixture) probability distribution
+function calculatePoissonDistribution(lambda: number, mixture?: CountMixture): Array<{ name: string; y: number }> {
   if (lambda <= 0) {
     return [
       { name: '0', y: 100 },
@@ -210,7 +244,7 @@ function calculatePoissonDistribution(lambda: number): Array<{ name: string; y:
       { name: '5+', y: 0 },
     ];
   }
-  if (lambda > 50) {
+  if (lambda > 50 && !mixture) {
     return [
       { name: '0', y: 0 },
       { name: '1', y: 0 },
@@ -224,7 +258,9 @@ function calculatePoissonDistribution(lambda: number): Array<{ name: string; y:
   const distribution = [];
   let sum = 0;
   for (let k = 0; k <= 4; k++) {
-    const p = (Math.pow(lambda, k) * Math.exp(-lambda)) / factorial(k);
+    const p = mixture
+      ? mixtureCdf(k, lambda, mixture) - (k === 0 ? 0 : mixtureCdf(k - 1, lambda, mixture))
+      : (Math.pow(lambda, k) * Math.exp(-lambda)) / factorial(k);
     const percentage = p * 100;
     distribution.push({
       name: k.toString(),
@@ -241,185 +277,325 @@ function calculatePoissonDistribution(lambda: number): Array<{ name: string; y:
   return distribution;
 }
 
-export default function VisualizationTab({ results, modelName = 'NZ Generic' }: VisualizationTabProps) {
+/** P(>=1) in percent, from the predictive distribution when there is one */
+function probabilityAtLeastOne(lambda: number, mixture?: CountMixture): number {
+  return 100 * (mixture ? mixtureProbabilityAtLeastOne(lambda, mixture) : 1 - Math.exp(-lambda));
+}
+
+/** 95% count range, from the predictive distribution when there is one */
+function countRange(lambda: number, mixture?: CountMixture): string {
+  const low = mixture ? mixtureQuantile(0.025, lambda, mixture) : qpois(0.025, lambda);
+  const high = mixture ? mixtureQuantile(0.975, lambda, mixture) : qpois(0.975, lambda);
+  return `${Math.round(low)}-${Math.round(high)}`;
+}
+
+/**
+ * Plain-language span of a window: "1 week" for one starting at the forecast
+ * start, otherwise "days 2–9 after the forecast start"
+ */
+function windowSpan(window: ForecastWindow): string {
+  if (window.start > 0) return `${forecastWindowLabel(window)} after the forecast start`;
+  if ((window.unit ?? 'days') !== 'days') return forecastWindowLabel(window);
+  const { end } = window;
+  return end === 1 ? '1 day' : end === 7 ? '1 week' : end === 30 ? '1 month' : `${end} days`;
+}
+
+/** "Hours", "Day": capitalised plural or singular name of a unit */
+function unitName(unit: TimeUnit, plural: boolean): string {
+  const name = plural ? unit : unit.slice(0, -1);
+  return name[0].toUpperCase() + name.slice(1);
+}
+
+/** "within 1 week" or "during days 2–9 after the forecast start" */
+function windowPhrase(window: ForecastWindow): string {
+  return `${window.start === 0 ? 'within' : 'during'} ${windowSpan(window)}`;
+}
+
+/**
+ * Continuous model curves (charts 3-6), evaluated from the fitted model so
+ * the plots show the actual Omori decay / Gutenberg-Richter structure
+ */
+function modelCurvesFor(results: CalculationResults) {
+  const thresholds = results.magnitudeThresholds;
+  const { modelParams: mp, mainshockMagnitude: Mm, rangeStartDays: t0, ensemble, additionalSources: sources = [] } = results;
+  // Curves run from the forecast start to the end of the latest window,
+  // plotted in that window's unit (hours for a 12-hour forecast, say)
+  const latest = results.forecasts.reduce((a, f) => (f.window.end > a.end ? f.window : a), results.forecasts[0].window);
+  const maxDur = latest.end;
+  const axisUnit = latest.unit ?? 'days';
+  const unitDays = TIME_UNIT_DAYS[axisUnit];
+  // Thresholds highest first, matching the legend order of the bar charts
+  const descending = thresholds.map((m, index) => ({ index, m })).reverse();
+
+  const STEPS = 60;
+
+  // Daily aftershock rate vs time since mainshock (log-log), covering the
+  // full decay history so the forecast window's position is visible
+  const tauMin = Math.max(0.01, mp.c);
+  // Keep at least one decade of x-range even if a large custom c-value
+  // exceeds the forecast horizon (otherwise the log sampling runs backwards)
+  const tauMax = Math.max(t0 + maxDur, tauMin * 10);
+
+  // ETAS has no closed form: solve once over the plotted range, then query.
+  // An ensemble's expected count and rate are the weighted means of its members'.
+  const etas = results.etasParams ? solveEtas(results.etasParams, Mm, tauMax, [t0, t0 + maxDur], sources) : null;
+  const members = ensemble ?? [{ weight: 1, params: mp }];
+  const N = (m: number, ts: number, te: number) =>
+    etas
+      ? etas.expectedCount(m, ts, te)
+      : members.reduce((sum, { weight, params }) =>
+          sum + weight * calculateExpectedAftershocks(
+            params.a, params.b, Mm, m, combinedOmoriIntegral(ts, te, params, Mm, sources), params.maxMagnitude
+          ), 0);
+  const rate = (m: number, tau: number) =>
+    etas
+      ? etas.rate(m, tau)
+      : members.reduce((sum, { weight, params }) => sum + weight * calculateAftershockRate(params, Mm, m, tau, sources), 0);
+  // Log-spaced samples, plus a run of samples after each later source so
+  // the jump in rate and its own decay are resolved
+  const taus = [
+    ...Array.from({ length: STEPS + 1 }, (_, i) => tauMin * Math.pow(tauMax / tauMin, i / STEPS)),
+    ...sources
+      .filter(source => source.timeDays > tauMin && source.timeDays < tauMax)
+      .flatMap(({ timeDays: ts }) => [
+        ts,
+        ...Array.from({ length: STEPS / 2 }, (_, i) => ts + mp.c * Math.pow((tauMax - ts) / mp.c, i / (STEPS / 2))),
+      ]),
+  ].filter(tau => tau <= tauMax).sort((x, y) => x - y);
+
+  // P(>=1) as a function of elapsed forecast duration
+  const probVsTime = descending.map(({ index, m }) => ({
+    index,
+    label: `M${m}+`,
+    data: Array.from({ length: STEPS }, (_, i) => {
+      const t = (maxDur * (i + 1)) / STEPS;
+      if (ensemble) {
+        const { expected, mixture } = ensembleCount(
+          ensemble, Mm, { minMag: m, maxMag: null }, t0, t0 + t, results.parameterUncertainty, sources
+        );
+        return [t / unitDays, probabilityAtLeastOne(expected, mixture)] as [number, number];
+      }
+      const mixture = results.parameterUncertainty && !etas
+        ? parameterMixture(mp, results.parameterUncertainty, t0, t0 + t, Mm, sources)
+        : undefined;
+      return [t / unitDays, probabilityAtLeastOne(N(m, t0, t0 + t), mixture)] as [number, number];
+    }),
+  }));
+
+  const rateVsTime = descending.map(({ index, m }) => ({
+    index,
+    label: `M${m}+`,
+    data: taus.map(tau => [tau, rate(m, tau)] as [number, number]),
+  }));
+
+  // Cumulative expected count within the forecast window, per magnitude bin
+  const cumulative = thresholds.map((lo, index) => ({
+    index,
+    label: results.rangeLabels[index],
+    data: Array.from({ length: STEPS }, (_, i) => {
+      const t = (maxDur * (i + 1)) / STEPS;
+      const hi = index < thresholds.length - 1 ? thresholds[index + 1] : null;
+      const n = N(lo, t0, t0 + t) - (hi !== null ? N(hi, t0, t0 + t) : 0);
+      return [t / unitDays, n] as [number, number];
+    }),
+  }));
+
+  // Magnitude-frequency (Gutenberg-Richter) relation over the longest window,
+  // running past any maximum magnitude so the roll-off is visible
+  const mMin = thresholds[0];
+  const maxMagnitude = results.etasParams ? undefined : mp.maxMagnitude;
+  const mMax = Math.max(Mm, thresholds[thresholds.length - 1] + 0.5, maxMagnitude ? maxMagnitude.magnitude + 0.3 : -Infinity);
+  const grCurve: Array<[number, number]> = [];
+  for (let i = 0; i <= 40; i++) {
+    const m = mMin + ((mMax - mMin) * i) / 40;
+    const n = N(m, t0, t0 + maxDur);
+    if (n > 1e-9) grCurve.push([m, n]);
+  }
+  const grThresholdPoints = descending.map(({ index, m }) => ({
+    index,
+    value: [m, N(m, t0, t0 + maxDur)] as [number, number],
+  }));
+
+  return { axisUnit, maxDur, axisMax: daysToUnit(maxDur, axisUnit), t0, mMin, tauMin, tauMax, probVsTime, rateVsTime, cumulative, grCurve, grThresholdPoints, maxMagnitude };
+}
+
+export default function VisualizationTab({ results, scenario = null, modelName = 'NZ Generic' }: VisualizationTabProps) {
   const prefersDark = usePrefersDark();
   const RAMP = prefersDark ? DARK_RAMP : LIGHT_RAMP;
 
   // Tab state: 'overview' (USGS Style) or 'charts' (Detailed analysis)
   const [activeSubTab, setActiveSubTab] = useState<'overview' | 'charts'>('overview');
 
-  // Selected duration for the USGS Overview
-  const availableDurations = useMemo(() => {
+  // Selected window for the USGS Overview
+  const availableWindows = useMemo(() => {
     if (!results) return [];
-    return results.forecasts.map(f => f.duration);
+    return results.forecasts.map(f => f.window);
   }, [results]);
 
-  const [selectedDuration, setSelectedDuration] = useState<number>(30);
-
-  // Derive the duration actually shown: fall back to 30 days if available,
-  // otherwise the longest duration (avoids syncing state in an effect)
-  const effectiveDuration = useMemo(() => {
-    if (availableDurations.length === 0) return selectedDuration;
-    if (availableDurations.includes(selectedDuration)) return selectedDuration;
-    return availableDurations.includes(30)
-      ? 30
-      : availableDurations[availableDurations.length - 1];
-  }, [availableDurations, selectedDuration]);
-
-  // Selected magnitude threshold key ('m1', 'm2', 'm3') for Forecast Overview
-  const [selectedMagKey, setSelectedMagKey] = useState<'m1' | 'm2' | 'm3'>('m1');
-
-  // Extract magnitude threshold values dynamically
-  const magVals = useMemo(() => {
-    if (!results) return { m1: 5, m2: 4, m3: 3 };
-    return {
-      m1: getMagValue(results.rangeLabels.range1),
-      m2: getMagValue(results.rangeLabels.range2),
-      m3: getMagValue(results.rangeLabels.range3),
-    };
-  }, [results]);
+  const [selectedWindow, setSelectedWindow] = useState<number | null>(null);
+
+  // Derive the window actually shown: fall back to the first 30 days if the
+  // forecast has it, otherwise the last window (avoids syncing state in an effect)
+  const effectiveWindow = useMemo<ForecastWindow>(() => {
+    if (availableWindows.length === 0) return { start: 0, end: 30 };
+    if (selectedWindow !== null && selectedWindow < availableWindows.length) return availableWindows[selectedWindow];
+    return availableWindows.find(w => w.start === 0 && w.end === 30)
+      ?? availableWindows[availableWindows.length - 1];
+  }, [availableWindows, selectedWindow]);
+  const effectiveWindowIndex = availableWindows.indexOf(effectiveWindow);
+
+  // Ascending magnitude thresholds of the forecast, and the colour of each bin
+  const thresholds = useMemo(() => results?.magnitudeThresholds ?? [], [results]);
+  const binColor = (index: number) => rampColor(RAMP, index, thresholds.length);
+
+  // Selected magnitude threshold for the Forecast Overview; the highest
+  // threshold unless the user picks another that the forecast still has
+  const [selectedThreshold, setSelectedThreshold] = useState<number | null>(null);
+  const selectedIndex = selectedThreshold !== null && thresholds.includes(selectedThreshold)
+    ? thresholds.indexOf(selectedThreshold)
+    : thresholds.length - 1;
 
   // Exact expected counts N(>= M) for the selected window, evaluated from the
-  // model itself rather than by summing the rounded table values
-  const exactLambdas = useMemo(() => {
+  // model itself rather than by summing the rounded table values, each with
+  // its predictive distribution when the forecast carries one (parameter
+  // uncertainty scales every threshold alike; an ensemble's mixture differs
+  // between thresholds)
+  const exactCounts = useMemo((): CountForecast[] | null => {
     if (!results) return null;
-    const { modelParams: mp, mainshockMagnitude: Mm, rangeStartDays: t0 } = results;
-    const N = (m: number) =>
-      calculateExpectedAftershocks(
-        mp.a, mp.b, Mm, m,
-        calculateOmoriIntegral(t0, t0 + effectiveDuration, mp.c, mp.p)
+    const { modelParams: mp, mainshockMagnitude: Mm, rangeStartDays: t0, etasParams, ensemble, parameterUncertainty, additionalSources: sources = [] } = results;
+    const tStart = t0 + effectiveWindow.start;
+    const tEnd = t0 + effectiveWindow.end;
+    if (ensemble) {
+      return thresholds.map(m =>
+        ensembleCount(ensemble, Mm, { minMag: m, maxMag: null }, tStart, tEnd, parameterUncertainty, sources)
       );
-    return { m1: N(magVals.m1), m2: N(magVals.m2), m3: N(magVals.m3) };
-  }, [results, effectiveDuration, magVals]);
+    }
+    const etas = etasParams ? solveEtas(etasParams, Mm, tEnd, [tStart], sources) : null;
+    const mixture = parameterUncertainty && !etas
+      ? parameterMixture(mp, parameterUncertainty, tStart, tEnd, Mm, sources)
+      : undefined;
+    const N = (m: number) =>
+      etas
+        ? etas.expectedCount(m, tStart, tEnd)
+        : calculateExpectedAftershocks(
+            mp.a, mp.b, Mm, m,
+            combinedOmoriIntegral(tStart, tEnd, mp, Mm, sources),
+            mp.maxMagnitude
+          );
+    return thresholds.map(m => ({ expected: N(m), mixture }));
+  }, [results, effectiveWindow, thresholds]);
 
   // Compute selected threshold OAF statistics
   const selectedOafData = useMemo(() => {
-    if (!results || !exactLambdas) return null;
+    if (!results || !exactCounts || selectedIndex < 0) return null;
 
-    const lambda = exactLambdas[selectedMagKey];
-    const magThreshold = magVals[selectedMagKey];
-    const low = qpois(0.025, lambda);
-    const high = qpois(0.975, lambda);
+    const { expected: lambda, mixture } = exactCounts[selectedIndex];
+    const magThreshold = thresholds[selectedIndex];
 
     return {
       lambda,
+      mixture,
       magThreshold,
       label: `M${magThreshold.toFixed(1)}+`,
-      probability: 100 * (1 - Math.exp(-lambda)),
-      range: `${Math.round(low)}-${Math.round(high)}`,
+      probability: probabilityAtLeastOne(lambda, mixture),
+      range: countRange(lambda, mixture),
     };
-  }, [results, exactLambdas, selectedMagKey, magVals]);
+  }, [results, exactCounts, selectedIndex, thresholds]);
 
-  // Compute list of all magnitudes for the selected duration
+  // Compute list of all magnitudes for the selected window
   const summaryList = useMemo(() => {
-    if (!results || !exactLambdas) return [];
+    if (!results || !exactCounts) return [];
 
-    return (['m3', 'm2', 'm1'] as const).map((key) => {
-      const lambda = exactLambdas[key];
+    return thresholds.map((m, index) => {
+      const { expected: lambda, mixture } = exactCounts[index];
       return {
-        key,
-        label: `M${magVals[key].toFixed(1)}+`,
-        probability: 100 * (1 - Math.exp(-lambda)),
+        index,
+        label: `M${m.toFixed(1)}+`,
+        probability: probabilityAtLeastOne(lambda, mixture),
         avg: lambda,
-        range: `${Math.round(qpois(0.025, lambda))}-${Math.round(qpois(0.975, lambda))}`,
+        range: countRange(lambda, mixture),
       };
     });
-  }, [results, exactLambdas, magVals]);
+  }, [results, exactCounts, thresholds]);
 
   // Prepare per-bin data mirroring the results table (charts 1-2)
   const chartData = useMemo(() => {
     if (!results) return null;
 
-    const durations = results.forecasts.map(f => `${f.duration} ${f.duration === 1 ? 'day' : 'days'}`);
-
-    const probM1 = results.forecasts.map(f => parsePercentage(f.m1.probability));
-    const probM2 = results.forecasts.map(f => parsePercentage(f.m2.probability));
-    const probM3 = results.forecasts.map(f => parsePercentage(f.m3.probability));
+    const windows = results.forecasts.map(f => forecastWindowLabel(f.window));
 
-    const avgM1 = results.forecasts.map(f => parseAverage(f.m1.averageNumber));
-    const avgM2 = results.forecasts.map(f => parseAverage(f.m2.averageNumber));
-    const avgM3 = results.forecasts.map(f => parseAverage(f.m3.averageNumber));
+    // One series per magnitude bin (lowest first), one value per window
+    const prob = results.rangeLabels.map((_, i) => results.forecasts.map(f => parsePercentage(f.bins[i].probability)));
+    const avg = results.rangeLabels.map((_, i) => results.forecasts.map(f => parseAverage(f.bins[i].averageNumber)));
 
-    return { durations, probM1, probM2, probM3, avgM1, avgM2, avgM3, rangeLabels: results.rangeLabels };
+    return { windows, prob, avg, rangeLabels: results.rangeLabels };
   }, [results]);
 
-  // Continuous model curves (charts 3-6): evaluated from the fitted model so
-  // the plots show the actual Omori decay / Gutenberg-Richter structure
-  const modelCurves = useMemo(() => {
+  // Continuous model curves, and the same for a what-if scenario
+  const modelCurves = useMemo(() => (results ? modelCurvesFor(results) : null), [results]);
+  const scenarioCurves = useMemo(() => (scenario ? modelCurvesFor(scenario) : null), [scenario]);
+
+  // Largest-aftershock CDF per window (chart 7), from the GR scaling of
+  // N(≥M) about the mainshock magnitude
+  const largestCurves = useMemo(() => {
     if (!results) return null;
-    const { modelParams: mp, mainshockMagnitude: Mm, rangeStartDays: t0 } = results;
-    const maxDur = Math.max(...results.forecasts.map(f => f.duration));
-    const thresholds = [
-      { key: 'm1' as const, m: magVals.m1 },
-      { key: 'm2' as const, m: magVals.m2 },
-      { key: 'm3' as const, m: magVals.m3 },
-    ];
+    const Mm = results.mainshockMagnitude;
+    const mLow = Math.floor(Math.min(...results.largestAftershock.map(l => l.lower)) - 0.5);
+    const mHigh = Math.ceil(Math.max(Mm, ...results.largestAftershock.map(l => l.upper)) + 0.5);
+    const STEPS = 80;
+    // Colour rank: windows ordered by their end, so later windows are darker
+    const ends = results.largestAftershock.map(l => l.window.end).sort((a, b) => a - b);
+    const series = results.largestAftershock.map(l => {
+      const mixtureFor = (params: ModelParameters) => results.parameterUncertainty && !results.etasParams
+        ? parameterMixture(
+            params, results.parameterUncertainty,
+            results.rangeStartDays + l.window.start, results.rangeStartDays + l.window.end,
+            Mm, results.additionalSources
+          )
+        : undefined;
+      // Ensemble members are stored in the same order as results.ensemble
+      const { ensemble } = results;
+      const members = l.members && ensemble
+        ? l.members.map((member, k) => ({ ...member, mixture: mixtureFor(ensemble[k].params) }))
+        : [{ weight: 1, expectedAtMainshock: l.expectedAtMainshock, b: l.b, maxMagnitude: l.maxMagnitude, mixture: mixtureFor(results.modelParams) }];
+      return {
+        rank: ends.indexOf(l.window.end),
+        label: forecastWindowLabel(l.window),
+        data: Array.from({ length: STEPS + 1 }, (_, i) => {
+          const m = mLow + ((mHigh - mLow) * i) / STEPS;
+          return [m, 100 * ensembleLargestMagnitudeCdf(m, Mm, members)] as [number, number];
+        }),
+      };
+    });
+    return { mLow, mHigh, series };
+  }, [results]);
 
-    const N = (m: number, ts: number, te: number) =>
-      calculateExpectedAftershocks(mp.a, mp.b, Mm, m, calculateOmoriIntegral(ts, te, mp.c, mp.p));
-    const rate = (m: number, tau: number) =>
-      Math.pow(10, mp.a + mp.b * (Mm - (m - 0.05))) * Math.pow(tau + mp.c, -mp.p);
-
-    const STEPS = 60;
-
-    // P(>=1) as a function of elapsed forecast duration
-    const probVsTime = thresholds.map(({ key, m }) => ({
-      key,
-      label: `M${m}+`,
-      data: Array.from({ length: STEPS }, (_, i) => {
-        const t = (maxDur * (i + 1)) / STEPS;
-        return [t, 100 * (1 - Math.exp(-N(m, t0, t0 + t)))] as [number, number];
-      }),
-    }));
-
-    // Daily aftershock rate vs time since mainshock (log-log), covering the
-    // full decay history so the forecast window's position is visible
-    const tauMin = Math.max(0.01, mp.c);
-    // Keep at least one decade of x-range even if a large custom c-value
-    // exceeds the forecast horizon (otherwise the log sampling runs backwards)
-    const tauMax = Math.max(t0 + maxDur, tauMin * 10);
-    const rateVsTime = thresholds.map(({ key, m }) => ({
-      key,
-      label: `M${m}+`,
-      data: Array.from({ length: STEPS + 1 }, (_, i) => {
-        const tau = tauMin * Math.pow(tauMax / tauMin, i / STEPS);
-        return [tau, rate(m, tau)] as [number, number];
-      }),
-    }));
-
-    // Cumulative expected count within the forecast window, per magnitude bin
-    const binDefs = [
-      { key: 'm3' as const, label: results.rangeLabels.range3, lo: magVals.m3, hi: magVals.m2 },
-      { key: 'm2' as const, label: results.rangeLabels.range2, lo: magVals.m2, hi: magVals.m1 },
-      { key: 'm1' as const, label: results.rangeLabels.range1, lo: magVals.m1, hi: null },
-    ];
-    const cumulative = binDefs.map(({ key, label, lo, hi }) => ({
-      key,
-      label,
-      data: Array.from({ length: STEPS }, (_, i) => {
-        const t = (maxDur * (i + 1)) / STEPS;
-        const n = N(lo, t0, t0 + t) - (hi !== null ? N(hi, t0, t0 + t) : 0);
-        return [t, n] as [number, number];
-      }),
-    }));
-
-    // Magnitude-frequency (Gutenberg-Richter) relation over the longest window
-    const mMax = Math.max(Mm, magVals.m1 + 0.5);
-    const grCurve: Array<[number, number]> = [];
-    for (let i = 0; i <= 40; i++) {
-      const m = magVals.m3 + ((mMax - magVals.m3) * i) / 40;
-      const n = N(m, t0, t0 + maxDur);
-      if (n > 1e-9) grCurve.push([m, n]);
+  // Synthetic catalogues over the cumulative chart's range (none until asked
+  // for), as staircases of events above the lowest threshold
+  const [simulationCount, setSimulationCount] = useState<number>(0);
+  const [simulationSeed, setSimulationSeed] = useState(1);
+  const simulation = useMemo(() => {
+    if (!results || !modelCurves || simulationCount === 0) return null;
+    const { maxDur, axisUnit, t0 } = modelCurves;
+    try {
+      const catalogues = simulateCatalogues(results, {
+        count: simulationCount,
+        seed: simulationSeed,
+        window: { start: 0, end: maxDur },
+      });
+      const STEPS = 300;
+      const times = Array.from({ length: STEPS + 1 }, (_, i) => (maxDur * i) / STEPS);
+      const staircases = catalogues.map(events => {
+        const counts = cumulativeCounts(events, thresholds[0], times.map(t => t0 + t));
+        return times.map((t, i) => [daysToUnit(t, axisUnit), counts[i]] as [number, number]);
+      });
+      return { catalogues, staircases, error: null };
+    } catch (err) {
+      return { catalogues: [], staircases: [], error: err instanceof Error ? err.message : 'Simulation failed' };
     }
-    const grThresholdPoints = thresholds.map(({ key, m }) => ({
-      key,
-      value: [m, N(m, t0, t0 + maxDur)] as [number, number],
-    }));
+  }, [results, modelCurves, thresholds, simulationCount, simulationSeed]);
 
-    return { maxDur, t0, tauMin, tauMax, probVsTime, rateVsTime, cumulative, grCurve, grThresholdPoints };
-  }, [results, magVals]);
-
-  if (!results || !chartData || !selectedOafData || !modelCurves) {
+  if (!results || !chartData || !selectedOafData || !modelCurves || !largestCurves) {
     return (
       <div className="mt-6 p-8 text-center text-gray-500 dark:text-gray-400">
         <p>Calculate a forecast to see visualizations</p>
@@ -430,7 +606,7 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
   // ---- Overview: Poisson outcome distribution ----
   // The headline metric is P(>=1 event), so the zero-outcome bar is omitted:
   // the bars shown sum to the reported probability of one or more events.
-  const poissonData = calculatePoissonDistribution(selectedOafData.lambda).slice(1);
+  const poissonData = calculatePoissonDistribution(selectedOafData.lambda, selectedOafData.mixture).slice(1);
   const selectedProb = selectedOafData.probability;
   const isHighProb = selectedProb >= 75;
   const isMidProb = selectedProb >= 25 && selectedProb < 75;
@@ -453,7 +629,7 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
       formatter: (params: TooltipParam[]) => {
         const pt = params[0];
         const label = pt.name === '1' ? 'Exactly 1 aftershock' : pt.name === '5+' ? '5 or more aftershocks' : `Exactly ${pt.name} aftershocks`;
-        return `${label} within ${effectiveDuration} ${effectiveDuration === 1 ? 'day' : 'days'}<br/>Probability: <b>${pairY(pt).toFixed(1)}%</b>`;
+        return `${label} ${windowPhrase(effectiveWindow)}<br/>Probability: <b>${pairY(pt).toFixed(1)}%</b>`;
       },
     },
     series: [
@@ -474,18 +650,47 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
     ],
   };
 
+  // A what-if scenario is drawn in the same colours, as hatched bars and
+  // dashed lines, with every series name marked hypothetical
+  const hypothetical = scenario && scenarioCurves ? { results: scenario, curves: scenarioCurves, label: scenarioLabel(scenario) } : null;
+  const hypotheticalName = (name: string) => `${HYPOTHETICAL} ${name}`;
+  // The table's exact string behind a bar, for the forecast or the scenario
+  const tableBin = (seriesName: string | undefined, dataIndex: number | undefined) => {
+    const name = seriesName ?? '';
+    const source = hypothetical && name.startsWith(`${HYPOTHETICAL} `) ? hypothetical.results : results;
+    const bin = results.rangeLabels.indexOf(source === results ? name : name.slice(HYPOTHETICAL.length + 1));
+    return dataIndex !== undefined && bin >= 0 ? source.forecasts[dataIndex].bins[bin] : null;
+  };
+  const hypotheticalBars = (values: (bins: ForecastResult[], i: number) => number) =>
+    hypothetical
+      ? chartData.rangeLabels.map((label, i) => ({
+          name: hypotheticalName(label),
+          type: 'bar',
+          data: hypothetical.results.forecasts.map(f => values(f.bins, i)),
+          itemStyle: {
+            color: binColor(i),
+            opacity: 0.45,
+            borderColor: binColor(i),
+            borderWidth: 1,
+            borderType: 'dashed',
+            borderRadius: [4, 4, 0, 0],
+          },
+        })).reverse()
+      : [];
+  const hypotheticalSubtext = hypothetical ? `; paler bars and dashed lines: ${hypothetical.label}` : '';
+
   // ---- Detailed chart 1: probability of >=1 event per bin and window ----
   const probabilityBarOptions: EChartsCoreOption = {
     backgroundColor: 'transparent',
     title: {
       ...CHART_TITLE_STYLE,
       text: 'Probability of One or More Aftershocks',
-      subtext: `Per magnitude bin and forecast window (model: ${modelName})`,
+      subtext: `Per magnitude bin and forecast window (model: ${modelName})${hypotheticalSubtext}`,
     },
     grid: { top: 80, bottom: 80, left: 65, right: 25 },
     legend: { bottom: 0, textStyle: { color: AXIS_LABEL_COLOR } },
     toolbox: SAVE_AS_IMAGE_TOOLBOX,
-    xAxis: categoryAxis(chartData.durations, 'Forecast Window'),
+    xAxis: categoryAxis(chartData.windows, 'Forecast Window'),
     yAxis: percentAxis('Probability (%)'),
     tooltip: {
       trigger: 'axis',
@@ -495,15 +700,19 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
       formatter: (params: TooltipParam[]) =>
         `${params[0].name}<br/>` +
         params.map(p => {
-          const bin = p.seriesName === results.rangeLabels.range1 ? 'm1' : p.seriesName === results.rangeLabels.range2 ? 'm2' : 'm3';
-          const exact = p.dataIndex !== undefined ? results.forecasts[p.dataIndex][bin].probability : `${pairY(p).toFixed(0)}%`;
+          const exact = tableBin(p.seriesName, p.dataIndex)?.probability ?? `${pairY(p).toFixed(0)}%`;
           return `${p.marker ?? ''}${p.seriesName}: <b>${exact}</b>`;
         }).join('<br/>'),
     },
     series: [
-      { name: chartData.rangeLabels.range1, type: 'bar', data: chartData.probM1, itemStyle: { color: RAMP.m1, borderRadius: [4, 4, 0, 0] } },
-      { name: chartData.rangeLabels.range2, type: 'bar', data: chartData.probM2, itemStyle: { color: RAMP.m2, borderRadius: [4, 4, 0, 0] } },
-      { name: chartData.rangeLabels.range3, type: 'bar', data: chartData.probM3, itemStyle: { color: RAMP.m3, borderRadius: [4, 4, 0, 0] } },
+      // Highest bin first
+      ...chartData.rangeLabels.map((label, i) => ({
+        name: label,
+        type: 'bar',
+        data: chartData.prob[i],
+        itemStyle: { color: binColor(i), borderRadius: [4, 4, 0, 0] },
+      })).reverse(),
+      ...hypotheticalBars((bins, i) => parsePercentage(bins[i].probability)),
     ],
   };
 
@@ -513,12 +722,12 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
     title: {
       ...CHART_TITLE_STYLE,
       text: 'Expected Number of Aftershocks',
-      subtext: `Per magnitude bin and forecast window (model: ${modelName})`,
+      subtext: `Per magnitude bin and forecast window (model: ${modelName})${hypotheticalSubtext}`,
     },
     grid: { top: 80, bottom: 80, left: 65, right: 25 },
     legend: { bottom: 0, textStyle: { color: AXIS_LABEL_COLOR } },
     toolbox: SAVE_AS_IMAGE_TOOLBOX,
-    xAxis: categoryAxis(chartData.durations, 'Forecast Window'),
+    xAxis: categoryAxis(chartData.windows, 'Forecast Window'),
     yAxis: countAxis('Expected Count'),
     tooltip: {
       trigger: 'axis',
@@ -527,15 +736,19 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
       formatter: (params: TooltipParam[]) =>
         `${params[0].name}<br/>` +
         params.map(p => {
-          const bin = p.seriesName === results.rangeLabels.range1 ? 'm1' : p.seriesName === results.rangeLabels.range2 ? 'm2' : 'm3';
-          const exact = p.dataIndex !== undefined ? results.forecasts[p.dataIndex][bin].averageNumber : formatCount(pairY(p));
+          const exact = tableBin(p.seriesName, p.dataIndex)?.averageNumber ?? formatCount(pairY(p));
           return `${p.marker ?? ''}${p.seriesName}: <b>${exact}</b> expected`;
         }).join('<br/>'),
     },
     series: [
-      { name: chartData.rangeLabels.range1, type: 'bar', data: chartData.avgM1, itemStyle: { color: RAMP.m1, borderRadius: [4, 4, 0, 0] } },
-      { name: chartData.rangeLabels.range2, type: 'bar', data: chartData.avgM2, itemStyle: { color: RAMP.m2, borderRadius: [4, 4, 0, 0] } },
-      { name: chartData.rangeLabels.range3, type: 'bar', data: chartData.avgM3, itemStyle: { color: RAMP.m3, borderRadius: [4, 4, 0, 0] } },
+      // Highest bin first
+      ...chartData.rangeLabels.map((label, i) => ({
+        name: label,
+        type: 'bar',
+        data: chartData.avg[i],
+        itemStyle: { color: binColor(i), borderRadius: [4, 4, 0, 0] },
+      })).reverse(),
+      ...hypotheticalBars((bins, i) => parseAverage(bins[i].averageNumber)),
     ],
   };
 
@@ -545,36 +758,49 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
     title: {
       ...CHART_TITLE_STYLE,
       text: 'Probability Growth with Forecast Duration',
-      subtext: 'P(≥1 event) saturates as the window lengthens, computed continuously from the model',
+      subtext: `P(≥1 event) saturates as the window lengthens, computed continuously from the model${hypotheticalSubtext}`,
     },
     grid: { top: 80, bottom: 80, left: 65, right: 25 },
     legend: { bottom: 0, textStyle: { color: AXIS_LABEL_COLOR } },
     toolbox: SAVE_AS_IMAGE_TOOLBOX,
-    xAxis: dayAxis('Days from forecast start', modelCurves.maxDur),
+    xAxis: timeAxis(`${unitName(modelCurves.axisUnit, true)} from forecast start`, modelCurves.axisMax),
     yAxis: percentAxis('Probability of ≥1 event (%)'),
     tooltip: {
       trigger: 'axis',
       formatter: (params: TooltipParam[]) =>
-        `Day ${pairX(params[0]).toFixed(1)}<br/>` +
+        `${unitName(modelCurves.axisUnit, false)} ${pairX(params[0]).toFixed(1)}<br/>` +
         params.map(p => `${p.marker ?? ''}${p.seriesName}: <b>${pairY(p).toFixed(1)}%</b>`).join('<br/>'),
     },
-    series: modelCurves.probVsTime.map(s => ({
-      name: s.label,
-      type: 'line',
-      data: s.data,
-      showSymbol: false,
-      lineStyle: { width: 2, color: RAMP[s.key] },
-      itemStyle: { color: RAMP[s.key] },
-    })),
+    series: [
+      ...modelCurves.probVsTime.map(s => ({
+        name: s.label,
+        type: 'line',
+        data: s.data,
+        showSymbol: false,
+        lineStyle: { width: 2, color: binColor(s.index) },
+        itemStyle: { color: binColor(s.index) },
+      })),
+      ...(hypothetical?.curves.probVsTime ?? []).map(s => ({
+        name: hypotheticalName(s.label),
+        type: 'line',
+        data: s.data,
+        showSymbol: false,
+        lineStyle: { width: 2, type: 'dashed', color: binColor(s.index) },
+        itemStyle: { color: binColor(s.index) },
+      })),
+    ],
   };
 
   // ---- Detailed chart 4: Omori rate decay (log-log) ----
+  const kernel = results.etasParams ? undefined : results.modelParams.kernel;
   const rateDecayOptions: EChartsCoreOption = {
     backgroundColor: 'transparent',
     title: {
       ...CHART_TITLE_STYLE,
-      text: 'Aftershock Rate Decay (Omori–Utsu Law)',
-      subtext: 'Daily rate vs time since mainshock, log–log; the shaded band is the forecast window',
+      text: kernel && kernel.type !== 'omori'
+        ? `Aftershock Rate Decay (${KERNEL_INFO[kernel.type].name})`
+        : 'Aftershock Rate Decay (Omori–Utsu Law)',
+      subtext: `Daily rate vs time since mainshock, log–log; the shaded band is the forecast window${hypotheticalSubtext}`,
     },
     grid: { top: 80, bottom: 80, left: 70, right: 30 },
     legend: { bottom: 0, textStyle: { color: AXIS_LABEL_COLOR } },
@@ -606,27 +832,58 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
         `Day ${pairX(params[0]).toPrecision(3)} after mainshock<br/>` +
         params.map(p => `${p.marker ?? ''}${p.seriesName}: <b>${pairY(p).toPrecision(3)}</b> events/day`).join('<br/>'),
     },
-    series: modelCurves.rateVsTime.map((s, i) => ({
-      name: s.label,
-      type: 'line',
-      data: s.data,
-      showSymbol: false,
-      lineStyle: { width: 2, color: RAMP[s.key] },
-      itemStyle: { color: RAMP[s.key] },
-      ...(i === 0
-        ? {
-            markArea: {
-              silent: true,
-              itemStyle: { color: 'rgba(107, 114, 128, 0.12)' },
-              label: { color: AXIS_LABEL_COLOR, fontSize: 11 },
-              data: [[
-                { name: 'Forecast window', xAxis: Math.max(modelCurves.t0, modelCurves.tauMin) },
-                { xAxis: modelCurves.tauMax },
-              ]],
-            },
-          }
-        : {}),
-    })),
+    series: [
+      ...modelCurves.rateVsTime.map((s, i) => ({
+        name: s.label,
+        type: 'line',
+        data: s.data,
+        showSymbol: false,
+        lineStyle: { width: 2, color: binColor(s.index) },
+        itemStyle: { color: binColor(s.index) },
+        ...(i === 0
+          ? {
+              markArea: {
+                silent: true,
+                itemStyle: { color: 'rgba(107, 114, 128, 0.12)' },
+                label: { color: AXIS_LABEL_COLOR, fontSize: 11 },
+                data: [[
+                  { name: 'Forecast window', xAxis: Math.max(modelCurves.t0, modelCurves.tauMin) },
+                  { xAxis: modelCurves.tauMax },
+                ]],
+              },
+              // Additional source events, each starting its own decay
+              markLine: {
+                silent: true,
+                symbol: 'none',
+                lineStyle: { type: 'dashed', color: AXIS_LABEL_COLOR },
+                label: { color: AXIS_LABEL_COLOR, fontSize: 11, formatter: '{b}' },
+                data: (results.additionalSources ?? [])
+                  .filter(source => source.timeDays > modelCurves.tauMin && source.timeDays < modelCurves.tauMax)
+                  .map(source => ({ name: `M${source.magnitude}`, xAxis: source.timeDays })),
+              },
+            }
+          : {}),
+      })),
+      ...(hypothetical?.curves.rateVsTime ?? []).map((s, i) => ({
+        name: hypotheticalName(s.label),
+        type: 'line',
+        data: s.data,
+        showSymbol: false,
+        lineStyle: { width: 2, type: 'dashed', color: binColor(s.index) },
+        itemStyle: { color: binColor(s.index) },
+        ...(i === 0 && hypothetical?.results.scenario
+          ? {
+              markLine: {
+                silent: true,
+                symbol: 'none',
+                lineStyle: { type: 'dashed', color: AXIS_LABEL_COLOR },
+                label: { color: AXIS_LABEL_COLOR, fontSize: 11, formatter: '{b}' },
+                data: [{ name: `${HYPOTHETICAL} M${hypothetical.results.scenario.magnitude}`, xAxis: hypothetical.results.scenario.timeDays }],
+              },
+            }
+          : {}),
+      })),
+    ],
   };
 
   // ---- Detailed chart 5: cumulative expected count over the window ----
@@ -635,29 +892,78 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
     title: {
       ...CHART_TITLE_STYLE,
       text: 'Cumulative Expected Aftershocks',
-      subtext: 'Stacked by magnitude bin; growth slows as the sequence decays',
+      subtext: (simulation?.staircases.length
+        ? `Stacked by magnitude bin; grey lines are simulated M${thresholds[0]}+ catalogues`
+        : 'Stacked by magnitude bin; growth slows as the sequence decays') + hypotheticalSubtext,
     },
     grid: { top: 80, bottom: 80, left: 65, right: 25 },
     legend: { bottom: 0, textStyle: { color: AXIS_LABEL_COLOR } },
     toolbox: SAVE_AS_IMAGE_TOOLBOX,
-    xAxis: dayAxis('Days from forecast start', modelCurves.maxDur),
+    xAxis: timeAxis(`${unitName(modelCurves.axisUnit, true)} from forecast start`, modelCurves.axisMax),
     yAxis: countAxis('Cumulative Expected Count'),
     tooltip: {
       trigger: 'axis',
-      formatter: (params: TooltipParam[]) =>
-        `Day ${pairX(params[0]).toFixed(1)}<br/>` +
-        params.map(p => `${p.marker ?? ''}${p.seriesName}: <b>${formatCount(pairY(p))}</b> expected`).join('<br/>'),
+      formatter: (params: TooltipParam[]) => {
+        const expected = params.filter(p => p.seriesName !== SIMULATED_SERIES);
+        const simulated = params.filter(p => p.seriesName === SIMULATED_SERIES).map(pairY);
+        return `${unitName(modelCurves.axisUnit, false)} ${pairX(params[0]).toFixed(1)}<br/>` +
+          expected.map(p => `${p.marker ?? ''}${p.seriesName}: <b>${formatCount(pairY(p))}</b> expected`).join('<br/>') +
+          (simulated.length > 0
+            ? `<br/>${SIMULATED_SERIES} (M${thresholds[0]}+): <b>${Math.min(...simulated)}–${Math.max(...simulated)}</b> events`
+            : '');
+      },
     },
-    series: modelCurves.cumulative.map(s => ({
-      name: s.label,
-      type: 'line',
-      stack: 'total',
-      areaStyle: { opacity: 0.35 },
-      showSymbol: false,
-      data: s.data,
-      lineStyle: { width: 2, color: RAMP[s.key] },
-      itemStyle: { color: RAMP[s.key] },
-    })),
+    series: [
+      ...modelCurves.cumulative.map(s => ({
+        name: s.label,
+        type: 'line',
+        stack: 'total',
+        areaStyle: { opacity: 0.35 },
+        showSymbol: false,
+        data: s.data,
+        lineStyle: { width: 2, color: binColor(s.index) },
+        itemStyle: { color: binColor(s.index) },
+      })),
+      ...(hypothetical?.curves.cumulative ?? []).map(s => ({
+        name: hypotheticalName(s.label),
+        type: 'line',
+        stack: 'hypothetical',
+        showSymbol: false,
+        data: s.data,
+        lineStyle: { width: 2, type: 'dashed', color: binColor(s.index) },
+        itemStyle: { color: binColor(s.index) },
+      })),
+      ...(simulation?.staircases ?? []).map(data => ({
+        name: SIMULATED_SERIES,
+        type: 'line',
+        step: 'end',
+        showSymbol: false,
+        data,
+        lineStyle: { width: 1, color: AXIS_LABEL_COLOR, opacity: 0.6 },
+        itemStyle: { color: AXIS_LABEL_COLOR },
+      })),
+    ],
+  };
+
+  // Download the simulated catalogues, one row per event
+  const downloadSimulation = () => {
+    if (!simulation || simulation.catalogues.length === 0) return;
+    const quakeTime = Date.parse(results.quakeTimeISO);
+    const lines = [
+      `# Synthetic aftershock catalogues: ${modelName}, seed ${simulationSeed}`,
+      `# ${simulation.catalogues.length} catalogues of M${thresholds[0]}+ events over the first ${formatTimeSpan(modelCurves.axisMax, modelCurves.axisUnit)} from the forecast start`,
+      '',
+      'Catalogue,Days after mainshock,Origin time (UTC),Magnitude',
+      ...simulation.catalogues.flatMap((events, k) => events.map(e =>
+        [k + 1, e.timeDays.toFixed(5), new Date(quakeTime + e.timeDays * 86400000).toISOString(), e.magnitude.toFixed(1)].join(',')
+      )),
+    ];
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `synthetic-catalogues-${results.quakeId}-seed${simulationSeed}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
   };
 
   // ---- Detailed chart 6: magnitude-frequency (Gutenberg-Richter) relation ----
@@ -666,14 +972,17 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
     title: {
       ...CHART_TITLE_STYLE,
       text: 'Magnitude–Frequency Relation (Gutenberg–Richter)',
-      subtext: `Expected count of events ≥ M in the ${modelCurves.maxDur}-day window; the straight line reflects the b-value`,
+      subtext: `Expected count of events ≥ M in the first ${formatTimeSpan(modelCurves.axisMax, modelCurves.axisUnit)} from the forecast start; ` +
+        (modelCurves.maxMagnitude
+          ? `the slope reflects the b-value, bending down towards the ${modelCurves.maxMagnitude.kind === 'truncated' ? 'maximum' : 'corner'} magnitude (M${modelCurves.maxMagnitude.magnitude})`
+          : 'the straight line reflects the b-value'),
     },
     grid: { top: 80, bottom: 80, left: 70, right: 30 },
     legend: { bottom: 0, textStyle: { color: AXIS_LABEL_COLOR } },
     toolbox: SAVE_AS_IMAGE_TOOLBOX,
     xAxis: {
       type: 'value',
-      min: magVals.m3,
+      min: modelCurves.mMin,
       name: 'Magnitude threshold M',
       nameLocation: 'middle',
       nameGap: 30,
@@ -705,15 +1014,15 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
         type: 'line',
         data: modelCurves.grCurve,
         showSymbol: false,
-        lineStyle: { width: 2, color: RAMP.m2 },
-        itemStyle: { color: RAMP.m2 },
+        lineStyle: { width: 2, color: RAMP[1] },
+        itemStyle: { color: RAMP[1] },
       },
       {
         name: 'Report thresholds',
         type: 'line',
         data: modelCurves.grThresholdPoints.map(p => ({
           value: p.value,
-          itemStyle: { color: RAMP[p.key] },
+          itemStyle: { color: binColor(p.index) },
         })),
         lineStyle: { opacity: 0 },
         symbol: 'circle',
@@ -722,6 +1031,57 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
     ],
   };
 
+  // ---- Detailed chart 7: largest aftershock magnitude (CDF) ----
+  const windowColor = (index: number) => rampColor(WINDOW_RAMP, index, largestCurves.series.length);
+  const largestOptions: EChartsCoreOption = {
+    backgroundColor: 'transparent',
+    title: {
+      ...CHART_TITLE_STYLE,
+      text: 'Largest Aftershock Magnitude',
+      subtext: `Probability that the largest aftershock is below M, per window; the dashed line marks the mainshock (M${results.mainshockMagnitude})`,
+    },
+    grid: { top: 80, bottom: 80, left: 65, right: 30 },
+    legend: { bottom: 0, textStyle: { color: AXIS_LABEL_COLOR } },
+    toolbox: SAVE_AS_IMAGE_TOOLBOX,
+    xAxis: {
+      type: 'value',
+      min: largestCurves.mLow,
+      max: largestCurves.mHigh,
+      name: 'Magnitude M',
+      nameLocation: 'middle',
+      nameGap: 30,
+      nameTextStyle: { color: AXIS_LABEL_COLOR },
+      axisLabel: { color: AXIS_LABEL_COLOR },
+      splitLine: { lineStyle: { color: GRID_LINE_COLOR } },
+    },
+    yAxis: percentAxis('P(largest < M) (%)'),
+    tooltip: {
+      trigger: 'axis',
+      formatter: (params: TooltipParam[]) =>
+        `M ${pairX(params[0]).toFixed(2)}<br/>` +
+        params.map(p => `${p.marker ?? ''}${p.seriesName}: <b>${pairY(p).toFixed(1)}%</b> below`).join('<br/>'),
+    },
+    series: largestCurves.series.map((s, i) => ({
+      name: s.label,
+      type: 'line',
+      data: s.data,
+      showSymbol: false,
+      lineStyle: { width: 2, color: windowColor(s.rank) },
+      itemStyle: { color: windowColor(s.rank) },
+      ...(i === 0
+        ? {
+            markLine: {
+              silent: true,
+              symbol: 'none',
+              lineStyle: { color: AXIS_LABEL_COLOR, type: 'dashed' },
+              label: { color: AXIS_LABEL_COLOR, formatter: 'Mainshock' },
+              data: [{ xAxis: results.mainshockMagnitude }],
+            },
+          }
+        : {}),
+    })),
+  };
+
   // Dynamic Gauge parameters
   const radius = 64;
   const strokeWidth = 10;
@@ -784,30 +1144,30 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
                     </label>
                     <select
                       id="oaf-magnitude"
-                      value={selectedMagKey}
-                      onChange={(e) => setSelectedMagKey(e.target.value as 'm1' | 'm2' | 'm3')}
+                      value={thresholds[selectedIndex]}
+                      onChange={(e) => setSelectedThreshold(parseFloat(e.target.value))}
                       className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
                     >
-                      <option value="m3">M{magVals.m3.toFixed(1)}+</option>
-                      <option value="m2">M{magVals.m2.toFixed(1)}+</option>
-                      <option value="m1">M{magVals.m1.toFixed(1)}+</option>
+                      {thresholds.map(m => (
+                        <option key={m} value={m}>M{m.toFixed(1)}+</option>
+                      ))}
                     </select>
                   </div>
 
-                  {/* Duration Selector */}
+                  {/* Window Selector */}
                   <div>
                     <label htmlFor="oaf-duration" className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">
                       Forecast Period
                     </label>
                     <select
                       id="oaf-duration"
-                      value={effectiveDuration}
-                      onChange={(e) => setSelectedDuration(parseInt(e.target.value))}
+                      value={effectiveWindowIndex}
+                      onChange={(e) => setSelectedWindow(parseInt(e.target.value))}
                       className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
                     >
-                      {availableDurations.map(dur => (
-                        <option key={dur} value={dur}>
-                          {dur === 1 ? '1 Day' : dur === 7 ? '1 Week' : dur === 30 ? '1 Month' : `${dur} Days`}
+                      {availableWindows.map((w, i) => (
+                        <option key={i} value={i}>
+                          {w.start === 0 ? windowSpan(w) : forecastWindowLabel(w)}
                         </option>
                       ))}
                     </select>
@@ -869,7 +1229,7 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
                     Probability of 1 or more aftershocks
                   </p>
                   <p className="text-sm font-semibold text-gray-700 dark:text-gray-300 mt-0.5">
-                    {selectedOafData.label} within {effectiveDuration === 1 ? '1 day' : effectiveDuration === 7 ? '1 week' : effectiveDuration === 30 ? '1 month' : `${effectiveDuration} days`}
+                    {selectedOafData.label} {windowPhrase(effectiveWindow)}
                   </p>
                 </div>
               </div>
@@ -890,9 +1250,9 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
                       {selectedProb < 1 ? 'less than 1%' : selectedProb > 99 ? 'greater than 99%' : `${Math.round(selectedProb)}%`} chance
                     </span>{' '}
                     of one or more aftershocks of magnitude{' '}
-                    <span className="font-bold text-gray-900 dark:text-white">{selectedOafData.label}</span> occurring within the next{' '}
+                    <span className="font-bold text-gray-900 dark:text-white">{selectedOafData.label}</span> occurring {effectiveWindow.start === 0 ? 'within the next' : 'during'}{' '}
                     <span className="font-bold text-gray-900 dark:text-white">
-                      {effectiveDuration === 1 ? '1 day' : effectiveDuration === 7 ? '1 week' : effectiveDuration === 30 ? '1 month' : `${effectiveDuration} days`}
+                      {windowSpan(effectiveWindow)}
                     </span>
                     .
                   </p>
@@ -923,7 +1283,7 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
               {/* Summary of all Magnitude Thresholds */}
               <div>
                 <h4 className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-2">
-                  All Thresholds (within {effectiveDuration === 1 ? '1 day' : effectiveDuration === 7 ? '1 week' : effectiveDuration === 30 ? '1 month' : `${effectiveDuration} days`})
+                  All Thresholds ({windowPhrase(effectiveWindow)})
                 </h4>
                 <div className="overflow-hidden border border-gray-150 dark:border-gray-700 rounded-lg">
                   <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
@@ -946,10 +1306,10 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
                     <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-150 dark:divide-gray-700">
                       {summaryList.map((item) => (
                         <tr
-                          key={item.key}
-                          onClick={() => setSelectedMagKey(item.key)}
+                          key={item.index}
+                          onClick={() => setSelectedThreshold(thresholds[item.index])}
                           className={`cursor-pointer hover:bg-blue-50/50 dark:hover:bg-blue-900/5 transition-colors ${
-                            selectedMagKey === item.key ? 'bg-blue-50/30 dark:bg-blue-900/10 font-medium' : ''
+                            selectedIndex === item.index ? 'bg-blue-50/30 dark:bg-blue-900/10 font-medium' : ''
                           }`}
                         >
                           <td className="px-4 py-2 text-sm text-gray-900 dark:text-white font-semibold">
@@ -991,7 +1351,7 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
                 <InfoTooltip content={LIKELY_NUMBER_TOOLTIP} />
               </h3>
               <p className="text-xs text-gray-500 dark:text-gray-400">
-                Within {effectiveDuration} {effectiveDuration === 1 ? 'day' : 'days'}; the bars sum to the reported{' '}
+                {windowPhrase(effectiveWindow).replace(/^./, c => c.toUpperCase())}; the bars sum to the reported{' '}
                 {selectedProb < 1 ? '<1' : selectedProb > 99 ? '>99' : Math.round(selectedProb)}% probability of one or more events
               </p>
             </div>
@@ -999,7 +1359,7 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
           </div>
         </div>
       ) : (
-        /* Detailed grid of 6 charts */
+        /* Detailed grid of 7 charts */
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Probability by bin and window */}
           <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow border border-gray-200 dark:border-gray-700">
@@ -1024,12 +1384,59 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
           {/* Cumulative expected count */}
           <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow border border-gray-200 dark:border-gray-700">
             <ReactEChartsCore echarts={echarts} option={cumulativeOptions} notMerge style={{ height: 350, width: '100%' }} />
+            <div className="mt-2 flex flex-wrap items-end gap-3 text-sm">
+              <div>
+                <label htmlFor="simulation-count" className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">
+                  Simulated catalogues
+                </label>
+                <select
+                  id="simulation-count"
+                  value={simulationCount}
+                  onChange={(e) => setSimulationCount(parseInt(e.target.value))}
+                  className="bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg px-3 py-1.5 text-sm text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {SIMULATION_COUNTS.map(n => (
+                    <option key={n} value={n}>{n === 0 ? 'None' : n}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="simulation-seed" className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">
+                  Seed
+                </label>
+                <input
+                  id="simulation-seed"
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={simulationSeed}
+                  onChange={(e) => setSimulationSeed(Math.max(0, parseInt(e.target.value) || 0))}
+                  className="w-24 bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg px-3 py-1.5 text-sm text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <button
+                onClick={downloadSimulation}
+                disabled={!simulation || simulation.catalogues.length === 0}
+                className="px-3 py-1.5 bg-gray-500 text-white text-sm rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+                aria-label="Download the simulated catalogues as CSV"
+              >
+                Download CSV
+              </button>
+            </div>
+            {simulation?.error && (
+              <p className="mt-2 text-xs text-red-600 dark:text-red-400" role="alert">{simulation.error}</p>
+            )}
           </div>
 
           {/* Gutenberg-Richter magnitude-frequency relation */}
           <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow border border-gray-200 dark:border-gray-700">
             <ReactEChartsCore echarts={echarts} option={grOptions} notMerge style={{ height: 350, width: '100%' }} />
           </div>
+
+          {/* Largest aftershock magnitude distribution */}
+          <div className="lg:col-span-2 bg-white dark:bg-gray-800 p-4 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+            <ReactEChartsCore echarts={echarts} option={largestOptions} notMerge style={{ height: 350, width: '100%' }} />
+          </div>
         </div>
       )}
 
@@ -1037,11 +1444,12 @@ export default function VisualizationTab({ results, modelName = 'NZ Generic' }:
       <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800">
         <h3 className="font-semibold text-blue-800 dark:text-blue-300 mb-2">Understanding the Charts</h3>
         <ul className="text-sm text-blue-700 dark:text-blue-400 space-y-1 list-disc list-inside">
-          <li><strong>Probability:</strong> The likelihood of at least one aftershock of the selected size or larger, computed as 1&nbsp;&minus;&nbsp;e<sup>&minus;N</sup> under Poisson statistics.</li>
-          <li><strong>Expected count:</strong> The mean number of aftershocks (N) predicted by the Reasenberg&ndash;Jones model.</li>
-          <li><strong>Rate decay:</strong> The Omori&ndash;Utsu law, a straight line on log&ndash;log axes with slope &minus;p, showing where the forecast window sits on the sequence&rsquo;s decay history.</li>
-          <li><strong>Magnitude&ndash;frequency:</strong> The Gutenberg&ndash;Richter relation, a straight line on the log axis whose slope is the b-value; each unit decrease in magnitude multiplies expected counts by ~10<sup>b</sup>.</li>
-          <li><strong>Darker red = larger magnitude</strong> in all multi-series charts; the exact values behind every chart are available in the Table View.</li>
+          <li><strong>Probability:</strong> The likelihood of at least one aftershock of the selected size or larger, computed as 1&nbsp;&minus;&nbsp;e<sup>&minus;N</sup> under Poisson statistics, or from the predictive distribution when the forecast includes parameter uncertainty.</li>
+          <li><strong>Expected count:</strong> The mean number of aftershocks (N) predicted by the selected model: Reasenberg&ndash;Jones, or ETAS, which adds aftershocks of aftershocks.</li>
+          <li><strong>Rate decay:</strong> The Omori&ndash;Utsu law, a straight line on log&ndash;log axes with slope &minus;p (or the selected alternative decay kernel), showing where the forecast window sits on the sequence&rsquo;s decay history. Each additional source event (dashed line) starts a decay of its own, added to the mainshock&rsquo;s.</li>
+          <li><strong>Magnitude&ndash;frequency:</strong> The Gutenberg&ndash;Richter relation, a straight line on the log axis whose slope is the b-value; each unit decrease in magnitude multiplies expected counts by ~10<sup>b</sup>. With a maximum magnitude the line bends down to zero at it (truncated) or rolls off around it (tapered).</li>
+          <li><strong>Largest aftershock:</strong> The probability that no aftershock in a window reaches magnitude M, e<sup>&minus;N(&ge;M)</sup>; where a curve crosses the mainshock line, one minus its value is the chance of an event at least as large as the mainshock.</li>
+          <li><strong>Darker red = larger magnitude</strong> in all magnitude-bin charts (darker blue = later-ending window in the largest-aftershock chart); the exact values behind every chart are available in the Table View.</li>
         </ul>
       </div>
     </div>
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { validateQuakeId, calculateInitialMagnitudeRanges } from './api';
+import { validateQuakeId, calculateInitialMagnitudeThresholds } from './api';
 
 describe('validateQuakeId', () => {
   it('accepts typical GeoNet IDs', () => {
@@ -22,17 +22,18 @@ describe('validateQuakeId', () => {
   });
 });
 
-describe('calculateInitialMagnitudeRanges', () => {
+describe('calculateInitialMagnitudeThresholds', () => {
   it('rounds down from the mainshock magnitude', () => {
-    expect(calculateInitialMagnitudeRanges(7.8)).toEqual({ m1: 7, m2: 6, m3: 5 });
-    expect(calculateInitialMagnitudeRanges(5.5)).toEqual({ m1: 5, m2: 4, m3: 3 });
+    expect(calculateInitialMagnitudeThresholds(7.8)).toEqual([5, 6, 7]);
+    expect(calculateInitialMagnitudeThresholds(5.5)).toEqual([3, 4, 5]);
   });
 
-  it('clamps at the bottom for small magnitudes', () => {
-    expect(calculateInitialMagnitudeRanges(1.2)).toEqual({ m1: 1, m2: 1, m3: 1 });
+  it('drops thresholds below 1 for small magnitudes', () => {
+    expect(calculateInitialMagnitudeThresholds(1.2)).toEqual([1]);
+    expect(calculateInitialMagnitudeThresholds(2.6)).toEqual([1, 2]);
   });
 
-  it('clamps M1 at 9 for extreme magnitudes', () => {
-    expect(calculateInitialMagnitudeRanges(9.9)).toEqual({ m1: 9, m2: 8, m3: 7 });
+  it('clamps the highest threshold at 9 for extreme magnitudes', () => {
+    expect(calculateInitialMagnitudeThresholds(9.9)).toEqual([7, 8, 9]);
   });
 });
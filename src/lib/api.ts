@@ -121,6 +121,7 @@ export async function fetchQuakeData(quakeId: string): Promise<QuakeData> {
       quakeTime: quake.time,
       longitude: hasLocation ? coords[0] : undefined,
       latitude: hasLocation ? coords[1] : undefined,
+      depth: typeof quake.depth === 'number' && Number.isFinite(quake.depth) ? quake.depth : undefined,
     };
   } catch (error) {
     clearTimeout(timeoutId);
@@ -246,19 +247,12 @@ export async function fetchObservedCatalog(
 }
 
 /**
- * Calculate initial magnitude ranges based on main shock magnitude
- * M1 is the highest threshold, M3 is the lowest
+ * Initial magnitude thresholds based on the main shock magnitude: up to three
+ * whole magnitudes below it, in ascending order
  */
-export function calculateInitialMagnitudeRanges(magnitude: number): {
-  m1: number;
-  m2: number;
-  m3: number;
-} {
+export function calculateInitialMagnitudeThresholds(magnitude: number): number[] {
   // Round down from main shock magnitude
-  const m1 = Math.max(1, Math.min(9, Math.round(magnitude - 0.5)));
-  const m2 = Math.max(1, m1 - 1);
-  const m3 = Math.max(1, m1 - 2);
-
-  return { m1, m2, m3 };
+  const top = Math.max(1, Math.min(9, Math.round(magnitude - 0.5)));
+  return [top - 2, top - 1, top].filter(m => m >= 1);
 }
 
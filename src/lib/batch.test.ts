@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  batchCatalogWindow,
+  batchSpanDays,
+  independentMainshocks,
+  parseQuakeIdList,
+  runSequences,
+  scoreSequence,
+  summariseBatch,
+  validateBatchIds,
+  validateSequenceSelection,
+  MAX_BATCH_SEQUENCES,
+  type BatchMainshock,
+  type BatchSettings,
+  type SequenceOutcome,
+} from './batch';
+import { ApiError } from './api';
+import { expectedCountForBin, type ObservedEvent } from './evaluation';
+import { MODEL_PRESETS } from '@/types';
+
+const DAY = 86_400_000;
+
+const settings: BatchSettings = {
+  params: MODEL_PRESETS.nz,
+  thresholds: [3, 4],
+  multiplier: 1,
+  leadDays: [1, 7],
+  durationDays: 7,
+};
+
+const mainshock: BatchMainshock = {
+  quakeId: 'main',
+  magnitude: 6,
+  timeMs: Date.parse('2024-01-01T00:00:00Z'),
+  latitude: -42,
+  longitude: 173,
+};
+
+const event = (publicId: string, days: number, magnitude: number, latitude = -42, longitude = 173): ObservedEvent => ({
+  publicId,
+  timeMs: mainshock.timeMs + days * DAY,
+  magnitude,
+  latitude,
+  longitude,
+  depthKm: 10,
+});
+
+describe('batch evaluation', () => {
+  it('parses and checks a list of quake IDs', () => {
+    expect(parseQuakeIdList(' 2016p858000, 2022p138188\n2016p858000;abc ')).toEqual(['2016p858000', '2022p138188', 'abc']);
+    expect(validateBatchIds(['2016p858000'])).toEqual([]);
+    expect(validateBatchIds([])).toHaveLength(1);
+    expect(validateBatchIds(['2016p858000', 'abc', 'x!'])).toEqual(['Invalid quake IDs: abc, x!']);
+    expect(validateBatchIds(Array.from({ length: MAX_BATCH_SEQUENCES + 1 }, (_, i) => `2020p${100000 + i}`))).toHaveLength(1);
+  });
+
+  it('checks a catalogue query for mainshocks', () => {
+    const query = {
+      mode: 'query' as const, ids: '', minMagnitude: '5.5', start: '2010-01-01', end: '2020-01-01',
+      minLat: '-48', maxLat: '-34', minLon: '165', maxLon: '185',
+    };
+    expect(validateSequenceSelection(query)).toEqual([]);
+    expect(validateSequenceSelection({ ...query, minMagnitude: '2', end: '2009-01-01', minLon: '190' })).toHaveLength(3);
+    expect(validateSequenceSelection({ ...query, mode: 'ids' })).toHaveLength(1);
+  });
+
+  it('drops queried events inside the span and region of a larger earlier one', () => {
+    const kept = independentMainshocks([
+      event('aftershock', 3, 5.5),
+      event('main', 0, 6),
+      event('far', 3, 5.2, -38, 176),
+      event('later', 40, 5.5),
+      event('foreshock', -1, 5),
+    ], settings.multiplier, batchSpanDays(settings).end);
+    expect(kept.map(m => m.quakeId)).toEqual(['foreshock', 'main', 'far', 'later']);
+  });
+
+  it('scores only the forecasts that have ended', () => {
+    const catalog = [event('main', 0, 6), event('a', 2, 3.5), event('b', 3, 4.2), event('c', 9, 3.1), event('distant', 2, 4, -45, 170)];
+    // Eight days on: the forecast issued at one day has ended, the one at seven has not
+    const nowMs = mainshock.timeMs + 8 * DAY;
+    expect(batchCatalogWindow(mainshock, settings, nowMs)).toEqual({
+      start: new Date(mainshock.timeMs + DAY),
+      end: new Date(nowMs),
+    });
+    expect(batchCatalogWindow(mainshock, settings, mainshock.timeMs + 5 * DAY)).toBeNull();
+
+    const forecasts = scoreSequence(mainshock, settings, catalog, nowMs);
+    expect(forecasts.map(f => [f.leadDays, f.binLabel, f.evaluation.observed])).toEqual([[1, 'M3-M4', 1], [1, 'M4+', 1]]);
+    expect(forecasts[0].evaluation.expected).toBeCloseTo(
+      expectedCountForBin(MODEL_PRESETS.nz, 6, { minMag: 3, maxMag: 4 }, 1, 8), 12
+    );
+    const later = scoreSequence(mainshock, settings, catalog, mainshock.timeMs + 20 * DAY);
+    expect(later.filter(f => f.leadDays === 7).map(f => f.evaluation.observed)).toEqual([1, 0]);
+  });
+
+  it('pools the scores overall and per lead time', () => {
+    const forecasts = scoreSequence(mainshock, settings, [event('a', 2, 3.5)], mainshock.timeMs + 20 * DAY);
+    const summary = summariseBatch(forecasts);
+    expect(summary.overall.forecasts).toBe(4);
+    expect(summary.overall.observed).toBe(1);
+    expect(summary.overall.meanBrier).toBeCloseTo(forecasts.reduce((s, f) => s + f.evaluation.brier, 0) / 4, 12);
+    expect(summary.byLead.map(l => [l.leadDays, l.scores.forecasts])).toEqual([[1, 2], [7, 2]]);
+    expect(summary.calibration.reduce((s, b) => s + b.count, 0)).toBe(4);
+    expect(summary.decomposition.brier).toBeCloseTo(summary.overall.meanBrier, 12);
+    expect(() => summariseBatch([])).toThrow();
+  });
+
+  it('runs the sequences in turn, noting the ones that have no result or fail', async () => {
+    const jobs = ['x', 'y', 'z', 'w'].map(quakeId => ({ ...mainshock, quakeId }));
+    const outcomes: SequenceOutcome<number>[] = [];
+    const progress: number[] = [];
+    await runSequences<number>(jobs, async m => {
+      if (m.quakeId === 'y') return { note: 'Too early' };
+      if (m.quakeId === 'z') throw new ApiError('GeoNet is down', 'NETWORK_ERROR');
+      if (m.quakeId === 'w') throw new Error('boom');
+      return { result: 1 };
+    }, {
+      onProgress: p => progress.push(p.done),
+      onOutcome: o => outcomes.push(o),
+      isCancelled: () => false,
+    }, 'Failed');
+    expect(progress).toEqual([0, 1, 2, 3]);
+    expect(outcomes.map(o => [o.quakeId, o.result, o.note])).toEqual([
+      ['x', 1, null], ['y', null, 'Too early'], ['z', null, 'GeoNet is down'], ['w', null, 'Failed'],
+    ]);
+    expect(outcomes.every(o => o.mainshock !== null)).toBe(true);
+
+    const stopped: SequenceOutcome<number>[] = [];
+    await runSequences<number>(jobs, async () => ({ result: 1 }), {
+      onProgress: () => {},
+      onOutcome: o => stopped.push(o),
+      isCancelled: () => stopped.length >= 2,
+    }, 'Failed');
+    expect(stopped).toHaveLength(2);
+  });
+});
@@ -0,0 +1,395 @@
+// Pseudo-prospective batch evaluation
+//
+// Replays the forecast over many past sequences: for each mainshock it is
+// issued at fixed lead times, from what was known then, and scored against
+// what GeoNet recorded afterwards. One sequence says little; pass rates,
+// mean scores and calibration pooled over many show how the model performs.
+//
+// Documented assumptions:
+// - Each forecast is a point Reasenberg–Jones forecast from the chosen
+//   model's generic parameters and the mainshock's catalogue magnitude.
+//   Nothing recorded after the mainshock is used, so it is the forecast that
+//   could have been issued at the lead time (the final catalogue magnitude
+//   stands in for the one available then).
+// - The magnitude bins are the same for every sequence, so their scores pool.
+// - Each sequence is scored in the circle of radius k × rupture length about
+//   its epicentre, with the mainshock excluded (see evaluation.ts).
+// - Only forecast windows that have ended are scored.
+// - Mainshocks found by query are declustered: an event is dropped when a
+//   larger or equal one occurred within the batch span before it and within
+//   that event's region, so aftershocks of one sequence are not scored as
+//   sequences of their own.
+// - Short-term incompleteness is not modelled; at low thresholds the first
+//   lead time after a large mainshock tends to look overpredicted.
+
+import type { ModelParameters, SequenceSelectionInput } from '@/types';
+import { magnitudeBinLabels, qpois } from './calculations';
+import {
+  brierDecomposition,
+  calibrationBins,
+  countMatches,
+  evaluateBin,
+  evaluationRadiusKm,
+  expectedCountForBin,
+  isInRegion,
+  type BinEvaluation,
+  type BrierDecomposition,
+  type CalibrationBin,
+  type EvalRegion,
+  type ObservedEvent,
+} from './evaluation';
+import { fetchObservedCatalog, fetchQuakeData, validateQuakeId, ApiError } from './api';
+
+/** Lead times (days after the mainshock) at which each forecast is issued */
+export const BATCH_LEAD_DAYS = [1, 7, 30];
+/** Length of each forecast window (days) */
+export const BATCH_DURATION_DAYS = 7;
+/** Most sequences one batch may evaluate, to keep the GeoNet queries polite */
+export const MAX_BATCH_SEQUENCES = 50;
+/** Default query box: New Zealand, longitudes in QuakeSearch's 0–360 convention */
+export const NZ_BBOX = { minLon: 165, minLat: -48, maxLon: 185, maxLat: -34 };
+
+/** Starting point for choosing sequences: no IDs yet, and NZ M5.5+ since 2010 for a query */
+export const DEFAULT_SEQUENCE_SELECTION: SequenceSelectionInput = {
+  mode: 'ids',
+  ids: '',
+  minMagnitude: '5.5',
+  start: '2010-01-01',
+  end: '2023-12-31',
+  minLat: String(NZ_BBOX.minLat),
+  maxLat: String(NZ_BBOX.maxLat),
+  minLon: String(NZ_BBOX.minLon),
+  maxLon: String(NZ_BBOX.maxLon),
+};
+
+const MS_PER_DAY = 86_400_000;
+
+export interface BatchMainshock {
+  quakeId: string;
+  magnitude: number;
+  timeMs: number;
+  latitude: number;
+  longitude: number;
+}
+
+export interface BatchSettings {
+  params: ModelParameters;
+  /** Magnitude thresholds shared by every sequence, ascending */
+  thresholds: number[];
+  /** Region radius as a multiple of the rupture length */
+  multiplier: number;
+  leadDays: number[];
+  durationDays: number;
+}
+
+/** One magnitude bin of one forecast of one sequence, scored */
+export interface BatchForecast {
+  quakeId: string;
+  leadDays: number;
+  binLabel: string;
+  evaluation: BinEvaluation;
+}
+
+export interface BatchScores {
+  forecasts: number;
+  /** Share of forecasts consistent with the observation on the N-test */
+  passRate: number;
+  /** Share of observations within the 95% range */
+  coverage: number;
+  meanBrier: number;
+  meanLogScore: number;
+  meanPoissonLL: number;
+  observed: number;
+  expected: number;
+}
+
+export interface BatchSummary {
+  overall: BatchScores;
+  byLead: { leadDays: number; scores: BatchScores }[];
+  calibration: CalibrationBin[];
+  decomposition: BrierDecomposition;
+}
+
+/** Quake IDs from free text: separated by spaces, commas or new lines, duplicates dropped */
+export function parseQuakeIdList(text: string): string[] {
+  return [...new Set(text.split(/[\s,;]+/).filter(id => id.length > 0))];
+}
+
+/**
+ * Problems with a list of quake IDs for a batch, as user-facing messages
+ * (empty when the list is usable)
+ */
+export function validateBatchIds(ids: string[]): string[] {
+  const errors: string[] = [];
+  if (ids.length === 0) {
+    errors.push('Enter at least one GeoNet quake ID');
+  }
+  const invalid = ids.filter(id => !validateQuakeId(id));
+  if (invalid.length > 0) {
+    errors.push(`Invalid quake ID${invalid.length > 1 ? 's' : ''}: ${invalid.join(', ')}`);
+  }
+  if (ids.length > MAX_BATCH_SEQUENCES) {
+    errors.push(`At most ${MAX_BATCH_SEQUENCES} sequences can be used at once`);
+  }
+  return errors;
+}
+
+/** The evaluation region of a sequence: a circle about its epicentre */
+export function batchRegion(mainshock: BatchMainshock, multiplier: number): EvalRegion {
+  return {
+    type: 'circle',
+    latitude: mainshock.latitude,
+    longitude: mainshock.longitude,
+    radiusKm: evaluationRadiusKm(mainshock.magnitude, multiplier),
+  };
+}
+
+/** Days after the mainshock from the first forecast start to the last forecast end */
+export function batchSpanDays(settings: BatchSettings): { start: number; end: number } {
+  return {
+    start: Math.min(...settings.leadDays),
+    end: Math.max(...settings.leadDays) + settings.durationDays,
+  };
+}
+
+/**
+ * Mainshocks from a catalogue query, oldest first, without the events that
+ * fall within spanDays and the region of a larger or equal earlier one
+ */
+export function independentMainshocks(events: ObservedEvent[], multiplier: number, spanDays: number): BatchMainshock[] {
+  const spanMs = spanDays * MS_PER_DAY;
+  const candidates = events
+    .map(e => ({ quakeId: e.publicId, magnitude: e.magnitude, timeMs: e.timeMs, latitude: e.latitude, longitude: e.longitude }))
+    .sort((x, y) => x.timeMs - y.timeMs);
+  return candidates.filter(e => !candidates.some(f =>
+    f !== e &&
+    f.magnitude >= e.magnitude &&
+    f.timeMs <= e.timeMs &&
+    e.timeMs - f.timeMs < spanMs &&
+    isInRegion(batchRegion(f, multiplier), e.latitude, e.longitude)
+  ));
+}
+
+/**
+ * Problems with a selection of sequences, as user-facing messages (empty
+ * when it is usable)
+ */
+export function validateSequenceSelection(input: SequenceSelectionInput): string[] {
+  if (input.mode === 'ids') return validateBatchIds(parseQuakeIdList(input.ids));
+  const errors: string[] = [];
+  const minMagnitude = parseFloat(input.minMagnitude);
+  if (!Number.isFinite(minMagnitude) || minMagnitude < 3 || minMagnitude > 9) {
+    errors.push('Please enter a minimum mainshock magnitude between 3 and 9');
+  }
+  const start = Date.parse(input.start);
+  const end = Date.parse(input.end);
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) {
+    errors.push('Please enter a start date before the end date');
+  }
+  const [minLat, maxLat, minLon, maxLon] = [input.minLat, input.maxLat, input.minLon, input.maxLon].map(parseFloat);
+  if (![minLat, maxLat, minLon, maxLon].every(Number.isFinite) || minLat >= maxLat || minLon >= maxLon) {
+    errors.push('Please enter a search box with its minimum latitude and longitude below the maximum');
+  }
+  return errors;
+}
+
+/** A sequence to load: a listed quake ID, or a mainshock already found by query */
+export type SequenceJob = string | BatchMainshock;
+
+/**
+ * The sequences of a (validated) selection: the listed IDs as they are, or
+ * the independent mainshocks of the query, declustered over spanDays
+ *
+ * @throws {ApiError} If the query fails, finds nothing, or finds more than MAX_BATCH_SEQUENCES
+ */
+export async function findSequences(
+  input: SequenceSelectionInput,
+  multiplier: number,
+  spanDays: number
+): Promise<SequenceJob[]> {
+  if (input.mode === 'ids') return parseQuakeIdList(input.ids);
+  const bbox = {
+    minLon: parseFloat(input.minLon),
+    minLat: parseFloat(input.minLat),
+    maxLon: parseFloat(input.maxLon),
+    maxLat: parseFloat(input.maxLat),
+  };
+  const events = await fetchObservedCatalog(bbox, new Date(input.start), new Date(input.end), parseFloat(input.minMagnitude));
+  const mainshocks = independentMainshocks(events, multiplier, spanDays);
+  if (mainshocks.length === 0) {
+    throw new ApiError('No earthquakes match the query', 'NOT_FOUND');
+  }
+  if (mainshocks.length > MAX_BATCH_SEQUENCES) {
+    throw new ApiError(
+      `The query found ${mainshocks.length} mainshocks; narrow it to at most ${MAX_BATCH_SEQUENCES} (raise the magnitude or shorten the dates)`,
+      'NOT_FOUND'
+    );
+  }
+  return mainshocks;
+}
+
+/**
+ * The mainshock of a sequence, loaded from GeoNet when only its ID is known
+ *
+ * @throws {ApiError} If the quake cannot be loaded or has no epicentre
+ */
+export async function loadMainshock(job: SequenceJob): Promise<BatchMainshock> {
+  if (typeof job !== 'string') return job;
+  const quake = await fetchQuakeData(job);
+  if (quake.latitude === undefined || quake.longitude === undefined) {
+    throw new ApiError('GeoNet has no epicentre for this quake', 'PARSE_ERROR');
+  }
+  return {
+    quakeId: quake.quakeId,
+    magnitude: quake.magnitude,
+    timeMs: new Date(quake.quakeTime).getTime(),
+    latitude: quake.latitude,
+    longitude: quake.longitude,
+  };
+}
+
+/** One sequence of a run: its result, or a note saying why it has none */
+export interface SequenceOutcome<T> {
+  quakeId: string;
+  mainshock: BatchMainshock | null;
+  result: T | null;
+  note: string | null;
+}
+
+export interface SequenceProgress {
+  done: number;
+  total: number;
+  current: string;
+}
+
+export interface SequenceRunHandlers<T> {
+  onProgress: (progress: SequenceProgress) => void;
+  onOutcome: (outcome: SequenceOutcome<T>) => void;
+  /** Checked before each sequence; true stops the run */
+  isCancelled: () => boolean;
+}
+
+/**
+ * Load and analyse the sequences one at a time, so the progress is honest and
+ * GeoNet is not flooded. analyse returns the sequence's result, or a note
+ * when it has none; a sequence that fails is noted (the ApiError message, or
+ * failureNote) and the run goes on.
+ */
+export async function runSequences<T>(
+  jobs: SequenceJob[],
+  analyse: (mainshock: BatchMainshock) => Promise<{ result: T } | { note: string }>,
+  handlers: SequenceRunHandlers<T>,
+  failureNote: string
+): Promise<void> {
+  for (const [i, job] of jobs.entries()) {
+    if (handlers.isCancelled()) break;
+    const quakeId = typeof job === 'string' ? job : job.quakeId;
+    handlers.onProgress({ done: i, total: jobs.length, current: quakeId });
+    let outcome: SequenceOutcome<T>;
+    try {
+      const mainshock = await loadMainshock(job);
+      const analysed = await analyse(mainshock);
+      outcome = 'result' in analysed
+        ? { quakeId, mainshock, result: analysed.result, note: null }
+        : { quakeId, mainshock, result: null, note: analysed.note };
+    } catch (err) {
+      outcome = {
+        quakeId,
+        mainshock: typeof job === 'string' ? null : job,
+        result: null,
+        note: err instanceof ApiError ? err.message : failureNote,
+      };
+    }
+    handlers.onOutcome(outcome);
+  }
+}
+
+/**
+ * Real-time span of the catalogue a sequence needs: from its first forecast
+ * start to its last forecast end (or now). Null while no forecast has ended.
+ */
+export function batchCatalogWindow(
+  mainshock: BatchMainshock,
+  settings: BatchSettings,
+  nowMs: number
+): { start: Date; end: Date } | null {
+  const firstEndMs = mainshock.timeMs + (Math.min(...settings.leadDays) + settings.durationDays) * MS_PER_DAY;
+  if (firstEndMs > nowMs) return null;
+  const span = batchSpanDays(settings);
+  return {
+    start: new Date(mainshock.timeMs + span.start * MS_PER_DAY),
+    end: new Date(Math.min(mainshock.timeMs + span.end * MS_PER_DAY, nowMs)),
+  };
+}
+
+/**
+ * Score every ended forecast of one sequence, each magnitude bin in turn,
+ * against its observed catalogue
+ */
+export function scoreSequence(
+  mainshock: BatchMainshock,
+  settings: BatchSettings,
+  catalog: ObservedEvent[],
+  nowMs: number
+): BatchForecast[] {
+  const region = batchRegion(mainshock, settings.multiplier);
+  const labels = magnitudeBinLabels(settings.thresholds);
+  const forecasts: BatchForecast[] = [];
+  for (const leadDays of settings.leadDays) {
+    const startMs = mainshock.timeMs + leadDays * MS_PER_DAY;
+    const endMs = startMs + settings.durationDays * MS_PER_DAY;
+    if (endMs > nowMs) continue;
+    settings.thresholds.forEach((minMag, i) => {
+      const bin = { minMag, maxMag: i < settings.thresholds.length - 1 ? settings.thresholds[i + 1] : null };
+      const expected = expectedCountForBin(
+        settings.params, mainshock.magnitude, bin, leadDays, leadDays + settings.durationDays
+      );
+      const observed = countMatches(catalog, startMs, endMs, bin, region, mainshock.quakeId).length;
+      forecasts.push({
+        quakeId: mainshock.quakeId,
+        leadDays,
+        binLabel: labels[i],
+        evaluation: evaluateBin(
+          observed, expected, Math.round(qpois(0.025, expected)), Math.round(qpois(0.975, expected))
+        ),
+      });
+    });
+  }
+  return forecasts;
+}
+
+/** Pooled scores of a set of forecasts */
+function pooledScores(forecasts: BatchForecast[]): BatchScores {
+  const n = forecasts.length;
+  const mean = (score: (e: BinEvaluation) => number) =>
+    forecasts.reduce((sum, f) => sum + score(f.evaluation), 0) / n;
+  return {
+    forecasts: n,
+    passRate: mean(e => (e.verdict === 'consistent' ? 1 : 0)),
+    coverage: mean(e => (e.withinCi ? 1 : 0)),
+    meanBrier: mean(e => e.brier),
+    meanLogScore: mean(e => e.logScoreBinary),
+    meanPoissonLL: mean(e => e.poissonLL),
+    observed: forecasts.reduce((sum, f) => sum + f.evaluation.observed, 0),
+    expected: forecasts.reduce((sum, f) => sum + f.evaluation.expected, 0),
+  };
+}
+
+/**
+ * Aggregate the scored forecasts of a batch: overall, per lead time, and
+ * their calibration and Brier score decomposition
+ *
+ * @throws {Error} If there are no forecasts
+ */
+export function summariseBatch(forecasts: BatchForecast[]): BatchSummary {
+  if (forecasts.length === 0) {
+    throw new Error('No forecasts have been scored yet');
+  }
+  const leads = [...new Set(forecasts.map(f => f.leadDays))].sort((x, y) => x - y);
+  return {
+    overall: pooledScores(forecasts),
+    byLead: leads.map(leadDays => ({ leadDays, scores: pooledScores(forecasts.filter(f => f.leadDays === leadDays)) })),
+    calibration: calibrationBins(forecasts.map(f => f.evaluation)),
+    decomposition: brierDecomposition(forecasts.map(f => f.evaluation)),
+  };
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { aftershockTimesDays, omoriLogLikelihood, updateSequenceParameters, DEFAULT_PRIOR_SD } from './bayesian';
+import { calculateOmoriIntegral, calculateExpectedAftershocks } from './calculations';
+import type { ObservedEvent } from './evaluation';
+import type { ModelParameters } from '@/types';
+import { MODEL_PRESETS } from '@/types';
+
+/**
+ * Deterministic synthetic catalogue: event times at the expected-count
+ * quantiles of an Omori–Utsu sequence over [0, tEnd]
+ */
+function syntheticTimes(params: ModelParameters, mainMag: number, mc: number, tEnd: number): number[] {
+  const { a, b, c, p } = params;
+  const total = calculateExpectedAftershocks(a, b, mainMag, mc, calculateOmoriIntegral(0, tEnd, c, p));
+  const n = Math.round(total);
+  const cumulativeFraction = (t: number) => calculateOmoriIntegral(0, t, c, p) / calculateOmoriIntegral(0, tEnd, c, p);
+  return Array.from({ length: n }, (_, i) => {
+    const target = (i + 0.5) / n;
+    let lo = 0;
+    let hi = tEnd;
+    for (let k = 0; k < 60; k++) {
+      const mid = (lo + hi) / 2;
+      if (cumulativeFraction(mid) < target) lo = mid;
+      else hi = mid;
+    }
+    return (lo + hi) / 2;
+  });
+}
+
+describe('aftershockTimesDays', () => {
+  const quakeMs = Date.UTC(2016, 10, 13, 11, 2, 56);
+  const event = (publicId: string, days: number, magnitude: number): ObservedEvent => ({
+    publicId, timeMs: quakeMs + days * 86_400_000, magnitude, latitude: -42, longitude: 173, depthKm: 10,
+  });
+
+  it('keeps events above Mc inside the window, sorted, without the mainshock', () => {
+    const events = [
+      event('2016p858000', 0, 7.8),
+      event('late', 5, 4.1),
+      event('early', 0.5, 3.2),
+      event('small', 1, 2.9),
+      event('after', 12, 5.0),
+    ];
+    expect(aftershockTimesDays(events, quakeMs, 3, 0, 10, '2016p858000')).toEqual([0.5, 5]);
+  });
+});
+
+describe('omoriLogLikelihood', () => {
+  it('peaks near the parameters that generated the data', () => {
+    const truth = { ...MODEL_PRESETS.nz, a: -1.2 };
+    const times = syntheticTimes(truth, 7, 3, 10);
+    const ll = (a: number) => omoriLogLikelihood({ ...truth, a }, 7, 3, times, 0, 10);
+    expect(ll(-1.2)).toBeGreaterThan(ll(-1.5));
+    expect(ll(-1.2)).toBeGreaterThan(ll(-0.9));
+  });
+});
+
+describe('updateSequenceParameters', () => {
+  const prior = MODEL_PRESETS.nz;
+
+  it('moves a and p from the prior towards a productive, fast-decaying sequence', () => {
+    const truth = { ...prior, a: -1.1, p: 1.25 };
+    const times = syntheticTimes(truth, 7, 3, 5);
+    const update = updateSequenceParameters(prior, 7, 3, times, 0, 5);
+    expect(update.eventCount).toBe(times.length);
+    expect(update.posterior.a).toBeGreaterThan(prior.a + 0.2);
+    expect(Math.abs(update.posterior.a - truth.a)).toBeLessThan(0.15);
+    expect(update.posterior.p).toBeGreaterThan(prior.p);
+    expect(update.posteriorSd.a).toBeLessThan(DEFAULT_PRIOR_SD.a);
+    expect(update.posterior.b).toBe(prior.b);
+    expect(update.posterior.c).toBe(prior.c);
+    expect(update.posteriorSd.log10c).toBeUndefined();
+  });
+
+  it('updates c only when asked', () => {
+    const times = syntheticTimes({ ...prior, c: 0.2 }, 7, 3, 5);
+    const update = updateSequenceParameters(prior, 7, 3, times, 0, 5, { updateC: true });
+    expect(update.posterior.c).toBeGreaterThan(prior.c);
+    expect(update.posteriorSd.log10c).toBeGreaterThan(0);
+  });
+
+  it('stays close to the prior when the data carry little information', () => {
+    const update = updateSequenceParameters(prior, 4, 3, [], 0, 0.01);
+    expect(Math.abs(update.posterior.a - prior.a)).toBeLessThan(0.1);
+    expect(Math.abs(update.posterior.p - prior.p)).toBeLessThan(0.02);
+  });
+
+  it('resolves the posterior spread of a large sequence', () => {
+    const truth = { ...MODEL_PRESETS.nz, a: -1.4, p: 1.15 };
+    const times = syntheticTimes(truth, 7.8, 3, 30);
+    expect(times.length).toBeGreaterThan(5000);
+    const update = updateSequenceParameters(MODEL_PRESETS.nz, 7.8, 3, times, 0, 30);
+
+    // Reference moments on a fine fixed grid about the posterior mean
+    const { b, c } = MODEL_PRESETS.nz;
+    const magTerm = b * (7.8 - 2.95);
+    const sumLog = times.reduce((s, t) => s + Math.log(t + c), 0);
+    const STEPS = 401;
+    let total = 0;
+    const sums = { a: 0, p: 0, aa: 0, pp: 0 };
+    const logPost: number[][] = [];
+    let maxLog = -Infinity;
+    for (let i = 0; i < STEPS; i++) {
+      const p = update.posterior.p - 0.05 + (0.1 * i) / (STEPS - 1);
+      const integral = calculateOmoriIntegral(0, 30, c, p);
+      logPost.push([]);
+      for (let j = 0; j < STEPS; j++) {
+        const a = update.posterior.a - 0.05 + (0.1 * j) / (STEPS - 1);
+        const log10k = a + magTerm;
+        const value = times.length * log10k * Math.LN10 - p * sumLog - Math.pow(10, log10k) * integral
+          - 0.5 * ((a - MODEL_PRESETS.nz.a) / DEFAULT_PRIOR_SD.a) ** 2 - 0.5 * ((p - MODEL_PRESETS.nz.p) / DEFAULT_PRIOR_SD.p) ** 2;
+        logPost[i].push(value);
+        maxLog = Math.max(maxLog, value);
+      }
+    }
+    for (let i = 0; i < STEPS; i++) {
+      const p = update.posterior.p - 0.05 + (0.1 * i) / (STEPS - 1);
+      for (let j = 0; j < STEPS; j++) {
+        const a = update.posterior.a - 0.05 + (0.1 * j) / (STEPS - 1);
+        const w = Math.exp(logPost[i][j] - maxLog);
+        total += w;
+        sums.a += w * a;
+        sums.p += w * p;
+        sums.aa += w * a * a;
+        sums.pp += w * p * p;
+      }
+    }
+    const sdA = Math.sqrt(sums.aa / total - (sums.a / total) ** 2);
+    const sdP = Math.sqrt(sums.pp / total - (sums.p / total) ** 2);
+    expect(update.posteriorSd.a / sdA).toBeCloseTo(1, 1);
+    expect(update.posteriorSd.p / sdP).toBeCloseTo(1, 1);
+    expect(update.posterior.a).toBeCloseTo(sums.a / total, 2);
+    expect(update.posterior.p).toBeCloseTo(sums.p / total, 2);
+  });
+
+  it('throws for an empty data window or degenerate prior', () => {
+    expect(() => updateSequenceParameters(prior, 7, 3, [], 1, 1)).toThrow();
+    expect(() => updateSequenceParameters(prior, 7, 3, [], -1, 1)).toThrow();
+    expect(() => updateSequenceParameters({ ...prior, c: 0 }, 7, 3, [], 0, 1)).toThrow();
+  });
+});
@@ -0,0 +1,232 @@
+// Sequence-specific Bayesian updating of Reasenberg–Jones parameters
+//
+// Follows the approach of the USGS operational aftershock forecasts (Page et
+// al. 2016; Hardebeck et al. 2019): the generic model parameters define a
+// prior, which the aftershocks observed so far update to a sequence-specific
+// posterior.
+//
+// Documented assumptions:
+// - Likelihood: aftershocks with M >= Mc form a Poisson process with the
+//   Reasenberg–Jones rate λ(t) = 10^(a + b(Mm - (Mc - 0.05)))·(t + c)^-p, so
+//     log L = Σ ln λ(tᵢ) - ∫ λ(t) dt   over the data window.
+// - Priors are independent normals on a, p and (when updated) log10 c,
+//   centred on the generic parameters. b is held at its generic value.
+// - The posterior is evaluated on a grid spanning the prior and the data's
+//   own estimate, then on finer grids centred on the posterior mean and a few
+//   posterior SDs wide, so large sequences are not quantised to a node or
+//   two. The updated parameters are the posterior means (c as the geometric
+//   mean), rounded to the precision they are reported at (a and p to 3
+//   decimals, c to 3 significant figures).
+// - Observations come only from before the forecast start, so the update is
+//   genuinely prospective.
+
+import type { ModelParameters, SequenceUpdate } from '@/types';
+import { calculateOmoriIntegral } from './calculations';
+import type { ObservedEvent } from './evaluation';
+
+/** Default prior standard deviations (a and p in their units, c in log10 units) */
+export const DEFAULT_PRIOR_SD = { a: 0.5, p: 0.15, log10c: 0.5 } as const;
+
+const MS_PER_DAY = 86_400_000;
+const A_STEPS = 161;
+const P_STEPS = 61;
+const C_STEPS = 21;
+/** Refined grids span this many posterior SDs either side of the mean */
+const REFINE_HALF_WIDTH_SD = 6;
+/** Refine while a grid is wider than this many posterior SDs either side */
+const MAX_HALF_WIDTH_SD = 10;
+const MAX_REFINEMENTS = 3;
+const MIN_P = 0.05;
+
+/**
+ * Times (days after the mainshock) of catalogue events with M >= mc inside
+ * (tStart, tEnd], sorted. The mainshock itself is excluded.
+ */
+export function aftershockTimesDays(
+  events: ObservedEvent[],
+  quakeTimeMs: number,
+  mc: number,
+  tStart: number,
+  tEnd: number,
+  excludePublicId?: string
+): number[] {
+  return events
+    .filter(e => e.publicId !== excludePublicId && e.magnitude >= mc)
+    .map(e => (e.timeMs - quakeTimeMs) / MS_PER_DAY)
+    .filter(t => t > tStart && t <= tEnd)
+    .sort((x, y) => x - y);
+}
+
+/**
+ * Omori–Utsu point-process log-likelihood of aftershock times (days after
+ * the mainshock) observed in [tStart, tEnd] above magnitude mc
+ */
+export function omoriLogLikelihood(
+  params: ModelParameters,
+  mainMag: number,
+  mc: number,
+  times: number[],
+  tStart: number,
+  tEnd: number
+): number {
+  const { a, b, c, p } = params;
+  const log10k = a + b * (mainMag - (mc - 0.05));
+  let sumLog = 0;
+  for (const t of times) sumLog += Math.log(t + c);
+  return times.length * log10k * Math.LN10 - p * sumLog - Math.pow(10, log10k) * calculateOmoriIntegral(tStart, tEnd, c, p);
+}
+
+const round = (x: number, digits: number) => Number(x.toFixed(digits));
+
+/** Evenly spaced grid of n points covering [lo, hi] */
+function linspace(lo: number, hi: number, n: number): number[] {
+  return Array.from({ length: n }, (_, i) => lo + ((hi - lo) * i) / (n - 1));
+}
+
+type GridAxis = 'a' | 'p' | 'log10c';
+
+interface PosteriorContext {
+  prior: ModelParameters;
+  sd: { a: number; p: number; log10c: number };
+  updateC: boolean;
+  /** b (Mm − (Mc − 0.05)), the magnitude part of log10 of the productivity */
+  magTerm: number;
+  times: number[];
+  tStart: number;
+  tEnd: number;
+}
+
+/** Posterior means and SDs of a, p and log10 c over one grid */
+function posteriorMoments(
+  grid: Record<GridAxis, number[]>,
+  { prior, sd, updateC, magTerm, times, tStart, tEnd }: PosteriorContext
+): { mean: Record<GridAxis, number>; sd: Record<GridAxis, number> } {
+  const n = times.length;
+  const log10c0 = Math.log10(prior.c);
+  const logPriorTerm = (x: number, mean: number, s: number) => -0.5 * ((x - mean) / s) ** 2;
+
+  // Log posterior over the grid; Σ ln(tᵢ + c) depends on c only
+  const logPost: number[] = [];
+  let maxLog = -Infinity;
+  for (const log10c of grid.log10c) {
+    const c = Math.pow(10, log10c);
+    let sumLog = 0;
+    for (const t of times) sumLog += Math.log(t + c);
+    const priorC = updateC ? logPriorTerm(log10c, log10c0, sd.log10c) : 0;
+    for (const p of grid.p) {
+      const integral = calculateOmoriIntegral(tStart, tEnd, c, p);
+      const priorP = logPriorTerm(p, prior.p, sd.p);
+      for (const a of grid.a) {
+        const log10k = a + magTerm;
+        const ll = n * log10k * Math.LN10 - p * sumLog - Math.pow(10, log10k) * integral;
+        const value = ll + priorC + priorP + logPriorTerm(a, prior.a, sd.a);
+        logPost.push(value);
+        if (value > maxLog) maxLog = value;
+      }
+    }
+  }
+
+  // Posterior moments
+  let total = 0;
+  const sums = { a: 0, p: 0, c: 0 };
+  const squares = { a: 0, p: 0, c: 0 };
+  let idx = 0;
+  for (const log10c of grid.log10c) {
+    for (const p of grid.p) {
+      for (const a of grid.a) {
+        const w = Math.exp(logPost[idx++] - maxLog);
+        total += w;
+        sums.a += w * a;
+        sums.p += w * p;
+        sums.c += w * log10c;
+        squares.a += w * a * a;
+        squares.p += w * p * p;
+        squares.c += w * log10c * log10c;
+      }
+    }
+  }
+  const mean = (key: 'a' | 'p' | 'c') => sums[key] / total;
+  const stdev = (key: 'a' | 'p' | 'c') => Math.sqrt(Math.max(0, squares[key] / total - mean(key) ** 2));
+  return {
+    mean: { a: mean('a'), p: mean('p'), log10c: mean('c') },
+    sd: { a: stdev('a'), p: stdev('p'), log10c: stdev('c') },
+  };
+}
+
+/**
+ * Update a and p (and optionally c) from the generic prior to a
+ * sequence-specific posterior, given aftershock times observed in
+ * [tStart, tEnd] days after the mainshock
+ *
+ * @throws {Error} If the data window is empty or the prior is degenerate
+ */
+export function updateSequenceParameters(
+  prior: ModelParameters,
+  mainMag: number,
+  mc: number,
+  times: number[],
+  tStart: number,
+  tEnd: number,
+  options: { updateC?: boolean; priorSd?: { a: number; p: number; log10c: number } } = {}
+): SequenceUpdate {
+  if (!(tEnd > tStart) || tStart < 0) {
+    throw new Error('The data window must start at or after the mainshock and have positive length');
+  }
+  if (!(prior.c > 0) || !(prior.p > 0) || !(prior.b > 0) || !Number.isFinite(prior.a)) {
+    throw new Error("Prior parameters must be finite, with 'b', 'c' and 'p' greater than 0");
+  }
+  const updateC = options.updateC ?? false;
+  const sd = options.priorSd ?? DEFAULT_PRIOR_SD;
+  const n = times.length;
+
+  // a grid: the prior range, widened to reach the data's own estimate
+  const magTerm = prior.b * (mainMag - (mc - 0.05));
+  const aHat = n > 0
+    ? Math.log10(n / calculateOmoriIntegral(tStart, tEnd, prior.c, prior.p)) - magTerm
+    : prior.a - 4 * sd.a;
+  const aGrid = linspace(
+    Math.min(prior.a - 4 * sd.a, aHat - 1),
+    Math.max(prior.a + 4 * sd.a, aHat + 1),
+    A_STEPS
+  );
+  const pGrid = linspace(Math.max(MIN_P, prior.p - 4 * sd.p), prior.p + 4 * sd.p, P_STEPS);
+  const log10c0 = Math.log10(prior.c);
+  const log10cGrid = updateC ? linspace(log10c0 - 4 * sd.log10c, log10c0 + 4 * sd.log10c, C_STEPS) : [log10c0];
+
+  let grid = { a: aGrid, p: pGrid, log10c: log10cGrid };
+  let moments = posteriorMoments(grid, { prior, sd, updateC, magTerm, times, tStart, tEnd });
+  const axes: GridAxis[] = updateC ? ['a', 'p', 'log10c'] : ['a', 'p'];
+  for (let i = 0; i < MAX_REFINEMENTS; i++) {
+    const halfWidth = (axis: GridAxis) => (grid[axis][grid[axis].length - 1] - grid[axis][0]) / 2;
+    if (axes.every(axis => halfWidth(axis) <= MAX_HALF_WIDTH_SD * moments.sd[axis])) break;
+    // Centre on the mean, at least two old steps wide in case the old grid hid the spread
+    const refined = (axis: GridAxis, n: number, min = -Infinity) => {
+      const step = grid[axis][1] - grid[axis][0];
+      const width = Math.max(REFINE_HALF_WIDTH_SD * moments.sd[axis], 2 * step);
+      return linspace(Math.max(min, moments.mean[axis] - width), moments.mean[axis] + width, n);
+    };
+    grid = {
+      a: refined('a', A_STEPS),
+      p: refined('p', P_STEPS, MIN_P),
+      log10c: updateC ? refined('log10c', C_STEPS) : grid.log10c,
+    };
+    moments = posteriorMoments(grid, { prior, sd, updateC, magTerm, times, tStart, tEnd });
+  }
+  const { mean, sd: posteriorSd } = moments;
+
+  return {
+    prior,
+    posterior: {
+      a: round(mean.a, 3),
+      b: prior.b,
+      c: updateC ? Number(Math.pow(10, mean.log10c).toPrecision(3)) : prior.c,
+      p: round(mean.p, 3),
+    },
+    priorSd: { a: sd.a, p: sd.p, ...(updateC ? { log10c: sd.log10c } : {}) },
+    posteriorSd: { a: posteriorSd.a, p: posteriorSd.p, ...(updateC ? { log10c: posteriorSd.log10c } : {}) },
+    eventCount: n,
+    mc,
+    tStart,
+    tEnd,
+  };
+}
@@ -5,8 +5,31 @@ import {
   formatPercentage,
   calculateOmoriIntegral,
   calculateExpectedAftershocks,
-  calculateDurationForecast,
+  calculateWindowForecast,
+  forecastWindowLabel,
+  daysToUnit,
+  formatTimeSpan,
+  validateForecastWindows,
   validateModelParameters,
+  magnitudeBinLabels,
+  validateMagnitudeThresholds,
+  parameterMixture,
+  mixtureCdf,
+  mixtureQuantile,
+  mixtureProbabilityAtLeastOne,
+  largestMagnitudeCdf,
+  largestMagnitudeQuantile,
+  calculateLargestAftershock,
+  combinedOmoriIntegral,
+  calculateAftershockRate,
+  validateSourceEvents,
+  mixCountForecasts,
+  normalMagnitudeCandidates,
+  validateMagnitudeCandidates,
+  normaliseMagnitudeCandidates,
+  magnitudeSpreadBounds,
+  grSurvivalFactor,
+  validateMaxMagnitude,
 } from './calculations';
 import { MODEL_PRESETS } from '@/types';
 
@@ -61,6 +84,14 @@ describe('calculateOmoriIntegral', () => {
     expect(late).toBeGreaterThan(0);
     expect(early).toBeGreaterThan(late);
   });
+
+  it('stays exact for a one-minute window a year after the mainshock', () => {
+    const minute = 1 / 1440;
+    const t = 365;
+    // Midpoint rule: error is O(h^3), far below the tolerance here
+    const midpoint = minute * Math.pow(t + minute / 2 + 0.04, -1.07);
+    expect(calculateOmoriIntegral(t, t + minute, 0.04, 1.07) / midpoint).toBeCloseTo(1, 10);
+  });
 });
 
 describe('calculateExpectedAftershocks', () => {
@@ -77,38 +108,341 @@ describe('calculateExpectedAftershocks', () => {
   });
 });
 
-describe('calculateDurationForecast', () => {
+describe('calculateWindowForecast', () => {
   const params = MODEL_PRESETS.nz;
 
-  it('throws for non-positive duration', () => {
-    expect(() => calculateDurationForecast(0, 7.8, 5, 4, 3, 0, params)).toThrow();
-    expect(() => calculateDurationForecast(-1, 7.8, 5, 4, 3, 0, params)).toThrow();
+  it('throws for empty or reversed windows, or one starting before the forecast start', () => {
+    expect(() => calculateWindowForecast({ start: 0, end: 0 }, 7.8, [3, 4, 5], 0, params)).toThrow();
+    expect(() => calculateWindowForecast({ start: 7, end: 1 }, 7.8, [3, 4, 5], 0, params)).toThrow();
+    expect(() => calculateWindowForecast({ start: -1, end: 1 }, 7.8, [3, 4, 5], 0, params)).toThrow();
   });
 
   it('throws when the forecast starts before the earthquake', () => {
-    expect(() => calculateDurationForecast(30, 7.8, 5, 4, 3, -0.5, params)).toThrow();
+    expect(() => calculateWindowForecast({ start: 0, end: 30 }, 7.8, [3, 4, 5], -0.5, params)).toThrow();
   });
 
   it('throws for degenerate model parameters instead of returning Infinity', () => {
-    expect(() => calculateDurationForecast(30, 7.8, 5, 4, 3, 0, { a: -1.59, b: 1.03, c: 0, p: 1.07 })).toThrow();
-    expect(() => calculateDurationForecast(30, 7.8, 5, 4, 3, 0, { a: NaN, b: 1.03, c: 0.04, p: 1.07 })).toThrow();
-    expect(() => calculateDurationForecast(30, 7.8, 5, 4, 3, 0, { a: -1.59, b: 0, c: 0.04, p: 1.07 })).toThrow();
+    expect(() => calculateWindowForecast({ start: 0, end: 30 }, 7.8, [3, 4, 5], 0, { a: -1.59, b: 1.03, c: 0, p: 1.07 })).toThrow();
+    expect(() => calculateWindowForecast({ start: 0, end: 30 }, 7.8, [3, 4, 5], 0, { a: NaN, b: 1.03, c: 0.04, p: 1.07 })).toThrow();
+    expect(() => calculateWindowForecast({ start: 0, end: 30 }, 7.8, [3, 4, 5], 0, { a: -1.59, b: 0, c: 0.04, p: 1.07 })).toThrow();
   });
 
   it('produces well-formed results for a realistic M7.8 scenario', () => {
-    const forecast = calculateDurationForecast(30, 7.8, 6, 5, 4, 0.04, params);
-    expect(forecast.duration).toBe(30);
-    for (const range of [forecast.m1, forecast.m2, forecast.m3]) {
+    const forecast = calculateWindowForecast({ start: 0, end: 30 }, 7.8, [4, 5, 6], 0.04, params);
+    expect(forecast.window).toEqual({ start: 0, end: 30 });
+    for (const range of forecast.bins) {
       expect(Number.isFinite(parseFloat(range.averageNumber))).toBe(true);
       expect(range.range).toMatch(/^\d+-\d+$/);
       expect(range.probability).toMatch(/^[<>]?\d+%$/);
     }
   });
 
+  it('reports one bin per threshold, with bins summing to the lowest cumulative count', () => {
+    const thresholds = [3, 4, 5, 6, 7];
+    const forecast = calculateWindowForecast({ start: 0, end: 30 }, 7.8, thresholds, 0.04, params);
+    expect(forecast.bins).toHaveLength(thresholds.length);
+    const integral = calculateOmoriIntegral(0.04, 30.04, params.c, params.p);
+    const total = calculateExpectedAftershocks(params.a, params.b, 7.8, 3, integral);
+    const sum = forecast.bins.reduce((s, bin) => s + parseFloat(bin.averageNumber), 0);
+    expect(sum / total).toBeCloseTo(1, 1);
+  });
+
   it('gives higher expected counts for longer durations', () => {
-    const week = calculateDurationForecast(7, 7.8, 6, 5, 4, 0, params);
-    const month = calculateDurationForecast(30, 7.8, 6, 5, 4, 0, params);
-    expect(parseFloat(month.m3.averageNumber)).toBeGreaterThanOrEqual(parseFloat(week.m3.averageNumber));
+    const week = calculateWindowForecast({ start: 0, end: 7 }, 7.8, [4, 5, 6], 0, params);
+    const month = calculateWindowForecast({ start: 0, end: 30 }, 7.8, [4, 5, 6], 0, params);
+    expect(parseFloat(month.bins[0].averageNumber)).toBeGreaterThanOrEqual(parseFloat(week.bins[0].averageNumber));
+  });
+
+  it('integrates a window that starts later over its own span only', () => {
+    const tomorrow = calculateWindowForecast({ start: 1, end: 2 }, 7.8, [3], 0.5, params);
+    const integral = calculateOmoriIntegral(1.5, 2.5, params.c, params.p);
+    const expected = calculateExpectedAftershocks(params.a, params.b, 7.8, 3, integral);
+    expect(parseFloat(tomorrow.bins[0].averageNumber) / expected).toBeCloseTo(1, 1);
+  });
+
+  it('keeps sub-day windows exact rather than rounding to whole days', () => {
+    const hour = calculateWindowForecast({ start: 0, end: 1 / 24, unit: 'hours' }, 7.8, [3], 0.04, params);
+    const integral = calculateOmoriIntegral(0.04, 0.04 + 1 / 24, params.c, params.p);
+    const expected = calculateExpectedAftershocks(params.a, params.b, 7.8, 3, integral);
+    expect(parseFloat(hour.bins[0].averageNumber) / expected).toBeCloseTo(1, 1);
+    const day = calculateWindowForecast({ start: 0, end: 1 }, 7.8, [3], 0.04, params);
+    expect(parseFloat(hour.bins[0].averageNumber)).toBeLessThan(parseFloat(day.bins[0].averageNumber));
+  });
+
+  it('splits a window into disjoint windows whose counts add up', () => {
+    const whole = calculateWindowForecast({ start: 0, end: 9 }, 7.8, [3], 0.04, params);
+    const parts = [{ start: 0, end: 2 }, { start: 2, end: 9 }]
+      .map(w => parseFloat(calculateWindowForecast(w, 7.8, [3], 0.04, params).bins[0].averageNumber));
+    expect((parts[0] + parts[1]) / parseFloat(whole.bins[0].averageNumber)).toBeCloseTo(1, 1);
+  });
+});
+
+describe('forecast windows', () => {
+  it('labels windows from the forecast start by length, later windows by their days', () => {
+    expect(forecastWindowLabel({ start: 0, end: 1 })).toBe('1 day');
+    expect(forecastWindowLabel({ start: 0, end: 30 })).toBe('30 days');
+    expect(forecastWindowLabel({ start: 2, end: 9 })).toBe('days 2–9');
+  });
+
+  it('labels windows in the unit they were entered in', () => {
+    expect(forecastWindowLabel({ start: 0, end: 1 / 24, unit: 'hours' })).toBe('1 hour');
+    expect(forecastWindowLabel({ start: 0, end: 6 / 24, unit: 'hours' })).toBe('6 hours');
+    expect(forecastWindowLabel({ start: 6 / 24, end: 12 / 24, unit: 'hours' })).toBe('hours 6–12');
+    expect(forecastWindowLabel({ start: 0, end: 2 * 365.25, unit: 'years' })).toBe('2 years');
+    expect(formatTimeSpan(1, 'weeks')).toBe('1 week');
+    expect(daysToUnit(90 / 1440, 'minutes')).toBe(90);
+  });
+
+  it('reports empty, reversed, negative and duplicate windows', () => {
+    expect(validateForecastWindows([{ start: 0, end: 1 }, { start: 1, end: 2 }])).toEqual([]);
+    expect(validateForecastWindows([])).toHaveLength(1);
+    expect(validateForecastWindows([{ start: 3, end: 3 }])).toHaveLength(1);
+    expect(validateForecastWindows([{ start: -1, end: 3 }])).toHaveLength(1);
+    expect(validateForecastWindows([{ start: 0, end: 7 }, { start: 0, end: 7 }])).toHaveLength(1);
+    expect(validateForecastWindows([{ start: 0, end: 20 * 365.25 }])).toHaveLength(1);
+  });
+});
+
+describe('parameter uncertainty', () => {
+  const params = MODEL_PRESETS.nz;
+
+  it('builds a normalised mixture whose mean factor matches the lognormal mean', () => {
+    const mixture = parameterMixture(params, { aSd: 0.5, pSd: 0 }, 0, 30);
+    expect(mixture.weights.reduce((s, w) => s + w, 0)).toBeCloseTo(1, 10);
+    const mean = mixture.factors.reduce((s, f, i) => s + f * mixture.weights[i], 0);
+    // E[10^(σZ)] = exp((σ ln10)² / 2)
+    expect(mean / Math.exp((0.5 * Math.LN10) ** 2 / 2)).toBeCloseTo(1, 2);
+  });
+
+  it('reduces to the Poisson distribution with zero uncertainty', () => {
+    const mixture = parameterMixture(params, { aSd: 0, pSd: 0 }, 0, 30);
+    expect(mixture.factors).toEqual([1]);
+    expect(mixtureQuantile(0.975, 8, mixture)).toBe(qpois(0.975, 8));
+    expect(mixtureProbabilityAtLeastOne(8, mixture)).toBeCloseTo(1 - Math.exp(-8), 12);
+  });
+
+  it('widens ranges and lowers P(>=1) relative to Poisson', () => {
+    const mixture = parameterMixture(params, { aSd: 0.5, pSd: 0.1 }, 0, 30);
+    expect(mixtureQuantile(0.975, 20, mixture)).toBeGreaterThan(qpois(0.975, 20));
+    expect(mixtureQuantile(0.025, 20, mixture)).toBeLessThan(qpois(0.025, 20));
+    expect(mixtureProbabilityAtLeastOne(2, mixture)).toBeLessThan(1 - Math.exp(-2));
+    expect(mixtureCdf(mixtureQuantile(0.975, 20, mixture), 20, mixture)).toBeGreaterThanOrEqual(0.975);
+  });
+
+  it('keeps the expected number but widens the table range', () => {
+    const plain = calculateWindowForecast({ start: 0, end: 30 }, 7.8, [4, 5, 6], 0, params);
+    const wide = calculateWindowForecast({ start: 0, end: 30 }, 7.8, [4, 5, 6], 0, params, { aSd: 0.5, pSd: 0 });
+    expect(wide.bins[0].averageNumber).toBe(plain.bins[0].averageNumber);
+    const [plainLow, plainHigh] = plain.bins[0].range.split('-').map(Number);
+    const [wideLow, wideHigh] = wide.bins[0].range.split('-').map(Number);
+    expect(wideLow).toBeLessThanOrEqual(plainLow);
+    expect(wideHigh).toBeGreaterThan(plainHigh);
+  });
+
+  it('mixes count distributions about their weighted mean', () => {
+    const mixed = mixCountForecasts([
+      { weight: 0.25, expected: 2 },
+      { weight: 0.75, expected: 6 },
+    ]);
+    expect(mixed.expected).toBe(5);
+    expect(mixed.mixture!.factors).toEqual([0.4, 1.2]);
+    expect(mixtureProbabilityAtLeastOne(mixed.expected, mixed.mixture!))
+      .toBeCloseTo(1 - 0.25 * Math.exp(-2) - 0.75 * Math.exp(-6), 12);
+    expect(mixCountForecasts([{ weight: 1, expected: 0 }])).toEqual({ expected: 0 });
+  });
+});
+
+describe('mainshock magnitude uncertainty', () => {
+  const params = MODEL_PRESETS.nz;
+  const window = { start: 0, end: 7 };
+  const candidates = [{ magnitude: 7.6, weight: 0.5 }, { magnitude: 8.0, weight: 0.5 }];
+  const expectedAt = (mag: number) =>
+    calculateExpectedAftershocks(params.a, params.b, mag, 5, calculateOmoriIntegral(1, 8, params.c, params.p));
+
+  it('discretises a normal magnitude into weighted candidates', () => {
+    const normal = normalMagnitudeCandidates(7.8, 0.2);
+    expect(normal.reduce((s, c) => s + c.weight, 0)).toBeCloseTo(1, 12);
+    expect(normal.reduce((s, c) => s + c.weight * c.magnitude, 0)).toBeCloseTo(7.8, 12);
+    expect(normal[0].magnitude).toBeCloseTo(7.2, 12);
+    expect(magnitudeSpreadBounds(normal).map(m => Number(m.toFixed(2)))).toEqual([7.4, 8.2]);
+    expect(normalMagnitudeCandidates(7.8, 0)).toEqual([{ magnitude: 7.8, weight: 1 }]);
+  });
+
+  it('validates and normalises candidate lists', () => {
+    expect(validateMagnitudeCandidates(candidates)).toEqual([]);
+    expect(validateMagnitudeCandidates([{ magnitude: 11, weight: 1 }])).toHaveLength(1);
+    expect(validateMagnitudeCandidates([{ magnitude: 7, weight: 0 }])).toHaveLength(1);
+    expect(normaliseMagnitudeCandidates([{ magnitude: 8, weight: 3 }, { magnitude: 7.6, weight: 1 }, { magnitude: 7.8, weight: 0 }]))
+      .toEqual([{ magnitude: 7.6, weight: 0.25 }, { magnitude: 8, weight: 0.75 }]);
+  });
+
+  it('mixes the counts of the candidate magnitudes', () => {
+    const mixture = parameterMixture(params, { aSd: 0, pSd: 0, magnitudes: candidates }, 1, 8, 7.8);
+    const exact = 1 - 0.5 * Math.exp(-expectedAt(7.6)) - 0.5 * Math.exp(-expectedAt(8.0));
+    // Factors are rounded onto 5% log bins
+    expect(mixtureProbabilityAtLeastOne(expectedAt(7.8), mixture)).toBeCloseTo(exact, 2);
+    expect(parameterMixture(params, { aSd: 0, pSd: 0, magnitudes: [{ magnitude: 7.8, weight: 1 }] }, 1, 8, 7.8).factors)
+      .toEqual([1]);
+  });
+
+  it('scales only the mainshock\'s own aftershocks when there are other sources', () => {
+    const source = { magnitude: 7.0, timeDays: 0.5 };
+    const mixture = parameterMixture(params, { aSd: 0, pSd: 0, magnitudes: [{ magnitude: 8.0, weight: 1 }] }, 1, 8, 7.8, [source]);
+    const count = (mag: number) => Math.pow(10, params.b * mag) * combinedOmoriIntegral(1, 8, params, mag, [source]);
+    expect(mixture.factors[0]).toBeCloseTo(count(8.0) / count(7.8), 1);
+    expect(mixture.factors[0]).toBeLessThan(Math.pow(10, params.b * 0.2));
+  });
+
+  it('reports the spread at the ends of the magnitude distribution', () => {
+    const forecast = calculateWindowForecast(window, 7.8, [5], 1, params, { aSd: 0, pSd: 0, magnitudes: candidates });
+    const low = calculateWindowForecast(window, 7.6, [5], 1, params);
+    const high = calculateWindowForecast(window, 8.0, [5], 1, params);
+    expect(forecast.bins[0].averageNumber).toBe(calculateWindowForecast(window, 7.8, [5], 1, params).bins[0].averageNumber);
+    expect(forecast.bins[0].magnitudeSpread).toEqual({
+      averageNumber: `${low.bins[0].averageNumber}-${high.bins[0].averageNumber}`,
+      probability: `${low.bins[0].probability}-${high.bins[0].probability}`,
+    });
+    expect(calculateWindowForecast(window, 7.8, [5], 1, params).bins[0].magnitudeSpread).toBeUndefined();
+  });
+});
+
+describe('additional source events', () => {
+  const params = MODEL_PRESETS.nz;
+  const window = { start: 0, end: 30 };
+  // Darfield M7.1, then Christchurch M6.2 171.4 days later; forecast from 1 day after Christchurch
+  const christchurch = { magnitude: 6.2, timeDays: 171.4 };
+  const t0 = 172.4;
+
+  it('adds each source\'s own sequence to the mainshock\'s', () => {
+    const combined = calculateWindowForecast(window, 7.1, [4], t0, params, undefined, [christchurch]);
+    const darfield = calculateExpectedAftershocks(params.a, params.b, 7.1, 4, calculateOmoriIntegral(t0, t0 + 30, params.c, params.p));
+    const own = calculateExpectedAftershocks(params.a, params.b, 6.2, 4, calculateOmoriIntegral(1, 31, params.c, params.p));
+    expect(combinedOmoriIntegral(t0, t0 + 30, params, 7.1, [christchurch]) * Math.pow(10, params.a + params.b * (7.1 - 3.95)))
+      .toBeCloseTo(darfield + own, 10);
+    expect(combined.bins[0].averageNumber).toBe(formatValue(darfield + own));
+  });
+
+  it('reduces to the single-source forecast without sources', () => {
+    expect(combinedOmoriIntegral(1, 8, params, 7.1)).toBe(calculateOmoriIntegral(1, 8, params.c, params.p));
+    expect(calculateWindowForecast(window, 7.1, [3, 4], 1, params, undefined, []))
+      .toEqual(calculateWindowForecast(window, 7.1, [3, 4], 1, params));
+  });
+
+  it('counts a source only from its origin time', () => {
+    const later = { magnitude: 6.2, timeDays: 10 };
+    expect(combinedOmoriIntegral(1, 8, params, 7.1, [later])).toBe(calculateOmoriIntegral(1, 8, params.c, params.p));
+    const split = combinedOmoriIntegral(1, 10, params, 7.1, [later]) + combinedOmoriIntegral(10, 20, params, 7.1, [later]);
+    expect(combinedOmoriIntegral(1, 20, params, 7.1, [later])).toBeCloseTo(split, 12);
+  });
+
+  it('sums the rates, each decaying from its own origin time', () => {
+    const rate = (t: number, sources = [christchurch]) => calculateAftershockRate(params, 7.1, 4, t, sources);
+    expect(rate(100)).toBe(rate(100, []));
+    const own = Math.pow(10, params.a + params.b * (6.2 - 3.95)) * Math.pow(1 + params.c, -params.p);
+    expect(rate(172.4) - rate(172.4, [])).toBeCloseTo(own, 10);
+  });
+
+  it('raises the chance of an event at least as large as the mainshock', () => {
+    const single = calculateLargestAftershock(window, 7.1, t0, params);
+    const doublet = calculateLargestAftershock(window, 7.1, t0, params, undefined, [christchurch]);
+    expect(doublet.probabilityAtLeastMainshock).toBeGreaterThan(single.probabilityAtLeastMainshock);
+  });
+
+  it('rejects sources after the forecast start, at the mainshock time or without a magnitude', () => {
+    expect(validateSourceEvents([christchurch, { magnitude: 5, timeDays: -2 }], t0)).toEqual([]);
+    expect(validateSourceEvents([{ magnitude: 6, timeDays: 200 }], t0)).toHaveLength(1);
+    expect(validateSourceEvents([{ magnitude: 6, timeDays: 0 }], t0)).toHaveLength(1);
+    expect(validateSourceEvents([{ magnitude: NaN, timeDays: NaN }], t0)).toHaveLength(2);
+  });
+});
+
+describe('largest aftershock', () => {
+  const params = MODEL_PRESETS.nz;
+
+  it('gives the same chance of a bigger event as P(>=1) at the mainshock magnitude', () => {
+    const largest = calculateLargestAftershock({ start: 0, end: 30 }, 7.8, 0.04, params);
+    const integral = calculateOmoriIntegral(0.04, 30.04, params.c, params.p);
+    const expected = calculateExpectedAftershocks(params.a, params.b, 7.8, 7.8, integral);
+    expect(largest.expectedAtMainshock).toBeCloseTo(expected, 12);
+    expect(largest.probabilityAtLeastMainshock).toBeCloseTo(1 - Math.exp(-expected), 12);
+  });
+
+  it('orders the 95% range around the median, with quantiles inverting the CDF', () => {
+    const largest = calculateLargestAftershock({ start: 0, end: 30 }, 7.8, 0.04, params);
+    expect(largest.lower).toBeLessThan(largest.median);
+    expect(largest.median).toBeLessThan(largest.upper);
+    expect(largestMagnitudeCdf(largest.median, 7.8, largest.expectedAtMainshock, params.b)).toBeCloseTo(0.5, 10);
+  });
+
+  it('matches the CDF under a parameter mixture', () => {
+    const mixture = parameterMixture(params, { aSd: 0.5, pSd: 0 }, 0, 30);
+    const m = largestMagnitudeQuantile(0.9, 7.8, 0.05, 1, mixture);
+    expect(largestMagnitudeCdf(m, 7.8, 0.05, 1, mixture)).toBeCloseTo(0.9, 6);
+  });
+});
+
+describe('maximum magnitude', () => {
+  const params = MODEL_PRESETS.nz;
+  const truncated = { ...params, maxMagnitude: { kind: 'truncated' as const, magnitude: 8.2 } };
+  const tapered = { ...params, maxMagnitude: { kind: 'tapered' as const, magnitude: 8.2 } };
+  const integral = calculateOmoriIntegral(0, 30, params.c, params.p);
+
+  it('leaves small-magnitude counts unchanged and removes events above a hard maximum', () => {
+    const unbounded = calculateExpectedAftershocks(params.a, params.b, 7.8, 4, integral);
+    expect(calculateExpectedAftershocks(params.a, params.b, 7.8, 4, integral, truncated.maxMagnitude) / unbounded)
+      .toBeCloseTo(1, 4);
+    expect(calculateExpectedAftershocks(params.a, params.b, 7.8, 8.25, integral, truncated.maxMagnitude)).toBe(0);
+    expect(grSurvivalFactor(8.25, params.b, truncated.maxMagnitude)).toBe(0);
+    expect(grSurvivalFactor(5, params.b)).toBe(1);
+  });
+
+  it('tapers counts by exp(-1) at the corner magnitude and more steeply beyond it', () => {
+    expect(grSurvivalFactor(8.25, params.b, tapered.maxMagnitude)).toBeCloseTo(Math.exp(-1), 12);
+    expect(grSurvivalFactor(8.75, params.b, tapered.maxMagnitude)).toBeLessThan(Math.exp(-5));
+    expect(grSurvivalFactor(4, params.b, tapered.maxMagnitude)).toBeGreaterThan(0.9999);
+  });
+
+  it('applies to the forecast table and the rate alike', () => {
+    const capped = calculateWindowForecast({ start: 0, end: 30 }, 7.8, [4, 7, 8], 0, tapered);
+    const plain = calculateWindowForecast({ start: 0, end: 30 }, 7.8, [4, 7, 8], 0, params);
+    expect(parseFloat(capped.bins[2].probability)).toBeLessThan(parseFloat(plain.bins[2].probability));
+    expect(capped.bins[0].averageNumber).toBe(plain.bins[0].averageNumber);
+    expect(calculateAftershockRate(tapered, 7.8, 8, 1) / calculateAftershockRate(params, 7.8, 8, 1))
+      .toBeCloseTo(grSurvivalFactor(8, params.b, tapered.maxMagnitude), 12);
+  });
+
+  it('bounds the largest aftershock, with quantiles inverting the capped CDF', () => {
+    const window = { start: 0, end: 365 };
+    const largest = calculateLargestAftershock(window, 7.8, 0, truncated);
+    const plain = calculateLargestAftershock(window, 7.8, 0, params);
+    expect(largest.upper).toBeLessThanOrEqual(8.25);
+    expect(largest.upper).toBeLessThan(plain.upper);
+    expect(largest.probabilityAtLeastMainshock).toBeLessThan(plain.probabilityAtLeastMainshock);
+    expect(largest.expectedAtMainshock).toBeCloseTo(plain.expectedAtMainshock, 12);
+    expect(largestMagnitudeCdf(largest.median, 7.8, largest.expectedAtMainshock, params.b, undefined, truncated.maxMagnitude))
+      .toBeCloseTo(0.5, 8);
+  });
+
+  it('requires a hard maximum above the mainshock', () => {
+    expect(validateMaxMagnitude({ kind: 'truncated', magnitude: 7.5 }, 7.8)).toHaveLength(1);
+    expect(validateMaxMagnitude({ kind: 'tapered', magnitude: 7.5 }, 7.8)).toEqual([]);
+    expect(validateMaxMagnitude({ kind: 'tapered', magnitude: NaN }, 7.8)).toHaveLength(1);
+    expect(validateMaxMagnitude({ kind: 'truncated', magnitude: 8.5 }, 7.8)).toEqual([]);
+  });
+});
+
+describe('magnitude thresholds', () => {
+  it('labels each bin up to the next threshold, the top bin open-ended', () => {
+    expect(magnitudeBinLabels([3, 4, 5])).toEqual(['M3-M4', 'M4-M5', 'M5+']);
+    expect(magnitudeBinLabels([6])).toEqual(['M6+']);
+  });
+
+  it('rejects empty, out-of-range or unordered thresholds', () => {
+    expect(validateMagnitudeThresholds([3, 4, 5, 6, 7])).toEqual([]);
+    expect(validateMagnitudeThresholds([])).toHaveLength(1);
+    expect(validateMagnitudeThresholds([0, 4])).toHaveLength(1);
+    expect(validateMagnitudeThresholds([4, 4, 5])).toHaveLength(1);
+    expect(validateMagnitudeThresholds([5, 4])).toHaveLength(1);
   });
 });
 
@@ -5,7 +5,19 @@
 //   - Page et al. (2016): Global tectonic regime parameters
 //   - Hardebeck et al. (2019): Updated California parameters
 
-import type { ModelParameters, DurationForecast } from '@/types';
+import type {
+  ModelParameters,
+  ForecastWindow,
+  WindowForecast,
+  LargestAftershockForecast,
+  MagnitudeCandidate,
+  MaxMagnitude,
+  ParameterUncertainty,
+  SourceEvent,
+  TimeUnit,
+} from '@/types';
+import { TIME_UNIT_DAYS, MAX_FORECAST_DAYS } from '@/types';
+import { kernelIntegral, kernelRate, validateTemporalKernel } from './kernels';
 
 /**
  * Parameter validation bounds based on scientific literature
@@ -79,6 +91,156 @@ export function qpois(p: number, lambda: number): number {
   return n;
 }
 
+/** Standard normal CDF (Abramowitz & Stegun 26.2.17, |error| < 7.5e-8) */
+export function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const d = 0.3989422804014327 * Math.exp((-z * z) / 2);
+  const p = d * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z > 0 ? 1 - p : p;
+}
+
+/** P(X <= k) for X ~ Poisson(lambda) */
+export function poissonCdf(k: number, lambda: number): number {
+  if (k < 0) return 0;
+  if (lambda <= 0) return 1;
+  if (lambda > 100) {
+    // Normal approximation with continuity correction
+    return normalCdf((k + 0.5 - lambda) / Math.sqrt(lambda));
+  }
+  // Far above the mean the CDF is 1 to double precision; skip the summation
+  if (k > lambda + 15 * Math.sqrt(lambda) + 30) return 1;
+  let term = Math.exp(-lambda);
+  let sum = term;
+  for (let i = 1; i <= k; i++) {
+    term *= lambda / i;
+    sum += term;
+  }
+  return Math.min(1, sum);
+}
+
+// ---------------------------------------------------------------------------
+// Parameter uncertainty: counts from a mixture of Poisson distributions
+// ---------------------------------------------------------------------------
+
+/**
+ * Distribution of a multiplicative factor on an expected count: the count is
+ * Poisson(lambda·factors[i]) with probability weights[i]
+ */
+export interface CountMixture {
+  factors: number[];
+  weights: number[];
+}
+
+/** Width of the log-factor bins the parameter distribution is collapsed onto */
+const LOG_FACTOR_STEP = 0.05;
+
+/**
+ * Distribution of the count multiplier implied by normally distributed a and
+ * p (standard deviations in `uncertainty`) over the window [tStart, tEnd].
+ * A shift in a scales every count by 10^Δa; a shift in p rescales the Omori
+ * integral. The joint distribution is integrated on a grid (±5σ) and
+ * collapsed onto bins of 5% in log-factor. With additional source events
+ * (mainshock magnitude mainMag) the shift in p rescales their combined
+ * integral. Candidate mainshock magnitudes M scale the mainshock's own
+ * aftershocks by 10^(b(M − mainMag)), leaving the other sources' unchanged.
+ */
+export function parameterMixture(
+  params: ModelParameters,
+  uncertainty: ParameterUncertainty,
+  tStart: number,
+  tEnd: number,
+  mainMag = 0,
+  sources: SourceEvent[] = []
+): CountMixture {
+  const zGrid = (sd: number, n: number) =>
+    sd > 0 ? Array.from({ length: n }, (_, i) => -5 + (10 * i) / (n - 1)) : [0];
+  // N at magnitude M is 10^(b(M − mainMag)) times the count with the sources
+  // scaled relative to M rather than mainMag
+  const integral = (p: number, mag: number) =>
+    Math.pow(10, params.b * (mag - mainMag)) * combinedOmoriIntegral(tStart, tEnd, { ...params, p }, mag, sources);
+  const base = integral(params.p, mainMag);
+  const magnitudes = uncertainty.magnitudes ?? [{ magnitude: mainMag, weight: 1 }];
+  const bins = new Map<number, number>();
+  let total = 0;
+  for (const { magnitude, weight } of magnitudes) {
+    for (const zp of zGrid(uncertainty.pSd, 41)) {
+      const p = Math.max(0.05, params.p + uncertainty.pSd * zp);
+      const logP = Math.log(integral(p, magnitude) / base);
+      for (const za of zGrid(uncertainty.aSd, 201)) {
+        const w = weight * Math.exp(-0.5 * (za * za + zp * zp));
+        const bin = Math.round((uncertainty.aSd * za * Math.LN10 + logP) / LOG_FACTOR_STEP);
+        bins.set(bin, (bins.get(bin) ?? 0) + w);
+        total += w;
+      }
+    }
+  }
+  const keys = [...bins.keys()].sort((x, y) => x - y);
+  return {
+    factors: keys.map(k => Math.exp(k * LOG_FACTOR_STEP)),
+    weights: keys.map(k => bins.get(k)! / total),
+  };
+}
+
+/** P(X <= k) for the Poisson mixture with mean lambda·factor */
+export function mixtureCdf(k: number, lambda: number, mixture: CountMixture): number {
+  let sum = 0;
+  for (let i = 0; i < mixture.factors.length; i++) {
+    sum += mixture.weights[i] * poissonCdf(k, lambda * mixture.factors[i]);
+  }
+  return Math.min(1, sum);
+}
+
+/** Quantile of the Poisson mixture: the smallest k with P(X <= k) >= q */
+export function mixtureQuantile(q: number, lambda: number, mixture: CountMixture): number {
+  if (lambda <= 0 || q <= 0) return 0;
+  let lo = 0;
+  let hi = Math.max(1, Math.ceil(qpois(Math.min(q, 0.999999), lambda * Math.max(...mixture.factors))) * 2);
+  while (mixtureCdf(hi, lambda, mixture) < q) hi *= 2;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (mixtureCdf(mid, lambda, mixture) >= q) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
+
+/**
+ * An expected count with its predictive distribution: Poisson(expected), or
+ * the Poisson mixture with mean expected·factor when a mixture is given
+ */
+export interface CountForecast {
+  expected: number;
+  mixture?: CountMixture;
+}
+
+/**
+ * Mixture of several count distributions, drawn from with the given
+ * (normalised) weights, as one count relative to the weighted mean
+ */
+export function mixCountForecasts(parts: (CountForecast & { weight: number })[]): CountForecast {
+  const expected = parts.reduce((sum, part) => sum + part.weight * part.expected, 0);
+  if (!(expected > 0)) return { expected: 0 };
+  const factors: number[] = [];
+  const weights: number[] = [];
+  for (const part of parts) {
+    const mixture = part.mixture ?? { factors: [1], weights: [1] };
+    mixture.factors.forEach((f, i) => {
+      factors.push((part.expected * f) / expected);
+      weights.push(part.weight * mixture.weights[i]);
+    });
+  }
+  return { expected, mixture: { factors, weights } };
+}
+
+/** P(X >= 1) for the Poisson mixture */
+export function mixtureProbabilityAtLeastOne(lambda: number, mixture: CountMixture): number {
+  let none = 0;
+  for (let i = 0; i < mixture.factors.length; i++) {
+    none += mixture.weights[i] * Math.exp(-lambda * mixture.factors[i]);
+  }
+  return 1 - none;
+}
+
 /**
  * Format a value for display based on its magnitude
  */
@@ -119,45 +281,378 @@ export function calculateOmoriIntegral(
   c: number,
   p: number
 ): number {
+  // Written in terms of the window length so that short windows late in a
+  // sequence (minutes, a year out) don't lose precision to cancellation
+  const logRatio = Math.log1p((rangeEnd - rangeStart) / (rangeStart + c));
+
   // Handle p = 1 case: integral becomes logarithmic
   // Using small epsilon for floating-point comparison
   if (Math.abs(p - 1) < 1e-10) {
-    return Math.log(rangeEnd + c) - Math.log(rangeStart + c);
+    return logRatio;
   }
 
-  return (Math.pow(rangeEnd + c, 1 - p) - Math.pow(rangeStart + c, 1 - p)) / (1 - p);
+  return (Math.pow(rangeStart + c, 1 - p) * Math.expm1((1 - p) * logRatio)) / (1 - p);
+}
+
+/**
+ * Integral of the model's temporal kernel over [rangeStart, rangeEnd] days
+ * after a source: the Omori–Utsu integral unless params.kernel selects
+ * another decay
+ */
+export function temporalKernelIntegral(rangeStart: number, rangeEnd: number, params: ModelParameters): number {
+  const { kernel } = params;
+  return !kernel || kernel.type === 'omori'
+    ? calculateOmoriIntegral(rangeStart, rangeEnd, params.c, params.p)
+    : kernelIntegral(rangeStart, rangeEnd, params, kernel);
+}
+
+/** The model's temporal kernel at t days after a source, (t + c)^-p for Omori–Utsu */
+export function temporalKernelRate(t: number, params: ModelParameters): number {
+  const { kernel } = params;
+  return !kernel || kernel.type === 'omori'
+    ? Math.pow(t + params.c, -params.p)
+    : kernelRate(t, params, kernel);
+}
+
+/**
+ * Fraction of the unbounded Gutenberg–Richter count N(≥minMag) left under a
+ * maximum magnitude (1 when there is none). Truncation at Mmax removes the
+ * events that would exceed it, 1 − 10^(−b(Mmax − m)), so no event reaches
+ * Mmax while counts well below it are unchanged. The taper is Kagan's (2002)
+ * exponential roll-off in seismic moment, exp(−M0(m)/M0(Mc)) =
+ * exp(−10^(1.5(m − Mc))), for thresholds far below the corner Mc at which
+ * the productivity is calibrated. m is minMag − 0.05, the same rounding
+ * allowance as calculateExpectedAftershocks.
+ */
+export function grSurvivalFactor(minMag: number, b: number, maxMagnitude?: MaxMagnitude): number {
+  if (!maxMagnitude) return 1;
+  const m = minMag - 0.05;
+  if (maxMagnitude.kind === 'truncated') {
+    return Math.max(0, -Math.expm1(-b * Math.LN10 * (maxMagnitude.magnitude - m)));
+  }
+  return Math.exp(-Math.pow(10, 1.5 * (m - maxMagnitude.magnitude)));
+}
+
+/**
+ * Problems with a maximum magnitude, as user-facing messages (empty when it
+ * is usable). A hard maximum must exceed the mainshock, which has already
+ * happened; a corner magnitude only needs to be a magnitude.
+ */
+export function validateMaxMagnitude(maxMagnitude: MaxMagnitude, mainMag: number): string[] {
+  const { kind, magnitude } = maxMagnitude;
+  if (!Number.isFinite(magnitude) || magnitude <= 0 || magnitude > 10) {
+    return [`${kind === 'truncated' ? 'Maximum' : 'Corner'} magnitude must be between 0 and 10`];
+  }
+  if (kind === 'truncated' && Number.isFinite(mainMag) && magnitude <= mainMag) {
+    return ['Maximum magnitude must be greater than the mainshock magnitude'];
+  }
+  return [];
 }
 
 /**
  * Calculate expected number of aftershocks for a magnitude range
+ *
+ * @param maxMagnitude - Truncates or tapers the Gutenberg–Richter distribution; unbounded when absent
  */
 export function calculateExpectedAftershocks(
   a: number,
   b: number,
   mainMag: number,
   minMag: number,
-  omoriIntegral: number
+  omoriIntegral: number,
+  maxMagnitude?: MaxMagnitude
 ): number {
-  return Math.pow(10, a + b * (mainMag - (minMag - 0.05))) * omoriIntegral;
+  return Math.pow(10, a + b * (mainMag - (minMag - 0.05))) * omoriIntegral * grSurvivalFactor(minMag, b, maxMagnitude);
+}
+
+/**
+ * Temporal-kernel integral (Omori–Utsu by default) over [tStart, tEnd] days
+ * after the mainshock, summed over the mainshock and any additional source
+ * events. Each source's term runs
+ * from its own origin time (it contributes nothing before it occurs) and is
+ * weighted by its productivity relative to the mainshock, 10^(b·(M_s − mainMag)),
+ * so calculateExpectedAftershocks(a, b, mainMag, minMag, ·) of the result is
+ * the combined expected count.
+ */
+export function combinedOmoriIntegral(
+  tStart: number,
+  tEnd: number,
+  params: ModelParameters,
+  mainMag: number,
+  sources: SourceEvent[] = []
+): number {
+  let integral = temporalKernelIntegral(tStart, tEnd, params);
+  for (const source of sources) {
+    const from = Math.max(tStart, source.timeDays);
+    if (tEnd > from) {
+      integral += Math.pow(10, params.b * (source.magnitude - mainMag))
+        * temporalKernelIntegral(from - source.timeDays, tEnd - source.timeDays, params);
+    }
+  }
+  return integral;
+}
+
+/**
+ * Expected rate (events/day) of aftershocks with M >= minMag at t days after
+ * the mainshock, summed over the mainshock and any additional source events
+ */
+export function calculateAftershockRate(
+  params: ModelParameters,
+  mainMag: number,
+  minMag: number,
+  t: number,
+  sources: SourceEvent[] = []
+): number {
+  const { a, b } = params;
+  const all = [{ magnitude: mainMag, timeDays: 0 }, ...sources];
+  let rate = 0;
+  for (const source of all) {
+    if (t > source.timeDays) {
+      rate += Math.pow(10, a + b * (source.magnitude - (minMag - 0.05))) * temporalKernelRate(t - source.timeDays, params);
+    }
+  }
+  return rate * grSurvivalFactor(minMag, b, params.maxMagnitude);
+}
+
+/**
+ * Earliest time, at or after tFrom days after the mainshock, from which a
+ * rate (events/day at t days after the mainshock) stays below targetRate.
+ * The rate must decrease between the break times, as every model's does
+ * between source events, but may jump up at them. Null if it is still at or
+ * above the target MAX_FORECAST_DAYS after the mainshock.
+ */
+export function timeRateFallsBelow(
+  rate: (t: number) => number,
+  targetRate: number,
+  tFrom: number,
+  breaks: number[] = []
+): number | null {
+  if (rate(MAX_FORECAST_DAYS) >= targetRate) return null;
+  const edges = [tFrom, ...breaks.filter(t => t > tFrom && t < MAX_FORECAST_DAYS).sort((x, y) => x - y), MAX_FORECAST_DAYS];
+  // The crossing lies in the latest stretch that starts at or above the
+  // target; a source only counts just after its own time
+  for (let i = edges.length - 2; i >= 0; i--) {
+    let lo = edges[i];
+    let hi = edges[i + 1];
+    if (rate(lo + 1e-9 * Math.max(1, lo)) < targetRate) continue;
+    for (let k = 0; k < 100; k++) {
+      const mid = (lo + hi) / 2;
+      if (rate(mid) >= targetRate) lo = mid;
+      else hi = mid;
+    }
+    return hi;
+  }
+  return tFrom;
 }
 
 /**
- * Calculate forecast for a single duration period
+ * Time (days after the mainshock) from which the rate of aftershocks with
+ * M >= minMag stays below targetRate (events/day), searching from tFrom days
+ * after the mainshock; null if not within MAX_FORECAST_DAYS
  *
- * @throws {Error} If duration or rangeStartFromQuakeTime is negative
+ * @throws {Error} If targetRate is not positive
  */
-export function calculateDurationForecast(
-  duration: number,
-  mag: number,
-  m1: number,
-  m2: number,
-  m3: number,
-  rangeStartFromQuakeTime: number,
-  params: ModelParameters
-): DurationForecast {
-  // Edge case validation
-  if (duration <= 0) {
-    throw new Error('Duration must be positive');
+export function calculateTimeToRate(
+  params: ModelParameters,
+  mainMag: number,
+  minMag: number,
+  targetRate: number,
+  tFrom: number,
+  sources: SourceEvent[] = []
+): number | null {
+  if (!(targetRate > 0)) {
+    throw new Error('Target rate must be greater than 0');
+  }
+  return timeRateFallsBelow(
+    t => calculateAftershockRate(params, mainMag, minMag, t, sources),
+    targetRate,
+    tFrom,
+    sources.map(s => s.timeDays)
+  );
+}
+
+/**
+ * Problems with a list of additional source events, as user-facing messages
+ * (empty when the list is usable). Sources must have occurred by the
+ * forecast start, rangeStartDays after the mainshock.
+ */
+export function validateSourceEvents(sources: SourceEvent[], rangeStartDays: number): string[] {
+  const errors: string[] = [];
+  sources.forEach((s, i) => {
+    if (!Number.isFinite(s.magnitude) || s.magnitude < 0 || s.magnitude > 10) {
+      errors.push(`Source event ${i + 1} needs a magnitude between 0 and 10`);
+    }
+    if (!Number.isFinite(s.timeDays)) {
+      errors.push(`Source event ${i + 1} needs a valid origin time`);
+    } else if (s.timeDays > rangeStartDays) {
+      errors.push(`Source event ${i + 1} must occur before the forecast start time`);
+    } else if (s.timeDays === 0) {
+      errors.push(`Source event ${i + 1} has the same origin time as the mainshock`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Candidate magnitudes for a normally distributed mainshock magnitude: nodes
+ * every σ/2 out to ±3σ, weighted by the normal density
+ */
+export function normalMagnitudeCandidates(mean: number, sd: number): MagnitudeCandidate[] {
+  if (!(sd > 0)) return [{ magnitude: mean, weight: 1 }];
+  const nodes = Array.from({ length: 13 }, (_, i) => -3 + i / 2);
+  const densities = nodes.map(z => Math.exp(-0.5 * z * z));
+  const total = densities.reduce((sum, d) => sum + d, 0);
+  return nodes.map((z, i) => ({ magnitude: mean + z * sd, weight: densities[i] / total }));
+}
+
+/**
+ * Problems with a list of candidate mainshock magnitudes, as user-facing
+ * messages (empty when the list is usable)
+ */
+export function validateMagnitudeCandidates(candidates: MagnitudeCandidate[]): string[] {
+  const errors: string[] = [];
+  candidates.forEach((c, i) => {
+    if (!Number.isFinite(c.magnitude) || c.magnitude < 0 || c.magnitude > 10) {
+      errors.push(`Candidate magnitude ${i + 1} must be between 0 and 10`);
+    }
+    if (!Number.isFinite(c.weight) || c.weight < 0) {
+      errors.push(`Candidate magnitude ${i + 1} needs a weight of zero or more`);
+    }
+  });
+  if (errors.length === 0 && !candidates.some(c => c.weight > 0)) {
+    errors.push('Give at least one candidate magnitude a positive weight');
+  }
+  return errors;
+}
+
+/** Candidates with a positive weight, weights summing to 1, lowest magnitude first */
+export function normaliseMagnitudeCandidates(candidates: MagnitudeCandidate[]): MagnitudeCandidate[] {
+  const total = candidates.reduce((sum, c) => sum + c.weight, 0);
+  return candidates
+    .filter(c => c.weight > 0)
+    .map(c => ({ magnitude: c.magnitude, weight: c.weight / total }))
+    .sort((x, y) => x.magnitude - y.magnitude);
+}
+
+/**
+ * Low and high ends of the magnitude uncertainty: the 2.5% and 97.5%
+ * quantiles of the normalised candidates (lowest magnitude first)
+ */
+export function magnitudeSpreadBounds(candidates: MagnitudeCandidate[]): [number, number] {
+  const quantile = (q: number) => {
+    let cumulative = 0;
+    for (const c of candidates) {
+      cumulative += c.weight;
+      if (cumulative >= q - 1e-9) return c.magnitude;
+    }
+    return candidates[candidates.length - 1].magnitude;
+  };
+  return [quantile(0.025), quantile(0.975)];
+}
+
+/**
+ * A forecast with each bin's magnitude spread, from the same model's
+ * forecasts for the low and high ends of the magnitude uncertainty
+ */
+export function withMagnitudeSpread(forecast: WindowForecast, low: WindowForecast, high: WindowForecast): WindowForecast {
+  return {
+    window: forecast.window,
+    bins: forecast.bins.map((bin, i) => ({
+      ...bin,
+      magnitudeSpread: {
+        averageNumber: `${low.bins[i].averageNumber}-${high.bins[i].averageNumber}`,
+        probability: `${low.bins[i].probability}-${high.bins[i].probability}`,
+      },
+    })),
+  };
+}
+
+/**
+ * Labels for the bins between ascending thresholds, lowest first:
+ * [3, 4, 5] gives ["M3-M4", "M4-M5", "M5+"]
+ */
+export function magnitudeBinLabels(thresholds: number[]): string[] {
+  return thresholds.map((m, i) =>
+    i === thresholds.length - 1 ? `M${m}+` : `M${m}-M${thresholds[i + 1]}`
+  );
+}
+
+/**
+ * Problems with a list of magnitude thresholds, as user-facing messages
+ * (empty when the list is usable)
+ */
+export function validateMagnitudeThresholds(thresholds: number[]): string[] {
+  const errors: string[] = [];
+  if (thresholds.length === 0) {
+    errors.push('At least one magnitude threshold is required');
+  }
+  if (thresholds.some(m => !Number.isFinite(m) || m < 1 || m > 9)) {
+    errors.push('Magnitude thresholds must be between 1 and 9');
+  }
+  if (thresholds.some((m, i) => i > 0 && m <= thresholds[i - 1])) {
+    errors.push('Magnitude thresholds must be distinct and in increasing order');
+  }
+  return errors;
+}
+
+/**
+ * A number of days expressed in the given unit, with floating-point noise
+ * from the unit conversion removed (6 hours gives 6, not 5.999999999999999)
+ */
+export function daysToUnit(days: number, unit: TimeUnit): number {
+  return Number((days / TIME_UNIT_DAYS[unit]).toPrecision(12));
+}
+
+/** "1 hour", "6 hours", "2.5 days" */
+export function formatTimeSpan(value: number, unit: TimeUnit): string {
+  return `${value} ${value === 1 ? unit.slice(0, -1) : unit}`;
+}
+
+/**
+ * Short label for a forecast window in its own unit: "7 days" or "6 hours"
+ * when it starts at the forecast start time, otherwise "days 1–2"
+ */
+export function forecastWindowLabel(window: ForecastWindow): string {
+  const unit = window.unit ?? 'days';
+  const end = daysToUnit(window.end, unit);
+  if (window.start === 0) {
+    return formatTimeSpan(end, unit);
+  }
+  return `${unit} ${daysToUnit(window.start, unit)}–${end}`;
+}
+
+/**
+ * Problems with a list of forecast windows, as user-facing messages
+ * (empty when the list is usable)
+ */
+export function validateForecastWindows(windows: ForecastWindow[]): string[] {
+  const errors: string[] = [];
+  if (windows.length === 0) {
+    errors.push('At least one forecast window is required');
+  }
+  windows.forEach((w, i) => {
+    if (!Number.isFinite(w.start) || !Number.isFinite(w.end) || w.start < 0) {
+      errors.push(`Forecast window ${i + 1} must start at or after the forecast start time`);
+    } else if (w.end <= w.start) {
+      errors.push(`Forecast window ${i + 1} must end after it starts`);
+    } else if (w.end > MAX_FORECAST_DAYS) {
+      errors.push(`Forecast window ${i + 1} must end within 10 years of the forecast start`);
+    }
+  });
+  if (new Set(windows.map(w => `${w.start}-${w.end}`)).size !== windows.length) {
+    errors.push('Forecast windows must be unique');
+  }
+  return errors;
+}
+
+/**
+ * Edge case validation shared by the Reasenberg–Jones forecasts
+ *
+ * @throws {Error} If the window is empty or starts before the forecast start, rangeStartFromQuakeTime is negative, or the parameters make the maths undefined
+ */
+function checkForecastInputs(window: ForecastWindow, rangeStartFromQuakeTime: number, params: ModelParameters): void {
+  if (window.start < 0 || window.end <= window.start) {
+    throw new Error('Forecast window must end after it starts, and start at or after the forecast start time');
   }
   if (rangeStartFromQuakeTime < 0) {
     throw new Error('Forecast cannot start before the earthquake occurred');
@@ -170,52 +665,215 @@ export function calculateDurationForecast(
   if (!Number.isFinite(a) || !Number.isFinite(b) || b <= 0 || !Number.isFinite(c) || c <= 0 || !Number.isFinite(p) || p <= 0) {
     throw new Error("Model parameters must be finite, with 'b', 'c' and 'p' greater than 0");
   }
+  if (params.maxMagnitude && !Number.isFinite(params.maxMagnitude.magnitude)) {
+    throw new Error('Maximum magnitude must be a finite number');
+  }
+  const kernelErrors = params.kernel ? validateTemporalKernel(params.kernel, c) : [];
+  if (kernelErrors.length > 0) {
+    throw new Error(kernelErrors[0]);
+  }
+}
 
-  const rangeEnd = rangeStartFromQuakeTime + duration;
-  const omoriIntegral = calculateOmoriIntegral(rangeStartFromQuakeTime, rangeEnd, c, p);
+/**
+ * Calculate forecast for a single window
+ *
+ * @param window - Days after the forecast start time
+ * @param thresholds - Ascending magnitude thresholds defining the bins
+ * @param sources - Source events besides the mainshock, whose aftershocks are added
+ * @throws {Error} If the window is empty or starts before the forecast start, or rangeStartFromQuakeTime is negative
+ */
+export function calculateWindowForecast(
+  window: ForecastWindow,
+  mag: number,
+  thresholds: number[],
+  rangeStartFromQuakeTime: number,
+  params: ModelParameters,
+  uncertainty?: ParameterUncertainty,
+  sources: SourceEvent[] = []
+): WindowForecast {
+  checkForecastInputs(window, rangeStartFromQuakeTime, params);
+  const { a, b } = params;
+
+  const tStart = rangeStartFromQuakeTime + window.start;
+  const tEnd = rangeStartFromQuakeTime + window.end;
+  const omoriIntegral = combinedOmoriIntegral(tStart, tEnd, params, mag, sources);
 
-  // Calculate expected numbers for each magnitude threshold
-  const vNabu1 = calculateExpectedAftershocks(a, b, mag, m1, omoriIntegral);
-  const vNabu2 = calculateExpectedAftershocks(a, b, mag, m2, omoriIntegral);
-  const vNabu3 = calculateExpectedAftershocks(a, b, mag, m3, omoriIntegral);
+  // Expected number at or above each magnitude threshold
+  const cumulative = thresholds.map(m => calculateExpectedAftershocks(a, b, mag, m, omoriIntegral, params.maxMagnitude));
 
-  // Calculate differences for magnitude ranges
-  const diff1 = vNabu1; // M1+ 
-  const diff2 = vNabu2 - vNabu1; // M2 to M1
-  const diff3 = vNabu3 - vNabu2; // M3 to M2
+  const mixture = uncertainty
+    ? parameterMixture(params, uncertainty, tStart, tEnd, mag, sources)
+    : undefined;
 
-  // Calculate probabilities (probability of 1 or more)
-  const p1 = 100 * (1 - Math.exp(-diff1));
-  const p2 = 100 * (1 - Math.exp(-diff2));
-  const p3 = 100 * (1 - Math.exp(-diff3));
+  const forecast = forecastFromExpectedCounts(window, cumulative, mixture);
+  if (!uncertainty?.magnitudes) return forecast;
+  // The spread is the same forecast with the mainshock magnitude fixed at each end
+  const { magnitudes, ...fixed } = uncertainty;
+  const [low, high] = magnitudeSpreadBounds(magnitudes);
+  return withMagnitudeSpread(
+    forecast,
+    calculateWindowForecast(window, low, thresholds, rangeStartFromQuakeTime, params, fixed, sources),
+    calculateWindowForecast(window, high, thresholds, rangeStartFromQuakeTime, params, fixed, sources)
+  );
+}
+
+/**
+ * Build the table row for one window from the expected counts N(≥M) at
+ * each ascending threshold. Bin i is the difference between thresholds i and
+ * i + 1; the top bin is N at the highest threshold. Shared by every model so
+ * bins, ranges and formatting are identical.
+ * With a parameter mixture the expected numbers stay the point estimates,
+ * while ranges and probabilities come from the predictive distribution.
+ */
+export function forecastFromExpectedCounts(
+  window: ForecastWindow,
+  cumulative: number[],
+  mixture?: CountMixture
+): WindowForecast {
+  return forecastFromBinCounts(
+    window,
+    cumulative.map((n, i) => ({ expected: i === cumulative.length - 1 ? n : n - cumulative[i + 1], mixture }))
+  );
+}
+
+/**
+ * Build the table row for one window from each bin's count distribution,
+ * lowest bin first (for models whose distribution differs between bins)
+ */
+export function forecastFromBinCounts(window: ForecastWindow, counts: CountForecast[]): WindowForecast {
+  const bin = ({ expected, mixture }: CountForecast) => {
+    // Probability of 1 or more, and 95% range from the count quantiles.
+    // Note: for very small expected values the upper bound can legitimately be 0
+    const probability = mixture
+      ? mixtureProbabilityAtLeastOne(expected, mixture)
+      : 1 - Math.exp(-expected);
+    const lower = mixture ? mixtureQuantile(0.025, expected, mixture) : qpois(0.025, expected);
+    const upper = mixture ? mixtureQuantile(0.975, expected, mixture) : qpois(0.975, expected);
+    return {
+      averageNumber: formatValue(expected),
+      range: `${Math.round(lower)}-${Math.round(upper)}`,
+      probability: formatPercentage(100 * probability),
+    };
+  };
+
+  return { window, bins: counts.map(bin) };
+}
+
+/**
+ * Probability that the largest aftershock in a window is below magnitude m,
+ * i.e. that no event reaches m, given N(≥refMag) expected events under
+ * unbounded Gutenberg–Richter scaling with slope b, then any maximum
+ * magnitude. With a parameter mixture this is averaged over the predictive
+ * distribution.
+ */
+export function largestMagnitudeCdf(
+  m: number,
+  refMag: number,
+  expectedAtRef: number,
+  b: number,
+  mixture?: CountMixture,
+  maxMagnitude?: MaxMagnitude
+): number {
+  const expected = expectedAtRef * Math.pow(10, -b * (m - refMag)) * grSurvivalFactor(m, b, maxMagnitude);
+  return mixture ? 1 - mixtureProbabilityAtLeastOne(expected, mixture) : Math.exp(-expected);
+}
+
+/**
+ * Magnitude below which the largest aftershock falls with probability q.
+ * Closed form for a Poisson count under unbounded Gutenberg–Richter scaling;
+ * found by bisection under a mixture or a maximum magnitude.
+ */
+export function largestMagnitudeQuantile(
+  q: number,
+  refMag: number,
+  expectedAtRef: number,
+  b: number,
+  mixture?: CountMixture,
+  maxMagnitude?: MaxMagnitude
+): number {
+  if (!mixture && !maxMagnitude) {
+    // exp(-N(≥m)) = q  ⇔  N(≥refMag)·10^(-b(m - refMag)) = -ln q
+    return refMag + Math.log10(expectedAtRef / -Math.log(q)) / b;
+  }
+  let lo = refMag - 20;
+  let hi = refMag + 20;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (largestMagnitudeCdf(mid, refMag, expectedAtRef, b, mixture, maxMagnitude) < q) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
 
-  // Calculate confidence intervals using Poisson quantiles
-  // Note: For very small expected values, upper bound can legitimately be 0
-  // We only use fallback of 1 when the expected value is non-trivial but rounds to 0
-  const p1L = qpois(0.025, diff1);
-  const p1U = qpois(0.975, diff1);
-  const p2L = qpois(0.025, diff2);
-  const p2U = qpois(0.975, diff2);
-  const p3L = qpois(0.025, diff3);
-  const p3U = qpois(0.975, diff3);
+/**
+ * Magnitude that at least one aftershock reaches or exceeds with the given
+ * probability: the largest-aftershock quantile at 1 − probability
+ *
+ * @throws {Error} If probability is not strictly between 0 and 1
+ */
+export function calculateMagnitudeAtProbability(
+  probability: number,
+  refMag: number,
+  expectedAtRef: number,
+  b: number,
+  mixture?: CountMixture,
+  maxMagnitude?: MaxMagnitude
+): number {
+  if (!(probability > 0 && probability < 1)) {
+    throw new Error('Probability must be between 0% and 100%');
+  }
+  return largestMagnitudeQuantile(1 - probability, refMag, expectedAtRef, b, mixture, maxMagnitude);
+}
 
+/**
+ * Largest-aftershock summary for one window from the expected count at the
+ * mainshock magnitude (before any maximum magnitude). Shared by every model,
+ * like forecastFromExpectedCounts.
+ */
+export function largestAftershockFromExpected(
+  window: ForecastWindow,
+  mag: number,
+  expectedAtMainshock: number,
+  b: number,
+  mixture?: CountMixture,
+  maxMagnitude?: MaxMagnitude
+): LargestAftershockForecast {
+  const quantile = (q: number) => largestMagnitudeQuantile(q, mag, expectedAtMainshock, b, mixture, maxMagnitude);
   return {
-    duration,
-    m1: {
-      averageNumber: formatValue(diff1),
-      range: `${Math.round(p1L)}-${Math.round(p1U)}`,
-      probability: formatPercentage(p1),
-    },
-    m2: {
-      averageNumber: formatValue(diff2),
-      range: `${Math.round(p2L)}-${Math.round(p2U)}`,
-      probability: formatPercentage(p2),
-    },
-    m3: {
-      averageNumber: formatValue(diff3),
-      range: `${Math.round(p3L)}-${Math.round(p3U)}`,
-      probability: formatPercentage(p3),
-    },
+    window,
+    expectedAtMainshock,
+    b,
+    maxMagnitude,
+    probabilityAtLeastMainshock: 1 - largestMagnitudeCdf(mag, mag, expectedAtMainshock, b, mixture, maxMagnitude),
+    median: quantile(0.5),
+    lower: quantile(0.025),
+    upper: quantile(0.975),
   };
 }
 
+/**
+ * Distribution of the largest aftershock magnitude in one window, and the
+ * chance of an aftershock at least as large as the mainshock
+ *
+ * @param window - Days after the forecast start time
+ * @param sources - Source events besides the mainshock, whose aftershocks are added
+ * @throws {Error} If the window is empty or starts before the forecast start, or rangeStartFromQuakeTime is negative
+ */
+export function calculateLargestAftershock(
+  window: ForecastWindow,
+  mag: number,
+  rangeStartFromQuakeTime: number,
+  params: ModelParameters,
+  uncertainty?: ParameterUncertainty,
+  sources: SourceEvent[] = []
+): LargestAftershockForecast {
+  checkForecastInputs(window, rangeStartFromQuakeTime, params);
+  const { a, b } = params;
+
+  const tStart = rangeStartFromQuakeTime + window.start;
+  const tEnd = rangeStartFromQuakeTime + window.end;
+  const expected = calculateExpectedAftershocks(a, b, mag, mag, combinedOmoriIntegral(tStart, tEnd, params, mag, sources));
+  const mixture = uncertainty ? parameterMixture(params, uncertainty, tStart, tEnd, mag, sources) : undefined;
+
+  return largestAftershockFromExpected(window, mag, expected, b, mixture, params.maxMagnitude);
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { rampColor } from './colors';
+
+const RAMP = ['#f87171', '#dc2626', '#7f1d1d'] as const;
+
+describe('rampColor', () => {
+  it('returns the stops exactly when there is one item per stop', () => {
+    expect([0, 1, 2].map(i => rampColor(RAMP, i, 3))).toEqual([...RAMP]);
+  });
+
+  it('interpolates between stops for more items', () => {
+    const colors = [0, 1, 2, 3, 4].map(i => rampColor(RAMP, i, 5));
+    expect(colors[0]).toBe(RAMP[0]);
+    expect(colors[2]).toBe(RAMP[1]);
+    expect(colors[4]).toBe(RAMP[2]);
+    // Halfway between #f87171 and #dc2626
+    expect(colors[1]).toBe('#ea4c4c');
+  });
+
+  it('uses the strongest stop for a single item', () => {
+    expect(rampColor(RAMP, 0, 1)).toBe(RAMP[2]);
+  });
+});
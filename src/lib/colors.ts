@@ -0,0 +1,29 @@
+// Colour helpers for ordinal (magnitude-bin) encodings
+
+/** Parse '#rrggbb' into its red, green and blue components */
+function hexToRgb(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+}
+
+/** Format red, green and blue components as '#rrggbb' */
+function rgbToHex([r, g, b]: [number, number, number]): string {
+  return `#${[r, g, b].map(x => Math.round(x).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Colour of item `index` of `count` ordered items, sampled piecewise-linearly
+ * (in RGB) along a ramp of '#rrggbb' stops ordered low to high. Items are
+ * spread evenly from the first stop to the last, so when count equals the
+ * number of stops the stops are returned exactly; a single item takes the
+ * last (strongest) stop.
+ */
+export function rampColor(stops: readonly string[], index: number, count: number): string {
+  if (count <= 1 || stops.length === 1) return stops[stops.length - 1];
+  const position = (index / (count - 1)) * (stops.length - 1);
+  const lower = Math.min(stops.length - 2, Math.floor(position));
+  const f = position - lower;
+  const from = hexToRgb(stops[lower]);
+  const to = hexToRgb(stops[lower + 1]);
+  return rgbToHex([0, 1, 2].map(k => from[k] + (to[k] - from[k]) * f) as [number, number, number]);
+}
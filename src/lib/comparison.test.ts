@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareModels,
+  comparisonModels,
+  pairedTest,
+  studentTCdf,
+  studentTQuantile,
+  wilcoxonSignedRank,
+} from './comparison';
+import { simulateCatalogues } from './simulation';
+import { testResults } from './testResults';
+import { MODEL_PRESETS } from '@/types';
+
+const results = testResults(6.5, [3, 4]);
+
+describe('comparative tests', () => {
+  it('computes Student t quantiles', () => {
+    expect(studentTQuantile(0.975, 10)).toBeCloseTo(2.228139, 5);
+    expect(studentTQuantile(0.975, 1)).toBeCloseTo(12.7062, 3);
+    expect(studentTQuantile(0.025, 30)).toBeCloseTo(-2.042272, 5);
+    expect(studentTCdf(0, 5)).toBe(0.5);
+  });
+
+  it('runs the Wilcoxon signed-rank test', () => {
+    // All five differences positive: exact two-sided p = 2 / 2^5
+    expect(wilcoxonSignedRank([1, 2, 3, 4, 5])).toBeCloseTo(0.0625, 12);
+    expect(wilcoxonSignedRank([-1, 2, -3, 4, 0])).toBeGreaterThan(0.5);
+    expect(wilcoxonSignedRank([0, 0])).toBe(1);
+    // Ties fall back on the normal approximation
+    const shifted = Array.from({ length: 60 }, (_, i) => (i % 10) + 1);
+    expect(wilcoxonSignedRank(shifted)).toBeLessThan(1e-6);
+  });
+
+  it('measures the information gain per earthquake with its interval', () => {
+    const same = pairedTest([0, -1, -2], [0, -1, -2], 5, 5);
+    expect(same).toMatchObject({ informationGain: 0, lower: 0, upper: 0, tVerdict: 'indistinguishable', wPValue: 1 });
+    // Twice the rate at every earthquake, for one more expected earthquake
+    const gain = pairedTest([Math.LN2, Math.LN2, Math.LN2, Math.LN2], [0, 0, 0, 0], 2, 1);
+    expect(gain.informationGain).toBeCloseTo(Math.LN2 - 1 / 4, 12);
+    expect(gain.tVerdict).toBe('better');
+    expect(() => pairedTest([0], [0], 1, 1)).toThrow();
+  });
+
+  it('ranks the model that made the catalogue above a far less productive one', () => {
+    const [catalogue] = simulateCatalogues(results, { count: 1, seed: 3, window: { start: 0, end: 30 } });
+    expect(catalogue.length).toBeGreaterThan(10);
+    const models = comparisonModels(results, MODEL_PRESETS.custom).filter(m => m.id === 'nz' || m.id === 'scr');
+    const comparison = compareModels(results, models, catalogue, 3, 1, 31);
+    expect(comparison.fits.map(f => f.model.id)).toEqual(['nz', 'scr']);
+    expect(comparison.pairs[0][1]?.tVerdict).toBe('better');
+    expect(comparison.pairs[0][1]?.wPValue).toBeLessThan(0.05);
+    expect(comparison.pairs[1][0]?.informationGain).toBeCloseTo(-comparison.pairs[0][1]!.informationGain, 12);
+    expect(comparison.pairs[0][0]).toBeNull();
+    expect(() => compareModels(results, models, catalogue.slice(0, 1), 3, 1, 31)).toThrow();
+  });
+
+  it('rules out a model that gives an observed earthquake zero rate', () => {
+    const truncated = { kind: 'truncated' as const, magnitude: 5 };
+    const models = comparisonModels(results, MODEL_PRESETS.custom)
+      .filter(m => m.id === 'nz' || m.id === 'sz' || m.id === 'scr')
+      .map(m => (m.id === 'sz' ? { ...m, params: { ...m.params, maxMagnitude: truncated } } : m));
+    const earthquakes = [{ timeDays: 2, magnitude: 3.2 }, { timeDays: 3, magnitude: 5.4 }, { timeDays: 5, magnitude: 3.6 }];
+    const comparison = compareModels(results, models, earthquakes, 3, 1, 31);
+    expect(comparison.ruledOut).toEqual([{ model: models[1], earthquakes: 1 }]);
+    expect(comparison.fits.map(f => f.model.id).sort()).toEqual(['nz', 'scr']);
+    expect(comparison.fits.every(f => Number.isFinite(f.logLikelihood))).toBe(true);
+    expect(comparison.pairs.flat().every(t => t === null || Number.isFinite(t.informationGain))).toBe(true);
+    // With every model truncated there is nothing left to rank
+    const allTruncated = models.map(m => ({ ...m, params: { ...m.params, maxMagnitude: truncated } }));
+    expect(() => compareModels(results, allTruncated, earthquakes, 3, 1, 31)).toThrow(/zero rate/);
+  });
+
+  it('compares every preset and Custom with the forecast\'s settings', () => {
+    const maxMagnitude = { kind: 'truncated' as const, magnitude: 8 };
+    const custom = { a: -1.8, b: 1.1, c: 0.03, p: 1.2 };
+    const models = comparisonModels({ ...results, modelParams: { ...MODEL_PRESETS.nz, maxMagnitude } }, custom);
+    expect(models.map(m => m.id)).toEqual(['nz', 'sz', 'california', 'scr', 'custom']);
+    expect(models.find(m => m.id === 'custom')?.params).toEqual({ ...custom, maxMagnitude });
+    expect(models[0].name).toBe('NZ Generic');
+  });
+});
@@ -0,0 +1,268 @@
+// Comparative forecast testing
+//
+// Scores several forecast models on the same observed earthquakes and
+// compares every pair with the T-test (information gain per earthquake) and
+// the W-test (Wilcoxon signed-rank) of Rhoades et al. (2011), so the presets
+// can be ranked against one catalogue and evaluation region.
+//
+// Documented assumptions:
+// - Each model is a point Reasenberg–Jones forecast with the snapshot's
+//   magnitude, additional sources, maximum magnitude and decay kernel; the
+//   forecast's own ETAS or ensemble model and any parameter uncertainty are
+//   not carried over, since the tests compare expected rates.
+// - The rate at an earthquake is the model's rate density at its time and
+//   magnitude (events per day per 0.1 magnitude unit), so models with
+//   different decay are told apart by when the earthquakes happened as well
+//   as how many there were.
+// - With short-term incompleteness the expected total is the recorded
+//   number. Detection depends only on the mainshock and sources, the same
+//   for every model, so it cancels in the rate ratios.
+// - The T-test's 95% interval uses Student's t with N − 1 degrees of
+//   freedom; the W-test is exact for up to 50 untied differences and
+//   otherwise uses the normal approximation with tie and continuity
+//   corrections. Both need at least two earthquakes.
+// - A model that gives an observed earthquake zero rate (one at or above
+//   its maximum magnitude) is ruled out by it: its log-likelihood is −∞, so
+//   it is reported apart rather than ranked or tested.
+
+import type { CalculationResults, ModelParameters, RJModelType } from '@/types';
+import { MODEL_INFO, MODEL_PRESETS } from '@/types';
+import { calculateAftershockRate, normalCdf } from './calculations';
+import { expectedCountForBin } from './evaluation';
+import { recordedFractionForBin } from './incompleteness';
+import { logGamma } from './kernels';
+
+/** Significance level of the T- and W-tests */
+export const COMPARISON_ALPHA = 0.05;
+
+/** A forecast model taking part in a comparison */
+export interface ComparisonModel {
+  id: RJModelType;
+  name: string;
+  params: ModelParameters;
+}
+
+/** An observed earthquake, at or above the comparison's minimum magnitude */
+export interface TargetEarthquake {
+  /** Days after the mainshock */
+  timeDays: number;
+  magnitude: number;
+}
+
+export interface ModelFit {
+  model: ComparisonModel;
+  /** Expected (recorded) number of earthquakes in the window */
+  expected: number;
+  /** ln of the rate density at each earthquake */
+  logRates: number[];
+  /** Point-process log-likelihood: the sum of logRates minus the expected number */
+  logLikelihood: number;
+}
+
+export interface PairedTest {
+  /** Mean information gain per earthquake of the first model over the second (nats) */
+  informationGain: number;
+  /** 95% confidence interval of the gain (T-test) */
+  lower: number;
+  upper: number;
+  /** T-test verdict: better when the whole interval is above zero */
+  tVerdict: 'better' | 'worse' | 'indistinguishable';
+  /** W-test: two-sided p-value that the median gain per earthquake is zero */
+  wPValue: number;
+}
+
+/** A model that gives zero rate to some of the observed earthquakes */
+export interface RuledOutModel {
+  model: ComparisonModel;
+  /** Number of observed earthquakes it gives zero rate */
+  earthquakes: number;
+}
+
+export interface ModelComparison {
+  /** Fits ranked by log-likelihood, best first */
+  fits: ModelFit[];
+  /** Models left out of the ranking and the tests, in the order given */
+  ruledOut: RuledOutModel[];
+  /** pairs[i][j]: the test of fits[i] over fits[j]; null on the diagonal */
+  pairs: (PairedTest | null)[][];
+  earthquakes: number;
+}
+
+/** The presets and Custom, with the snapshot's maximum magnitude and decay kernel */
+export function comparisonModels(results: CalculationResults, customParams: ModelParameters): ComparisonModel[] {
+  const { maxMagnitude, kernel } = results.etasParams ? {} : results.modelParams;
+  const options = { ...(maxMagnitude ? { maxMagnitude } : {}), ...(kernel ? { kernel } : {}) };
+  return (Object.keys(MODEL_PRESETS) as RJModelType[]).map(id => {
+    const { a, b, c, p } = id === 'custom' ? customParams : MODEL_PRESETS[id];
+    return { id, name: MODEL_INFO[id].name, params: { a, b, c, p, ...options } };
+  });
+}
+
+/** Regularised incomplete beta function I_x(a, b), by its continued fraction (Lentz's method) */
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  // The continued fraction converges fastest below the mean
+  if (x > (a + 1) / (a + b + 2)) return 1 - incompleteBeta(1 - x, b, a);
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  const tiny = 1e-300;
+  const clamp = (v: number) => (Math.abs(v) < tiny ? tiny : v);
+  let c = 1;
+  let d = 1 / clamp(1 - ((a + b) * x) / (a + 1));
+  let h = d;
+  for (let m = 1; m <= 300; m++) {
+    const even = (m * (b - m) * x) / ((a + 2 * m - 1) * (a + 2 * m));
+    d = 1 / clamp(1 + even * d);
+    c = clamp(1 + even / c);
+    h *= d * c;
+    const odd = (-(a + m) * (a + b + m) * x) / ((a + 2 * m) * (a + 2 * m + 1));
+    d = 1 / clamp(1 + odd * d);
+    c = clamp(1 + odd / c);
+    h *= d * c;
+    if (Math.abs(d * c - 1) < 1e-15) break;
+  }
+  return (front * h) / a;
+}
+
+/** Student's t CDF with df degrees of freedom */
+export function studentTCdf(t: number, df: number): number {
+  const tail = 0.5 * incompleteBeta(df / (df + t * t), df / 2, 0.5);
+  return t > 0 ? 1 - tail : tail;
+}
+
+/** Quantile of Student's t with df degrees of freedom, by bisection */
+export function studentTQuantile(q: number, df: number): number {
+  if (q < 0.5) return -studentTQuantile(1 - q, df);
+  let lo = 0;
+  let hi = 1e4;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (studentTCdf(mid, df) < q) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Two-sided p-value of the Wilcoxon signed-rank test that the differences
+ * have median zero; zero differences are dropped
+ */
+export function wilcoxonSignedRank(differences: number[]): number {
+  const nonzero = differences.filter(d => d !== 0).sort((x, y) => Math.abs(x) - Math.abs(y));
+  const n = nonzero.length;
+  if (n === 0) return 1;
+  // Ranks of |d|, ties sharing their mean rank
+  const ranks: number[] = [];
+  const tieSizes: number[] = [];
+  for (let i = 0; i < n; ) {
+    let j = i;
+    while (j + 1 < n && Math.abs(nonzero[j + 1]) === Math.abs(nonzero[i])) j++;
+    for (let k = i; k <= j; k++) ranks.push((i + j) / 2 + 1);
+    tieSizes.push(j - i + 1);
+    i = j + 1;
+  }
+  const wPlus = nonzero.reduce((sum, d, i) => (d > 0 ? sum + ranks[i] : sum), 0);
+
+  if (n <= 50 && tieSizes.every(size => size === 1)) {
+    // Exact null distribution of W+: each rank is positive with probability 1/2
+    const max = (n * (n + 1)) / 2;
+    let distribution = [1];
+    for (let r = 1; r <= n; r++) {
+      const next = new Array(distribution.length + r).fill(0);
+      distribution.forEach((p, s) => {
+        next[s] += p / 2;
+        next[s + r] += p / 2;
+      });
+      distribution = next;
+    }
+    const below = distribution.slice(0, wPlus + 1).reduce((sum, p) => sum + p, 0);
+    const above = distribution.slice(wPlus, max + 1).reduce((sum, p) => sum + p, 0);
+    return Math.min(1, 2 * Math.min(below, above));
+  }
+  const mean = (n * (n + 1)) / 4;
+  const variance = (n * (n + 1) * (2 * n + 1)) / 24 - tieSizes.reduce((sum, t) => sum + (t ** 3 - t), 0) / 48;
+  if (variance <= 0) return 1;
+  const z = Math.max(0, Math.abs(wPlus - mean) - 0.5) / Math.sqrt(variance);
+  return Math.min(1, 2 * (1 - normalCdf(z)));
+}
+
+/**
+ * T- and W-tests of model A over model B from their log rates at the same
+ * earthquakes and their expected numbers
+ *
+ * @throws {Error} If there are fewer than two earthquakes
+ */
+export function pairedTest(logRatesA: number[], logRatesB: number[], expectedA: number, expectedB: number): PairedTest {
+  const n = logRatesA.length;
+  if (n < 2 || logRatesB.length !== n) {
+    throw new Error('Comparing models needs at least two observed earthquakes');
+  }
+  const differences = logRatesA.map((x, i) => x - logRatesB[i]);
+  const sum = differences.reduce((s, d) => s + d, 0);
+  const informationGain = sum / n - (expectedA - expectedB) / n;
+  const variance = Math.max(0, differences.reduce((s, d) => s + d * d, 0) / (n - 1) - (sum * sum) / (n * n - n));
+  const halfWidth = (studentTQuantile(1 - COMPARISON_ALPHA / 2, n - 1) * Math.sqrt(variance)) / Math.sqrt(n);
+  const lower = informationGain - halfWidth;
+  const upper = informationGain + halfWidth;
+  return {
+    informationGain,
+    lower,
+    upper,
+    tVerdict: lower > 0 ? 'better' : upper < 0 ? 'worse' : 'indistinguishable',
+    wPValue: wilcoxonSignedRank(differences.map(d => d - (expectedA - expectedB) / n)),
+  };
+}
+
+/**
+ * Rank models on the earthquakes observed over [tStart, tEnd] days after the
+ * mainshock at or above minMag, and test every pair. Models that give an
+ * observed earthquake zero rate are ruled out instead.
+ *
+ * @throws {Error} If there are fewer than two models or two earthquakes, or
+ * fewer than two models are left once those ruled out are set aside
+ */
+export function compareModels(
+  results: CalculationResults,
+  models: ComparisonModel[],
+  earthquakes: TargetEarthquake[],
+  minMag: number,
+  tStart: number,
+  tEnd: number
+): ModelComparison {
+  if (models.length < 2) {
+    throw new Error('Comparing models needs at least two models');
+  }
+  if (earthquakes.length < 2) {
+    throw new Error('Comparing models needs at least two observed earthquakes');
+  }
+  const { mainshockMagnitude: mag, additionalSources: sources = [] } = results;
+  const bin = { minMag, maxMag: null };
+  const scored = models
+    .map((model): ModelFit => {
+      const asForecast = { ...results, modelParams: model.params, ensemble: undefined, etasParams: undefined };
+      const expected = expectedCountForBin(model.params, mag, bin, tStart, tEnd, undefined, sources)
+        * recordedFractionForBin(asForecast, bin, tStart, tEnd);
+      // Rate density in the 0.1-unit magnitude bin centred on each earthquake
+      const logRates = earthquakes.map(e => Math.log(
+        calculateAftershockRate(model.params, mag, e.magnitude, e.timeDays, sources)
+        - calculateAftershockRate(model.params, mag, e.magnitude + 0.1, e.timeDays, sources)
+      ));
+      return { model, expected, logRates, logLikelihood: logRates.reduce((s, x) => s + x, 0) - expected };
+    });
+  const ruledOut = scored
+    .map(fit => ({ model: fit.model, earthquakes: fit.logRates.filter(x => !Number.isFinite(x)).length }))
+    .filter(r => r.earthquakes > 0);
+  const fits = scored
+    .filter(fit => fit.logRates.every(Number.isFinite))
+    .sort((x, y) => y.logLikelihood - x.logLikelihood);
+  if (fits.length < 2) {
+    throw new Error(
+      `${ruledOut.map(r => r.model.name).join(', ')} ${ruledOut.length === 1 ? 'gives' : 'give'} zero rate to an observed earthquake, ` +
+      'such as one at or above the maximum magnitude, which leaves fewer than two models to compare'
+    );
+  }
+  const pairs = fits.map((a, i) => fits.map((b, j) =>
+    i === j ? null : pairedTest(a.logRates, b.logRates, a.expected, b.expected)
+  ));
+  return { fits, ruledOut, pairs, earthquakes: earthquakes.length };
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  akiUtsuBValue,
+  mcMaxCurvature,
+  mcGoodnessOfFit,
+  mcBValueStability,
+  estimateCompleteness,
+  MIN_B_VALUE_EVENTS,
+} from './completeness';
+
+/**
+ * Deterministic Gutenberg–Richter magnitudes (slope b) complete above mc,
+ * with progressively fewer detections in the 0.5 units below it
+ */
+function syntheticMagnitudes(b: number, mc: number, n: number): number[] {
+  const complete = Array.from({ length: n }, (_, i) => mc - 0.05 - Math.log10(1 - (i + 0.5) / n) / b);
+  const incomplete: number[] = [];
+  for (let step = 1; step <= 5; step++) {
+    const m = mc - step * 0.1;
+    // Expected GR count in this bin, detected with probability falling from 80% to 0%
+    const grCount = n * (Math.pow(10, b * (mc - 0.05 - (m - 0.05))) - Math.pow(10, b * (mc - 0.05 - (m + 0.05))));
+    const detected = Math.round(grCount * Math.max(0, 1 - step * 0.2) * 0.8);
+    for (let i = 0; i < detected; i++) incomplete.push(m);
+  }
+  return [...complete, ...incomplete];
+}
+
+describe('akiUtsuBValue', () => {
+  it('recovers the b-value of a complete Gutenberg-Richter sample', () => {
+    const mags = syntheticMagnitudes(1.0, 2.0, 2000);
+    const estimate = akiUtsuBValue(mags, 2.0);
+    expect(estimate.n).toBe(2000);
+    expect(estimate.b).toBeCloseTo(1.0, 1);
+    // Shi-Bolt error is close to b / sqrt(n) for a GR sample
+    expect(estimate.sigma).toBeGreaterThan(0.5 * estimate.b / Math.sqrt(2000));
+    expect(estimate.sigma).toBeLessThan(2 * estimate.b / Math.sqrt(2000));
+  });
+
+  it('throws with fewer than two events above Mc', () => {
+    expect(() => akiUtsuBValue([3.1, 2.0], 3.0)).toThrow();
+  });
+});
+
+describe('Mc methods', () => {
+  const mags = syntheticMagnitudes(1.0, 2.0, 2000);
+
+  it('finds the completeness magnitude of a synthetic catalogue', () => {
+    expect(mcMaxCurvature(mags)).toBe(2.0);
+    const gft = mcGoodnessOfFit(mags);
+    expect(gft).not.toBeNull();
+    expect(gft!.mc).toBeGreaterThanOrEqual(1.9);
+    expect(gft!.mc).toBeLessThanOrEqual(2.1);
+    const mbs = mcBValueStability(mags);
+    expect(mbs).not.toBeNull();
+    expect(mbs!).toBeGreaterThanOrEqual(2.0);
+    expect(mbs!).toBeLessThanOrEqual(2.3);
+  });
+
+  it('returns no estimate for an empty catalogue', () => {
+    expect(mcMaxCurvature([])).toBeNull();
+    expect(mcGoodnessOfFit([])).toBeNull();
+    expect(mcBValueStability([])).toBeNull();
+  });
+});
+
+describe('estimateCompleteness', () => {
+  it('reports a b-value only with enough events above Mc', () => {
+    const estimates = estimateCompleteness(syntheticMagnitudes(1.0, 2.0, 2000));
+    expect(estimates.map(e => e.method)).toEqual(['maxCurvature', 'goodnessOfFit', 'bStability']);
+    for (const e of estimates) {
+      expect(e.bValue!.b).toBeGreaterThan(0.85);
+      expect(e.bValue!.b).toBeLessThan(1.15);
+    }
+
+    const sparse = estimateCompleteness(syntheticMagnitudes(1.0, 2.0, MIN_B_VALUE_EVENTS / 2));
+    expect(sparse[0].mc).not.toBeNull();
+    expect(sparse.every(e => e.bValue === null)).toBe(true);
+  });
+});
@@ -0,0 +1,186 @@
+// Magnitude of completeness (Mc) and Gutenberg–Richter b-value estimation
+//
+// Documented assumptions:
+// - Magnitudes are first rounded to bins of width ΔM (0.1 by default, the
+//   precision of GeoNet's reporting); an Mc of 3.0 means "every event that
+//   rounds to 3.0 or above".
+// - b-value: Aki (1965) maximum likelihood with Utsu's binning correction,
+//     b = log10(e) / (mean(M) - (Mc - ΔM/2)),
+//   and the Shi & Bolt (1982) standard error
+//     σ_b = 2.30·b²·sqrt(Σ(Mᵢ - mean)² / (n(n - 1))).
+// - Mc methods (Woessner & Wiemer 2005 review):
+//   * maximum curvature: the most populated magnitude bin (tends to
+//     underestimate Mc for gradually curved distributions);
+//   * goodness of fit (Wiemer & Wyss 2000): the lowest Mc whose
+//     Gutenberg–Richter fit explains 95% (else 90%) of the observed
+//     cumulative distribution;
+//   * b-value stability (Cao & Gao 2002): the lowest Mc whose b differs from
+//     the mean b over the next 0.5 magnitude units by less than its σ_b.
+// - A b-value needs at least MIN_B_VALUE_EVENTS events above Mc; methods that
+//   cannot reach it return no estimate rather than an unreliable one.
+
+/** Magnitude bin width (reporting precision) */
+export const MAGNITUDE_BIN = 0.1;
+
+/** Fewest events above Mc for which a b-value is estimated */
+export const MIN_B_VALUE_EVENTS = 50;
+
+/** Width (magnitude units) over which the b-value stability method averages */
+const STABILITY_WIDTH = 0.5;
+
+export type McMethod = 'maxCurvature' | 'goodnessOfFit' | 'bStability';
+
+export interface BValueEstimate {
+  b: number;
+  /** Shi & Bolt (1982) standard error */
+  sigma: number;
+  /** Number of events with M >= mc */
+  n: number;
+  mc: number;
+}
+
+export interface CompletenessEstimate {
+  method: McMethod;
+  /** Estimated Mc, or null when the method found none */
+  mc: number | null;
+  /** b-value above mc, or null when there are too few events */
+  bValue: BValueEstimate | null;
+  /** Goodness-of-fit level reached (percent), for that method only */
+  fitLevel?: number;
+}
+
+/** Bin index of a magnitude (integer multiples of dM avoid float drift) */
+const binIndex = (m: number, dM: number) => Math.round(m / dM);
+
+/** Magnitude of a bin index, rounded to the bin precision */
+const binMagnitude = (k: number, dM: number) => Number((k * dM).toFixed(6));
+
+/**
+ * Aki–Utsu maximum-likelihood b-value with Shi–Bolt uncertainty, from the
+ * events whose binned magnitude is at least mc
+ *
+ * @throws {Error} If fewer than two events are at or above mc
+ */
+export function akiUtsuBValue(magnitudes: number[], mc: number, dM = MAGNITUDE_BIN): BValueEstimate {
+  const minIndex = binIndex(mc, dM);
+  const above = magnitudes
+    .map(m => binIndex(m, dM))
+    .filter(k => k >= minIndex)
+    .map(k => binMagnitude(k, dM));
+  const n = above.length;
+  if (n < 2) {
+    throw new Error(`At least 2 events with M ≥ ${mc} are needed for a b-value`);
+  }
+  const mean = above.reduce((s, m) => s + m, 0) / n;
+  const b = Math.LOG10E / (mean - (binMagnitude(minIndex, dM) - dM / 2));
+  const sumSq = above.reduce((s, m) => s + (m - mean) ** 2, 0);
+  const sigma = 2.3 * b * b * Math.sqrt(sumSq / (n * (n - 1)));
+  return { b, sigma, n, mc: binMagnitude(minIndex, dM) };
+}
+
+/** Count of events per bin index, and the sorted list of populated indices */
+function binCounts(magnitudes: number[], dM: number): { counts: Map<number, number>; indices: number[] } {
+  const counts = new Map<number, number>();
+  for (const m of magnitudes) {
+    const k = binIndex(m, dM);
+    counts.set(k, (counts.get(k) ?? 0) + 1);
+  }
+  return { counts, indices: [...counts.keys()].sort((x, y) => x - y) };
+}
+
+/** Mc by maximum curvature: the most populated bin (lowest on ties), or null if empty */
+export function mcMaxCurvature(magnitudes: number[], dM = MAGNITUDE_BIN): number | null {
+  const { counts, indices } = binCounts(magnitudes, dM);
+  let best: number | null = null;
+  for (const k of indices) {
+    if (best === null || counts.get(k)! > counts.get(best)!) best = k;
+  }
+  return best === null ? null : binMagnitude(best, dM);
+}
+
+/**
+ * Mc by goodness of fit: the lowest Mc whose Gutenberg–Richter fit explains
+ * at least 95% (else 90%) of the cumulative distribution, or null
+ */
+export function mcGoodnessOfFit(
+  magnitudes: number[],
+  dM = MAGNITUDE_BIN
+): { mc: number; level: number } | null {
+  const { counts, indices } = binCounts(magnitudes, dM);
+  if (indices.length === 0) return null;
+  const maxIndex = indices[indices.length - 1];
+
+  const residuals: { k: number; r: number }[] = [];
+  for (let k = indices[0]; k <= maxIndex; k++) {
+    const mc = binMagnitude(k, dM);
+    const n = magnitudes.filter(m => binIndex(m, dM) >= k).length;
+    if (n < MIN_B_VALUE_EVENTS) break;
+    const { b } = akiUtsuBValue(magnitudes, mc, dM);
+    // Observed and synthetic cumulative counts above each bin
+    let observedAbove = n;
+    let misfit = 0;
+    let total = 0;
+    for (let j = k; j <= maxIndex; j++) {
+      const synthetic = n * Math.pow(10, -b * (j - k) * dM);
+      misfit += Math.abs(observedAbove - synthetic);
+      total += observedAbove;
+      observedAbove -= counts.get(j) ?? 0;
+    }
+    residuals.push({ k, r: 100 - (100 * misfit) / total });
+  }
+  for (const level of [95, 90]) {
+    const hit = residuals.find(x => x.r >= level);
+    if (hit) return { mc: binMagnitude(hit.k, dM), level };
+  }
+  return null;
+}
+
+/**
+ * Mc by b-value stability: the lowest Mc whose b-value lies within its
+ * Shi–Bolt σ of the mean b over the next 0.5 magnitude units, or null
+ */
+export function mcBValueStability(magnitudes: number[], dM = MAGNITUDE_BIN): number | null {
+  const { indices } = binCounts(magnitudes, dM);
+  if (indices.length === 0) return null;
+  const steps = Math.round(STABILITY_WIDTH / dM);
+
+  const estimateAt = (k: number): BValueEstimate | null => {
+    const mc = binMagnitude(k, dM);
+    const n = magnitudes.filter(m => binIndex(m, dM) >= k).length;
+    return n >= MIN_B_VALUE_EVENTS ? akiUtsuBValue(magnitudes, mc, dM) : null;
+  };
+
+  for (let k = indices[0]; k <= indices[indices.length - 1]; k++) {
+    const here = estimateAt(k);
+    if (!here) return null;
+    const ahead: number[] = [];
+    for (let j = k; j < k + steps; j++) {
+      const estimate = estimateAt(j);
+      if (!estimate) return null;
+      ahead.push(estimate.b);
+    }
+    const mean = ahead.reduce((s, b) => s + b, 0) / ahead.length;
+    if (Math.abs(mean - here.b) <= here.sigma) return here.mc;
+  }
+  return null;
+}
+
+/**
+ * Mc by each method with the b-value above it
+ * @param magnitudes - Catalogue magnitudes (mainshock excluded)
+ */
+export function estimateCompleteness(magnitudes: number[], dM = MAGNITUDE_BIN): CompletenessEstimate[] {
+  const bAbove = (mc: number | null): BValueEstimate | null => {
+    if (mc === null) return null;
+    const n = magnitudes.filter(m => binIndex(m, dM) >= binIndex(mc, dM)).length;
+    return n >= MIN_B_VALUE_EVENTS ? akiUtsuBValue(magnitudes, mc, dM) : null;
+  };
+  const maxc = mcMaxCurvature(magnitudes, dM);
+  const gft = mcGoodnessOfFit(magnitudes, dM);
+  const mbs = mcBValueStability(magnitudes, dM);
+  return [
+    { method: 'maxCurvature', mc: maxc, bValue: bAbove(maxc) },
+    { method: 'goodnessOfFit', mc: gft?.mc ?? null, bValue: bAbove(gft?.mc ?? null), fitLevel: gft?.level },
+    { method: 'bStability', mc: mbs, bValue: bAbove(mbs) },
+  ];
+}
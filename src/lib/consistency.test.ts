@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { consistencyTests, jointLogLikelihood, quantileScore, simulatedBinCounts } from './consistency';
+import { expectedCountForBin, poissonLogLikelihood } from './evaluation';
+import { simulateCatalogues } from './simulation';
+import { testResults } from './testResults';
+
+const results = testResults(6, [3, 4]);
+const bins = [{ minMag: 3, maxMag: 4 }, { minMag: 4, maxMag: null }];
+
+/** Simulated counts per bin for catalogues of exactly the expected counts, give or take one */
+const around = (expected: number[]) =>
+  Array.from({ length: 200 }, (_, k) => expected.map(x => Math.max(0, Math.round(x) + (k % 3) - 1)));
+
+describe('consistency tests', () => {
+  it('scores the quantile of the observation among simulated statistics', () => {
+    expect(quantileScore(-3, [-5, -4, -3, -2])).toEqual({ observed: -3, quantile: 0.75, verdict: 'consistent' });
+    expect(quantileScore(-10, Array.from({ length: 100 }, (_, i) => -i / 10)).verdict).toBe('inconsistent');
+    expect(jointLogLikelihood([2, 0], [1.5, 0.5])).toBeCloseTo(poissonLogLikelihood(2, 1.5) + poissonLogLikelihood(0, 0.5), 12);
+  });
+
+  it('accepts an observation like the forecast and rejects one far from it', () => {
+    const expected = [20, 2];
+    const good = consistencyTests([[19, 2]], expected, around(expected), 1);
+    expect(good.l.verdict).toBe('consistent');
+    expect(good.cl.verdict).toBe('consistent');
+    expect(good.m.verdict).toBe('consistent');
+    expect(good.s).toBeNull();
+    expect(consistencyTests([[0, 0]], expected, around(expected), 1).l.verdict).toBe('inconsistent');
+  });
+
+  it('flags a wrong magnitude distribution, whatever the number of events', () => {
+    // As many events as forecast, but mostly large ones
+    const tests = consistencyTests([[8, 14]], [20, 2], around([20, 2]), 1);
+    expect(tests.m.verdict).toBe('inconsistent');
+    expect(tests.cl.verdict).toBe('inconsistent');
+    // Without a spatial forecast the CL- and M-tests share their statistic
+    expect(tests.cl.observed).toBe(tests.m.observed);
+  });
+
+  it('runs the S-test with a spatial forecast', () => {
+    const expected = [20, 2];
+    const spatial = [0.9, 0.1];
+    const simulated = around(expected);
+    expect(consistencyTests([[17, 2], [2, 0]], expected, simulated, 1, spatial).s?.verdict).toBe('consistent');
+    // Most events in the cell forecast to have a tenth of them
+    const misplaced = consistencyTests([[4, 0], [15, 2]], expected, simulated, 1, spatial);
+    expect(misplaced.s?.verdict).toBe('inconsistent');
+    expect(misplaced.m.verdict).toBe('consistent');
+    expect(() => consistencyTests([[19, 2]], expected, simulated, 1, spatial)).toThrow();
+    expect(() => consistencyTests([[19, 2]], expected, [], 1)).toThrow();
+  });
+
+  it('repeats exactly for the same seed', () => {
+    const expected = [5, 0.5];
+    const simulated = around(expected);
+    expect(consistencyTests([[4, 1]], expected, simulated, 3)).toEqual(consistencyTests([[4, 1]], expected, simulated, 3));
+  });
+
+  it('tests an observation against the model\'s own catalogues', () => {
+    const catalogues = simulateCatalogues(results, { count: 300, seed: 1, window: { start: 0, end: 7 } });
+    const simulated = simulatedBinCounts(results, catalogues, bins, 1, 8);
+    const expected = bins.map(bin => expectedCountForBin(results.modelParams, 6, bin, 1, 8));
+    const mean = simulated.reduce((sum, counts) => sum + counts[0], 0) / simulated.length;
+    expect(mean / expected[0]).toBeCloseTo(1, 1);
+    expect(consistencyTests([expected.map(Math.round)], expected, simulated, 1).l.verdict).toBe('consistent');
+  });
+
+  it('keeps only the events the catalogue records under short-term incompleteness', () => {
+    const catalogue = [{ timeDays: 0.01, magnitude: 3.2 }, { timeDays: 0.01, magnitude: 5.5 }, { timeDays: 5, magnitude: 4.6 }];
+    const incomplete = { ...results, incompleteness: { G: 1, H: 0.75 } };
+    // Mc is 6 - 1 + 1.5 = 6.5 at 0.01 days and 4.5 at 5 days
+    expect(simulatedBinCounts(incomplete, [catalogue], bins, 0, 10)).toEqual([[0, 1]]);
+    expect(simulatedBinCounts(results, [catalogue], bins, 0, 10)).toEqual([[1, 2]]);
+    expect(simulatedBinCounts(results, [catalogue], bins, 1, 10)).toEqual([[0, 1]]);
+  });
+});
@@ -0,0 +1,171 @@
+// CSEP likelihood-based consistency tests
+//
+// The L-, CL-, M- and S-tests of Zechar, Gerstenberger & Rhoades (2010)
+// ask whether an observed catalogue looks like one drawn from the forecast.
+// Each compares a log-likelihood statistic of the observation with the same
+// statistic of simulated catalogues and reports the quantile: the fraction of
+// simulated catalogues that score no better than the observation.
+//
+// Documented assumptions:
+// - Bins are the forecast's own magnitude bins in the evaluation region, or
+//   spatial cells x magnitude bins when a spatial forecast is given, in
+//   which case the spatial distribution is the same for every magnitude.
+// - The L-test statistic is the joint Poisson log-likelihood of the bin
+//   counts under the expected counts. Its simulated catalogues are the
+//   model's synthetic catalogues (simulation.ts), so they carry the
+//   forecast's clustering and parameter uncertainty; with short-term
+//   incompleteness, events below Mc(t) are dropped as the catalogue would
+//   miss them.
+// - The CL-, M- and S-tests condition on the observed number of events: the
+//   forecast is scaled to that number and its simulated catalogues scatter
+//   exactly that many events over the bins in proportion to it.
+// - Without a spatial forecast the region is a single cell, so the CL- and
+//   M-tests share their statistic and there is no S-test.
+// - All tests are one-sided: a quantile below CSEP_CRITICAL_QUANTILE means
+//   the observation is less likely than the forecast allows.
+
+import type { CalculationResults } from '@/types';
+import { completenessMagnitude } from './incompleteness';
+import { poissonLogLikelihood, type BinTarget } from './evaluation';
+import { createRandom, type SyntheticEvent } from './simulation';
+
+/** Quantile below which a forecast fails a one-sided test, as for each tail of the N-test */
+export const CSEP_CRITICAL_QUANTILE = 0.025;
+
+export interface QuantileScore {
+  /** Log-likelihood statistic of the observed catalogue */
+  observed: number;
+  /** Fraction of simulated catalogues whose statistic is at or below the observed one */
+  quantile: number;
+  verdict: 'consistent' | 'inconsistent';
+}
+
+export interface ConsistencyTests {
+  /** L-test (quantile gamma): the joint likelihood of the counts */
+  l: QuantileScore;
+  /** Conditional L-test (zeta): the likelihood given the observed number of events */
+  cl: QuantileScore;
+  /** M-test (kappa): the magnitude distribution */
+  m: QuantileScore;
+  /** S-test (zeta): the spatial distribution, when a spatial forecast is given */
+  s: QuantileScore | null;
+}
+
+/** Joint Poisson log-likelihood of counts under their expected values */
+export function jointLogLikelihood(counts: number[], expected: number[]): number {
+  return counts.reduce((sum, n, i) => sum + poissonLogLikelihood(n, expected[i]), 0);
+}
+
+/** Quantile score of an observed statistic among simulated ones */
+export function quantileScore(observed: number, simulated: number[]): QuantileScore {
+  const quantile = simulated.filter(x => x <= observed).length / simulated.length;
+  return { observed, quantile, verdict: quantile < CSEP_CRITICAL_QUANTILE ? 'inconsistent' : 'consistent' };
+}
+
+/** Counts per bin of n events scattered in proportion to the weights */
+function scatter(n: number, weights: number[], random: () => number): number[] {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const counts = weights.map(() => 0);
+  for (let k = 0; k < n; k++) {
+    let u = random() * total;
+    let i = 0;
+    while (i < weights.length - 1 && u >= weights[i]) {
+      u -= weights[i];
+      i++;
+    }
+    counts[i]++;
+  }
+  return counts;
+}
+
+/**
+ * Test of the observed counts against the forecast scaled to their total,
+ * with `count` catalogues of that many events
+ */
+function conditionalTest(observed: number[], expected: number[], count: number, random: () => number): QuantileScore {
+  const n = observed.reduce((sum, x) => sum + x, 0);
+  const total = expected.reduce((sum, x) => sum + x, 0);
+  const scaled = expected.map(x => (total > 0 ? (x * n) / total : 0));
+  const simulated = Array.from({ length: count }, () => jointLogLikelihood(scatter(n, expected, random), scaled));
+  return quantileScore(jointLogLikelihood(observed, scaled), simulated);
+}
+
+/** Sums over the cells of [cell][bin] counts, per bin */
+function perBin(counts: number[][]): number[] {
+  return counts[0].map((_, j) => counts.reduce((sum, cell) => sum + cell[j], 0));
+}
+
+/**
+ * L-, CL-, M- and S-tests of one forecast window
+ *
+ * @param observed - Observed events per cell, then per magnitude bin ([cell][bin]); a single cell without a spatial forecast
+ * @param expected - Expected events per magnitude bin over the whole region
+ * @param simulated - Events per magnitude bin in each of the model's simulated catalogues
+ * @param seed - Seed of the conditional tests' catalogues, as many as the simulated ones
+ * @param spatial - Share of the forecast's events in each cell, when there is a spatial forecast
+ * @throws {Error} If there are no simulated catalogues, or the cells do not match the spatial forecast
+ */
+export function consistencyTests(
+  observed: number[][],
+  expected: number[],
+  simulated: number[][],
+  seed: number,
+  spatial?: number[]
+): ConsistencyTests {
+  const cells = spatial ?? [1];
+  if (simulated.length === 0) {
+    throw new Error('Consistency tests need at least one simulated catalogue');
+  }
+  if (observed.length !== cells.length || observed.some(cell => cell.length !== expected.length)) {
+    throw new Error('Observed counts must have one row per spatial cell and one column per magnitude bin');
+  }
+  const random = createRandom(seed);
+  const count = simulated.length;
+  const gridExpected = cells.map(share => expected.map(x => share * x));
+
+  // Simulated catalogues have no locations: each bin's events fall in cells as forecast
+  const simulatedGrid = simulated.map(bins => {
+    if (!spatial) return [bins];
+    const byCell = bins.map(n => scatter(n, cells, random));
+    return cells.map((_, c) => byCell.map(counts => counts[c]));
+  });
+  const l = quantileScore(
+    jointLogLikelihood(observed.flat(), gridExpected.flat()),
+    simulatedGrid.map(grid => jointLogLikelihood(grid.flat(), gridExpected.flat()))
+  );
+  const cl = conditionalTest(observed.flat(), gridExpected.flat(), count, random);
+  const m = conditionalTest(perBin(observed), expected, count, random);
+  const s = spatial
+    ? conditionalTest(
+        observed.map(cell => cell.reduce((sum, x) => sum + x, 0)),
+        gridExpected.map(cell => cell.reduce((sum, x) => sum + x, 0)),
+        count,
+        random
+      )
+    : null;
+  return { l, cl, m, s };
+}
+
+/**
+ * Events per magnitude bin over [tStart, tEnd) days after the mainshock in
+ * each simulated catalogue; with short-term incompleteness only the events
+ * the catalogue would record count
+ */
+export function simulatedBinCounts(
+  results: CalculationResults,
+  catalogues: SyntheticEvent[][],
+  bins: BinTarget[],
+  tStart: number,
+  tEnd: number
+): number[][] {
+  const { incompleteness, mainshockMagnitude, additionalSources } = results;
+  const recorded = (event: SyntheticEvent) =>
+    !incompleteness ||
+    event.magnitude >= completenessMagnitude(event.timeDays, mainshockMagnitude, incompleteness, additionalSources);
+  return catalogues.map(events => {
+    const inWindow = events.filter(e => e.timeDays >= tStart && e.timeDays < tEnd && recorded(e));
+    return bins.map(bin =>
+      inWindow.filter(e => e.magnitude >= bin.minMag && (bin.maxMag === null || e.magnitude < bin.maxMag)).length
+    );
+  });
+}
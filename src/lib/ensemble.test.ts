@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateEnsembleWeights,
+  ensembleComponents,
+  formatEnsembleWeights,
+  ensembleCount,
+  calculateEnsembleWindowForecast,
+  calculateEnsembleLargestAftershock,
+} from './ensemble';
+import {
+  calculateWindowForecast,
+  calculateLargestAftershock,
+  mixtureProbabilityAtLeastOne,
+} from './calculations';
+import { expectedCountForBin } from './evaluation';
+import { MODEL_PRESETS } from '@/types';
+
+describe('ensemble weights', () => {
+  it('normalises positive weights, highest first, and drops zero weights', () => {
+    const components = ensembleComponents([
+      { model: 'nz', weight: 1 },
+      { model: 'sz', weight: 3 },
+      { model: 'scr', weight: 0 },
+    ]);
+    expect(components.map(c => c.model)).toEqual(['sz', 'nz']);
+    expect(components.map(c => c.weight)).toEqual([0.75, 0.25]);
+    expect(components[0].params).toEqual(MODEL_PRESETS.sz);
+    expect(formatEnsembleWeights(components)).toBe('Subduction Zone 75%, NZ Generic 25%');
+  });
+
+  it('rejects negative, non-numeric and all-zero weights', () => {
+    expect(validateEnsembleWeights([{ model: 'nz', weight: -1 }, { model: 'sz', weight: 1 }])).toHaveLength(1);
+    expect(validateEnsembleWeights([{ model: 'nz', weight: NaN }])).toHaveLength(1);
+    expect(validateEnsembleWeights([{ model: 'nz', weight: 0 }, { model: 'sz', weight: 0 }])).toHaveLength(1);
+    expect(validateEnsembleWeights([{ model: 'nz', weight: 0.2 }])).toEqual([]);
+    expect(() => ensembleComponents([{ model: 'nz', weight: 0 }])).toThrow();
+  });
+});
+
+describe('ensemble forecasts', () => {
+  const components = ensembleComponents([
+    { model: 'nz', weight: 0.5 },
+    { model: 'sz', weight: 0.5 },
+  ]);
+  const bin = { minMag: 5, maxMag: null };
+
+  it('reduces to the single preset with one member', () => {
+    const single = ensembleComponents([{ model: 'nz', weight: 2 }]);
+    const ensemble = calculateEnsembleWindowForecast({ start: 0, end: 7 }, 7.8, [4, 5, 6], 1, single);
+    const plain = calculateWindowForecast({ start: 0, end: 7 }, 7.8, [4, 5, 6], 1, MODEL_PRESETS.nz);
+    expect(ensemble.bins.map(b => [b.averageNumber, b.range, b.probability]))
+      .toEqual(plain.bins.map(b => [b.averageNumber, b.range, b.probability]));
+  });
+
+  it('mixes the members\' count distributions rather than averaging parameters', () => {
+    const nz = expectedCountForBin(MODEL_PRESETS.nz, 7.8, bin, 1, 8);
+    const sz = expectedCountForBin(MODEL_PRESETS.sz, 7.8, bin, 1, 8);
+    const { expected, mixture } = ensembleCount(components, 7.8, bin, 1, 8);
+    expect(expected).toBeCloseTo(0.5 * nz + 0.5 * sz, 10);
+    expect(mixtureProbabilityAtLeastOne(expected, mixture!))
+      .toBeCloseTo(1 - 0.5 * Math.exp(-nz) - 0.5 * Math.exp(-sz), 12);
+  });
+
+  it('includes each member\'s parameter uncertainty', () => {
+    const plain = ensembleCount(components, 7.8, bin, 1, 8);
+    const wide = ensembleCount(components, 7.8, bin, 1, 8, { aSd: 0.5, pSd: 0 });
+    expect(wide.expected).toBeCloseTo(plain.expected, 10);
+    expect(wide.mixture!.factors.length).toBeGreaterThan(plain.mixture!.factors.length);
+  });
+
+  it('mixes the largest-aftershock distributions', () => {
+    const window = { start: 0, end: 30 };
+    const ensemble = calculateEnsembleLargestAftershock(window, 7.8, 1, components);
+    const nz = calculateLargestAftershock(window, 7.8, 1, MODEL_PRESETS.nz);
+    const sz = calculateLargestAftershock(window, 7.8, 1, MODEL_PRESETS.sz);
+    expect(ensemble.probabilityAtLeastMainshock)
+      .toBeCloseTo(0.5 * nz.probabilityAtLeastMainshock + 0.5 * sz.probabilityAtLeastMainshock, 10);
+    expect(ensemble.median).toBeGreaterThan(Math.min(nz.median, sz.median));
+    expect(ensemble.median).toBeLessThan(Math.max(nz.median, sz.median));
+    expect(ensemble.members).toHaveLength(2);
+  });
+
+  it('rejects an empty window', () => {
+    expect(() => calculateEnsembleWindowForecast({ start: 2, end: 2 }, 7.8, [4], 1, components)).toThrow();
+  });
+});
@@ -0,0 +1,211 @@
+// Weighted ensembles of the Reasenberg–Jones presets
+//
+// When more than one tectonic setting is plausible (an event near a
+// subduction interface, say), the forecast is a weighted mixture of the
+// presets' forecasts rather than a forecast from averaged parameters.
+//
+// Documented assumptions:
+// - With probability w_k the sequence behaves as member k, so the count is
+//   drawn from member k's distribution (Poisson, or its own parameter
+//   mixture). The expected count is Σ w_k·N_k and P(≥1) = 1 − Σ w_k·P_k(0).
+// - Members keep their own b-values, so the mixture differs between
+//   magnitude bins, and the largest-aftershock distribution is the weighted
+//   mixture of the members' distributions.
+// - Weights are relative; members with zero weight are left out.
+
+import type {
+  EnsembleComponent,
+  EnsembleMember,
+  ForecastWindow,
+  LargestAftershockForecast,
+  MaxMagnitude,
+  ParameterUncertainty,
+  SourceEvent,
+  WindowForecast,
+} from '@/types';
+import { MODEL_INFO, MODEL_PRESETS } from '@/types';
+import {
+  calculateExpectedAftershocks,
+  combinedOmoriIntegral,
+  forecastFromBinCounts,
+  largestMagnitudeCdf,
+  magnitudeSpreadBounds,
+  mixCountForecasts,
+  parameterMixture,
+  withMagnitudeSpread,
+  type CountForecast,
+  type CountMixture,
+} from './calculations';
+import { expectedCountForBin, type BinTarget } from './evaluation';
+
+/**
+ * Edge case validation shared by the ensemble forecasts
+ *
+ * @throws {Error} If the window is empty or starts before the forecast start, or rangeStartFromQuakeTime is negative
+ */
+function checkWindow(window: ForecastWindow, rangeStartFromQuakeTime: number): void {
+  if (window.start < 0 || window.end <= window.start) {
+    throw new Error('Forecast window must end after it starts, and start at or after the forecast start time');
+  }
+  if (rangeStartFromQuakeTime < 0) {
+    throw new Error('Forecast cannot start before the earthquake occurred');
+  }
+}
+
+/**
+ * Problems with a set of ensemble weights, as user-facing messages
+ * (empty when the weights are usable)
+ */
+export function validateEnsembleWeights(members: EnsembleMember[]): string[] {
+  const errors: string[] = [];
+  if (members.some(m => !Number.isFinite(m.weight) || m.weight < 0)) {
+    errors.push('Ensemble weights must be zero or positive numbers');
+  } else if (!members.some(m => m.weight > 0)) {
+    errors.push('Give at least one ensemble member a positive weight');
+  }
+  return errors;
+}
+
+/**
+ * The members with a positive weight, their weights normalised to sum to 1,
+ * highest weight first, each with its preset parameters
+ *
+ * @throws {Error} If the weights are invalid
+ */
+export function ensembleComponents(members: EnsembleMember[]): EnsembleComponent[] {
+  const errors = validateEnsembleWeights(members);
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+  const total = members.reduce((sum, m) => sum + m.weight, 0);
+  return members
+    .filter(m => m.weight > 0)
+    .map(m => ({ model: m.model, weight: m.weight / total, params: MODEL_PRESETS[m.model] }))
+    .sort((x, y) => y.weight - x.weight);
+}
+
+/** "NZ Generic 50%, Subduction Zone 50%" for normalised components */
+export function formatEnsembleWeights(components: EnsembleMember[]): string {
+  return components.map(c => `${MODEL_INFO[c.model].name} ${Math.round(100 * c.weight)}%`).join(', ');
+}
+
+/**
+ * Expected count for a magnitude bin over [tStart, tEnd] days after the
+ * mainshock, with the ensemble's predictive distribution (each member's
+ * parameter mixture included when `uncertainty` is given)
+ */
+export function ensembleCount(
+  components: EnsembleComponent[],
+  mainMag: number,
+  bin: BinTarget,
+  tStart: number,
+  tEnd: number,
+  uncertainty?: ParameterUncertainty,
+  sources: SourceEvent[] = []
+): CountForecast {
+  return mixCountForecasts(components.map(c => ({
+    weight: c.weight,
+    expected: expectedCountForBin(c.params, mainMag, bin, tStart, tEnd, undefined, sources),
+    mixture: uncertainty ? parameterMixture(c.params, uncertainty, tStart, tEnd, mainMag, sources) : undefined,
+  })));
+}
+
+/**
+ * Ensemble forecast for a single window, in the same shape as the
+ * single-model forecasts
+ *
+ * @param window - Days after the forecast start time
+ * @throws {Error} If the window is empty or starts before the forecast start, or rangeStartFromQuakeTime is negative
+ */
+export function calculateEnsembleWindowForecast(
+  window: ForecastWindow,
+  mag: number,
+  thresholds: number[],
+  rangeStartFromQuakeTime: number,
+  components: EnsembleComponent[],
+  uncertainty?: ParameterUncertainty,
+  sources: SourceEvent[] = []
+): WindowForecast {
+  checkWindow(window, rangeStartFromQuakeTime);
+  const tStart = rangeStartFromQuakeTime + window.start;
+  const tEnd = rangeStartFromQuakeTime + window.end;
+  const counts = thresholds.map((m, i) =>
+    ensembleCount(components, mag, { minMag: m, maxMag: thresholds[i + 1] ?? null }, tStart, tEnd, uncertainty, sources)
+  );
+  const forecast = forecastFromBinCounts(window, counts);
+  if (!uncertainty?.magnitudes) return forecast;
+  const { magnitudes, ...fixed } = uncertainty;
+  const [low, high] = magnitudeSpreadBounds(magnitudes);
+  return withMagnitudeSpread(
+    forecast,
+    calculateEnsembleWindowForecast(window, low, thresholds, rangeStartFromQuakeTime, components, fixed, sources),
+    calculateEnsembleWindowForecast(window, high, thresholds, rangeStartFromQuakeTime, components, fixed, sources)
+  );
+}
+
+/**
+ * Probability that the largest aftershock is below magnitude m under an
+ * ensemble: the weighted mean of the members' probabilities
+ */
+export function ensembleLargestMagnitudeCdf(
+  m: number,
+  refMag: number,
+  members: { weight: number; expectedAtMainshock: number; b: number; maxMagnitude?: MaxMagnitude; mixture?: CountMixture }[]
+): number {
+  return members.reduce(
+    (sum, member) => sum + member.weight
+      * largestMagnitudeCdf(m, refMag, member.expectedAtMainshock, member.b, member.mixture, member.maxMagnitude),
+    0
+  );
+}
+
+/**
+ * Ensemble largest-aftershock distribution for a single window; quantiles
+ * are found by bisection on the mixture
+ *
+ * @throws {Error} If the window is empty or starts before the forecast start, or rangeStartFromQuakeTime is negative
+ */
+export function calculateEnsembleLargestAftershock(
+  window: ForecastWindow,
+  mag: number,
+  rangeStartFromQuakeTime: number,
+  components: EnsembleComponent[],
+  uncertainty?: ParameterUncertainty,
+  sources: SourceEvent[] = []
+): LargestAftershockForecast {
+  checkWindow(window, rangeStartFromQuakeTime);
+  const tStart = rangeStartFromQuakeTime + window.start;
+  const tEnd = rangeStartFromQuakeTime + window.end;
+  const members = components.map(({ weight, params }) => ({
+    weight,
+    expectedAtMainshock: calculateExpectedAftershocks(
+      params.a, params.b, mag, mag, combinedOmoriIntegral(tStart, tEnd, params, mag, sources)
+    ),
+    b: params.b,
+    maxMagnitude: params.maxMagnitude,
+    mixture: uncertainty ? parameterMixture(params, uncertainty, tStart, tEnd, mag, sources) : undefined,
+  }));
+  const cdf = (m: number) => ensembleLargestMagnitudeCdf(m, mag, members);
+  const quantile = (q: number) => {
+    let lo = mag - 20;
+    let hi = mag + 20;
+    for (let i = 0; i < 60; i++) {
+      const mid = (lo + hi) / 2;
+      if (cdf(mid) < q) lo = mid;
+      else hi = mid;
+    }
+    return (lo + hi) / 2;
+  };
+
+  return {
+    window,
+    expectedAtMainshock: members.reduce((sum, m) => sum + m.weight * m.expectedAtMainshock, 0),
+    b: members[0].b,
+    maxMagnitude: members[0].maxMagnitude,
+    probabilityAtLeastMainshock: 1 - cdf(mag),
+    members: members.map(({ weight, expectedAtMainshock, b, maxMagnitude }) => ({ weight, expectedAtMainshock, b, maxMagnitude })),
+    median: quantile(0.5),
+    lower: quantile(0.025),
+    upper: quantile(0.975),
+  };
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  solveEtas,
+  etasExpectedAftershocks,
+  etasBranchingRatio,
+  etasFirstGenerationParams,
+  calculateEtasWindowForecast,
+  calculateEtasLargestAftershock,
+  validateEtasParameters,
+} from './etas';
+import { calculateOmoriIntegral, calculateExpectedAftershocks } from './calculations';
+import { ETAS_DEFAULTS } from '@/types';
+
+describe('solveEtas', () => {
+  it('reduces to the first-generation Reasenberg-Jones count when triggering is negligible', () => {
+    const params = { ...ETAS_DEFAULTS, K: 1e-7 };
+    const rj = etasFirstGenerationParams(params, 7.8);
+    const expected = calculateExpectedAftershocks(rj.a, rj.b, 7.8, 4, calculateOmoriIntegral(1, 31, rj.c, rj.p));
+    expect(etasExpectedAftershocks(params, 7.8, 4, 1, 31) / expected).toBeCloseTo(1, 4);
+  });
+
+  it('adds secondary aftershocks, increasingly so in longer windows', () => {
+    const rj = etasFirstGenerationParams(ETAS_DEFAULTS, 7.8);
+    const direct = (te: number) =>
+      calculateExpectedAftershocks(rj.a, rj.b, 7.8, 4, calculateOmoriIntegral(0, te, rj.c, rj.p));
+    const ratioWeek = etasExpectedAftershocks(ETAS_DEFAULTS, 7.8, 4, 0, 7) / direct(7);
+    const ratioYear = etasExpectedAftershocks(ETAS_DEFAULTS, 7.8, 4, 0, 365) / direct(365);
+    expect(ratioWeek).toBeGreaterThan(1);
+    expect(ratioYear).toBeGreaterThan(ratioWeek);
+  });
+
+  it('is additive over adjacent windows and scales with the b-value', () => {
+    const solution = solveEtas(ETAS_DEFAULTS, 7, 30, [2]);
+    const whole = solution.expectedCount(4, 0, 30);
+    expect(solution.expectedCount(4, 0, 2) + solution.expectedCount(4, 2, 30)).toBeCloseTo(whole, 8);
+    expect(solution.expectedCount(5, 0, 30)).toBeCloseTo(whole * Math.pow(10, -ETAS_DEFAULTS.b), 8);
+  });
+
+  it('has a decaying rate', () => {
+    const solution = solveEtas(ETAS_DEFAULTS, 7, 100);
+    expect(solution.rate(4, 1)).toBeGreaterThan(solution.rate(4, 10));
+    expect(solution.rate(4, 10)).toBeGreaterThan(solution.rate(4, 90));
+  });
+
+  it('throws for alpha >= b and for degenerate parameters', () => {
+    expect(() => solveEtas({ ...ETAS_DEFAULTS, alpha: 1.0, b: 1.0 }, 7, 30)).toThrow();
+    expect(() => solveEtas({ ...ETAS_DEFAULTS, c: 0 }, 7, 30)).toThrow();
+    expect(() => solveEtas({ ...ETAS_DEFAULTS, K: NaN }, 7, 30)).toThrow();
+    expect(() => solveEtas(ETAS_DEFAULTS, 7, 0)).toThrow();
+  });
+});
+
+describe('solveEtas with additional sources', () => {
+  it('is linear in the sources: two identical events give twice the count', () => {
+    const single = solveEtas(ETAS_DEFAULTS, 6, 30, [1]).expectedCount(4, 1, 30);
+    const doubled = solveEtas(ETAS_DEFAULTS, 6, 30, [1], [{ magnitude: 6, timeDays: 0 }]).expectedCount(4, 1, 30);
+    expect(doubled / single).toBeCloseTo(2, 10);
+  });
+
+  it('adds a later source\'s sequence, shifted to its origin time', () => {
+    const main = etasExpectedAftershocks(ETAS_DEFAULTS, 7.1, 4, 172.4, 202.4);
+    const own = etasExpectedAftershocks(ETAS_DEFAULTS, 6.2, 4, 1, 31);
+    const combined = etasExpectedAftershocks(ETAS_DEFAULTS, 7.1, 4, 172.4, 202.4, [{ magnitude: 6.2, timeDays: 171.4 }]);
+    expect(combined / (main + own)).toBeCloseTo(1, 2);
+  });
+
+  it('starts the solution at a foreshock before the mainshock', () => {
+    const foreshock = { magnitude: 6.5, timeDays: -2 };
+    const main = etasExpectedAftershocks(ETAS_DEFAULTS, 7, 4, 0, 7);
+    const own = etasExpectedAftershocks(ETAS_DEFAULTS, 6.5, 4, 2, 9);
+    const combined = etasExpectedAftershocks(ETAS_DEFAULTS, 7, 4, 0, 7, [foreshock]);
+    expect(combined / (main + own)).toBeCloseTo(1, 2);
+    // Events between the foreshock and the mainshock are part of the solution too
+    expect(solveEtas(ETAS_DEFAULTS, 7, 7, [], [foreshock]).expectedCount(4, -2, 0)).toBeGreaterThan(0);
+  });
+});
+
+describe('etasBranchingRatio', () => {
+  it('is subcritical for the defaults and grows with the horizon', () => {
+    expect(etasBranchingRatio(ETAS_DEFAULTS, 730)).toBeLessThan(1);
+    expect(etasBranchingRatio(ETAS_DEFAULTS, 730)).toBeGreaterThan(etasBranchingRatio(ETAS_DEFAULTS, 30));
+  });
+});
+
+describe('calculateEtasWindowForecast', () => {
+  it('produces well-formed results for a realistic M7.8 scenario', () => {
+    const forecast = calculateEtasWindowForecast({ start: 0, end: 30 }, 7.8, [4, 5, 6], 0.04, ETAS_DEFAULTS);
+    expect(forecast.window).toEqual({ start: 0, end: 30 });
+    for (const range of forecast.bins) {
+      expect(Number.isFinite(parseFloat(range.averageNumber))).toBe(true);
+      expect(range.range).toMatch(/^\d+-\d+$/);
+      expect(range.probability).toMatch(/^[<>]?\d+%$/);
+    }
+  });
+
+  it('throws for an empty window or a start before the earthquake', () => {
+    expect(() => calculateEtasWindowForecast({ start: 0, end: 0 }, 7.8, [4, 5, 6], 0, ETAS_DEFAULTS)).toThrow();
+    expect(() => calculateEtasWindowForecast({ start: 0, end: 30 }, 7.8, [4, 5, 6], -1, ETAS_DEFAULTS)).toThrow();
+  });
+});
+
+describe('calculateEtasLargestAftershock', () => {
+  it('uses the ETAS count at the mainshock magnitude', () => {
+    const largest = calculateEtasLargestAftershock({ start: 0, end: 30 }, 7.8, 0.04, ETAS_DEFAULTS);
+    const expected = solveEtas(ETAS_DEFAULTS, 7.8, 30.04, [0.04]).expectedCount(7.8, 0.04, 30.04);
+    expect(largest.probabilityAtLeastMainshock).toBeCloseTo(1 - Math.exp(-expected), 10);
+    expect(largest.b).toBe(ETAS_DEFAULTS.b);
+  });
+});
+
+describe('validateEtasParameters', () => {
+  it('accepts the defaults', () => {
+    expect(validateEtasParameters(ETAS_DEFAULTS)).toEqual([]);
+  });
+
+  it('warns about a supercritical branching ratio', () => {
+    const errors = validateEtasParameters({ ...ETAS_DEFAULTS, K: 0.05 });
+    expect(errors.some(e => e.includes('Branching ratio'))).toBe(true);
+  });
+});
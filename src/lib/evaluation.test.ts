@@ -16,11 +16,15 @@ import {
   countMatches,
   expectedCountForBin,
   evaluateBin,
+  calibrationBins,
+  brierDecomposition,
   MIN_RADIUS_KM,
   type EvalRegion,
   type ObservedEvent,
 } from './evaluation';
-import { calculateOmoriIntegral, calculateExpectedAftershocks } from './calculations';
+import { calculateOmoriIntegral, calculateExpectedAftershocks, parameterMixture } from './calculations';
+import { etasExpectedAftershocks } from './etas';
+import { ETAS_DEFAULTS } from '@/types';
 
 describe('wellsCoppersmithLengthKm', () => {
   it('reproduces the published relation', () => {
@@ -168,6 +172,29 @@ describe('expectedCountForBin', () => {
     const cumulative = expectedCountForBin(params, 7.8, { minMag: 4, maxMag: null }, 0, 30);
     expect(bin1 + bin2).toBeCloseTo(cumulative, 10);
   });
+
+  it('uses the ETAS model when ETAS parameters are given', () => {
+    const nLo = etasExpectedAftershocks(ETAS_DEFAULTS, 7.8, 4, 0.04, 30.04);
+    const nHi = etasExpectedAftershocks(ETAS_DEFAULTS, 7.8, 5, 0.04, 30.04);
+    const etas = expectedCountForBin(params, 7.8, { minMag: 4, maxMag: 5 }, 0.04, 30.04, ETAS_DEFAULTS);
+    expect(etas).toBeCloseTo(nLo - nHi, 8);
+  });
+
+  it('adds the aftershocks of additional source events', () => {
+    const source = { magnitude: 6.2, timeDays: 171.4 };
+    const combined = expectedCountForBin(params, 7.1, { minMag: 4, maxMag: 5 }, 172.4, 202.4, undefined, [source]);
+    const main = expectedCountForBin(params, 7.1, { minMag: 4, maxMag: 5 }, 172.4, 202.4);
+    const own = expectedCountForBin(params, 6.2, { minMag: 4, maxMag: 5 }, 1, 31);
+    expect(combined).toBeCloseTo(main + own, 10);
+  });
+
+  it('applies the maximum magnitude like the forecast table', () => {
+    const capped = { ...params, maxMagnitude: { kind: 'truncated' as const, magnitude: 8 } };
+    const I = calculateOmoriIntegral(0, 30, params.c, params.p);
+    expect(expectedCountForBin(capped, 7.8, { minMag: 7, maxMag: null }, 0, 30))
+      .toBeCloseTo(calculateExpectedAftershocks(params.a, params.b, 7.8, 7, I, capped.maxMagnitude), 12);
+    expect(expectedCountForBin(capped, 7.8, { minMag: 8.1, maxMag: null }, 0, 30)).toBe(0);
+  });
 });
 
 describe('evaluateBin', () => {
@@ -184,4 +211,55 @@ describe('evaluateBin', () => {
     expect(r.withinCi).toBe(false);
     expect(r.verdict).toBe('underprediction');
   });
+
+  it('accepts a productive sequence under the predictive distribution', () => {
+    // Four times the generic productivity: inconsistent with a plain Poisson,
+    // but within the spread of a with σ_a = 0.5
+    const mixture = parameterMixture({ a: -1.59, b: 1.03, c: 0.04, p: 1.07 }, { aSd: 0.5, pSd: 0 }, 0, 30);
+    expect(evaluateBin(40, 10, 4, 17).verdict).toBe('underprediction');
+    const r = evaluateBin(40, 10, 0, 0, mixture);
+    expect(r.verdict).toBe('consistent');
+    expect(r.probability).toBeLessThan(1 - Math.exp(-10));
+    expect(r.poissonLL).toBeGreaterThan(poissonLogLikelihood(40, 10));
+  });
 });
+
+describe('calibrationBins', () => {
+  it('compares the mean forecast probability with the observed frequency', () => {
+    // Expected counts giving P(>=1) of about 0.1, 0.1, 0.5 and 1
+    const scored = [evaluateBin(0, 0.105, 0, 1), evaluateBin(1, 0.105, 0, 1), evaluateBin(1, Math.LN2, 0, 2), evaluateBin(3, 50, 36, 64)];
+    const bins = calibrationBins(scored);
+    expect(bins.map(b => b.count)).toEqual([2, 0, 1, 0, 1]);
+    expect(bins[0].meanProbability).toBeCloseTo(1 - Math.exp(-0.105), 12);
+    expect(bins[0].observedFrequency).toBe(0.5);
+    expect(bins[1]).toMatchObject({ lower: 0.2, upper: 0.4, meanProbability: null, observedFrequency: null });
+    expect(bins[2].meanProbability).toBeCloseTo(0.5, 12);
+    // A probability of 1 falls in the last bin
+    expect(calibrationBins([evaluateBin(2, 1e6, 0, 0)])[4].count).toBe(1);
+  });
+});
+
+describe('brierDecomposition', () => {
+  it('splits the Brier score exactly when each bin holds one forecast probability', () => {
+    // Two forecasts of 0.1 (one verifies) and two of 0.7 (one verifies)
+    const low = -Math.log(0.9);
+    const high = -Math.log(0.3);
+    const scored = [evaluateBin(0, low, 0, 1), evaluateBin(1, low, 0, 1), evaluateBin(2, high, 0, 4), evaluateBin(0, high, 0, 4)];
+    const d = brierDecomposition(scored);
+    expect(d.count).toBe(4);
+    expect(d.baseRate).toBe(0.5);
+    expect(d.uncertainty).toBeCloseTo(0.25, 12);
+    expect(d.reliability).toBeCloseTo((0.4 ** 2 + 0.2 ** 2) / 2, 12);
+    expect(d.resolution).toBeCloseTo(0, 12);
+    expect(d.brier).toBeCloseTo(d.reliability - d.resolution + d.uncertainty, 12);
+    expect(() => brierDecomposition([])).toThrow();
+  });
+
+  it('rewards forecasts that separate the outcomes', () => {
+    const sharp = [evaluateBin(0, 0.01, 0, 1), evaluateBin(0, 0.01, 0, 1), evaluateBin(3, 20, 10, 30), evaluateBin(5, 20, 10, 30)];
+    const d = brierDecomposition(sharp);
+    expect(d.resolution).toBeCloseTo(0.25, 12);
+    expect(d.reliability).toBeLessThan(1e-3);
+  });
+});
+
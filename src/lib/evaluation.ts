@@ -12,10 +12,12 @@
 // - Counts are Poisson; the N-test quantiles are exact Poisson tail
 //   probabilities (normal approximation with continuity correction for
 //   lambda > 100).
-// - The mainshock itself is always excluded from observed counts.
+// - The mainshock itself is always excluded from observed counts. Additional
+//   source events occur before the forecast start, so never fall in a window.
 
-import type { ModelParameters } from '@/types';
-import { calculateOmoriIntegral, calculateExpectedAftershocks } from './calculations';
+import type { EtasParameters, ModelParameters, SourceEvent } from '@/types';
+import { combinedOmoriIntegral, calculateExpectedAftershocks, poissonCdf, mixtureCdf, mixtureProbabilityAtLeastOne, type CountMixture } from './calculations';
+import { solveEtas } from './etas';
 
 export const MIN_RADIUS_KM = 10; // floor: epicentral + location uncertainty
 export const KM_PER_DEG_LAT = 111.32;
@@ -106,43 +108,23 @@ export function regionBbox(region: EvalRegion): { minLon: number; minLat: number
 // Poisson machinery
 // ---------------------------------------------------------------------------
 
-/** Standard normal CDF (Abramowitz & Stegun 26.2.17, |error| < 7.5e-8) */
-export function normalCdf(z: number): number {
-  const t = 1 / (1 + 0.2316419 * Math.abs(z));
-  const d = 0.3989422804014327 * Math.exp((-z * z) / 2);
-  const p = d * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
-  return z > 0 ? 1 - p : p;
-}
-
-/** P(X <= k) for X ~ Poisson(lambda) */
-export function poissonCdf(k: number, lambda: number): number {
-  if (k < 0) return 0;
-  if (lambda <= 0) return 1;
-  if (lambda > 100) {
-    // Normal approximation with continuity correction
-    return normalCdf((k + 0.5 - lambda) / Math.sqrt(lambda));
-  }
-  let term = Math.exp(-lambda);
-  let sum = term;
-  for (let i = 1; i <= k; i++) {
-    term *= lambda / i;
-    sum += term;
-  }
-  return Math.min(1, sum);
-}
+// The Poisson distribution functions live with qpois in calculations.ts
+export { normalCdf, poissonCdf } from './calculations';
 
 /**
  * CSEP N-test quantiles (Zechar 2010).
  * pAtMost  = P(X <= n): small value => forecast OVER-predicted.
  * pAtLeast = P(X >= n): small value => forecast UNDER-predicted.
+ * With a parameter mixture the count distribution is the predictive one.
  */
-export function nTest(observed: number, expected: number): {
+export function nTest(observed: number, expected: number, mixture?: CountMixture): {
   pAtMost: number;
   pAtLeast: number;
   verdict: 'consistent' | 'overprediction' | 'underprediction';
 } {
-  const pAtMost = poissonCdf(observed, expected);
-  const pAtLeast = observed === 0 ? 1 : 1 - poissonCdf(observed - 1, expected);
+  const cdf = (k: number) => (mixture ? mixtureCdf(k, expected, mixture) : poissonCdf(k, expected));
+  const pAtMost = cdf(observed);
+  const pAtLeast = observed === 0 ? 1 : 1 - cdf(observed - 1);
   // Two-sided test at 5%: flag if either tail probability < 0.025
   const verdict = pAtMost < 0.025 ? 'overprediction' : pAtLeast < 0.025 ? 'underprediction' : 'consistent';
   return { pAtMost, pAtLeast, verdict };
@@ -216,19 +198,29 @@ export function countMatches(
 /**
  * Exact expected count for a magnitude bin over [tStart, tEnd] days after the
  * mainshock, recomputed from the model (never from rounded display strings).
+ * When ETAS parameters are given they take precedence over `params`. Any
+ * additional source events contribute their own aftershocks.
  */
 export function expectedCountForBin(
   params: ModelParameters,
   mainshockMag: number,
   bin: BinTarget,
   tStartDays: number,
-  tEndDays: number
+  tEndDays: number,
+  etas?: EtasParameters,
+  sources: SourceEvent[] = []
 ): number {
-  const integral = calculateOmoriIntegral(tStartDays, tEndDays, params.c, params.p);
-  const nLo = calculateExpectedAftershocks(params.a, params.b, mainshockMag, bin.minMag, integral);
+  if (etas) {
+    const solution = solveEtas(etas, mainshockMag, tEndDays, [tStartDays], sources);
+    const nLo = solution.expectedCount(bin.minMag, tStartDays, tEndDays);
+    const nHi = bin.maxMag === null ? 0 : solution.expectedCount(bin.maxMag, tStartDays, tEndDays);
+    return nLo - nHi;
+  }
+  const integral = combinedOmoriIntegral(tStartDays, tEndDays, params, mainshockMag, sources);
+  const nLo = calculateExpectedAftershocks(params.a, params.b, mainshockMag, bin.minMag, integral, params.maxMagnitude);
   const nHi = bin.maxMag === null
     ? 0
-    : calculateExpectedAftershocks(params.a, params.b, mainshockMag, bin.maxMag, integral);
+    : calculateExpectedAftershocks(params.a, params.b, mainshockMag, bin.maxMag, integral, params.maxMagnitude);
   return nLo - nHi;
 }
 
@@ -250,11 +242,29 @@ export interface BinEvaluation {
   poissonLL: number;
 }
 
-/** Score one magnitude bin of one forecast window */
-export function evaluateBin(observed: number, expected: number, ciLow: number, ciHigh: number): BinEvaluation {
-  const probability = 1 - Math.exp(-expected);
+/** Log-likelihood of observing n under the Poisson mixture with mean lambda·factor */
+export function mixtureLogLikelihood(n: number, lambda: number, mixture: CountMixture): number {
+  const terms = mixture.factors.map((f, i) => Math.log(mixture.weights[i]) + poissonLogLikelihood(n, lambda * f));
+  const max = Math.max(...terms);
+  if (!Number.isFinite(max)) return max;
+  return max + Math.log(terms.reduce((s, x) => s + Math.exp(x - max), 0));
+}
+
+/**
+ * Score one magnitude bin of one forecast window. With a parameter mixture
+ * the probability, N-test and likelihood use the predictive distribution;
+ * ciLow/ciHigh should then come from mixtureQuantile.
+ */
+export function evaluateBin(
+  observed: number,
+  expected: number,
+  ciLow: number,
+  ciHigh: number,
+  mixture?: CountMixture
+): BinEvaluation {
+  const probability = mixture ? mixtureProbabilityAtLeastOne(expected, mixture) : 1 - Math.exp(-expected);
   const occurred = observed >= 1;
-  const t = nTest(observed, expected);
+  const t = nTest(observed, expected, mixture);
   return {
     observed,
     expected,
@@ -268,6 +278,94 @@ export function evaluateBin(observed: number, expected: number, ciLow: number, c
     verdict: t.verdict,
     brier: brierScore(probability, occurred),
     logScoreBinary: logScore(probability, occurred),
-    poissonLL: poissonLogLikelihood(observed, expected),
+    poissonLL: mixture ? mixtureLogLikelihood(observed, expected, mixture) : poissonLogLikelihood(observed, expected),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Calibration across many forecasts
+// ---------------------------------------------------------------------------
+
+/** Edges of the forecast-probability bins for calibration */
+export const CALIBRATION_EDGES = [0, 0.2, 0.4, 0.6, 0.8, 1];
+
+export interface CalibrationBin {
+  /** Inclusive lower edge of the forecast probability */
+  lower: number;
+  /** Exclusive upper edge (inclusive for the last bin) */
+  upper: number;
+  count: number;
+  /** Mean forecast P(>=1 event) of the bin's forecasts; null when empty */
+  meanProbability: number | null;
+  /** Share of the bin's forecasts in which an event occurred; null when empty */
+  observedFrequency: number | null;
+}
+
+/**
+ * Group scored forecasts by their probability of one or more events, and
+ * compare the mean probability of each group with how often events occurred.
+ * A calibrated forecast has the two about equal in every group.
+ */
+export function calibrationBins(evaluations: BinEvaluation[], edges: number[] = CALIBRATION_EDGES): CalibrationBin[] {
+  return edges.slice(0, -1).map((lower, i) => {
+    const upper = edges[i + 1];
+    const last = i === edges.length - 2;
+    const members = evaluations.filter(e =>
+      e.probability >= lower && (e.probability < upper || (last && e.probability <= upper))
+    );
+    const count = members.length;
+    return {
+      lower,
+      upper,
+      count,
+      meanProbability: count > 0 ? members.reduce((s, e) => s + e.probability, 0) / count : null,
+      observedFrequency: count > 0 ? members.filter(e => e.occurred).length / count : null,
+    };
+  });
+}
+
+/** Murphy's (1973) partition of the mean Brier score over calibration bins */
+export interface BrierDecomposition {
+  count: number;
+  /** Mean Brier score of the forecasts themselves */
+  brier: number;
+  /** Weighted mean squared gap between forecast and observed frequency per bin (lower is better) */
+  reliability: number;
+  /** Weighted mean squared spread of the bins' observed frequencies about the base rate (higher is better) */
+  resolution: number;
+  /** Base rate × (1 − base rate): the Brier score of always forecasting the base rate */
+  uncertainty: number;
+  /** Share of all forecasts in which an event occurred */
+  baseRate: number;
+}
+
+/**
+ * Split the Brier score into reliability − resolution + uncertainty over the
+ * calibration bins. The split is exact when the forecasts within each bin are
+ * equal; otherwise it differs from the mean Brier score by the spread of the
+ * forecasts within the bins, so both are reported.
+ *
+ * @throws {Error} If there are no forecasts
+ */
+export function brierDecomposition(evaluations: BinEvaluation[], edges: number[] = CALIBRATION_EDGES): BrierDecomposition {
+  const count = evaluations.length;
+  if (count === 0) {
+    throw new Error('No forecasts to decompose');
+  }
+  const baseRate = evaluations.filter(e => e.occurred).length / count;
+  let reliability = 0;
+  let resolution = 0;
+  for (const bin of calibrationBins(evaluations, edges)) {
+    if (bin.meanProbability === null || bin.observedFrequency === null) continue;
+    reliability += bin.count * (bin.meanProbability - bin.observedFrequency) ** 2;
+    resolution += bin.count * (bin.observedFrequency - baseRate) ** 2;
+  }
+  return {
+    count,
+    brier: evaluations.reduce((s, e) => s + e.brier, 0) / count,
+    reliability: reliability / count,
+    resolution: resolution / count,
+    uncertainty: baseRate * (1 - baseRate),
+    baseRate,
   };
 }
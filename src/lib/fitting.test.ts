@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { fitOmoriUtsu, omoriFitToModelParams, MIN_FIT_EVENTS } from './fitting';
+import { calculateOmoriIntegral, calculateExpectedAftershocks } from './calculations';
+import type { ObservedEvent } from './evaluation';
+
+const QUAKE_MS = Date.UTC(2016, 10, 13, 11, 2, 56);
+
+/**
+ * Deterministic synthetic catalogue: n events at the expected-count
+ * quantiles of K·(t + c)^-p over [0, tEnd]
+ */
+function syntheticCatalogue(K: number, c: number, p: number, tEnd: number, magnitude = 3.5): ObservedEvent[] {
+  const total = calculateOmoriIntegral(0, tEnd, c, p);
+  const n = Math.round(K * total);
+  return Array.from({ length: n }, (_, i) => {
+    const target = ((i + 0.5) / n) * total;
+    let lo = 0;
+    let hi = tEnd;
+    for (let k = 0; k < 60; k++) {
+      const mid = (lo + hi) / 2;
+      if (calculateOmoriIntegral(0, mid, c, p) < target) lo = mid;
+      else hi = mid;
+    }
+    return {
+      publicId: `ev${i}`,
+      timeMs: QUAKE_MS + ((lo + hi) / 2) * 86_400_000,
+      magnitude,
+      latitude: -42,
+      longitude: 173,
+      depthKm: 10,
+    };
+  });
+}
+
+describe('fitOmoriUtsu', () => {
+  it('recovers the parameters of a synthetic sequence', () => {
+    const events = syntheticCatalogue(50, 0.05, 1.1, 30);
+    const fit = fitOmoriUtsu(events, QUAKE_MS, 3, 0, 30);
+    expect(fit.eventCount).toBe(events.length);
+    expect(fit.p).toBeCloseTo(1.1, 1);
+    expect(fit.c / 0.05).toBeGreaterThan(0.7);
+    expect(fit.c / 0.05).toBeLessThan(1.4);
+    expect(fit.K / 50).toBeGreaterThan(0.85);
+    expect(fit.K / 50).toBeLessThan(1.15);
+    for (const se of [fit.se.K, fit.se.c, fit.se.p]) {
+      expect(se).toBeGreaterThan(0);
+    }
+  });
+
+  it('maximises the likelihood', () => {
+    const events = syntheticCatalogue(30, 0.1, 1.0, 20);
+    const fit = fitOmoriUtsu(events, QUAKE_MS, 3, 0, 20);
+    const logL = (K: number, c: number, p: number) => {
+      const times = events.map(e => (e.timeMs - QUAKE_MS) / 86_400_000);
+      return times.length * Math.log(K) - p * times.reduce((s, t) => s + Math.log(t + c), 0) -
+        K * calculateOmoriIntegral(0, 20, c, p);
+    };
+    expect(fit.logLikelihood).toBeCloseTo(logL(fit.K, fit.c, fit.p), 8);
+    expect(fit.logLikelihood).toBeGreaterThanOrEqual(logL(fit.K, fit.c, fit.p + 0.05));
+    expect(fit.logLikelihood).toBeGreaterThanOrEqual(logL(fit.K, fit.c * 1.2, fit.p));
+  });
+
+  it('ignores events below Mc and outside the window', () => {
+    const events = [
+      ...syntheticCatalogue(30, 0.1, 1.0, 20),
+      ...syntheticCatalogue(30, 0.1, 1.0, 20, 2.5),
+    ];
+    expect(fitOmoriUtsu(events, QUAKE_MS, 3, 1, 20).eventCount)
+      .toBe(events.filter(e => e.magnitude >= 3 && e.timeMs > QUAKE_MS + 86_400_000).length);
+  });
+
+  it('throws with too few events or an empty window', () => {
+    const events = syntheticCatalogue(MIN_FIT_EVENTS / 4, 0.1, 1.0, 1);
+    expect(() => fitOmoriUtsu(events, QUAKE_MS, 3, 0, 1)).toThrow(/at least/);
+    expect(() => fitOmoriUtsu(events, QUAKE_MS, 3, 2, 2)).toThrow();
+  });
+});
+
+describe('omoriFitToModelParams', () => {
+  it('converts K to the Reasenberg-Jones a that reproduces the fitted count', () => {
+    const fit = fitOmoriUtsu(syntheticCatalogue(50, 0.05, 1.1, 30), QUAKE_MS, 3, 0, 30);
+    const params = omoriFitToModelParams(fit, 7, 1.0);
+    const rjCount = calculateExpectedAftershocks(params.a, params.b, 7, 3, calculateOmoriIntegral(0, 30, params.c, params.p));
+    expect(rjCount / fit.eventCount).toBeCloseTo(1, 1);
+  });
+});
@@ -0,0 +1,197 @@
+// Maximum-likelihood Omori–Utsu fitting of an observed aftershock catalogue
+//
+// Documented assumptions:
+// - Aftershocks with M >= Mc in the fitting window [tStart, tEnd] (days after
+//   the mainshock) form a Poisson process with rate λ(t) = K·(t + c)^-p, so
+//     log L = n·ln K - p·Σ ln(tᵢ + c) - K·∫ (t + c)^-p dt.
+// - K has a closed-form maximum for given c and p (K = n / ∫), so only the
+//   profile likelihood in (log10 c, p) is searched: a coarse grid, then a
+//   Nelder–Mead refinement.
+// - Standard errors come from the inverse of the observed information (the
+//   negative Hessian of log L at the maximum, by central differences). They
+//   are NaN when the maximum sits on a search bound or the curvature is not
+//   well defined.
+
+import type { ModelParameters } from '@/types';
+import { calculateOmoriIntegral } from './calculations';
+import type { ObservedEvent } from './evaluation';
+import { aftershockTimesDays } from './bayesian';
+
+/** Fewest events for which a three-parameter fit is attempted */
+export const MIN_FIT_EVENTS = 10;
+
+/** Search bounds for the fitted c (days) and p */
+export const LOG10_C_BOUNDS = { min: -5, max: 1 } as const;
+export const P_BOUNDS = { min: 0.2, max: 3 } as const;
+
+export interface OmoriFit {
+  /** Productivity: aftershocks per day with M >= mc at t + c = 1 day */
+  K: number;
+  c: number;
+  p: number;
+  /** Standard errors (NaN when not defined) */
+  se: { K: number; c: number; p: number };
+  logLikelihood: number;
+  eventCount: number;
+  mc: number;
+  /** Fitting window, days after the mainshock */
+  tStart: number;
+  tEnd: number;
+}
+
+/** log L for rate K·(t + c)^-p given event times and the window */
+function logLikelihood(K: number, c: number, p: number, times: number[], tStart: number, tEnd: number): number {
+  let sumLog = 0;
+  for (const t of times) sumLog += Math.log(t + c);
+  return times.length * Math.log(K) - p * sumLog - K * calculateOmoriIntegral(tStart, tEnd, c, p);
+}
+
+/** Profile log-likelihood in (log10 c, p), with K at its conditional maximum */
+function profileLogLikelihood(log10c: number, p: number, times: number[], tStart: number, tEnd: number): number {
+  if (log10c < LOG10_C_BOUNDS.min || log10c > LOG10_C_BOUNDS.max || p < P_BOUNDS.min || p > P_BOUNDS.max) {
+    return -Infinity;
+  }
+  const c = Math.pow(10, log10c);
+  const K = times.length / calculateOmoriIntegral(tStart, tEnd, c, p);
+  return logLikelihood(K, c, p, times, tStart, tEnd);
+}
+
+/** Nelder–Mead maximisation of f, from a start point and an initial step along each variable */
+export function nelderMead(f: (x: number[]) => number, start: number[], steps: number[], iterations = 200): number[] {
+  const n = start.length;
+  let simplex = [start, ...steps.map((step, k) => start.map((x, j) => (j === k ? x + step : x)))]
+    .map(x => ({ x, v: f(x) }));
+  for (let i = 0; i < iterations; i++) {
+    simplex.sort((s, t) => t.v - s.v);
+    const best = simplex[0];
+    const next = simplex[n - 1];
+    const worst = simplex[n];
+    if (Math.abs(best.v - worst.v) < 1e-10 && Math.abs(best.x[0] - worst.x[0]) < 1e-8) break;
+    const centroid = start.map((_, j) => simplex.slice(0, n).reduce((sum, s) => sum + s.x[j], 0) / n);
+    const along = (t: number) => centroid.map((ci, k) => ci + t * (worst.x[k] - ci));
+    const reflected = along(-1);
+    const vr = f(reflected);
+    if (vr > best.v) {
+      const expanded = along(-2);
+      const ve = f(expanded);
+      simplex[n] = ve > vr ? { x: expanded, v: ve } : { x: reflected, v: vr };
+    } else if (vr > next.v) {
+      simplex[n] = { x: reflected, v: vr };
+    } else {
+      const contracted = along(0.5);
+      const vc = f(contracted);
+      if (vc > worst.v) {
+        simplex[n] = { x: contracted, v: vc };
+      } else {
+        simplex = simplex.map((s, k) => {
+          if (k === 0) return s;
+          const x = s.x.map((xi, j) => best.x[j] + (xi - best.x[j]) / 2);
+          return { x, v: f(x) };
+        });
+      }
+    }
+  }
+  simplex.sort((s, t) => t.v - s.v);
+  return simplex[0].x;
+}
+
+/** Inverse of a symmetric 3×3 matrix, or null if singular */
+function invert3(m: number[][]): number[][] | null {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  if (!Number.isFinite(det) || det === 0) return null;
+  return [
+    [(e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det],
+    [(f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det],
+    [(d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det],
+  ];
+}
+
+/** Standard errors of (K, c, p) from the observed information at the maximum */
+function standardErrors(theta: number[], times: number[], tStart: number, tEnd: number): number[] {
+  const f = (x: number[]) => logLikelihood(x[0], x[1], x[2], times, tStart, tEnd);
+  const h = theta.map(x => 1e-4 * Math.abs(x));
+  const shifted = (di: number, si: number, dj: number, sj: number) => {
+    const x = [...theta];
+    x[di] += si * h[di];
+    x[dj] += sj * h[dj];
+    return f(x);
+  };
+  const hessian = [0, 1, 2].map(i => [0, 1, 2].map(j =>
+    (shifted(i, 1, j, 1) - shifted(i, 1, j, -1) - shifted(i, -1, j, 1) + shifted(i, -1, j, -1)) / (4 * h[i] * h[j])
+  ));
+  const covariance = invert3(hessian.map(row => row.map(v => -v)));
+  return [0, 1, 2].map(k => {
+    const variance = covariance?.[k][k];
+    return variance !== undefined && variance > 0 ? Math.sqrt(variance) : NaN;
+  });
+}
+
+/**
+ * Maximum-likelihood Omori–Utsu K, c and p from the catalogue events with
+ * M >= mc in [tStart, tEnd] days after the mainshock
+ *
+ * @param excludePublicId - Catalogue ID of the mainshock, so it is not counted as an aftershock
+ * @throws {Error} If the window is empty or holds fewer than MIN_FIT_EVENTS events
+ */
+export function fitOmoriUtsu(
+  events: ObservedEvent[],
+  quakeTimeMs: number,
+  mc: number,
+  tStart: number,
+  tEnd: number,
+  excludePublicId?: string
+): OmoriFit {
+  if (!(tEnd > tStart) || tStart < 0) {
+    throw new Error('The fitting window must start at or after the mainshock and have positive length');
+  }
+  const times = aftershockTimesDays(events, quakeTimeMs, mc, tStart, tEnd, excludePublicId);
+  if (times.length < MIN_FIT_EVENTS) {
+    throw new Error(`Only ${times.length} events with M ≥ ${mc} in the fitting window; at least ${MIN_FIT_EVENTS} are needed`);
+  }
+
+  // Coarse grid for a starting point, then refine
+  let start = [0, 1];
+  let bestValue = -Infinity;
+  for (let log10c = LOG10_C_BOUNDS.min; log10c <= LOG10_C_BOUNDS.max; log10c += 0.25) {
+    for (let p = P_BOUNDS.min; p <= P_BOUNDS.max; p += 0.1) {
+      const value = profileLogLikelihood(log10c, p, times, tStart, tEnd);
+      if (value > bestValue) {
+        bestValue = value;
+        start = [log10c, p];
+      }
+    }
+  }
+  const [log10c, p] = nelderMead(x => profileLogLikelihood(x[0], x[1], times, tStart, tEnd), start, [0.1, 0.05]);
+  const c = Math.pow(10, log10c);
+  const K = times.length / calculateOmoriIntegral(tStart, tEnd, c, p);
+
+  const onBound = log10c - LOG10_C_BOUNDS.min < 1e-3 || LOG10_C_BOUNDS.max - log10c < 1e-3 ||
+    p - P_BOUNDS.min < 1e-3 || P_BOUNDS.max - p < 1e-3;
+  const [seK, seC, seP] = onBound ? [NaN, NaN, NaN] : standardErrors([K, c, p], times, tStart, tEnd);
+
+  return {
+    K,
+    c,
+    p,
+    se: { K: seK, c: seC, p: seP },
+    logLikelihood: logLikelihood(K, c, p, times, tStart, tEnd),
+    eventCount: times.length,
+    mc,
+    tStart,
+    tEnd,
+  };
+}
+
+/**
+ * Reasenberg–Jones parameters equivalent to a fit: K counts events with
+ * M >= mc, so a = log10 K - b·(Mm - (mc - 0.05)), rounded for display
+ */
+export function omoriFitToModelParams(fit: OmoriFit, mainMag: number, b: number): ModelParameters {
+  return {
+    a: Number((Math.log10(fit.K) - b * (mainMag - (fit.mc - 0.05))).toFixed(3)),
+    b,
+    c: Number(fit.c.toPrecision(3)),
+    p: Number(fit.p.toFixed(3)),
+  };
+}
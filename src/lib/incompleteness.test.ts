@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  completenessMagnitude,
+  recordedCountForBin,
+  recordedFractionForBin,
+  validateIncompleteness,
+  withRecordedNumbers,
+} from './incompleteness';
+import { calculateAftershockRate, calculateWindowForecast } from './calculations';
+import { expectedCountForBin } from './evaluation';
+import { testResults } from './testResults';
+import { DEFAULT_INCOMPLETENESS, ETAS_DEFAULTS, MODEL_PRESETS } from '@/types';
+
+const params = MODEL_PRESETS.nz;
+const model = DEFAULT_INCOMPLETENESS;
+const open = (minMag: number) => ({ minMag, maxMag: null });
+
+describe('short-term incompleteness', () => {
+  it('follows Mc(t) = M − G − H·log10(t), the highest over the sources', () => {
+    expect(completenessMagnitude(1, 7, model)).toBeCloseTo(2.5, 12);
+    expect(completenessMagnitude(0.01, 7, model)).toBeCloseTo(4, 12);
+    const sources = [{ magnitude: 6.5, timeDays: 2 }];
+    expect(completenessMagnitude(1, 7, model, sources)).toBeCloseTo(2.5, 12);
+    expect(completenessMagnitude(2.01, 7, model, sources)).toBeCloseTo(3.5, 12);
+  });
+
+  it('records each event above the completeness magnitude at its time', () => {
+    // Direct midpoint sum of the rate above max(M, Mc(t)) in log-time
+    const n = 20000;
+    const lo = Math.log(1e-6);
+    const hi = Math.log(1);
+    let direct = 0;
+    for (let i = 0; i < n; i++) {
+      const t = Math.exp(lo + ((hi - lo) * (i + 0.5)) / n);
+      const m = Math.max(3, completenessMagnitude(t, 7, model));
+      direct += t * calculateAftershockRate(params, 7, m, t) * (hi - lo) / n;
+    }
+    const recorded = recordedCountForBin(params, 7, open(3), 0, 1, model);
+    expect(recorded / direct).toBeCloseTo(1, 2);
+    expect(recorded).toBeLessThan(0.7 * expectedCountForBin(params, 7, open(3), 0, 1));
+  });
+
+  it('misses nothing once the catalogue is complete at the threshold', () => {
+    // Mc(t) = 3 at t = 10^(0.5 / 0.75) ≈ 4.6 days after an M8
+    expect(recordedCountForBin(params, 8, open(3), 5, 30, model))
+      .toBeCloseTo(expectedCountForBin(params, 8, open(3), 5, 30), 10);
+    const bin = { minMag: 3, maxMag: 5 };
+    expect(recordedCountForBin(params, 8, bin, 1, 30, model))
+      .toBeLessThan(expectedCountForBin(params, 8, bin, 1, 30));
+  });
+
+  it('applies to ETAS and to a truncated magnitude distribution', () => {
+    const etasExpected = expectedCountForBin(params, 7, open(3), 0, 1, ETAS_DEFAULTS);
+    const etasRecorded = recordedCountForBin(params, 7, open(3), 0, 1, model, ETAS_DEFAULTS);
+    expect(etasRecorded).toBeGreaterThan(0);
+    expect(etasRecorded).toBeLessThan(etasExpected);
+    const capped = { ...params, maxMagnitude: { kind: 'truncated' as const, magnitude: 7.5 } };
+    expect(recordedCountForBin(capped, 7, open(3), 0, 1, model))
+      .toBeLessThan(expectedCountForBin(capped, 7, open(3), 0, 1));
+  });
+
+  it('annotates forecasts with recorded numbers only when modelled', () => {
+    const thresholds = [3, 5];
+    const results = testResults(7, thresholds, params, {
+      forecasts: [calculateWindowForecast({ start: 0, end: 1 }, 7, thresholds, 0.1, params)],
+      rangeStartDays: 0.1,
+    });
+    expect(withRecordedNumbers(results)).toBe(results.forecasts);
+    expect(recordedFractionForBin(results, open(3), 0.1, 1.1)).toBe(1);
+    const modelled = { ...results, incompleteness: model };
+    const [forecast] = withRecordedNumbers(modelled);
+    expect(forecast.bins.every(bin => bin.recordedNumber !== undefined)).toBe(true);
+    const fraction = recordedFractionForBin(modelled, open(3), 0.1, 1.1);
+    expect(fraction).toBeGreaterThan(0);
+    expect(fraction).toBeLessThan(1);
+  });
+
+  it('validates its parameters', () => {
+    expect(validateIncompleteness(model)).toEqual([]);
+    expect(validateIncompleteness({ G: 4.5, H: 0 })).toHaveLength(1);
+    expect(validateIncompleteness({ G: NaN, H: 0.75 })).toHaveLength(1);
+  });
+});
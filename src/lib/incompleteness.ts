@@ -0,0 +1,216 @@
+// Short-term aftershock incompleteness
+//
+// In the hours after a large event the network misses many small
+// aftershocks, hidden in the coda of larger ones. The forecasts count every
+// aftershock; this module estimates how many of them the catalogue records,
+// so that a forecast can be compared like with like against observed counts.
+//
+// Documented assumptions:
+// - After a source event of magnitude Ms at ts days, the catalogue is
+//   complete above Mc(t) = Ms − G − H·log10(t − ts) (Helmstetter et al.
+//   2006). With additional source events Mc(t) is the highest of their
+//   values; the network's long-term completeness is not modelled.
+// - Detection is a step: every event at or above Mc(t) is recorded and none
+//   below it, so an event of M >= m is recorded with probability
+//   N(≥Mc)/N(≥m) from the Gutenberg–Richter distribution, any maximum
+//   magnitude included.
+// - Missed events still trigger their own aftershocks under ETAS:
+//   incompleteness changes what is recorded, never the sequence itself.
+// - Recorded counts are those of the point forecast; a predictive
+//   distribution is scaled by the same recorded fraction.
+
+import type {
+  CalculationResults,
+  EtasParameters,
+  MaxMagnitude,
+  ModelParameters,
+  ShortTermIncompleteness,
+  SourceEvent,
+  WindowForecast,
+} from '@/types';
+import { calculateAftershockRate, formatValue, grSurvivalFactor } from './calculations';
+import { solveEtas } from './etas';
+import { expectedCountForBin, type BinTarget } from './evaluation';
+
+/** Geometric midpoint nodes per stretch of the missed-count integral */
+const NODES = 200;
+
+/** What decides which aftershocks the catalogue misses */
+export interface DetectionContext {
+  incompleteness: ShortTermIncompleteness;
+  mainMag: number;
+  sources: SourceEvent[];
+  /** Gutenberg–Richter slope and upper end of the sequence's magnitudes */
+  b: number;
+  maxMagnitude?: MaxMagnitude;
+}
+
+/**
+ * Problems with incompleteness parameters, as user-facing messages (empty
+ * when they are usable)
+ */
+export function validateIncompleteness(incompleteness: ShortTermIncompleteness): string[] {
+  const errors: string[] = [];
+  if (!Number.isFinite(incompleteness.G)) {
+    errors.push("Incompleteness offset 'G' must be a number");
+  }
+  if (!Number.isFinite(incompleteness.H) || incompleteness.H <= 0) {
+    errors.push("Incompleteness slope 'H' must be greater than 0");
+  }
+  return errors;
+}
+
+/**
+ * Completeness magnitude Mc(t) at t days after the mainshock: the highest
+ * value implied by the mainshock and the sources before t
+ */
+export function completenessMagnitude(
+  t: number,
+  mainMag: number,
+  incompleteness: ShortTermIncompleteness,
+  sources: SourceEvent[] = []
+): number {
+  const { G, H } = incompleteness;
+  return Math.max(
+    ...[{ magnitude: mainMag, timeDays: 0 }, ...sources]
+      .filter(source => t > source.timeDays)
+      .map(source => source.magnitude - G - H * Math.log10(t - source.timeDays))
+  );
+}
+
+/** Probability that an event of M >= minMag is recorded while the catalogue is complete above mc */
+function recordedFraction(minMag: number, mc: number, b: number, maxMagnitude?: MaxMagnitude): number {
+  if (mc <= minMag) return 1;
+  const all = grSurvivalFactor(minMag, b, maxMagnitude);
+  return all > 0 ? (Math.pow(10, -b * (mc - minMag)) * grSurvivalFactor(mc, b, maxMagnitude)) / all : 0;
+}
+
+/**
+ * Expected number of events of M >= minMag over [tStart, tEnd] days after
+ * the mainshock that the catalogue misses, given their true rate
+ * (events/day at t days after the mainshock)
+ */
+export function missedCount(
+  rate: (t: number) => number,
+  minMag: number,
+  tStart: number,
+  tEnd: number,
+  context: DetectionContext
+): number {
+  const { incompleteness, mainMag, sources, b, maxMagnitude } = context;
+  const all = [{ magnitude: mainMag, timeDays: 0 }, ...sources];
+  // Each source's time and the time Mc falls back to minMag after it split
+  // the window into stretches, each integrated on nodes finest at its start
+  const breaks = all.flatMap(s => [
+    s.timeDays,
+    s.timeDays + Math.pow(10, (s.magnitude - incompleteness.G - minMag) / incompleteness.H),
+  ]);
+  const edges = [tStart, tEnd, ...breaks.filter(t => t > tStart && t < tEnd)].sort((x, y) => x - y);
+
+  let missed = 0;
+  for (let i = 0; i + 1 < edges.length; i++) {
+    const lo = edges[i];
+    const span = edges[i + 1] - lo;
+    if (span <= 0) continue;
+    const first = span * 1e-6;
+    const ratio = Math.pow(span / first, 1 / NODES);
+    for (let k = 0; k < NODES; k++) {
+      const from = first * Math.pow(ratio, k);
+      const to = from * ratio;
+      const t = lo + (from + to) / 2;
+      const mc = completenessMagnitude(t, mainMag, incompleteness, sources);
+      if (mc > minMag) {
+        missed += (1 - recordedFraction(minMag, mc, b, maxMagnitude)) * rate(t) * (to - from);
+      }
+    }
+  }
+  return missed;
+}
+
+/**
+ * Expected number of recorded events in a magnitude bin over [tStart, tEnd]
+ * days after the mainshock, the counterpart of expectedCountForBin. When
+ * ETAS parameters are given they take precedence over `params`.
+ */
+export function recordedCountForBin(
+  params: ModelParameters,
+  mainMag: number,
+  bin: BinTarget,
+  tStart: number,
+  tEnd: number,
+  incompleteness: ShortTermIncompleteness,
+  etas?: EtasParameters,
+  sources: SourceEvent[] = []
+): number {
+  const solution = etas ? solveEtas(etas, mainMag, tEnd, [tStart], sources) : null;
+  const context: DetectionContext = {
+    incompleteness,
+    mainMag,
+    sources,
+    b: etas ? etas.b : params.b,
+    maxMagnitude: etas ? undefined : params.maxMagnitude,
+  };
+  const recorded = (minMag: number) => {
+    const total = solution
+      ? solution.expectedCount(minMag, tStart, tEnd)
+      : expectedCountForBin(params, mainMag, { minMag, maxMag: null }, tStart, tEnd, undefined, sources);
+    const rate = (t: number) => solution ? solution.rate(minMag, t) : calculateAftershockRate(params, mainMag, minMag, t, sources);
+    return Math.max(0, total - missedCount(rate, minMag, tStart, tEnd, context));
+  };
+  return recorded(bin.minMag) - (bin.maxMag === null ? 0 : recorded(bin.maxMag));
+}
+
+/**
+ * Expected true and recorded counts for a bin of a forecast: an ensemble's
+ * are the weighted means of its members'
+ */
+function binCounts(
+  results: CalculationResults,
+  incompleteness: ShortTermIncompleteness,
+  bin: BinTarget,
+  tStart: number,
+  tEnd: number
+): { expected: number; recorded: number } {
+  const { mainshockMagnitude: mainMag, etasParams, additionalSources: sources = [] } = results;
+  const members = results.ensemble ?? [{ weight: 1, params: results.modelParams }];
+  return members.reduce(
+    (sum, { weight, params }) => ({
+      expected: sum.expected + weight * expectedCountForBin(params, mainMag, bin, tStart, tEnd, etasParams, sources),
+      recorded: sum.recorded + weight * recordedCountForBin(params, mainMag, bin, tStart, tEnd, incompleteness, etasParams, sources),
+    }),
+    { expected: 0, recorded: 0 }
+  );
+}
+
+/**
+ * Fraction of a forecast's expected count in a bin over [tStart, tEnd] days
+ * after the mainshock that the catalogue records: 1 unless the forecast
+ * models short-term incompleteness
+ */
+export function recordedFractionForBin(results: CalculationResults, bin: BinTarget, tStart: number, tEnd: number): number {
+  if (!results.incompleteness) return 1;
+  const { expected, recorded } = binCounts(results, results.incompleteness, bin, tStart, tEnd);
+  return expected > 0 ? recorded / expected : 1;
+}
+
+/**
+ * The forecast's windows with the expected recorded number added to every
+ * bin; unchanged unless the forecast models short-term incompleteness
+ */
+export function withRecordedNumbers(results: CalculationResults): WindowForecast[] {
+  const { incompleteness, magnitudeThresholds: thresholds, rangeStartDays } = results;
+  if (!incompleteness) return results.forecasts;
+  return results.forecasts.map(forecast => ({
+    ...forecast,
+    bins: forecast.bins.map((bin, i) => {
+      const { recorded } = binCounts(
+        results,
+        incompleteness,
+        { minMag: thresholds[i], maxMag: thresholds[i + 1] ?? null },
+        rangeStartDays + forecast.window.start,
+        rangeStartDays + forecast.window.end
+      );
+      return { ...bin, recordedNumber: formatValue(recorded) };
+    }),
+  }));
+}
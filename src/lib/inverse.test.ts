@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { magnitudeAtProbability, timeToRate } from './inverse';
+import { calculateAftershockRate, calculateTimeToRate } from './calculations';
+import { ensembleComponents } from './ensemble';
+import { etasExpectedAftershocks } from './etas';
+import { expectedCountForBin } from './evaluation';
+import { testResults } from './testResults';
+import { ETAS_DEFAULTS, MAX_FORECAST_DAYS, MODEL_PRESETS } from '@/types';
+
+const params = MODEL_PRESETS.nz;
+const results = testResults(7, [3, 5], params);
+const week = { start: 0, end: 7 };
+const chance = (expected: number) => 1 - Math.exp(-expected);
+
+describe('inverse queries', () => {
+  it('finds the magnitude reached with a given probability', () => {
+    const m = magnitudeAtProbability(results, week, 0.1);
+    expect(chance(expectedCountForBin(params, 7, { minMag: m, maxMag: null }, 1, 8))).toBeCloseTo(0.1, 9);
+    expect(magnitudeAtProbability(results, week, 0.5)).toBeLessThan(m);
+  });
+
+  it('averages the members of an ensemble and follows ETAS', () => {
+    const ensemble = ensembleComponents([{ model: 'nz', weight: 1 }, { model: 'scr', weight: 3 }]);
+    const m = magnitudeAtProbability({ ...results, ensemble }, week, 0.1);
+    const mean = ensemble.reduce(
+      (sum, { weight, params }) => sum + weight * chance(expectedCountForBin(params, 7, { minMag: m, maxMag: null }, 1, 8)),
+      0
+    );
+    expect(mean).toBeCloseTo(0.1, 9);
+    const etasM = magnitudeAtProbability({ ...results, etasParams: ETAS_DEFAULTS }, week, 0.1);
+    expect(chance(etasExpectedAftershocks(ETAS_DEFAULTS, 7, etasM, 1, 8))).toBeCloseTo(0.1, 6);
+  });
+
+  it('finds when the rate falls below a target', () => {
+    // Omori rate K (t + c)^-p at M4+ reaches r at t = (K / r)^(1/p) - c
+    const target = 1 / 30;
+    const k = Math.pow(10, params.a + params.b * (7 - 3.95));
+    const expected = Math.pow(k / target, 1 / params.p) - params.c;
+    expect(timeToRate(results, 4, target)! / expected).toBeCloseTo(1, 9);
+    expect(calculateAftershockRate(params, 7, 4, timeToRate(results, 4, target)!)).toBeCloseTo(target, 9);
+  });
+
+  it('waits for the rate to stay below the target after a later source event', () => {
+    const sources = [{ magnitude: 6.5, timeDays: 0.5 }];
+    const quiet = calculateTimeToRate(params, 7, 4, 1, 0);
+    const withSource = calculateTimeToRate(params, 7, 4, 1, 0, sources)!;
+    expect(withSource).toBeGreaterThan(quiet!);
+    expect(calculateAftershockRate(params, 7, 4, withSource, sources)).toBeCloseTo(1, 9);
+    // A small source after the crossing pushes the rate back up above a low target
+    const late = [{ magnitude: 5, timeDays: 100 }];
+    expect(calculateTimeToRate(params, 7, 4, 0.01, 0, late)).toBeGreaterThan(100);
+  });
+
+  it('handles rates already below, or never below, the target', () => {
+    expect(timeToRate(results, 4, 1000)).toBe(1);
+    expect(timeToRate(results, 2, 1e-9)).toBeNull();
+    const etas = timeToRate({ ...results, etasParams: ETAS_DEFAULTS }, 4, 0.1);
+    expect(etas).toBeGreaterThan(100);
+    expect(etas).toBeLessThan(MAX_FORECAST_DAYS);
+    expect(timeToRate({ ...results, etasParams: ETAS_DEFAULTS }, 4, 0.01)).toBeNull();
+  });
+
+  it('rejects impossible targets', () => {
+    expect(() => magnitudeAtProbability(results, week, 0)).toThrow();
+    expect(() => magnitudeAtProbability(results, week, 1)).toThrow();
+    expect(() => timeToRate(results, 4, 0)).toThrow();
+    expect(() => timeToRate(results, NaN, 1)).toThrow();
+  });
+});
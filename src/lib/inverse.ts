@@ -0,0 +1,109 @@
+// Inverse forecast queries
+//
+// The forecasts answer "how many, how likely?" for a given magnitude and
+// window; these queries answer the other way round, for any results
+// snapshot: the magnitude with a given chance of being reached in a window,
+// and when the aftershock rate falls to a given level, such as the
+// background rate.
+//
+// Documented assumptions:
+// - The magnitude query uses the same largest-aftershock distribution as
+//   the table, with any parameter and magnitude uncertainty.
+// - Rates are those of the point forecast (an ensemble's weighted mean
+//   rate); parameter uncertainty does not enter the time query.
+
+import type { CalculationResults, ForecastWindow, ModelParameters } from '@/types';
+import { MAX_FORECAST_DAYS } from '@/types';
+import {
+  calculateAftershockRate,
+  calculateExpectedAftershocks,
+  calculateMagnitudeAtProbability,
+  calculateTimeToRate,
+  combinedOmoriIntegral,
+  parameterMixture,
+  timeRateFallsBelow,
+} from './calculations';
+import { ensembleLargestMagnitudeCdf } from './ensemble';
+import { solveEtas } from './etas';
+
+/**
+ * Magnitude that at least one aftershock reaches or exceeds with the given
+ * probability in a window, under the snapshot's model
+ *
+ * @param window - Days after the forecast start time
+ * @throws {Error} If probability is not strictly between 0 and 1, or the window is empty
+ */
+export function magnitudeAtProbability(results: CalculationResults, window: ForecastWindow, probability: number): number {
+  if (!(probability > 0 && probability < 1)) {
+    throw new Error('Probability must be between 0% and 100%');
+  }
+  if (window.start < 0 || window.end <= window.start) {
+    throw new Error('Forecast window must end after it starts, and start at or after the forecast start time');
+  }
+  const { mainshockMagnitude: mag, parameterUncertainty: uncertainty } = results;
+  const sources = results.additionalSources ?? [];
+  const tStart = results.rangeStartDays + window.start;
+  const tEnd = results.rangeStartDays + window.end;
+
+  if (results.etasParams) {
+    const expected = solveEtas(results.etasParams, mag, tEnd, [tStart], sources).expectedCount(mag, tStart, tEnd);
+    return calculateMagnitudeAtProbability(probability, mag, expected, results.etasParams.b);
+  }
+  const member = (params: ModelParameters) => ({
+    expectedAtMainshock: calculateExpectedAftershocks(
+      params.a, params.b, mag, mag, combinedOmoriIntegral(tStart, tEnd, params, mag, sources)
+    ),
+    b: params.b,
+    maxMagnitude: params.maxMagnitude,
+    mixture: uncertainty ? parameterMixture(params, uncertainty, tStart, tEnd, mag, sources) : undefined,
+  });
+  if (!results.ensemble) {
+    const { expectedAtMainshock, b, mixture, maxMagnitude } = member(results.modelParams);
+    return calculateMagnitudeAtProbability(probability, mag, expectedAtMainshock, b, mixture, maxMagnitude);
+  }
+  // The ensemble's exceedance probability is the weighted mean of its members'
+  const members = results.ensemble.map(({ weight, params }) => ({ weight, ...member(params) }));
+  let lo = mag - 20;
+  let hi = mag + 20;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (1 - ensembleLargestMagnitudeCdf(mid, mag, members) > probability) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Time (days after the mainshock) from which the expected rate of
+ * aftershocks with M >= minMag stays below targetRate (events/day), searched
+ * from the forecast start; null if not within MAX_FORECAST_DAYS of the
+ * mainshock
+ *
+ * @throws {Error} If minMag is not a number or targetRate is not positive
+ */
+export function timeToRate(results: CalculationResults, minMag: number, targetRate: number): number | null {
+  if (!Number.isFinite(minMag)) {
+    throw new Error('Magnitude must be a number');
+  }
+  if (!(targetRate > 0)) {
+    throw new Error('Target rate must be greater than 0');
+  }
+  const { mainshockMagnitude: mag, rangeStartDays: tFrom } = results;
+  const sources = results.additionalSources ?? [];
+  const breaks = sources.map(s => s.timeDays);
+
+  if (results.etasParams) {
+    const solution = solveEtas(results.etasParams, mag, MAX_FORECAST_DAYS, [tFrom], sources);
+    return timeRateFallsBelow(t => solution.rate(minMag, t), targetRate, tFrom, breaks);
+  }
+  if (results.ensemble) {
+    const members = results.ensemble;
+    return timeRateFallsBelow(
+      t => members.reduce((sum, { weight, params }) => sum + weight * calculateAftershockRate(params, mag, minMag, t, sources), 0),
+      targetRate,
+      tFrom,
+      breaks
+    );
+  }
+  return calculateTimeToRate(results.modelParams, mag, minMag, targetRate, tFrom, sources);
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { kernelIntegral, kernelRate, validateTemporalKernel, formatTemporalKernel, KERNEL_DEFAULTS } from './kernels';
+import {
+  calculateOmoriIntegral,
+  calculateWindowForecast,
+  calculateAftershockRate,
+  combinedOmoriIntegral,
+  temporalKernelIntegral,
+} from './calculations';
+import { expectedCountForBin } from './evaluation';
+import { MODEL_PRESETS } from '@/types';
+
+const params = MODEL_PRESETS.nz;
+
+/** Midpoint rule in log-time, accurate enough to check the closed forms */
+function numericIntegral(t1: number, t2: number, rate: (t: number) => number): number {
+  const n = 20000;
+  const lo = Math.log(t1 + 1e-9);
+  const hi = Math.log(t2);
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    const t = Math.exp(lo + ((hi - lo) * (i + 0.5)) / n);
+    sum += t * rate(t);
+  }
+  return (sum * (hi - lo)) / n;
+}
+
+describe('temporal kernels', () => {
+  const stretched = { type: 'stretched-exponential' as const, tau: 0.02, beta: 0.3 };
+  const rateState = { type: 'rate-state' as const, ta: 1000 };
+
+  it('integrates each kernel\'s rate', () => {
+    for (const kernel of [stretched, rateState]) {
+      for (const [t1, t2] of [[0, 1], [1, 30], [30, 365]]) {
+        const numeric = numericIntegral(t1, t2, t => kernelRate(t, params, kernel));
+        expect(kernelIntegral(t1, t2, params, kernel) / numeric).toBeCloseTo(1, 3);
+      }
+    }
+  });
+
+  it('keeps its precision late in a stretched-exponential decay', () => {
+    const late = kernelIntegral(3000, 3001, params, stretched);
+    expect(late).toBeGreaterThan(0);
+    expect(late / kernelRate(3000.5, params, stretched)).toBeCloseTo(1, 3);
+  });
+
+  it('reduces rate-and-state decay to Omori p = 1 well before the duration', () => {
+    const long = { type: 'rate-state' as const, ta: 1e7 };
+    expect(kernelIntegral(0, 30, params, long)).toBeCloseTo(calculateOmoriIntegral(0, 30, params.c, 1), 4);
+  });
+
+  it('defaults to Omori–Utsu, so forecasts are unchanged', () => {
+    const explicit = { ...params, kernel: KERNEL_DEFAULTS.omori };
+    expect(temporalKernelIntegral(1, 8, explicit)).toBe(calculateOmoriIntegral(1, 8, params.c, params.p));
+    expect(calculateWindowForecast({ start: 0, end: 7 }, 7.8, [4, 5], 1, explicit))
+      .toEqual(calculateWindowForecast({ start: 0, end: 7 }, 7.8, [4, 5], 1, params));
+  });
+
+  it('drives the forecast, the rate and the evaluation alike', () => {
+    const withKernel = { ...params, kernel: stretched };
+    const integral = combinedOmoriIntegral(1, 31, withKernel, 7.8);
+    expect(integral).toBeCloseTo(kernelIntegral(1, 31, params, stretched), 12);
+    const rateRatio = calculateAftershockRate(withKernel, 7.8, 4, 10) / calculateAftershockRate(params, 7.8, 4, 10);
+    expect(rateRatio).toBeCloseTo(kernelRate(10, params, stretched) / Math.pow(10 + params.c, -params.p), 10);
+    const countRatio = expectedCountForBin(withKernel, 7.8, { minMag: 4, maxMag: null }, 1, 31)
+      / expectedCountForBin(params, 7.8, { minMag: 4, maxMag: null }, 1, 31);
+    expect(countRatio).toBeCloseTo(integral / calculateOmoriIntegral(1, 31, params.c, params.p), 10);
+  });
+
+  it('validates and describes kernel parameters', () => {
+    expect(validateTemporalKernel(stretched, params.c)).toEqual([]);
+    expect(validateTemporalKernel({ ...stretched, beta: 1.5 }, params.c)).toHaveLength(1);
+    expect(validateTemporalKernel({ type: 'rate-state', ta: 0.01 }, params.c)).toHaveLength(1);
+    expect(() => calculateWindowForecast({ start: 0, end: 7 }, 7.8, [4], 1, { ...params, kernel: { ...stretched, tau: 0 } }))
+      .toThrow();
+    expect(formatTemporalKernel(rateState)).toBe('Rate-and-state (ta = 1000 days)');
+  });
+});
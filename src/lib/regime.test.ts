@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { findTectonicRegion, suggestModelType } from './regime';
+
+describe('findTectonicRegion', () => {
+  it('prefers the subduction margin over the surrounding active crust', () => {
+    expect(findTectonicRegion(-38.8, 178.3)?.name).toBe('Hikurangi subduction margin');
+    expect(findTectonicRegion(-42.69, 173.02)?.name).toBe('New Zealand active crust');
+  });
+
+  it('handles regions across the dateline in either longitude convention', () => {
+    expect(findTectonicRegion(-30, -178)?.name).toBe('Kermadec subduction margin');
+    expect(findTectonicRegion(-30, 182)?.name).toBe('Kermadec subduction margin');
+  });
+
+  it('returns null outside every bundled region', () => {
+    expect(findTectonicRegion(0, -30)).toBeNull();
+  });
+});
+
+describe('suggestModelType', () => {
+  it('suggests NZ Generic for shallow crustal events such as Kaikōura', () => {
+    expect(suggestModelType(-42.69, 173.02, 15)?.model).toBe('nz');
+  });
+
+  it('uses the depth rule within a subduction margin', () => {
+    expect(suggestModelType(-38.8, 178.3, 20)?.model).toBe('sz');
+    expect(suggestModelType(-38.8, 178.3, 5)?.model).toBe('nz');
+    expect(suggestModelType(-49, 164.5)?.model).toBe('sz');
+    expect(suggestModelType(-49, 164.5)?.reason).toMatch(/depth is unknown/);
+  });
+
+  it('suggests the subduction preset for intraslab depths within a margin or its slab footprint', () => {
+    const slab = suggestModelType(-38.8, 178.3, 60);
+    expect(slab?.model).toBe('sz');
+    expect(slab?.reason).toMatch(/subducting slab/);
+    // 2023 Levin M6, within the Hikurangi slab under the lower North Island
+    expect(suggestModelType(-40.6, 175.4, 48)).toEqual(expect.objectContaining({ model: 'sz', region: 'Hikurangi subduction margin' }));
+    expect(suggestModelType(-38.7, 176.0, 150)?.model).toBe('sz');
+    // Fiordland, over the Puysegur slab
+    expect(suggestModelType(-45.5, 167.5, 80)?.region).toBe('Puysegur subduction margin');
+    // The same places at crustal depths keep the crustal preset
+    expect(suggestModelType(-40.6, 175.4, 10)?.model).toBe('nz');
+  });
+
+  it('keeps the region preset for a deep event outside every slab outline', () => {
+    const deep = suggestModelType(-44.0, 171.0, 60);
+    expect(deep).toEqual(expect.objectContaining({ model: 'nz', region: 'New Zealand active crust' }));
+    expect(deep?.reason).not.toMatch(/no subducting slab/);
+  });
+
+  it('keeps the region preset for a deep event in a stable continent', () => {
+    expect(suggestModelType(-25, 134, 60)).toEqual(expect.objectContaining({ model: 'scr', region: 'Australian stable continent' }));
+  });
+
+  it('suggests the California and stable-continent presets in their regions', () => {
+    expect(suggestModelType(35.77, -117.6, 8)?.model).toBe('california');
+    expect(suggestModelType(-25, 134, 10)?.model).toBe('scr');
+    expect(suggestModelType(37.5, -90.5, 10)?.model).toBe('scr');
+  });
+
+  it('gives no suggestion outside the bundled regions', () => {
+    expect(suggestModelType(0, -30, 10)).toBeNull();
+    expect(suggestModelType(0, -30, 120)).toBeNull();
+  });
+});
@@ -0,0 +1,192 @@
+// Tectonic-regime preset suggestion from the hypocentre
+//
+// Recommends the preset whose calibration matches the tectonic setting of a
+// loaded earthquake, from coarse regionalisation polygons bundled with the
+// app (no network access) and a depth rule.
+//
+// Documented assumptions:
+// - The polygons are deliberately coarse outlines (a few tens of km), good
+//   enough to pick a generic preset; they are not a seismotectonic model.
+//   Vertices are [longitude, latitude] with longitude in [0, 360), so regions
+//   crossing the dateline (Kermadec) are single polygons.
+// - Events at INTRASLAB_DEPTH_KM or deeper lie within the subducting slab
+//   when they are inside a subduction margin or the down-dip footprint of its
+//   slab, which reaches under neighbouring regions (the Hikurangi slab under
+//   the lower and central North Island, the Puysegur slab under Fiordland).
+// - Within a subduction margin, shallower events at INTERFACE_DEPTH_KM or
+//   deeper (or of unknown depth) are on or near the plate interface; those
+//   above it are in the overlying crust and get the margin's crustal preset.
+// - Depth alone never implies a slab: outside the margins and slab footprints
+//   a deep event gets its region's own preset.
+// - Polygons are checked in order, so a subduction margin takes precedence
+//   over the active crust around it. Outside every polygon there is no
+//   suggestion.
+
+import type { PresetModelType } from '@/types';
+
+export const INTRASLAB_DEPTH_KM = 40;
+export const INTERFACE_DEPTH_KM = 15;
+
+export interface TectonicRegion {
+  name: string;
+  /** 'subduction' regions use the depth rule; the others suggest their preset directly */
+  kind: 'subduction' | 'active' | 'stable';
+  model: PresetModelType;
+  /** Preset for shallow upper-plate events (subduction regions only) */
+  crustalModel?: PresetModelType;
+  polygon: [number, number][];
+  /** Down-dip footprint of the slab below INTRASLAB_DEPTH_KM, beyond the margin (subduction regions only) */
+  slab?: [number, number][];
+}
+
+export interface RegimeSuggestion {
+  model: PresetModelType;
+  /** Matching region */
+  region: string;
+  /** One-sentence explanation for the user */
+  reason: string;
+}
+
+export const TECTONIC_REGIONS: TectonicRegion[] = [
+  {
+    name: 'Hikurangi subduction margin',
+    kind: 'subduction',
+    model: 'sz',
+    crustalModel: 'nz',
+    polygon: [
+      [174.6, -42.2], [175.6, -41.2], [176.4, -40.1], [177.0, -39.3], [177.6, -38.5], [178.0, -37.6],
+      [178.6, -37.2], [179.6, -37.6], [179.0, -39.5], [178.0, -41.0], [176.5, -42.3], [175.3, -42.9],
+    ],
+    slab: [
+      [172.5, -42.8], [174.0, -41.0], [174.6, -39.5], [175.3, -38.0], [176.0, -37.0], [177.8, -37.0],
+      [178.0, -37.6], [177.6, -38.5], [177.0, -39.3], [176.4, -40.1], [175.6, -41.2], [174.6, -42.2], [173.8, -43.0],
+    ],
+  },
+  {
+    name: 'Kermadec subduction margin',
+    kind: 'subduction',
+    model: 'sz',
+    crustalModel: 'nz',
+    polygon: [[177.8, -37.0], [178.8, -33.0], [180.5, -28.0], [184.0, -28.0], [182.5, -33.0], [180.5, -37.4]],
+  },
+  {
+    name: 'Puysegur subduction margin',
+    kind: 'subduction',
+    model: 'sz',
+    crustalModel: 'nz',
+    polygon: [[166.0, -45.0], [167.4, -45.6], [166.6, -47.5], [165.3, -50.5], [163.6, -50.5], [164.4, -47.0]],
+    slab: [[166.0, -45.0], [167.0, -44.3], [168.3, -44.9], [168.0, -46.3], [166.6, -47.5], [167.4, -45.6]],
+  },
+  {
+    name: 'New Zealand active crust',
+    kind: 'active',
+    model: 'nz',
+    polygon: [
+      [166.0, -47.8], [172.0, -48.0], [176.0, -44.5], [179.0, -41.5], [179.5, -37.0],
+      [178.0, -35.5], [173.0, -33.8], [171.5, -34.0], [168.0, -40.0], [165.5, -44.0],
+    ],
+  },
+  {
+    name: 'California active crust',
+    kind: 'active',
+    model: 'california',
+    polygon: [
+      [235.0, 42.0], [240.0, 42.0], [240.0, 39.0], [245.4, 35.0],
+      [245.4, 32.5], [242.8, 32.5], [236.5, 34.3], [234.5, 40.0],
+    ],
+  },
+  {
+    name: 'Australian stable continent',
+    kind: 'stable',
+    model: 'scr',
+    polygon: [
+      [113.0, -22.0], [121.0, -13.5], [130.0, -11.0], [137.0, -12.0], [142.0, -10.5], [146.0, -18.0],
+      [153.7, -28.0], [150.5, -37.5], [141.0, -38.5], [131.0, -32.0], [115.0, -35.0],
+    ],
+  },
+  {
+    name: 'Central and eastern North American stable continent',
+    kind: 'stable',
+    model: 'scr',
+    polygon: [[255.0, 30.0], [278.0, 25.0], [290.0, 42.0], [300.0, 50.0], [280.0, 60.0], [255.0, 55.0]],
+  },
+];
+
+/** Ray-casting point-in-polygon test, longitudes already in [0, 360) */
+function inPolygon(lon: number, lat: number, polygon: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** First bundled region containing the epicentre, or null */
+export function findTectonicRegion(latitude: number, longitude: number): TectonicRegion | null {
+  const lon = ((longitude % 360) + 360) % 360;
+  return TECTONIC_REGIONS.find(region => inPolygon(lon, latitude, region.polygon)) ?? null;
+}
+
+/** Subduction region whose margin or slab footprint contains the epicentre, or null */
+function findSlabRegion(latitude: number, longitude: number): TectonicRegion | null {
+  const lon = ((longitude % 360) + 360) % 360;
+  return TECTONIC_REGIONS.find(region =>
+    region.kind === 'subduction' &&
+    (inPolygon(lon, latitude, region.polygon) || (region.slab !== undefined && inPolygon(lon, latitude, region.slab)))
+  ) ?? null;
+}
+
+/**
+ * Suggested preset for an earthquake, with the reason, or null when no
+ * bundled region covers the epicentre
+ *
+ * @param depthKm - Hypocentre depth; unknown depths skip the depth rules
+ */
+export function suggestModelType(latitude: number, longitude: number, depthKm?: number): RegimeSuggestion | null {
+  const region = findTectonicRegion(latitude, longitude);
+  const hasDepth = depthKm !== undefined && Number.isFinite(depthKm);
+
+  if (hasDepth && depthKm >= INTRASLAB_DEPTH_KM) {
+    const slab = findSlabRegion(latitude, longitude);
+    if (slab) {
+      return {
+        model: slab.model,
+        region: slab.name,
+        reason: `At ${Math.round(depthKm)} km depth the event lies within the subducting slab of the ${slab.name}.`,
+      };
+    }
+  }
+  if (!region) return null;
+
+  if (region.kind === 'subduction') {
+    if (hasDepth && depthKm < INTERFACE_DEPTH_KM && region.crustalModel) {
+      return {
+        model: region.crustalModel,
+        region: region.name,
+        reason: `Within the ${region.name}, but at ${Math.round(depthKm)} km depth the event is in the overlying crust.`,
+      };
+    }
+    return {
+      model: region.model,
+      region: region.name,
+      reason: hasDepth
+        ? `Within the ${region.name} at ${Math.round(depthKm)} km depth, on or near the plate interface.`
+        : `Within the ${region.name}; the depth is unknown, so an interface event is assumed.`,
+    };
+  }
+  return {
+    model: region.model,
+    region: region.name,
+    reason: region.kind === 'stable'
+      ? `Within the ${region.name}, away from active plate boundaries.`
+      : !hasDepth
+        ? `Within the ${region.name}.`
+        : depthKm >= INTRASLAB_DEPTH_KM
+          ? `Within the ${region.name} at ${Math.round(depthKm)} km depth, outside the slab outlines bundled with the app.`
+          : `Within the ${region.name}, at ${Math.round(depthKm)} km depth in the crust.`,
+  };
+}
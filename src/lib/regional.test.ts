@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { fitGenericParameters, pooledSequence, roundedGenericParams, type PooledSequence } from './regional';
+import { simulateCatalogues } from './simulation';
+import { testResults } from './testResults';
+import type { ModelParameters } from '@/types';
+import type { ObservedEvent } from './evaluation';
+
+const DAY = 86_400_000;
+const truth: ModelParameters = { a: -1.8, b: 1, c: 0.05, p: 1.1 };
+
+/** One simulated sequence of M >= 3 aftershocks over 60 days */
+function simulatedSequence(quakeId: string, magnitude: number, seed: number): PooledSequence {
+  const results = testResults(magnitude, [3], truth, { quakeId, rangeStartDays: 0 });
+  const [catalogue] = simulateCatalogues(results, { count: 1, seed, window: { start: 0, end: 60 } });
+  return {
+    quakeId,
+    mainshockMagnitude: magnitude,
+    times: catalogue.map(e => e.timeDays),
+    magnitudes: catalogue.map(e => e.magnitude),
+    tEnd: 60,
+  };
+}
+
+describe('fitGenericParameters', () => {
+  it('recovers the parameters the sequences were simulated from', () => {
+    const sequences = [simulatedSequence('a', 6, 1), simulatedSequence('b', 6.5, 2), simulatedSequence('c', 7, 3)];
+    const fit = fitGenericParameters(sequences, 3, 0);
+    expect(fit.sequenceCount).toBe(3);
+    expect(fit.eventCount).toBe(sequences.reduce((n, s) => n + s.times.length, 0));
+    for (const key of ['a', 'b', 'p'] as const) {
+      expect(Number.isFinite(fit.se[key])).toBe(true);
+      expect(Math.abs(fit.params[key] - truth[key])).toBeLessThan(3 * fit.se[key]);
+    }
+    expect(fit.params.c / truth.c).toBeGreaterThan(0.3);
+    expect(fit.params.c / truth.c).toBeLessThan(3);
+    expect(roundedGenericParams(fit).b).toBe(Number(fit.params.b.toFixed(3)));
+  });
+
+  it('refuses too few events or no usable window', () => {
+    const few: PooledSequence = { quakeId: 'x', mainshockMagnitude: 6, times: [1, 2, 3], magnitudes: [3, 3.4, 4], tEnd: 10 };
+    expect(() => fitGenericParameters([few], 3, 0)).toThrow(/at least 10/);
+    expect(() => fitGenericParameters([few], 3, 20)).toThrow(/No sequence/);
+  });
+});
+
+describe('pooledSequence', () => {
+  it('keeps the aftershocks in the region, window and magnitude range', () => {
+    const mainshock = { quakeId: 'main', magnitude: 6, timeMs: Date.parse('2024-01-01T00:00:00Z'), latitude: -42, longitude: 173 };
+    const event = (publicId: string, days: number, magnitude: number, latitude = -42): ObservedEvent => ({
+      publicId, timeMs: mainshock.timeMs + days * DAY, magnitude, latitude, longitude: 173, depthKm: 10,
+    });
+    const sequence = pooledSequence(mainshock, [
+      event('main', 0, 6), event('late', 12, 4), event('small', 2, 2.9), event('b', 3, 3.4), event('far', 2, 4, -40), event('a', 1, 3),
+    ], 3, 0, 10, 1);
+    expect(sequence.times).toEqual([1, 3]);
+    expect(sequence.magnitudes).toEqual([3, 3.4]);
+    expect(sequence).toMatchObject({ quakeId: 'main', mainshockMagnitude: 6, tEnd: 10 });
+  });
+});
@@ -0,0 +1,234 @@
+// Generic Reasenberg–Jones parameters from many sequences
+//
+// Re-derives a, b, c and p jointly from several past aftershock sequences,
+// the way generic (regional) parameters are calibrated (Reasenberg & Jones
+// 1989; Page et al. 2016), so a preset can be audited or replaced.
+//
+// Documented assumptions:
+// - The aftershocks of sequence j with M >= Mc in (tStart, tEnd_j] days form
+//   a Poisson process with rate density in time and magnitude
+//     λ_j(t, m) = b·ln10 · 10^(a + b(M_j − m)) · (t + c)^−p,
+//   the same rate as the forecasts, so
+//     log L = Σ ln λ_j(t_i, m_i) − Σ_j 10^(a + b(M_j − Mc′))·∫(t + c)^−p dt
+//   with Mc′ = Mc − 0.05, the bin-edge correction used throughout.
+// - a has a closed-form maximum for given b, c and p, so only the profile
+//   likelihood in (b, log10 c, p) is searched: a coarse grid, then a
+//   Nelder–Mead refinement.
+// - Every event in a sequence's region and window counts as its aftershock;
+//   background seismicity and overlapping sequences are not separated.
+// - A sequence still running ends its window now.
+// - Standard errors come from the inverse of the observed information in
+//   (a, b, c, p), by central differences, as for the single-sequence fit;
+//   NaN when the maximum sits on a search bound or the curvature is not
+//   well defined.
+
+import type { ModelParameters } from '@/types';
+import { calculateOmoriIntegral } from './calculations';
+import { isInRegion, type ObservedEvent } from './evaluation';
+import { LOG10_C_BOUNDS, MIN_FIT_EVENTS, P_BOUNDS, nelderMead } from './fitting';
+import { batchRegion, type BatchMainshock } from './batch';
+
+/** Search bounds for the pooled b-value */
+const B_BOUNDS = { min: 0.5, max: 2 } as const;
+
+const MS_PER_DAY = 86_400_000;
+
+/** One sequence's aftershocks, ready for the pooled fit */
+export interface PooledSequence {
+  quakeId: string;
+  mainshockMagnitude: number;
+  /** Days after the mainshock */
+  times: number[];
+  magnitudes: number[];
+  /** End of this sequence's window, days after the mainshock */
+  tEnd: number;
+}
+
+export interface GenericFit {
+  params: ModelParameters;
+  /** Standard errors (NaN when not defined) */
+  se: { a: number; b: number; c: number; p: number };
+  logLikelihood: number;
+  eventCount: number;
+  sequenceCount: number;
+  mc: number;
+  tStart: number;
+}
+
+/**
+ * The aftershocks of one sequence with M >= mc in (tStart, tEnd] days after
+ * the mainshock, within k × rupture length of its epicentre
+ */
+export function pooledSequence(
+  mainshock: BatchMainshock,
+  catalog: ObservedEvent[],
+  mc: number,
+  tStart: number,
+  tEnd: number,
+  multiplier: number
+): PooledSequence {
+  const region = batchRegion(mainshock, multiplier);
+  const events = catalog
+    .filter(e => e.publicId !== mainshock.quakeId && e.magnitude >= mc && isInRegion(region, e.latitude, e.longitude))
+    .map(e => ({ t: (e.timeMs - mainshock.timeMs) / MS_PER_DAY, m: e.magnitude }))
+    .filter(e => e.t > tStart && e.t <= tEnd)
+    .sort((x, y) => x.t - y.t);
+  return {
+    quakeId: mainshock.quakeId,
+    mainshockMagnitude: mainshock.magnitude,
+    times: events.map(e => e.t),
+    magnitudes: events.map(e => e.m),
+    tEnd,
+  };
+}
+
+/** Sums over the events that the likelihood needs, computed once */
+interface PooledData {
+  sequences: PooledSequence[];
+  times: number[];
+  count: number;
+  /** Σ (M_j − m_i) over every event */
+  magnitudeSum: number;
+  /** Lower edge of the lowest magnitude bin */
+  mcEdge: number;
+  tStart: number;
+}
+
+/** Σ_j 10^(b(M_j − Mc′))·∫(t + c)^−p dt: the expected number over 10^a */
+function exposure(b: number, c: number, p: number, data: PooledData): number {
+  return data.sequences.reduce((sum, s) =>
+    sum + Math.pow(10, b * (s.mainshockMagnitude - data.mcEdge)) * calculateOmoriIntegral(data.tStart, s.tEnd, c, p), 0);
+}
+
+/** Pooled log L at (a, b, c, p) */
+function logLikelihood(a: number, b: number, c: number, p: number, data: PooledData): number {
+  let sumLog = 0;
+  for (const t of data.times) sumLog += Math.log(t + c);
+  return data.count * (a * Math.LN10 + Math.log(b * Math.LN10)) + b * Math.LN10 * data.magnitudeSum
+    - p * sumLog - Math.pow(10, a) * exposure(b, c, p, data);
+}
+
+/** a at its conditional maximum for given b, c and p */
+function profiledA(b: number, c: number, p: number, data: PooledData): number {
+  return Math.log10(data.count / exposure(b, c, p, data));
+}
+
+/** Profile log-likelihood in (b, log10 c, p), with a at its conditional maximum */
+function profileLogLikelihood(b: number, log10c: number, p: number, data: PooledData): number {
+  if (b < B_BOUNDS.min || b > B_BOUNDS.max || log10c < LOG10_C_BOUNDS.min || log10c > LOG10_C_BOUNDS.max ||
+      p < P_BOUNDS.min || p > P_BOUNDS.max) {
+    return -Infinity;
+  }
+  const c = Math.pow(10, log10c);
+  return logLikelihood(profiledA(b, c, p, data), b, c, p, data);
+}
+
+/** Inverse of a square matrix by Gauss–Jordan elimination, or null if singular */
+function invert(m: number[][]): number[][] | null {
+  const n = m.length;
+  const rows = m.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    const pivot = rows.slice(col).reduce((best, row, k) =>
+      (Math.abs(row[col]) > Math.abs(rows[best][col]) ? col + k : best), col);
+    if (!Number.isFinite(rows[pivot][col]) || rows[pivot][col] === 0) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    const scale = rows[col][col];
+    rows[col] = rows[col].map(v => v / scale);
+    rows.forEach((row, r) => {
+      if (r === col) return;
+      const factor = row[col];
+      rows[r] = row.map((v, j) => v - factor * rows[col][j]);
+    });
+  }
+  return rows.map(row => row.slice(n));
+}
+
+/** Standard errors of (a, b, c, p) from the observed information at the maximum */
+function standardErrors(theta: number[], data: PooledData): number[] {
+  const f = (x: number[]) => logLikelihood(x[0], x[1], x[2], x[3], data);
+  const h = theta.map(x => Math.max(1e-4 * Math.abs(x), 1e-7));
+  const shifted = (di: number, si: number, dj: number, sj: number) => {
+    const x = [...theta];
+    x[di] += si * h[di];
+    x[dj] += sj * h[dj];
+    return f(x);
+  };
+  const indices = theta.map((_, i) => i);
+  const hessian = indices.map(i => indices.map(j =>
+    (shifted(i, 1, j, 1) - shifted(i, 1, j, -1) - shifted(i, -1, j, 1) + shifted(i, -1, j, -1)) / (4 * h[i] * h[j])
+  ));
+  const covariance = invert(hessian.map(row => row.map(v => -v)));
+  return indices.map(k => {
+    const variance = covariance?.[k][k];
+    return variance !== undefined && variance > 0 ? Math.sqrt(variance) : NaN;
+  });
+}
+
+/**
+ * Maximum-likelihood generic a, b, c and p pooled over the aftershocks of
+ * several sequences with M >= mc, from tStart days after each mainshock
+ *
+ * @throws {Error} If no sequence has a window after tStart, or fewer than MIN_FIT_EVENTS events in all
+ */
+export function fitGenericParameters(sequences: PooledSequence[], mc: number, tStart: number): GenericFit {
+  const usable = sequences.filter(s => s.tEnd > tStart);
+  if (usable.length === 0) {
+    throw new Error('No sequence has a fitting window after the start time');
+  }
+  const count = usable.reduce((sum, s) => sum + s.times.length, 0);
+  if (count < MIN_FIT_EVENTS) {
+    throw new Error(`Only ${count} events with M ≥ ${mc} across the sequences; at least ${MIN_FIT_EVENTS} are needed`);
+  }
+  const data: PooledData = {
+    sequences: usable,
+    times: usable.flatMap(s => s.times),
+    count,
+    magnitudeSum: usable.reduce((sum, s) => sum + s.magnitudes.reduce((ms, m) => ms + s.mainshockMagnitude - m, 0), 0),
+    mcEdge: mc - 0.05,
+    tStart,
+  };
+
+  // Coarse grid for a starting point, then refine
+  let start = [1, 0, 1];
+  let bestValue = -Infinity;
+  for (let b = B_BOUNDS.min; b <= B_BOUNDS.max; b += 0.1) {
+    for (let log10c = LOG10_C_BOUNDS.min; log10c <= LOG10_C_BOUNDS.max; log10c += 0.5) {
+      for (let p = P_BOUNDS.min; p <= P_BOUNDS.max; p += 0.2) {
+        const value = profileLogLikelihood(b, log10c, p, data);
+        if (value > bestValue) {
+          bestValue = value;
+          start = [b, log10c, p];
+        }
+      }
+    }
+  }
+  const [b, log10c, p] = nelderMead(x => profileLogLikelihood(x[0], x[1], x[2], data), start, [0.05, 0.2, 0.05], 400);
+  const c = Math.pow(10, log10c);
+  const a = profiledA(b, c, p, data);
+
+  const onBound = b - B_BOUNDS.min < 1e-3 || B_BOUNDS.max - b < 1e-3 ||
+    log10c - LOG10_C_BOUNDS.min < 1e-3 || LOG10_C_BOUNDS.max - log10c < 1e-3 ||
+    p - P_BOUNDS.min < 1e-3 || P_BOUNDS.max - p < 1e-3;
+  const [seA, seB, seC, seP] = onBound ? [NaN, NaN, NaN, NaN] : standardErrors([a, b, c, p], data);
+
+  return {
+    params: { a, b, c, p },
+    se: { a: seA, b: seB, c: seC, p: seP },
+    logLikelihood: logLikelihood(a, b, c, p, data),
+    eventCount: count,
+    sequenceCount: usable.length,
+    mc,
+    tStart,
+  };
+}
+
+/** A fit's parameters rounded for display and for saving as a preset */
+export function roundedGenericParams(fit: GenericFit): ModelParameters {
+  const { a, b, c, p } = fit.params;
+  return {
+    a: Number(a.toFixed(3)),
+    b: Number(b.toFixed(3)),
+    c: Number(c.toPrecision(3)),
+    p: Number(p.toFixed(3)),
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { calculateScenario, scenarioLabel, validateScenarioEvent } from './scenario';
+import { calculateLargestAftershock, calculateWindowForecast } from './calculations';
+import { ensembleComponents } from './ensemble';
+import { calculateEtasWindowForecast } from './etas';
+import { testResults } from './testResults';
+import { ETAS_DEFAULTS, MODEL_PRESETS, type CalculationResults } from '@/types';
+
+const params = MODEL_PRESETS.nz;
+const thresholds = [3, 5];
+const windows = [{ start: 0, end: 1 }, { start: 1, end: 2 }, { start: 0, end: 7 }];
+const results = testResults(7, thresholds, params, {
+  forecasts: windows.map(w => calculateWindowForecast(w, 7, thresholds, 0.5, params)),
+  largestAftershock: windows.map(w => calculateLargestAftershock(w, 7, 0.5, params)),
+  rangeStartDays: 0.5,
+});
+// An M6.5 one day after the forecast start
+const event = { magnitude: 6.5, timeDays: 1.5 };
+const expected = (r: CalculationResults, window: number, bin: number) => parseFloat(r.forecasts[window].bins[bin].averageNumber);
+
+describe('what-if scenarios', () => {
+  it('adds the hypothetical event only from its own time on', () => {
+    const scenario = calculateScenario(results, event);
+    expect(scenario.scenario).toEqual(event);
+    expect(scenario.additionalSources).toEqual([event]);
+    expect(scenario.forecasts[0]).toEqual(results.forecasts[0]);
+    expect(scenario.forecasts[1]).toEqual(calculateWindowForecast(windows[1], 7, thresholds, 0.5, params, undefined, [event]));
+    expect(expected(scenario, 1, 0)).toBeGreaterThan(expected(results, 1, 0));
+    expect(scenario.largestAftershock[2].probabilityAtLeastMainshock)
+      .toBeGreaterThan(results.largestAftershock[2].probabilityAtLeastMainshock);
+    expect(results.scenario).toBeUndefined();
+  });
+
+  it('keeps the baseline model: ETAS and ensembles', () => {
+    const etas = calculateScenario({ ...results, etasParams: ETAS_DEFAULTS }, event);
+    expect(etas.forecasts[1]).toEqual(calculateEtasWindowForecast(windows[1], 7, thresholds, 0.5, ETAS_DEFAULTS, [event]));
+    const ensemble = ensembleComponents([{ model: 'nz', weight: 1 }, { model: 'scr', weight: 1 }]);
+    const base = { ...results, ensemble };
+    expect(calculateScenario(base, event).largestAftershock[1].members).toHaveLength(2);
+  });
+
+  it('is labelled as hypothetical', () => {
+    expect(scenarioLabel(calculateScenario(results, event))).toBe('Hypothetical M6.5, 1 day after the forecast start');
+    expect(scenarioLabel(results)).toBe('');
+  });
+
+  it('requires the event to fall within the forecast period', () => {
+    expect(validateScenarioEvent(event, results)).toEqual([]);
+    expect(validateScenarioEvent({ magnitude: 6.5, timeDays: 0.2 }, results)).toHaveLength(1);
+    expect(validateScenarioEvent({ magnitude: 6.5, timeDays: 7.5 }, results)).toHaveLength(1);
+    expect(validateScenarioEvent({ magnitude: NaN, timeDays: 1 }, results)).toHaveLength(1);
+    expect(() => calculateScenario(results, { magnitude: 6.5, timeDays: 0 })).toThrow();
+  });
+});
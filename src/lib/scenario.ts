@@ -0,0 +1,74 @@
+// What-if scenarios
+//
+// "How would the forecast change if an M6.5 struck tomorrow?" A scenario
+// adds a hypothetical event to a forecast's source events and recomputes
+// every window with the same model, so it can be shown beside the real
+// forecast.
+//
+// Documented assumptions:
+// - The hypothetical event contributes its own aftershocks (its
+//   Omori–Gutenberg–Richter sequence, or its cascade under ETAS) exactly
+//   like an additional source event; the event itself is not counted.
+// - Everything else (model, uncertainty, incompleteness) is the baseline's.
+
+import type { CalculationResults, ForecastWindow, LargestAftershockForecast, SourceEvent } from '@/types';
+import { calculateLargestAftershock } from './calculations';
+import { calculateEnsembleLargestAftershock } from './ensemble';
+import { calculateEtasLargestAftershock } from './etas';
+import { forecastForWindow } from './timeline';
+
+/**
+ * Problems with a hypothetical event, as user-facing messages (empty when
+ * it is usable). It must fall within the forecast period.
+ */
+export function validateScenarioEvent(event: SourceEvent, results: CalculationResults): string[] {
+  const errors: string[] = [];
+  if (!Number.isFinite(event.magnitude) || event.magnitude <= 0 || event.magnitude > 10) {
+    errors.push('Hypothetical magnitude must be between 0 and 10');
+  }
+  const end = results.rangeStartDays + Math.max(...results.forecasts.map(f => f.window.end));
+  if (!Number.isFinite(event.timeDays) || event.timeDays < results.rangeStartDays || event.timeDays >= end) {
+    errors.push('Hypothetical event must occur within the forecast period');
+  }
+  return errors;
+}
+
+/** Largest-aftershock distribution for any window of a results snapshot */
+function largestAftershockForWindow(results: CalculationResults, window: ForecastWindow): LargestAftershockForecast {
+  const { mainshockMagnitude: mag, rangeStartDays, parameterUncertainty } = results;
+  const sources = results.additionalSources ?? [];
+  return results.ensemble
+    ? calculateEnsembleLargestAftershock(window, mag, rangeStartDays, results.ensemble, parameterUncertainty, sources)
+    : results.etasParams
+      ? calculateEtasLargestAftershock(window, mag, rangeStartDays, results.etasParams, sources)
+      : calculateLargestAftershock(window, mag, rangeStartDays, results.modelParams, parameterUncertainty, sources);
+}
+
+/**
+ * The forecast with a hypothetical event added, in the same windows
+ *
+ * @throws {Error} If the event is invalid (see validateScenarioEvent)
+ */
+export function calculateScenario(results: CalculationResults, event: SourceEvent): CalculationResults {
+  const errors = validateScenarioEvent(event, results);
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+  const scenario: CalculationResults = {
+    ...results,
+    additionalSources: [...(results.additionalSources ?? []), event],
+    scenario: event,
+  };
+  return {
+    ...scenario,
+    forecasts: results.forecasts.map(f => forecastForWindow(scenario, f.window)),
+    largestAftershock: results.largestAftershock.map(l => largestAftershockForWindow(scenario, l.window)),
+  };
+}
+
+/** "Hypothetical M6.5, 1 day after the forecast start" */
+export function scenarioLabel(results: CalculationResults): string {
+  if (!results.scenario) return '';
+  const days = Number((results.scenario.timeDays - results.rangeStartDays).toPrecision(3));
+  return `Hypothetical M${results.scenario.magnitude}, ${days} ${days === 1 ? 'day' : 'days'} after the forecast start`;
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { createRandom, cumulativeCounts, simulateCatalogues, type SyntheticEvent } from './simulation';
+import { ensembleComponents, ensembleCount } from './ensemble';
+import { etasExpectedAftershocks, etasFirstGenerationParams } from './etas';
+import { expectedCountForBin } from './evaluation';
+import { testResults } from './testResults';
+import { ETAS_DEFAULTS, MODEL_PRESETS } from '@/types';
+
+const results = testResults(6, [3, 4]);
+
+const window = { start: 0, end: 30 };
+
+function meanCount(catalogues: SyntheticEvent[][]): number {
+  return catalogues.reduce((sum, events) => sum + events.length, 0) / catalogues.length;
+}
+
+describe('synthetic catalogues', () => {
+  it('repeats exactly for the same seed', () => {
+    const first = simulateCatalogues(results, { count: 3, seed: 42, window });
+    expect(simulateCatalogues(results, { count: 3, seed: 42, window })).toEqual(first);
+    expect(simulateCatalogues(results, { count: 3, seed: 43, window })).not.toEqual(first);
+    expect(createRandom(7)()).toBe(createRandom(7)());
+  });
+
+  it('keeps events inside the window and at or above the threshold', () => {
+    for (const events of simulateCatalogues(results, { count: 20, seed: 1, window })) {
+      for (const event of events) {
+        expect(event.timeDays).toBeGreaterThanOrEqual(1);
+        expect(event.timeDays).toBeLessThanOrEqual(31);
+        expect(event.magnitude).toBeGreaterThanOrEqual(3);
+        expect(Math.round(event.magnitude * 10)).toBe(event.magnitude * 10);
+      }
+      expect(events.map(e => e.timeDays)).toEqual([...events.map(e => e.timeDays)].sort((x, y) => x - y));
+    }
+  });
+
+  it('averages the Reasenberg–Jones expected count', () => {
+    const expected = expectedCountForBin(results.modelParams, 6, { minMag: 3, maxMag: null }, 1, 31);
+    const mean = meanCount(simulateCatalogues(results, { count: 400, seed: 2, window }));
+    expect(mean / expected).toBeCloseTo(1, 1);
+  });
+
+  it('averages the ensemble expected count', () => {
+    const ensemble = ensembleComponents([{ model: 'nz', weight: 1 }, { model: 'scr', weight: 1 }]);
+    const expected = ensembleCount(ensemble, 6, { minMag: 3, maxMag: null }, 1, 31).expected;
+    const mean = meanCount(simulateCatalogues({ ...results, ensemble }, { count: 400, seed: 3, window }));
+    expect(mean / expected).toBeCloseTo(1, 1);
+  });
+
+  it('respects a truncated maximum magnitude', () => {
+    const capped = { ...results, modelParams: { ...MODEL_PRESETS.nz, maxMagnitude: { kind: 'truncated' as const, magnitude: 4.2 } } };
+    const events = simulateCatalogues(capped, { count: 20, seed: 4, window }).flat();
+    expect(events.length).toBeGreaterThan(0);
+    expect(Math.max(...events.map(e => e.magnitude))).toBeLessThanOrEqual(4.2);
+  });
+
+  it('averages the ETAS expected count, secondary aftershocks included', () => {
+    // alpha well below b/2, so the mean is not dominated by rare large aftershocks
+    const params = { ...ETAS_DEFAULTS, K: 0.03, alpha: 0.3 };
+    const etas = { ...results, etasParams: params };
+    const bin = { minMag: 3.5, maxMag: null };
+    const expected = etasExpectedAftershocks(params, 6, 3.5, 1, 31);
+    expect(expected).toBeGreaterThan(1.5 * expectedCountForBin(etasFirstGenerationParams(params, 6), 6, bin, 1, 31));
+    const mean = meanCount(simulateCatalogues(etas, { count: 2000, seed: 5, window, minMagnitude: 3.5 }));
+    expect(mean / expected).toBeCloseTo(1, 1);
+  });
+
+  it('extrapolates ETAS events below mRef as the forecast does', () => {
+    const params = { ...ETAS_DEFAULTS, K: 0.03, alpha: 0.4, mRef: 4 };
+    const etas = { ...results, etasParams: params };
+    // At mRef itself (the 0.05 bin edge) and a unit below it
+    for (const minMag of [4, 3]) {
+      const expected = etasExpectedAftershocks(params, 6, minMag, 1, 31);
+      const counts = simulateCatalogues(etas, { count: 1000, seed: 8, window, minMagnitude: minMag }).map(e => e.length);
+      const mean = counts.reduce((s, n) => s + n, 0) / counts.length;
+      const variance = counts.reduce((s, n) => s + (n - mean) ** 2, 0) / (counts.length - 1);
+      expect(Math.abs(mean - expected)).toBeLessThan(4 * Math.sqrt(variance / counts.length));
+    }
+  });
+
+  it('rejects an empty window or catalogue count', () => {
+    expect(() => simulateCatalogues(results, { count: 0, seed: 1, window })).toThrow();
+    expect(() => simulateCatalogues(results, { count: 1, seed: 1, window: { start: 5, end: 5 } })).toThrow();
+  });
+
+  it('counts events cumulatively above a magnitude', () => {
+    const events = [{ timeDays: 1, magnitude: 3.2 }, { timeDays: 2, magnitude: 4.5 }, { timeDays: 5, magnitude: 4.1 }];
+    expect(cumulativeCounts(events, 4, [0, 2, 3, 10])).toEqual([0, 1, 1, 2]);
+  });
+});
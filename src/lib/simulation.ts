@@ -0,0 +1,260 @@
+// Monte Carlo synthetic aftershock catalogues
+//
+// Draws event lists (origin times and magnitudes) from the model behind a
+// CalculationResults snapshot, reproducibly from a seed. Synthetic
+// catalogues show what a typical sequence might look like and are the basis
+// for simulation-based forecast tests.
+//
+// Documented assumptions:
+// - Reasenberg–Jones: each catalogue first draws the sequence's parameters
+//   from the forecast's predictive distribution (an ensemble member by
+//   weight, a and p from their normal spread, a candidate mainshock
+//   magnitude by weight), then a Poisson number of events. Each event comes
+//   from the mainshock or an additional source in proportion to its
+//   expected count, at a time drawn from that source's temporal kernel.
+// - ETAS: the cascade is simulated generation by generation from the
+//   mainshock and the additional sources (taken as given, as in the
+//   forecast), every event of M >= mRef triggering its own aftershocks, so
+//   secondary sequences cluster as they would in nature. Events before the
+//   window still trigger within it.
+// - Magnitudes are continuous Gutenberg–Richter draws (with any maximum
+//   magnitude) reported to one decimal place, so an event counts towards a
+//   threshold M when its true magnitude is at least M − 0.05, the same
+//   bin-edge correction as the forecasts.
+
+import type { CalculationResults, EtasParameters, ForecastWindow, ModelParameters, SourceEvent } from '@/types';
+import {
+  calculateExpectedAftershocks,
+  calculateOmoriIntegral,
+  combinedOmoriIntegral,
+  grSurvivalFactor,
+  temporalKernelIntegral,
+} from './calculations';
+
+/** Most events an ETAS catalogue may hold before the simulation gives up */
+export const MAX_SIMULATED_EVENTS = 200000;
+
+export interface SyntheticEvent {
+  /** Days after the mainshock */
+  timeDays: number;
+  /** Magnitude to one decimal place */
+  magnitude: number;
+}
+
+export interface SimulationOptions {
+  /** Number of catalogues */
+  count: number;
+  seed: number;
+  /** Days after the forecast start, as for the forecast windows */
+  window: ForecastWindow;
+  /** Smallest reported magnitude; the lowest forecast threshold when absent */
+  minMagnitude?: number;
+}
+
+/**
+ * Seeded uniform random numbers in [0, 1) (mulberry32), so the same seed
+ * always gives the same catalogues
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal draw (Box–Muller) */
+function normal(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+/** Poisson draw by inversion, in pieces of mean at most 500 so e^-λ never underflows */
+function poisson(lambda: number, random: () => number): number {
+  let n = 0;
+  for (let remaining = lambda; remaining > 0; remaining -= 500) {
+    const piece = Math.min(remaining, 500);
+    let k = 0;
+    let p = Math.exp(-piece);
+    let cumulative = p;
+    const u = random();
+    while (u > cumulative && p > 0) {
+      k++;
+      p *= piece / k;
+      cumulative += p;
+    }
+    n += k;
+  }
+  return n;
+}
+
+/** Index drawn with probability proportional to its weight */
+function pick(weights: number[], random: () => number): number {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let u = random() * total;
+  for (let i = 0; i < weights.length; i++) {
+    u -= weights[i];
+    if (u < 0) return i;
+  }
+  return weights.length - 1;
+}
+
+/** x in [lo, hi] where the increasing function f reaches target, by bisection */
+function invert(f: (x: number) => number, target: number, lo: number, hi: number): number {
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (f(mid) < target) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Continuous Gutenberg–Richter magnitude at or above m0 with slope b, and
+ * any maximum magnitude of the model
+ */
+function drawMagnitude(m0: number, b: number, random: () => number, params?: ModelParameters): number {
+  const u = 1 - random();
+  if (!params?.maxMagnitude) return m0 - Math.log10(u) / b;
+  // Survival relative to m0; grSurvivalFactor takes the reported threshold
+  const cap = params.maxMagnitude;
+  const base = grSurvivalFactor(m0 + 0.05, b, cap);
+  const survival = (m: number) => Math.pow(10, -b * (m - m0)) * grSurvivalFactor(m + 0.05, b, cap) / base;
+  return invert(m => 1 - survival(m), 1 - u, m0, m0 + 20);
+}
+
+/** To one decimal place, as catalogues report magnitudes */
+function reported(magnitude: number): number {
+  return Math.round(magnitude * 10) / 10;
+}
+
+/** One Reasenberg–Jones catalogue over [tStart, tEnd] days after the mainshock */
+function simulateReasenbergJones(
+  params: ModelParameters,
+  mainMag: number,
+  sources: SourceEvent[],
+  tStart: number,
+  tEnd: number,
+  minMag: number,
+  random: () => number
+): SyntheticEvent[] {
+  const integral = combinedOmoriIntegral(tStart, tEnd, params, mainMag, sources);
+  const expected = calculateExpectedAftershocks(params.a, params.b, mainMag, minMag, integral, params.maxMagnitude);
+  const n = poisson(expected, random);
+
+  // Each source's share of the events, and the span of its own kernel in the window
+  const terms = [{ magnitude: mainMag, timeDays: 0 }, ...sources].map(source => {
+    const from = Math.max(tStart, source.timeDays) - source.timeDays;
+    const to = tEnd - source.timeDays;
+    const kernel = to > from ? temporalKernelIntegral(from, to, params) : 0;
+    return { at: source.timeDays, from, to, kernel, weight: Math.pow(10, params.b * (source.magnitude - mainMag)) * kernel };
+  });
+  const weights = terms.map(term => term.weight);
+
+  const events: SyntheticEvent[] = [];
+  for (let i = 0; i < n; i++) {
+    const { at, from, to, kernel } = terms[pick(weights, random)];
+    const u = invert(x => temporalKernelIntegral(from, x, params), random() * kernel, from, to);
+    events.push({ timeDays: at + u, magnitude: reported(drawMagnitude(minMag - 0.05, params.b, random, params)) });
+  }
+  return events.sort((x, y) => x.timeDays - y.timeDays);
+}
+
+/** One ETAS catalogue over [tStart, tEnd] days after the mainshock */
+function simulateEtas(
+  params: EtasParameters,
+  mainMag: number,
+  sources: SourceEvent[],
+  tStart: number,
+  tEnd: number,
+  minMag: number,
+  random: () => number
+): SyntheticEvent[] {
+  const { K, alpha, c, p, b, mRef } = params;
+  // Children are drawn down to the threshold's bin edge, extrapolated below
+  // mRef as the forecast is; only those at or above mRef trigger their own
+  const m0 = Math.min(mRef, minMag - 0.05);
+  const belowRef = Math.pow(10, b * (mRef - m0));
+  const parents: { timeDays: number; magnitude: number }[] = [{ timeDays: 0, magnitude: mainMag }, ...sources];
+  const events: SyntheticEvent[] = [];
+  let simulated = 0;
+  while (parents.length > 0) {
+    const parent = parents.pop()!;
+    const span = tEnd - parent.timeDays;
+    if (span <= 0) continue;
+    const total = calculateOmoriIntegral(0, span, c, p);
+    const n = poisson(K * Math.pow(10, alpha * (parent.magnitude - mRef)) * belowRef * total, random);
+    simulated += n;
+    if (simulated > MAX_SIMULATED_EVENTS) {
+      throw new Error(`ETAS simulation exceeded ${MAX_SIMULATED_EVENTS} events; reduce K or alpha, or shorten the window`);
+    }
+    for (let i = 0; i < n; i++) {
+      const u = invert(x => calculateOmoriIntegral(0, x, c, p), random() * total, 0, span);
+      const child = { timeDays: parent.timeDays + u, magnitude: drawMagnitude(m0, b, random) };
+      if (child.magnitude >= mRef) parents.push(child);
+      if (child.timeDays >= tStart && child.magnitude >= minMag - 0.05) {
+        events.push({ timeDays: child.timeDays, magnitude: reported(child.magnitude) });
+      }
+    }
+  }
+  return events.sort((x, y) => x.timeDays - y.timeDays);
+}
+
+/**
+ * Synthetic catalogues drawn from the forecast's model, one event list per
+ * catalogue, each sorted by time (days after the mainshock)
+ *
+ * @throws {Error} If the window is empty or the count is not a positive integer
+ */
+export function simulateCatalogues(results: CalculationResults, options: SimulationOptions): SyntheticEvent[][] {
+  const { count, seed, window } = options;
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error('Number of catalogues must be a positive whole number');
+  }
+  if (window.start < 0 || window.end <= window.start) {
+    throw new Error('Simulation window must end after it starts, and start at or after the forecast start time');
+  }
+  const minMag = options.minMagnitude ?? results.magnitudeThresholds[0];
+  const tStart = results.rangeStartDays + window.start;
+  const tEnd = results.rangeStartDays + window.end;
+  const sources = results.additionalSources ?? [];
+  const uncertainty = results.parameterUncertainty;
+  const random = createRandom(seed);
+
+  return Array.from({ length: count }, () => {
+    if (results.etasParams) {
+      return simulateEtas(results.etasParams, results.mainshockMagnitude, sources, tStart, tEnd, minMag, random);
+    }
+    // This catalogue's sequence, drawn from the predictive distribution
+    const { ensemble } = results;
+    const base = ensemble ? ensemble[pick(ensemble.map(m => m.weight), random)].params : results.modelParams;
+    const params = uncertainty
+      ? {
+          ...base,
+          a: base.a + uncertainty.aSd * normal(random),
+          p: Math.max(0.05, base.p + uncertainty.pSd * normal(random)),
+        }
+      : base;
+    const magnitudes = uncertainty?.magnitudes;
+    const mainMag = magnitudes
+      ? magnitudes[pick(magnitudes.map(m => m.weight), random)].magnitude
+      : results.mainshockMagnitude;
+    return simulateReasenbergJones(params, mainMag, sources, tStart, tEnd, minMag, random);
+  });
+}
+
+/**
+ * Cumulative number of events at or above minMag at each of the given
+ * ascending times (days after the mainshock), for plotting a catalogue
+ * against the forecast
+ */
+export function cumulativeCounts(events: SyntheticEvent[], minMag: number, times: number[]): number[] {
+  const eligible = events.filter(e => e.magnitude >= minMag).map(e => e.timeDays);
+  let k = 0;
+  return times.map(t => {
+    while (k < eligible.length && eligible[k] <= t) k++;
+    return k;
+  });
+}
@@ -0,0 +1,28 @@
+// Shared fixture for the tests of modules that work from a snapshot's results
+
+import { MODEL_PRESETS, type CalculationResults, type ModelParameters } from '@/types';
+import { magnitudeBinLabels } from './calculations';
+
+/**
+ * Results of a Reasenberg–Jones forecast starting a day after a mainshock at
+ * midnight on 1 January 2024, with no forecast tables unless overridden
+ */
+export function testResults(
+  mainshockMagnitude: number,
+  thresholds: number[],
+  modelParams: ModelParameters = MODEL_PRESETS.nz,
+  overrides: Partial<CalculationResults> = {}
+): CalculationResults {
+  return {
+    quakeId: 'test',
+    magnitudeThresholds: thresholds,
+    rangeLabels: magnitudeBinLabels(thresholds),
+    forecasts: [],
+    largestAftershock: [],
+    mainshockMagnitude,
+    modelParams,
+    rangeStartDays: 1,
+    quakeTimeISO: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
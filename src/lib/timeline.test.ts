@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { calculateDailyTimeline, forecastForWindow } from './timeline';
+import { calculateWindowForecast, magnitudeBinLabels } from './calculations';
+import { calculateEtasWindowForecast } from './etas';
+import { DEFAULT_INCOMPLETENESS, ETAS_DEFAULTS, MODEL_PRESETS, type CalculationResults } from '@/types';
+
+const thresholds = [3, 5];
+
+function snapshot(quakeTimeISO: string, rangeStartDays = 0): CalculationResults {
+  return {
+    quakeId: 'test',
+    magnitudeThresholds: thresholds,
+    rangeLabels: magnitudeBinLabels(thresholds),
+    forecasts: [],
+    largestAftershock: [],
+    mainshockMagnitude: 6,
+    modelParams: MODEL_PRESETS.nz,
+    rangeStartDays,
+    quakeTimeISO,
+  };
+}
+
+describe('daily timeline', () => {
+  it('splits the forecast into NZ calendar days, the first from the forecast start', () => {
+    // 23:00 NZDT on Friday 25 October 2024
+    const days = calculateDailyTimeline(snapshot('2024-10-25T10:00:00.000Z'), 3);
+    expect(days.map(d => d.label)).toEqual(['Fri 25/10/2024', 'Sat 26/10/2024', 'Sun 27/10/2024']);
+    expect(days.map(d => d.date)).toEqual(['2024-10-25', '2024-10-26', '2024-10-27']);
+    expect(days.map(d => d.partial)).toEqual([true, false, false]);
+    expect(days[0].forecast.window.start).toBe(0);
+    expect(days[0].forecast.window.end).toBeCloseTo(1 / 24, 12);
+    expect(days[1].forecast.window.start).toBe(days[0].forecast.window.end);
+    expect(days[1].forecast.window.end - days[1].forecast.window.start).toBeCloseTo(1, 12);
+  });
+
+  it('follows daylight saving', () => {
+    // Midnight NZST on 28 September 2024; clocks go forward early on the 29th
+    const days = calculateDailyTimeline(snapshot('2024-09-27T12:00:00.000Z'), 3);
+    expect(days[0].partial).toBe(false);
+    const lengths = days.map(d => (d.forecast.window.end - d.forecast.window.start) * 24);
+    expect(lengths[0]).toBeCloseTo(24, 9);
+    expect(lengths[1]).toBeCloseTo(23, 9);
+    expect(lengths[2]).toBeCloseTo(24, 9);
+  });
+
+  it('forecasts each day with the snapshot model', () => {
+    const results = snapshot('2024-10-25T10:00:00.000Z', 0.5);
+    const [, saturday] = calculateDailyTimeline(results, 2);
+    expect(saturday.forecast).toEqual(
+      calculateWindowForecast(saturday.forecast.window, 6, thresholds, 0.5, MODEL_PRESETS.nz)
+    );
+    const window = { start: 0, end: 1 };
+    expect(forecastForWindow({ ...results, etasParams: ETAS_DEFAULTS }, window)).toEqual(
+      calculateEtasWindowForecast(window, 6, thresholds, 0.5, ETAS_DEFAULTS)
+    );
+    const recorded = forecastForWindow({ ...results, incompleteness: DEFAULT_INCOMPLETENESS }, window);
+    expect(recorded.bins.every(bin => bin.recordedNumber !== undefined)).toBe(true);
+  });
+
+  it('rejects a non-positive number of days', () => {
+    expect(() => calculateDailyTimeline(snapshot('2024-10-25T10:00:00.000Z'), 0)).toThrow();
+    expect(() => calculateDailyTimeline(snapshot('2024-10-25T10:00:00.000Z'), 1.5)).toThrow();
+  });
+});
@@ -0,0 +1,121 @@
+// Day-by-day forecast timeline
+//
+// Splits the time after the forecast start into calendar days in New Zealand
+// local time, so a forecast can answer "what about Saturday?" directly. Each
+// day is forecast as its own window with the same model as the table.
+//
+// Documented assumptions:
+// - Days run from midnight to midnight in Pacific/Auckland time, so a day
+//   that starts or ends daylight saving lasts 23 or 25 hours.
+// - The first day starts at the forecast start time, and is a partial day
+//   unless that time is midnight.
+
+import type { CalculationResults, ForecastWindow, WindowForecast } from '@/types';
+import { calculateWindowForecast } from './calculations';
+import { calculateEnsembleWindowForecast } from './ensemble';
+import { calculateEtasWindowForecast } from './etas';
+import { withRecordedNumbers } from './incompleteness';
+
+export const NZ_TIME_ZONE = 'Pacific/Auckland';
+
+const MS_PER_DAY = 86400000;
+
+const NZ_PARTS = new Intl.DateTimeFormat('en-NZ', {
+  timeZone: NZ_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  weekday: 'short',
+  hourCycle: 'h23',
+});
+
+export interface TimelineDay {
+  /** NZ calendar date, yyyy-mm-dd */
+  date: string;
+  /** Weekday and NZ date, e.g. "Sat 26/10/2024" */
+  label: string;
+  /** True when the day starts at the forecast start rather than midnight */
+  partial: boolean;
+  /** The day's forecast; its window is in days after the forecast start */
+  forecast: WindowForecast;
+}
+
+/** NZ wall-clock fields of an instant */
+function nzParts(ms: number): { year: number; month: number; day: number; hour: number; minute: number; second: number; weekday: string } {
+  const parts = Object.fromEntries(NZ_PARTS.formatToParts(new Date(ms)).map(p => [p.type, p.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: parts.weekday,
+  };
+}
+
+/** Instant of midnight NZ time starting the given NZ calendar date (month 1-12; days may overflow) */
+function nzMidnight(year: number, month: number, day: number): number {
+  const wallClock = Date.UTC(year, month - 1, day);
+  // The offset at the first guess can differ from the offset at midnight
+  // only across a daylight-saving change, so a second pass settles it
+  let ms = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const p = nzParts(ms);
+    const offset = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(ms / 1000) * 1000;
+    ms = wallClock - offset;
+  }
+  return ms;
+}
+
+/**
+ * Forecast for any window of a results snapshot, with the snapshot's model,
+ * predictive distribution and sources, and recorded numbers when it models
+ * short-term incompleteness
+ *
+ * @param window - Days after the forecast start time
+ * @throws {Error} If the window is empty or starts before the forecast start
+ */
+export function forecastForWindow(results: CalculationResults, window: ForecastWindow): WindowForecast {
+  const { mainshockMagnitude: mag, magnitudeThresholds: thresholds, rangeStartDays, parameterUncertainty } = results;
+  const sources = results.additionalSources ?? [];
+  const forecast = results.ensemble
+    ? calculateEnsembleWindowForecast(window, mag, thresholds, rangeStartDays, results.ensemble, parameterUncertainty, sources)
+    : results.etasParams
+      ? calculateEtasWindowForecast(window, mag, thresholds, rangeStartDays, results.etasParams, sources)
+      : calculateWindowForecast(window, mag, thresholds, rangeStartDays, results.modelParams, parameterUncertainty, sources);
+  return withRecordedNumbers({ ...results, forecasts: [forecast] })[0];
+}
+
+/**
+ * Forecast for each NZ calendar day from the forecast start: the day it
+ * falls in and the days after it, `days` in all
+ *
+ * @throws {Error} If days is not a positive whole number
+ */
+export function calculateDailyTimeline(results: CalculationResults, days: number): TimelineDay[] {
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error('Number of days must be a positive whole number');
+  }
+  const startMs = Date.parse(results.quakeTimeISO) + results.rangeStartDays * MS_PER_DAY;
+  const first = nzParts(startMs);
+  return Array.from({ length: days }, (_, i) => {
+    const dayStartMs = i === 0 ? startMs : nzMidnight(first.year, first.month, first.day + i);
+    const dayEndMs = nzMidnight(first.year, first.month, first.day + i + 1);
+    const p = nzParts(dayStartMs);
+    const dd = String(p.day).padStart(2, '0');
+    const mm = String(p.month).padStart(2, '0');
+    return {
+      date: `${p.year}-${mm}-${dd}`,
+      label: `${p.weekday} ${dd}/${mm}/${p.year}`,
+      partial: i === 0 && dayStartMs !== nzMidnight(first.year, first.month, first.day),
+      forecast: forecastForWindow(results, {
+        start: (dayStartMs - startMs) / MS_PER_DAY,
+        end: (dayEndMs - startMs) / MS_PER_DAY,
+      }),
+    };
+  });
+}
@@ -8,6 +8,8 @@ export interface QuakeData {
   longitude?: number;
   /** Epicentre latitude (degrees north); absent if GeoNet omitted geometry */
   latitude?: number;
+  /** Hypocentre depth (km); absent if GeoNet omitted it */
+  depth?: number;
 }
 
 export interface GeoNetQuakeResponse {
@@ -30,50 +32,300 @@ export interface GeoNetQuakeResponse {
   }>;
 }
 
+/**
+ * Upper end of the Gutenberg–Richter distribution. 'truncated' allows no
+ * events above the magnitude; 'tapered' rolls the distribution off
+ * exponentially in seismic moment, with the magnitude as the corner.
+ */
+export interface MaxMagnitude {
+  kind: 'truncated' | 'tapered';
+  magnitude: number;
+}
+
+/** Temporal decay kernels for the Reasenberg–Jones rate */
+export type TemporalKernelType = 'omori' | 'stretched-exponential' | 'rate-state';
+
+/**
+ * Temporal decay kernel with its own parameters (times in days). Every
+ * kernel also uses the model's c and p for its early-time behaviour.
+ */
+export type TemporalKernel =
+  | { type: 'omori' }
+  | { type: 'stretched-exponential'; tau: number; beta: number }
+  | { type: 'rate-state'; ta: number };
+
+/**
+ * Short-term incompleteness after a large event: the catalogue records every
+ * event above Mc(t) = M − G − H·log10(t), t in days after the event of
+ * magnitude M (Helmstetter et al. 2006)
+ */
+export interface ShortTermIncompleteness {
+  G: number;
+  H: number;
+}
+
 export interface ModelParameters {
   a: number;
   b: number;
   c: number;
   p: number;
+  /** Maximum or corner magnitude; the Gutenberg–Richter distribution is unbounded when absent */
+  maxMagnitude?: MaxMagnitude;
+  /** Temporal decay kernel; Omori–Utsu (t + c)^-p when absent */
+  kernel?: TemporalKernel;
+}
+
+/**
+ * ETAS (epidemic-type aftershock sequence) parameters. Every event with
+ * M >= mRef triggers aftershocks at rate K·10^(alpha·(M - mRef))·(t + c)^-p
+ * per day, with magnitudes following Gutenberg–Richter with slope b.
+ */
+export interface EtasParameters {
+  /** Productivity: direct aftershocks per day (at t + c = 1) of an M = mRef event */
+  K: number;
+  /** Productivity scaling with magnitude; must be below b */
+  alpha: number;
+  c: number;
+  p: number;
+  b: number;
+  /** Reference (minimum triggering) magnitude */
+  mRef: number;
 }
 
-export interface MagnitudeRanges {
-  m1: number;
-  m2: number;
-  m3: number;
+/**
+ * Sequence-specific Bayesian update of Reasenberg–Jones parameters from the
+ * aftershocks observed before the forecast start
+ */
+export interface SequenceUpdate {
+  /** Generic (preset or custom) parameters used as the prior mean */
+  prior: ModelParameters;
+  /** Posterior-mean parameters used for the forecast */
+  posterior: ModelParameters;
+  /** Prior standard deviations; log10c present only when c was updated */
+  priorSd: { a: number; p: number; log10c?: number };
+  /** Posterior standard deviations; log10c present only when c was updated */
+  posteriorSd: { a: number; p: number; log10c?: number };
+  /** Number of aftershocks with M >= mc in the data window */
+  eventCount: number;
+  /** Completeness magnitude of the data */
+  mc: number;
+  /** Data window, days after the mainshock */
+  tStart: number;
+  tEnd: number;
+}
+
+/** One candidate for the true mainshock magnitude */
+export interface MagnitudeCandidate {
+  magnitude: number;
+  weight: number;
+}
+
+/**
+ * Standard deviations of normally distributed a and p; forecast ranges and
+ * probabilities then come from the posterior predictive count distribution
+ * rather than a Poisson with fixed parameters
+ */
+export interface ParameterUncertainty {
+  aSd: number;
+  pSd: number;
+  /**
+   * Candidate true mainshock magnitudes, weights summing to 1; absent when
+   * the entered magnitude is taken as exact
+   */
+  magnitudes?: MagnitudeCandidate[];
+}
+
+/** How the mainshock magnitude uncertainty is entered */
+export type MagnitudeUncertaintyMode = 'none' | 'sd' | 'candidates';
+
+/** Magnitude uncertainty as entered: a ±σ about the magnitude, or weighted candidates */
+export interface MagnitudeUncertaintyInput {
+  mode: MagnitudeUncertaintyMode;
+  sd: string;
+  candidates: { magnitude: string; weight: string }[];
 }
 
-export interface ForecastDurations {
-  d1: number;
-  d2: number;
-  d3: number;
+/** Upper limit on the number of candidate mainshock magnitudes */
+export const MAX_MAGNITUDE_CANDIDATES = 5;
+
+/** Most magnitude thresholds a forecast reports */
+export const MAX_MAGNITUDE_THRESHOLDS = 6;
+
+/** Units a forecast window can be entered and labelled in */
+export type TimeUnit = 'minutes' | 'hours' | 'days' | 'weeks' | 'months' | 'years';
+
+/** Length of each time unit in days (months and years are Julian averages) */
+export const TIME_UNIT_DAYS: Record<TimeUnit, number> = {
+  minutes: 1 / 1440,
+  hours: 1 / 24,
+  days: 1,
+  weeks: 7,
+  months: 365.25 / 12,
+  years: 365.25,
+};
+
+/** Latest a forecast window may end, in days after the forecast start (10 years) */
+export const MAX_FORECAST_DAYS = 10 * TIME_UNIT_DAYS.years;
+
+/**
+ * A forecast window in days after the forecast start time: [start, end).
+ * { start: 0, end: 7 } is "the next week"; { start: 1, end: 2 } is "tomorrow".
+ * Bounds are always stored in days, unrounded, so sub-day windows stay exact.
+ */
+export interface ForecastWindow {
+  start: number;
+  end: number;
+  /** Unit the window is entered and labelled in (default days) */
+  unit?: TimeUnit;
+}
+
+/** Most forecast windows a forecast reports */
+export const MAX_FORECAST_WINDOWS = 8;
+
+/**
+ * A further source of aftershocks besides the mainshock: the other event of
+ * a doublet, a large aftershock, or a foreshock. Its own Omori–Gutenberg–Richter
+ * sequence is added to the mainshock's.
+ */
+export interface SourceEvent {
+  magnitude: number;
+  /** Days after the mainshock origin time (negative for a foreshock) */
+  timeDays: number;
+}
+
+/** A source event as entered: magnitude text and origin time (ISO, '' while incomplete) */
+export interface SourceEventInput {
+  magnitude: string;
+  time: string;
+}
+
+/** Upper limit on the number of additional source events */
+export const MAX_SOURCE_EVENTS = 5;
+
+/** Past sequences as chosen: a list of quake IDs, or a catalogue query for mainshocks */
+export interface SequenceSelectionInput {
+  mode: 'ids' | 'query';
+  /** Quake IDs separated by spaces, commas or new lines */
+  ids: string;
+  minMagnitude: string;
+  /** Query dates, yyyy-mm-dd (UTC) */
+  start: string;
+  end: string;
+  /** Search box in degrees, longitudes in the 0–360 convention */
+  minLat: string;
+  maxLat: string;
+  minLon: string;
+  maxLon: string;
+}
+
+/** Generic parameters re-derived from past sequences and saved under a name */
+export interface SavedPreset {
+  name: string;
+  params: ModelParameters;
+  /** How the parameters were derived (sequences, events, standard errors) */
+  description: string;
+  /** When it was saved (ISO) */
+  savedAt: string;
 }
 
 export interface ForecastResult {
   averageNumber: string;
   range: string;
   probability: string;
+  /**
+   * Expected number and probability at the low and high ends of the
+   * mainshock magnitude uncertainty, e.g. "3.1-12" and "45%-80%"
+   */
+  magnitudeSpread?: { averageNumber: string; probability: string };
+  /**
+   * Expected number the network records, when short-term incompleteness is
+   * modelled; averageNumber remains the true number
+   */
+  recordedNumber?: string;
+}
+
+export interface WindowForecast {
+  window: ForecastWindow;
+  /**
+   * One entry per magnitude bin, in the order of CalculationResults.rangeLabels:
+   * lowest bin first, the open-ended top bin (e.g. M7+) last
+   */
+  bins: ForecastResult[];
 }
 
-export interface DurationForecast {
-  duration: number;
-  m1: ForecastResult; // M1+ (highest magnitude)
-  m2: ForecastResult; // M2-M1 range
-  m3: ForecastResult; // M3-M2 range (lowest magnitude)
+/**
+ * Distribution of the largest aftershock magnitude in one window, from the
+ * Gutenberg–Richter scaling of the expected count N(≥M)
+ */
+export interface LargestAftershockForecast {
+  window: ForecastWindow;
+  /**
+   * Expected number of aftershocks at or above the mainshock magnitude,
+   * before any maximum magnitude is applied
+   */
+  expectedAtMainshock: number;
+  /** Gutenberg–Richter b-value used to scale N(≥M) to other magnitudes */
+  b: number;
+  /** Maximum or corner magnitude applied on top of the b-value scaling, if any */
+  maxMagnitude?: MaxMagnitude;
+  /** Probability of at least one aftershock at or above the mainshock magnitude */
+  probabilityAtLeastMainshock: number;
+  /**
+   * For an ensemble forecast, each member's weight, count at the mainshock
+   * magnitude and b-value; the distribution is their weighted mixture, and
+   * expectedAtMainshock and b above are the mean count and the
+   * highest-weighted member's b
+   */
+  members?: { weight: number; expectedAtMainshock: number; b: number; maxMagnitude?: MaxMagnitude }[];
+  /** Median largest magnitude, and the bounds of its 95% range */
+  median: number;
+  lower: number;
+  upper: number;
 }
 
 export interface CalculationResults {
   quakeId: string;
-  rangeLabels: {
-    range1: string; // e.g., "M5+"
-    range2: string; // e.g., "M4-M5"
-    range3: string; // e.g., "M3-M4"
-  };
-  forecasts: DurationForecast[];
+  /** Ascending magnitude thresholds; bin i covers [thresholds[i], thresholds[i + 1]) */
+  magnitudeThresholds: number[];
+  /** One label per bin, lowest first, e.g. ["M3-M4", "M4-M5", "M5+"] */
+  rangeLabels: string[];
+  forecasts: WindowForecast[];
+  /** Largest-aftershock distribution, one entry per forecast window */
+  largestAftershock: LargestAftershockForecast[];
   // Inputs snapshot, so visualizations can evaluate the model continuously
   // (rate curves, magnitude-frequency plots) rather than only at table values
   mainshockMagnitude: number;
+  /**
+   * Source events besides the mainshock, whose sequences add to its own.
+   * Absent (or empty) for a single-source forecast.
+   */
+  additionalSources?: SourceEvent[];
+  /**
+   * Present only on a what-if scenario: the hypothetical event, also the
+   * last of additionalSources. Such a snapshot is never a real forecast.
+   */
+  scenario?: SourceEvent;
+  /**
+   * Reasenberg–Jones parameters. For an ETAS forecast these reproduce the
+   * mainshock's direct aftershocks only; the full model is in etasParams.
+   */
   modelParams: ModelParameters;
+  /** Present when the forecast was made with the ETAS model */
+  etasParams?: EtasParameters;
+  /**
+   * Present for an ensemble forecast: its members with normalised weights.
+   * modelParams then holds the highest-weighted member's parameters.
+   */
+  ensemble?: EnsembleComponent[];
+  /**
+   * Present when modelParams is a sequence-specific posterior rather than
+   * the generic parameters (which are kept as the prior)
+   */
+  sequenceUpdate?: SequenceUpdate;
+  /** Present when ranges and probabilities include parameter uncertainty */
+  parameterUncertainty?: ParameterUncertainty;
+  /** Present when recorded counts allow for short-term incompleteness */
+  incompleteness?: ShortTermIncompleteness;
   /** Days between the mainshock origin time and the forecast start */
   rangeStartDays: number;
   /** Mainshock origin time (ISO), for anchoring forecast windows in real time */
@@ -82,7 +334,24 @@ export interface CalculationResults {
   epicenter?: { latitude: number; longitude: number };
 }
 
-export type ModelType = 'nz' | 'sz' | 'california' | 'scr' | 'custom';
+export type ModelType = 'nz' | 'sz' | 'california' | 'scr' | 'custom' | 'etas' | 'ensemble';
+
+/** Model types parameterised by the Reasenberg–Jones a, b, c, p */
+export type RJModelType = Exclude<ModelType, 'etas' | 'ensemble'>;
+
+/** The published Reasenberg–Jones presets, which an ensemble can combine */
+export type PresetModelType = Exclude<RJModelType, 'custom'>;
+
+/** A preset and its (relative) weight in an ensemble */
+export interface EnsembleMember {
+  model: PresetModelType;
+  weight: number;
+}
+
+/** An ensemble member as forecast: weights normalised to sum to 1 */
+export interface EnsembleComponent extends EnsembleMember {
+  params: ModelParameters;
+}
 
 /**
  * Model presets based on scientific literature
@@ -93,7 +362,7 @@ export type ModelType = 'nz' | 'sz' | 'california' | 'scr' | 'custom';
  * - California (ACR): Reasenberg & Jones (1989, 1994); Hardebeck et al. (2019)
  * - Stable Continental: Page et al. (2016) global SCR parameters
  */
-export const MODEL_PRESETS: Record<ModelType, ModelParameters> = {
+export const MODEL_PRESETS: Record<RJModelType, ModelParameters> = {
   // NZ Generic - calibrated for New Zealand active continental region
   nz: { a: -1.59, b: 1.03, c: 0.04, p: 1.07 },
 
@@ -112,6 +381,35 @@ export const MODEL_PRESETS: Record<ModelType, ModelParameters> = {
   custom: { a: -1.59, b: 1.03, c: 0.04, p: 1.07 },
 };
 
+/**
+ * Default ETAS parameters (user-editable). Generic values in the range of
+ * published regional fits (Ogata 1988; Harte 2013), chosen to stay
+ * subcritical (branching ratio below 1) over a two-year horizon.
+ */
+export const ETAS_DEFAULTS: EtasParameters = {
+  K: 0.008, alpha: 0.9, c: 0.01, p: 1.1, b: 1.0, mRef: 3.0,
+};
+
+/**
+ * Default ensemble weights: an even split between NZ Generic and Subduction
+ * Zone, the common case of an event near the plate interface
+ */
+export const ENSEMBLE_DEFAULT_WEIGHTS: Record<PresetModelType, number> = {
+  nz: 0.5, sz: 0.5, california: 0, scr: 0,
+};
+
+/**
+ * Default parameter uncertainty: σ_a = 0.5 is the spread of a between
+ * sequences within a region (Page et al. 2016); p is held fixed
+ */
+export const DEFAULT_PARAMETER_UNCERTAINTY: ParameterUncertainty = { aSd: 0.5, pSd: 0 };
+
+/** Helmstetter et al. (2006) values for California, the starting point when incompleteness is switched on */
+export const DEFAULT_INCOMPLETENESS: ShortTermIncompleteness = { G: 4.5, H: 0.75 };
+
+/** Starting point when a maximum magnitude is switched on */
+export const DEFAULT_MAX_MAGNITUDE: MaxMagnitude = { kind: 'truncated', magnitude: 8.5 };
+
 /**
  * Human-readable model names and descriptions
  */
@@ -136,5 +434,13 @@ export const MODEL_INFO: Record<ModelType, { name: string; description: string }
     name: 'Custom',
     description: 'User-defined parameters'
   },
+  etas: {
+    name: 'ETAS',
+    description: 'Includes aftershocks of aftershocks, Ogata (1988)'
+  },
+  ensemble: {
+    name: 'Ensemble',
+    description: 'Weighted mixture of the preset models\' forecasts'
+  },
 };
 